@@ -26,6 +26,9 @@ export default [
         "error",
         { argsIgnorePattern: "^_", varsIgnorePattern: "^_" },
       ],
+      // Empty *Registry interfaces are declaration-merging targets that users
+      // augment with their own types (e.g. ContentTypeRegistry)
+      "@typescript-eslint/no-empty-object-type": ["error", { allowWithName: "Registry$" }],
     },
   },
   {
@@ -0,0 +1,18 @@
+// Astro content-layer entry point: @leadcms/sdk/astro
+//
+// Expose local LeadCMS content as an Astro content collection:
+//
+//   // src/content.config.ts
+//   import { defineCollection } from "astro:content";
+//   import { leadcmsLoader } from "@leadcms/sdk/astro";
+//
+//   export const collections = {
+//     blog: defineCollection({ loader: leadcmsLoader({ types: ["blog-article"] }) }),
+//   };
+export { leadcmsLoader } from "./lib/astro-loader.js";
+export type {
+  AstroLoaderContext,
+  LeadCMSEntryData,
+  LeadCMSLoader,
+  LeadCMSLoaderOptions,
+} from "./lib/astro-loader.js";
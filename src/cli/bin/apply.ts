@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Apply CLI Entry Point
+ *
+ * Pushes the operations of a plan written by `leadcms push --plan <file>`,
+ * provided the remote and the local files have not changed since.
+ */
+
+import "dotenv/config";
+import { applyPushPlan, readPushPlan } from "../../scripts/push-plan.js";
+import { requireAuthenticatedUser } from "../../scripts/leadcms-helpers.js";
+import { HISTORY_REMOTE_ENTITIES, runSync } from "../../scripts/sync-history.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { colorConsole } from "../../lib/console-colors.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  runJsonCommand,
+  writeJsonError,
+  type EntityReport,
+  type SyncEntity,
+  type SyncStatusResults,
+} from "./json-output.js";
+import { parseRemoteFlag } from "./remote-flag.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "apply");
+const remoteContext = parseRemoteFlag(args);
+const syncOptions = { remoteContext, remote: true, remoteEntities: HISTORY_REMOTE_ENTITIES };
+
+// The plan file is the first argument that is neither a flag nor the --remote value
+const remoteIndex = args.findIndex((arg) => arg === "--remote" || arg === "-r");
+const planFile = args.find(
+  (arg, index) => !arg.startsWith("-") && (remoteIndex === -1 || index !== remoteIndex + 1)
+);
+
+if (!planFile) {
+  console.error("❌ Missing plan file. Usage: leadcms apply <plan-file>");
+  process.exit(1);
+}
+
+await requireAuthenticatedUser(remoteContext?.apiKey);
+
+if (json) {
+  let force = false;
+  try {
+    force = (await readPushPlan(planFile)).options.force ?? false;
+  } catch (error: unknown) {
+    await writeJsonError("apply", error, { remoteContext });
+  }
+  await runJsonCommand(
+    "apply",
+    async () => {
+      const { plan, status, pushed } = await runSync("apply", syncOptions, () =>
+        applyPushPlan(planFile, { remoteContext })
+      );
+      const entities: Partial<Record<SyncEntity, EntityReport>> = {};
+      for (const [entity, result] of Object.entries(status)) {
+        entities[entity as SyncEntity] = pushEntityReport(
+          entity as SyncEntity,
+          result as SyncStatusResults[SyncEntity],
+          plan.options.allowDelete ?? false,
+          pushed[entity as SyncEntity] ?? { successful: 0, failed: 0 }
+        );
+      }
+      return entities;
+    },
+    pushReportOptions(remoteContext, false, force)
+  );
+}
+
+colorConsole.important(`\n📋 Applying push plan ${planFile}…`);
+runSync("apply", syncOptions, () => applyPushPlan(planFile, { remoteContext }))
+  .then(() => {
+    colorConsole.success("\n✅ Push plan applied.");
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    colorConsole.error(`\n❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
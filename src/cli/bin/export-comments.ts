@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Export Comments CLI Entry Point
+ *
+ * Works entirely from local comment files — no remote connection required.
+ * Writes approved comments as public JSON trees, one file per content item.
+ */
+
+import "dotenv/config";
+import { exportComments } from "../../scripts/export-comments.js";
+import type { CommentSortOrder } from "../../lib/comment-utils.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { startSpinner } from "../../lib/spinner.js";
+
+const SORT_ORDERS: CommentSortOrder[] = [
+  "default",
+  "newest",
+  "oldest",
+  "most-replies",
+  "least-replies",
+];
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const dryRun = args.includes("--dry-run") || args.includes("-d") || args.includes("-n");
+const avatars = args.includes("--no-avatars") ? "omit" : undefined;
+
+// Parse --output <dir> / -o <dir> flag
+let outputDir: string | undefined;
+const outputIdx = args.findIndex((a) => a === "--output" || a === "-o");
+if (outputIdx !== -1 && args[outputIdx + 1]) {
+  outputDir = args[outputIdx + 1];
+}
+
+// Parse --language <lang> flag
+let language: string | undefined;
+const langIdx = args.findIndex((a) => a === "--language" || a === "-l");
+if (langIdx !== -1 && args[langIdx + 1]) {
+  language = args[langIdx + 1];
+}
+
+function parseSortFlag(flag: string): CommentSortOrder | undefined {
+  const idx = args.indexOf(flag);
+  if (idx === -1 || !args[idx + 1]) {
+    return undefined;
+  }
+  const value = args[idx + 1] as CommentSortOrder;
+  if (!SORT_ORDERS.includes(value)) {
+    console.error(`❌ Invalid ${flag} value "${value}". Use one of: ${SORT_ORDERS.join(", ")}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Parse --sort <order> and --reply-sort <order> flags
+const sortOrder = parseSortFlag("--sort");
+const replySortOrder = parseSortFlag("--reply-sort");
+
+const spinner = startSpinner("Exporting comments…");
+exportComments({ outputDir, language, avatars, sortOrder, replySortOrder, dryRun })
+  .then(() => {
+    spinner.stop();
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    spinner.fail("Comment export failed");
+    console.error((error as Error).message);
+    process.exit(1);
+  });
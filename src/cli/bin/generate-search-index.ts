@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Generate Search Index CLI Entry Point
+ *
+ * Works entirely from local content — run it after `leadcms pull`.
+ * Writes one JSON search index per language.
+ */
+
+import "dotenv/config";
+import { generateSearchIndex } from "../../scripts/generate-search-index.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { startSpinner } from "../../lib/spinner.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const dryRun = args.includes("--dry-run") || args.includes("-d") || args.includes("-n");
+
+// Parse --output <dir> / -o <dir> flag
+let outputDir: string | undefined;
+const outputIdx = args.findIndex((a) => a === "--output" || a === "-o");
+if (outputIdx !== -1 && args[outputIdx + 1]) {
+  outputDir = args[outputIdx + 1];
+}
+
+// Parse --language <lang> flag
+let language: string | undefined;
+const langIdx = args.findIndex((a) => a === "--language" || a === "-l");
+if (langIdx !== -1 && args[langIdx + 1]) {
+  language = args[langIdx + 1];
+}
+
+// Parse --type <type[,type]> flag
+let types: string[] | undefined;
+const typeIdx = args.findIndex((a) => a === "--type" || a === "-t");
+if (typeIdx !== -1 && args[typeIdx + 1]) {
+  types = args[typeIdx + 1]
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+const spinner = startSpinner("Building search index…");
+generateSearchIndex({ outputDir, language, types, dryRun })
+  .then(() => {
+    spinner.stop();
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    spinner.fail("Search index generation failed");
+    console.error((error as Error).message);
+    process.exit(1);
+  });
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Generate Sitemap CLI Entry Point
+ *
+ * Works from local content — lastmod timestamps come from the remote's
+ * metadata.json, no remote connection is required.
+ * Writes {outputDir}/sitemap.xml plus one sitemap per language.
+ */
+
+import "dotenv/config";
+import path from "path";
+import { generateSitemap } from "../../lib/sitemap-generator.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { startSpinner } from "../../lib/spinner.js";
+import { parseRemoteFlag } from "./remote-flag.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+const remoteContext = parseRemoteFlag(args);
+
+const dryRun = args.includes("--dry-run") || args.includes("-d") || args.includes("-n");
+
+// Parse --output <dir> / -o <dir> flag
+let outputDir: string | undefined;
+const outputIdx = args.findIndex((a) => a === "--output" || a === "-o");
+if (outputIdx !== -1 && args[outputIdx + 1]) {
+  outputDir = args[outputIdx + 1];
+}
+
+// Parse --type <type[,type]> flag
+let types: string[] | undefined;
+const typeIdx = args.findIndex((a) => a === "--type" || a === "-t");
+if (typeIdx !== -1 && args[typeIdx + 1]) {
+  types = args[typeIdx + 1]
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+// Parse --site-url <url> flag
+let siteUrl: string | undefined;
+const siteUrlIdx = args.findIndex((a) => a === "--site-url");
+if (siteUrlIdx !== -1 && args[siteUrlIdx + 1]) {
+  siteUrl = args[siteUrlIdx + 1];
+}
+
+const spinner = startSpinner("Generating sitemaps…");
+generateSitemap({ outputDir, types, siteUrl, remoteContext, dryRun })
+  .then((result) => {
+    spinner.stop();
+    const total = result.sitemaps.reduce((sum, s) => sum + s.urlCount, 0);
+    console.log(`   ✅ ${total} URL(s) in ${result.sitemaps.length} sitemap(s)`);
+    if (result.excludedNoindex > 0) {
+      console.log(`   ℹ️  Excluded ${result.excludedNoindex} noindex item(s)`);
+    }
+    if (dryRun) {
+      console.log(`\n   🔍 Dry run — no files written`);
+    }
+    const verb = dryRun ? "Would write" : "Written";
+    console.log(`   📄 ${verb}: ${result.indexFile}`);
+    for (const sitemap of result.sitemaps) {
+      console.log(
+        `   📄 ${verb}: ${path.basename(sitemap.file)} (${sitemap.urlCount} URLs) → ${sitemap.url}`
+      );
+    }
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    spinner.fail("Sitemap generation failed");
+    console.error((error as Error).message);
+    process.exit(1);
+  });
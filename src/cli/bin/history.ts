@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS History CLI Entry Point
+ *
+ * Works entirely on local files — no remote connection required.
+ * Lists the pull and push operations recorded in .leadcms/history/.
+ */
+
+import "dotenv/config";
+import { getHistoryEntry, listHistory, type HistoryEntry } from "../../scripts/sync-history.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { colorConsole, statusColors } from "../../lib/console-colors.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const id = args.find((arg) => !arg.startsWith("-"));
+
+function remoteChangeCount(entry: HistoryEntry): number {
+  return Object.values(entry.remoteChanges ?? {}).reduce(
+    (count, changes) => count + changes.length,
+    0
+  );
+}
+
+function describe(entry: HistoryEntry): string {
+  const parts = [`${entry.files.length} file(s)`];
+  const remoteChanges = remoteChangeCount(entry);
+  if (remoteChanges > 0) parts.push(`${remoteChanges} remote item(s)`);
+  if (entry.remote) parts.push(`remote ${entry.remote}`);
+  if (entry.error) parts.push(statusColors.conflict("failed"));
+  if (entry.undoneAt) parts.push(colorConsole.gray("undone"));
+  return parts.join(", ");
+}
+
+function printEntry(entry: HistoryEntry): void {
+  colorConsole.important(`\n${entry.id}  leadcms ${entry.command}`);
+  console.log(`   ${new Date(entry.createdAt).toLocaleString()} — ${describe(entry)}`);
+  if (entry.error) {
+    colorConsole.warn(`   Failed: ${entry.error}`);
+  }
+
+  if (entry.files.length > 0) {
+    console.log("\n   Files:");
+    for (const change of entry.files) {
+      if (!change.before) {
+        console.log(`   ${statusColors.created("added")}     ${change.path}`);
+      } else if (!change.after) {
+        console.log(`   ${statusColors.conflict("deleted")}   ${change.path}`);
+      } else {
+        console.log(`   ${statusColors.modified("modified")}  ${change.path}`);
+      }
+    }
+  }
+
+  for (const [entity, changes] of Object.entries(entry.remoteChanges ?? {})) {
+    if (changes.length === 0) continue;
+    console.log(`\n   Remote ${entity}:`);
+    for (const change of changes) {
+      const action = !change.before ? "created" : !change.after ? "deleted" : "updated";
+      console.log(`   ${action.padEnd(9)} #${change.id}`);
+    }
+  }
+
+  if (!entry.undoneAt) {
+    console.log(`\n   Undo with: leadcms undo ${entry.id}`);
+  }
+}
+
+async function main(): Promise<void> {
+  if (id) {
+    printEntry(await getHistoryEntry(id));
+    return;
+  }
+
+  const entries = await listHistory();
+  if (entries.length === 0) {
+    console.log("No recorded operations. Pulls and pushes are recorded in .leadcms/history/.");
+    return;
+  }
+  colorConsole.important(`\n📜 ${entries.length} recorded operation(s), newest first:\n`);
+  for (const entry of entries) {
+    const date = new Date(entry.createdAt).toLocaleString();
+    console.log(`   ${entry.id}  ${date}  ${entry.command.padEnd(20)} ${describe(entry)}`);
+  }
+  console.log('\n💡 Run "leadcms history <id>" for details, "leadcms undo <id>" to undo.');
+}
+
+main().catch((error: unknown) => {
+  colorConsole.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,347 @@
+/**
+ * Shared --json flag handling for the status, push and pull CLI bin scripts.
+ *
+ * In JSON mode everything the commands normally print (console, colorConsole,
+ * prompts) is sent to stderr, and stdout carries exactly one JSON report
+ * (see JsonReport, schema version JSON_REPORT_SCHEMA_VERSION). The process
+ * exit code reflects the outcome (see EXIT_CODES).
+ */
+
+import fs from "fs";
+import type { PullResult } from "../../lib/pull-result.js";
+import type { PushResult } from "../../lib/push-result.js";
+import type { RemoteContext } from "../../lib/remote-context.js";
+import type { SettingsStatusResult } from "../../lib/settings-types.js";
+import type { CommentStatusResult } from "../../scripts/push-comments.js";
+import type { EmailTemplateStatusResult } from "../../scripts/push-email-templates.js";
+import type { ContentStatusResult } from "../../scripts/push-leadcms-content.js";
+import type { MediaStatusResult } from "../../scripts/push-media.js";
+import type { RedirectStatusResult } from "../../scripts/push-redirects.js";
+import type { SegmentStatusResult } from "../../scripts/push-segments.js";
+import type { SequenceStatusResult } from "../../scripts/push-sequences.js";
+
+/** Version of the JsonReport format. Incremented on breaking changes only. */
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+/** Exit codes of commands run with --json */
+export const EXIT_CODES = {
+  /** Local files and the remote are in sync, or the command completed */
+  clean: 0,
+  /** The command failed, or items failed to push */
+  error: 1,
+  /** There are changes to push or pull */
+  changes: 2,
+  /** There are conflicts that need manual resolution (or --force) */
+  conflicts: 3,
+} as const;
+
+export type SyncOutcome = keyof typeof EXIT_CODES;
+
+/** Status results per entity, as built for `leadcms status` */
+export interface SyncStatusResults {
+  content: ContentStatusResult;
+  comments: CommentStatusResult;
+  media: MediaStatusResult;
+  emailTemplates: EmailTemplateStatusResult;
+  settings: SettingsStatusResult;
+  segments: SegmentStatusResult;
+  sequences: SequenceStatusResult;
+  redirects: RedirectStatusResult;
+}
+
+export type SyncEntity = keyof SyncStatusResults;
+
+export interface EntityReport {
+  /** Items that differ between local files and the remote (for pull: items the pull changed) */
+  changes: number;
+  /** Items changed on both sides (for pull: files the pull left with merge conflict markers) */
+  conflicts: number;
+  /** Structured result: the status result for status and push, the PullResult for pull */
+  result: unknown;
+  /** Set for push commands that pushed: items of this entity the remote rejected */
+  failed?: number;
+  /** Set when this entity could not be checked */
+  error?: string;
+}
+
+/**
+ * The JSON document written to stdout with --json
+ */
+export interface JsonReport {
+  schemaVersion: typeof JSON_REPORT_SCHEMA_VERSION;
+  /** CLI command, e.g. "status", "push-content", "pull" */
+  command: string;
+  /** Remote name in multi-remote mode, otherwise null */
+  remote: string | null;
+  outcome: SyncOutcome;
+  exitCode: number;
+  /** Set for push commands: whether changes were only previewed */
+  dryRun?: boolean;
+  summary: {
+    changes: number;
+    conflicts: number;
+    /** Set for push commands that pushed: items the remote rejected */
+    failed?: number;
+  };
+  entities: Partial<Record<SyncEntity, EntityReport>>;
+  /** Set when the command failed */
+  error?: { message: string };
+}
+
+let writeStdout: typeof process.stdout.write | null = null;
+let reportWritten = false;
+
+/**
+ * Enable JSON mode when args contain --json: from here on, stdout writes go
+ * to stderr, so only writeJsonReport() reaches stdout. Call it before anything
+ * is printed (e.g. before parseRemoteFlag()).
+ *
+ * If the process exits without a report (e.g. a script calls process.exit(1)),
+ * an error report for `command` is written on exit.
+ */
+export function initJsonOutputFromArgs(args: string[], command: string): boolean {
+  if (!args.includes("--json")) {
+    return false;
+  }
+  if (!writeStdout) {
+    writeStdout = process.stdout.write.bind(process.stdout);
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+    process.on("exit", (code) => {
+      if (reportWritten) return;
+      const report: JsonReport = {
+        ...buildJsonReport(command, {}),
+        outcome: "error",
+        exitCode: EXIT_CODES.error,
+        error: { message: `leadcms ${command} exited with code ${code}, see stderr` },
+      };
+      fs.writeSync(1, `${JSON.stringify(report, null, 2)}\n`);
+      process.exitCode = EXIT_CODES.error;
+    });
+  }
+  return true;
+}
+
+function countOperations(
+  operations: { type: string }[],
+  showDelete: boolean
+): { changes: number; conflicts: number } {
+  const changed = operations.filter(
+    (op) => op.type !== "skip" && (showDelete || op.type !== "delete")
+  );
+  return {
+    changes: changed.length,
+    conflicts: changed.filter((op) => op.type === "conflict").length,
+  };
+}
+
+/**
+ * Count changes and conflicts of a status result the way `leadcms status` does.
+ * Local deletions only count with showDelete (--delete).
+ */
+export function countStatusChanges<K extends SyncEntity>(
+  entity: K,
+  result: SyncStatusResults[K],
+  showDelete = false
+): { changes: number; conflicts: number } {
+  switch (entity) {
+    case "content": {
+      const ops = (result as ContentStatusResult).operations;
+      return {
+        changes:
+          ops.create.length +
+          ops.remoteCreated.length +
+          ops.update.length +
+          ops.rename.length +
+          ops.typeChange.length +
+          ops.conflict.length +
+          ops.remoteDeleted.length +
+          (showDelete ? ops.delete.length : 0),
+        conflicts: ops.conflict.length,
+      };
+    }
+    case "media": {
+      const { summary } = result as MediaStatusResult;
+      return {
+        changes:
+          summary.creates +
+          summary.remoteCreateds +
+          summary.updates +
+          summary.remoteDeleteds +
+          (showDelete ? summary.deletes : 0),
+        conflicts: 0,
+      };
+    }
+    case "settings":
+      return {
+        changes: (result as SettingsStatusResult).comparisons.filter((c) => c.status !== "in-sync")
+          .length,
+        conflicts: 0,
+      };
+    default:
+      return countOperations((result as { operations: { type: string }[] }).operations, showDelete);
+  }
+}
+
+/** Report entry for a status result (null when the entity could not be checked) */
+export function statusEntityReport<K extends SyncEntity>(
+  entity: K,
+  result: SyncStatusResults[K] | null,
+  showDelete = false,
+  error?: unknown
+): EntityReport {
+  if (!result) {
+    return {
+      changes: 0,
+      conflicts: 0,
+      result: null,
+      error: error instanceof Error ? error.message : "Status could not be determined",
+    };
+  }
+  return { ...countStatusChanges(entity, result, showDelete), result };
+}
+
+/**
+ * Report entry for a pushed entity: the status it pushed, and the items that
+ * failed to push. Pass no pushed result for a dry run.
+ */
+export function pushEntityReport<K extends SyncEntity>(
+  entity: K,
+  result: SyncStatusResults[K],
+  showDelete: boolean,
+  pushed?: PushResult
+): EntityReport {
+  return {
+    ...statusEntityReport(entity, result, showDelete),
+    ...(pushed ? { failed: pushed.failed } : {}),
+  };
+}
+
+/** Report entry for a pulled entity: the changes it pulled and the files it left with conflicts */
+export function pullEntityReport(result: PullResult): EntityReport {
+  return { changes: result.changes, conflicts: result.conflictedFiles.length, result };
+}
+
+export interface JsonReportOptions {
+  remoteContext?: RemoteContext;
+  /** Push commands: preview only */
+  dryRun?: boolean;
+  /**
+   * Push commands that pushed (not a dry run): the reported status is the state
+   * before pushing, so the outcome is "clean" unless conflicts were left
+   * unpushed (no --force) or items failed to push.
+   */
+  pushed?: { force: boolean };
+  /** Pull commands: the changes were pulled, so the outcome is "clean" unless files were left with conflicts */
+  pulled?: boolean;
+}
+
+/**
+ * Push commands do not prompt with --json, so they only push when args contain
+ * --yes (or -y). Otherwise an error report is written and the process exits.
+ * Call it only for runs that would push (not for --dry-run, --status or --plan).
+ */
+export async function requireJsonPushConfirmation(
+  command: string,
+  args: string[],
+  options: JsonReportOptions = {}
+): Promise<void> {
+  if (args.includes("--yes") || args.includes("-y")) {
+    return;
+  }
+  await writeJsonError(
+    command,
+    new Error(
+      `leadcms ${command} --json does not ask for confirmation: pass --yes to push, or --dry-run to preview`
+    ),
+    options
+  );
+}
+
+/** Report options for a push command: a dry run only previews, otherwise the changes were pushed */
+export function pushReportOptions(
+  remoteContext: RemoteContext | undefined,
+  dryRun: boolean,
+  force: boolean
+): JsonReportOptions {
+  return { remoteContext, dryRun, pushed: dryRun ? undefined : { force } };
+}
+
+/** Build the report; the outcome follows from the entity counts */
+export function buildJsonReport(
+  command: string,
+  entities: Partial<Record<SyncEntity, EntityReport>>,
+  options: JsonReportOptions = {}
+): JsonReport {
+  const reports = Object.values(entities) as EntityReport[];
+  const failed = reports.reduce((sum, report) => sum + (report.failed ?? 0), 0);
+  const summary: JsonReport["summary"] = {
+    changes: reports.reduce((sum, report) => sum + report.changes, 0),
+    conflicts: reports.reduce((sum, report) => sum + report.conflicts, 0),
+    ...(options.pushed ? { failed } : {}),
+  };
+
+  let outcome: SyncOutcome;
+  if (reports.some((report) => report.error) || failed > 0) {
+    outcome = "error";
+  } else if (summary.conflicts > 0 && !options.pushed?.force) {
+    outcome = "conflicts";
+  } else if (summary.changes > 0 && !options.pushed && !options.pulled) {
+    outcome = "changes";
+  } else {
+    outcome = "clean";
+  }
+
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    command,
+    remote: options.remoteContext?.name ?? null,
+    outcome,
+    exitCode: EXIT_CODES[outcome],
+    ...(options.dryRun !== undefined ? { dryRun: options.dryRun } : {}),
+    summary,
+    entities,
+    ...(failed > 0 ? { error: { message: `${failed} item(s) failed to push, see stderr` } } : {}),
+  };
+}
+
+/** Write the report to stdout and exit with its exit code */
+export function writeJsonReport(report: JsonReport): Promise<never> {
+  const write = writeStdout ?? process.stdout.write.bind(process.stdout);
+  reportWritten = true;
+  return new Promise(() => {
+    // Exit only after the write is flushed: stdout may be a pipe
+    write(`${JSON.stringify(report, null, 2)}\n`, () => process.exit(report.exitCode));
+  });
+}
+
+/** Write an error report for a failed command and exit with EXIT_CODES.error */
+export function writeJsonError(
+  command: string,
+  error: unknown,
+  options: JsonReportOptions = {}
+): Promise<never> {
+  return writeJsonReport({
+    ...buildJsonReport(command, {}, options),
+    outcome: "error",
+    exitCode: EXIT_CODES.error,
+    error: { message: error instanceof Error ? error.message : String(error) },
+  });
+}
+
+/**
+ * Run a command in JSON mode: build the entity reports, then write the report
+ * (or an error report if building failed) and exit.
+ */
+export async function runJsonCommand(
+  command: string,
+  run: () => Promise<Partial<Record<SyncEntity, EntityReport>>>,
+  options: JsonReportOptions = {}
+): Promise<never> {
+  let entities: Partial<Record<SyncEntity, EntityReport>>;
+  try {
+    entities = await run();
+  } catch (error: unknown) {
+    return writeJsonError(command, error, options);
+  }
+  return writeJsonReport(buildJsonReport(command, entities, options));
+}
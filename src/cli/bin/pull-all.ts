@@ -6,12 +6,21 @@
 import "dotenv/config";
 import { pullAll } from "../../scripts/pull-all.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "pull");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse target ID or slug
@@ -38,13 +47,29 @@ const force = args.includes("--force") || args.includes("-f");
 await resolveIdentity(remoteContext?.apiKey);
 
 const spinner = startSpinner("Pulling from LeadCMS…");
-pullAll({ targetId, targetSlug, reset, force, remoteContext })
-  .then(() => {
+runSync("pull", { remoteContext }, () =>
+  pullAll({ targetId, targetSlug, reset, force, remoteContext })
+)
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull",
+          Object.fromEntries(
+            Object.entries(result).map(([entity, pulled]) => [entity, pullEntityReport(pulled)])
+          ),
+          { remoteContext, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull", error, { remoteContext });
+    }
     process.exit(1);
   });
@@ -6,13 +6,22 @@
 import "dotenv/config";
 import { pullContent } from "../../scripts/pull-content.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
 import { parseContentStatusFilter } from "./content-status-args.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "pull-content");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse target ID or slug
@@ -36,13 +45,27 @@ const statusFilter = parseContentStatusFilter(args);
 await resolveIdentity(remoteContext?.apiKey);
 
 const spinner = startSpinner("Pulling content from LeadCMS…");
-pullContent({ targetId, targetSlug, statusFilter, reset, force, remoteContext })
-  .then(() => {
+runSync("pull-content", { remoteContext }, () =>
+  pullContent({ targetId, targetSlug, statusFilter, reset, force, remoteContext })
+)
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull-content",
+          { content: pullEntityReport(result) },
+          { remoteContext, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Content pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull-content", error, { remoteContext });
+    }
     process.exit(1);
   });
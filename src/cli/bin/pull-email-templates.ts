@@ -6,12 +6,21 @@
 import "dotenv/config";
 import { pullEmailTemplates } from "../../scripts/pull-email-templates.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "pull-email-templates");
 const remoteContext = parseRemoteFlag(args);
 
 let targetId: string | undefined;
@@ -25,13 +34,27 @@ const reset = args.includes("--reset");
 await resolveIdentity();
 
 const spinner = startSpinner("Pulling email templates from LeadCMS…");
-pullEmailTemplates({ targetId, reset, remoteContext })
-  .then(() => {
+runSync("pull-email-templates", { remoteContext }, () =>
+  pullEmailTemplates({ targetId, reset, remoteContext })
+)
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull-email-templates",
+          { emailTemplates: pullEntityReport(result) },
+          { remoteContext, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Email template pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull-email-templates", error, { remoteContext });
+    }
     process.exit(1);
   });
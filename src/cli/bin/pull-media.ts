@@ -6,25 +6,48 @@
 import "dotenv/config";
 import { pullMedia } from "../../scripts/pull-media.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "pull-media");
 const remoteCtx = parseRemoteFlag(args);
 const reset = args.includes("--reset");
 
 await resolveIdentity();
 
 const spinner = startSpinner("Pulling media from LeadCMS…");
-pullMedia({ reset, remoteContext: remoteCtx })
-  .then(() => {
+runSync("pull-media", { remoteContext: remoteCtx }, () =>
+  pullMedia({ reset, remoteContext: remoteCtx })
+)
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull-media",
+          { media: pullEntityReport(result) },
+          { remoteContext: remoteCtx, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Media pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull-media", error, { remoteContext: remoteCtx });
+    }
     process.exit(1);
   });
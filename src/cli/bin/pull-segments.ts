@@ -6,25 +6,46 @@
 import "dotenv/config";
 import { pullLeadCMSSegments } from "../../scripts/pull-segments.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "pull-segments");
 const remoteContext = parseRemoteFlag(args);
 const reset = args.includes("--reset");
 
 await resolveIdentity();
 
 const spinner = startSpinner("Pulling segments from LeadCMS…");
-pullLeadCMSSegments({ reset, remoteContext })
-  .then(() => {
+runSync("pull-segments", { remoteContext }, () => pullLeadCMSSegments({ reset, remoteContext }))
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull-segments",
+          { segments: pullEntityReport(result) },
+          { remoteContext, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Segment pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull-segments", error, { remoteContext });
+    }
     process.exit(1);
   });
@@ -6,13 +6,22 @@
 import "dotenv/config";
 import { pullSettings } from "../../scripts/pull-settings.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  writeJsonError,
+  writeJsonReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
-parseRemoteFlag(args);
+const json = initJsonOutputFromArgs(args, "pull-settings");
+const remoteContext = parseRemoteFlag(args);
 
 // Parse --name flag
 let targetName: string | undefined;
@@ -26,13 +35,25 @@ const reset = args.includes("--reset");
 await resolveIdentity();
 
 const spinner = startSpinner("Pulling settings from LeadCMS…");
-pullSettings({ targetName, reset })
-  .then(() => {
+runSync("pull-settings", { remoteContext }, () => pullSettings({ targetName, reset }))
+  .then(async (result) => {
     spinner.stop();
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "pull-settings",
+          { settings: pullEntityReport(result) },
+          { remoteContext, pulled: true }
+        )
+      );
+    }
     process.exit(0);
   })
-  .catch((error: unknown) => {
+  .catch(async (error: unknown) => {
     spinner.fail("Settings pull failed");
     console.error((error as Error).message);
+    if (json) {
+      await writeJsonError("pull-settings", error, { remoteContext });
+    }
     process.exit(1);
   });
@@ -38,6 +38,24 @@ import { initVerboseFromArgs } from "../../lib/logger.js";
 import { colorConsole, statusColors } from "../../lib/console-colors.js";
 import { startSpinner } from "../../lib/spinner.js";
 import { parseRemoteFlag } from "./remote-flag.js";
+import {
+  createPushPlan,
+  printPushPlanSummary,
+  writePushPlan,
+  type PushPlan,
+} from "../../scripts/push-plan.js";
+import { runSync, type HistoryRemoteEntity } from "../../scripts/sync-history.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  statusEntityReport,
+  writeJsonError,
+  writeJsonReport,
+  type EntityReport,
+  type SyncEntity,
+} from "./json-output.js";
 
 import type {
   ContentOperations,
@@ -51,12 +69,14 @@ import type {
   EmailTemplateStatusResult,
 } from "../../scripts/push-email-templates.js";
 import type { SettingsStatusResult } from "../../lib/settings-types.js";
+import type { PushResult } from "../../lib/push-result.js";
 import type { SegmentOperation, SegmentStatusResult } from "../../scripts/push-segments.js";
 import type { SequenceOperation, SequenceStatusResult } from "../../scripts/push-sequences.js";
 import type { RedirectOperation, RedirectStatusResult } from "../../scripts/push-redirects.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse common flags
@@ -85,6 +105,17 @@ if (scopeIndex !== -1 && args[scopeIndex + 1]) {
   scopeUid = args[scopeIndex + 1];
 }
 
+// Write a plan for `leadcms apply` instead of pushing
+let planFile: string | undefined;
+const planIndex = args.findIndex((arg) => arg === "--plan");
+if (planIndex !== -1 && args[planIndex + 1]) {
+  planFile = args[planIndex + 1];
+}
+
+if (json && !dryRun && !planFile) {
+  await requireJsonPushConfirmation("push", args, { remoteContext });
+}
+
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
 function sortByLocaleAndSlug<T>(
@@ -549,6 +580,11 @@ async function pushAll() {
     let segmentResult: SegmentStatusResult | null = null;
     let sequenceResult: SequenceStatusResult | null = null;
     let redirectResult: RedirectStatusResult | null = null;
+    const errors: Partial<Record<SyncEntity, unknown>> = {};
+    const fail = (entity: SyncEntity) => (err: unknown) => {
+      errors[entity] = err;
+      return null;
+    };
 
     try {
       [
@@ -562,24 +598,26 @@ async function pushAll() {
         redirectResult,
       ] = await Promise.all([
         getContentStatusData({ showDelete: allowDelete, remoteContext }),
-        buildCommentStatus({ showDelete: allowDelete, remoteContext }).catch(() => null),
+        buildCommentStatus({ showDelete: allowDelete, remoteContext }).catch(fail("comments")),
         statusMedia({ scopeUid, showDelete: allowDelete, silent: true, remoteContext }).catch(
-          () => null
+          fail("media")
         ),
         canCheckEmailTemplates
-          ? buildEmailTemplateStatus({ showDelete: allowDelete, remoteContext }).catch(() => null)
+          ? buildEmailTemplateStatus({ showDelete: allowDelete, remoteContext }).catch(
+            fail("emailTemplates")
+          )
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? getSettingsStatusData({ showDelete: allowDelete }).catch(() => null)
+          ? getSettingsStatusData({ showDelete: allowDelete, remoteContext }).catch(fail("settings"))
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildSegmentStatus({ showDelete: allowDelete, remoteContext }).catch(() => null)
+          ? buildSegmentStatus({ showDelete: allowDelete, remoteContext }).catch(fail("segments"))
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildSequenceStatus({ showDelete: allowDelete, remoteContext }).catch(() => null)
+          ? buildSequenceStatus({ showDelete: allowDelete, remoteContext }).catch(fail("sequences"))
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildRedirectStatus({ showDelete: allowDelete, remoteContext }).catch(() => null)
+          ? buildRedirectStatus({ showDelete: allowDelete, remoteContext }).catch(fail("redirects"))
           : Promise.resolve(null),
       ]);
       spinner.stop();
@@ -588,6 +626,53 @@ async function pushAll() {
       throw err;
     }
 
+    // Pre-push status for --json; written after pushing (or instead of it on a dry run)
+    const jsonEntities: Partial<Record<SyncEntity, EntityReport>> = {
+      content: statusEntityReport("content", contentResult, allowDelete),
+      comments: statusEntityReport("comments", commentResult, allowDelete, errors.comments),
+      media: statusEntityReport("media", mediaResult, allowDelete, errors.media),
+      ...(canCheckEmailTemplates
+        ? {
+          emailTemplates: statusEntityReport(
+            "emailTemplates",
+            emailResult,
+            allowDelete,
+            errors.emailTemplates
+          ),
+          settings: statusEntityReport("settings", settingsResult, allowDelete, errors.settings),
+          segments: statusEntityReport("segments", segmentResult, allowDelete, errors.segments),
+          sequences: statusEntityReport("sequences", sequenceResult, allowDelete, errors.sequences),
+          redirects: statusEntityReport("redirects", redirectResult, allowDelete, errors.redirects),
+        }
+        : {}),
+    };
+    const jsonReportOptions = pushReportOptions(remoteContext, dryRun, force);
+
+    // --plan: save the operations now, show the status as usual, then stop before pushing
+    let plan: PushPlan | null = null;
+    if (planFile) {
+      const failed = Object.keys(errors);
+      if (failed.length > 0) {
+        throw new Error(`Cannot create a push plan: status check failed for ${failed.join(", ")}`);
+      }
+      plan = createPushPlan(
+        "push",
+        {
+          content: contentResult ?? undefined,
+          comments: commentResult ?? undefined,
+          media: mediaResult ?? undefined,
+          emailTemplates: emailResult ?? undefined,
+          settings: settingsResult ?? undefined,
+          segments: segmentResult ?? undefined,
+          sequences: sequenceResult ?? undefined,
+          redirects: redirectResult ?? undefined,
+        },
+        { force, allowDelete, targetId, targetSlug, scopeUid },
+        remoteContext
+      );
+      await writePushPlan(planFile, plan);
+    }
+
     // ── Phase 2: Compute change counts ───────────────────────────────────
 
     const contentOps = contentResult?.operations ?? null;
@@ -739,6 +824,12 @@ async function pushAll() {
         );
       }
       console.log("");
+      if (plan && planFile) {
+        printPushPlanSummary(plan, planFile);
+      }
+      if (json) {
+        await writeJsonReport(buildJsonReport("push", jsonEntities, jsonReportOptions));
+      }
       return;
     }
 
@@ -987,83 +1078,200 @@ async function pushAll() {
 
     // ── Phase 4: Dry run or confirm ──────────────────────────────────────
 
+    if (plan && planFile) {
+      printPushPlanSummary(plan, planFile);
+      if (json) {
+        await writeJsonReport(
+          buildJsonReport("push", jsonEntities, pushReportOptions(remoteContext, true, force))
+        );
+      }
+      return;
+    }
+
     if (dryRun) {
       colorConsole.important(
         `\n💡 Dry run — ${totalPushChanges} change(s) would be pushed. Use without --dry-run to execute.`
       );
+      if (json) {
+        await writeJsonReport(buildJsonReport("push", jsonEntities, jsonReportOptions));
+      }
       return;
     }
 
     if (totalPushChanges === 0) {
       colorConsole.success("\n✅ Nothing to push. Remote-only changes are shown above for visibility.");
+      if (json) {
+        await writeJsonReport(buildJsonReport("push", jsonEntities, jsonReportOptions));
+      }
       return;
     }
 
-    const confirmed = await promptConfirm(
-      `Proceed with pushing ${totalPushChanges} change(s) to LeadCMS? (y/N): `
-    );
-    if (!confirmed) {
-      console.log("🚫 Push cancelled.");
-      return;
+    // With --json, the push was confirmed with --yes (see requireJsonPushConfirmation())
+    if (!json) {
+      const confirmed = await promptConfirm(
+        `Proceed with pushing ${totalPushChanges} change(s) to LeadCMS? (y/N): `
+      );
+      if (!confirmed) {
+        console.log("🚫 Push cancelled.");
+        return;
+      }
     }
 
     // ── Phase 5: Execute pushes ──────────────────────────────────────────
 
     console.log("");
 
-    if (settingsPushChanges > 0) {
-      colorConsole.important("  ⚙️  Pushing settings…");
-      await pushSettings({ dryRun, force, allowDelete, quiet: true });
-    }
+    // Remote entities whose changes `leadcms undo` can push back
+    const remoteEntities: HistoryRemoteEntity[] = [
+      ...(contentPushChanges > 0 ? ["content" as const] : []),
+      ...(emailPushChanges > 0 ? ["emailTemplates" as const] : []),
+      ...(segmentPushChanges > 0 ? ["segments" as const] : []),
+      ...(sequencePushChanges > 0 ? ["sequences" as const] : []),
+      ...(redirectPushChanges > 0 ? ["redirects" as const] : []),
+    ];
+
+    // Items that failed to push, reported per entity with --json
+    const recordPushed = (entity: SyncEntity, pushed: PushResult) => {
+      const report = jsonEntities[entity];
+      if (report && !dryRun) {
+        jsonEntities[entity] = { ...report, failed: pushed.failed };
+      }
+    };
+
+    await runSync("push", { remoteContext, remote: true, remoteEntities, dryRun }, async () => {
+      if (settingsPushChanges > 0) {
+        colorConsole.important("  ⚙️  Pushing settings…");
+        recordPushed(
+          "settings",
+          await pushSettings({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status: settingsResult ?? undefined,
+          })
+        );
+      }
 
-    if (contentPushChanges > 0) {
-      colorConsole.important("  📝 Pushing content…");
-      await pushLeadCMSContent({
-        statusOnly: false,
-        force,
-        targetId,
-        targetSlug,
-        dryRun,
-        allowDelete,
-        syncAfterPush: false,
-        remoteContext,
-        quiet: true,
-      });
-    }
+      if (contentPushChanges > 0) {
+        colorConsole.important("  📝 Pushing content…");
+        recordPushed(
+          "content",
+          await pushLeadCMSContent({
+            statusOnly: false,
+            force,
+            targetId,
+            targetSlug,
+            dryRun,
+            allowDelete,
+            syncAfterPush: false,
+            remoteContext,
+            quiet: true,
+            status: contentResult ?? undefined,
+          })
+        );
+      }
 
-    if (emailPushChanges > 0) {
-      colorConsole.important("  📧 Pushing email templates…");
-      await pushEmailTemplates({ dryRun, force, allowDelete, quiet: true, remoteContext });
-    }
+      if (emailPushChanges > 0) {
+        colorConsole.important("  📧 Pushing email templates…");
+        recordPushed(
+          "emailTemplates",
+          await pushEmailTemplates({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status: emailResult ?? undefined,
+          })
+        );
+      }
 
-    if (commentPushChanges > 0) {
-      colorConsole.important("  💬 Pushing comments…");
-      await pushComments({ dryRun, force, allowDelete, remoteContext });
-    }
+      if (commentPushChanges > 0) {
+        colorConsole.important("  💬 Pushing comments…");
+        recordPushed(
+          "comments",
+          await pushComments({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: json,
+            remoteContext,
+            status: commentResult ?? undefined,
+          })
+        );
+      }
 
-    if (mediaPushChanges > 0) {
-      colorConsole.important("  📷 Pushing media…");
-      await pushMedia({ dryRun, force, scopeUid, allowDelete, remoteContext, quiet: true });
-    }
+      if (mediaPushChanges > 0) {
+        colorConsole.important("  📷 Pushing media…");
+        const mediaPushed = await pushMedia({
+          dryRun,
+          force,
+          scopeUid,
+          allowDelete,
+          remoteContext,
+          quiet: true,
+          status: mediaResult ?? undefined,
+        });
+        recordPushed("media", mediaPushed.executed);
+      }
 
-    if (segmentPushChanges > 0) {
-      colorConsole.important("  🔖 Pushing segments…");
-      await pushSegments({ dryRun, force, allowDelete, quiet: true, remoteContext });
-    }
+      if (segmentPushChanges > 0) {
+        colorConsole.important("  🔖 Pushing segments…");
+        recordPushed(
+          "segments",
+          await pushSegments({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status: segmentResult ?? undefined,
+          })
+        );
+      }
 
-    if (sequencePushChanges > 0) {
-      colorConsole.important("  🔗 Pushing sequences…");
-      await pushSequences({ dryRun, force, allowDelete, quiet: true, remoteContext });
-    }
+      if (sequencePushChanges > 0) {
+        colorConsole.important("  🔗 Pushing sequences…");
+        recordPushed(
+          "sequences",
+          await pushSequences({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status: sequenceResult ?? undefined,
+          })
+        );
+      }
 
-    if (redirectPushChanges > 0) {
-      colorConsole.important("  🔀 Pushing redirects…");
-      await pushRedirects({ dryRun, force, allowDelete, quiet: true, remoteContext });
-    }
+      if (redirectPushChanges > 0) {
+        colorConsole.important("  🔀 Pushing redirects…");
+        recordPushed(
+          "redirects",
+          await pushRedirects({
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status: redirectResult ?? undefined,
+          })
+        );
+      }
+    });
 
     colorConsole.success("\n✔ Push completed successfully! Local files refreshed from push responses.");
+    if (json) {
+      await writeJsonReport(buildJsonReport("push", jsonEntities, jsonReportOptions));
+    }
   } catch (_error: unknown) {
     const error = _error as Error;
+    if (json) {
+      await writeJsonError("push", error, { remoteContext, dryRun });
+    }
     console.error("\n❌ Push failed:", error.message);
     process.exit(1);
   }
@@ -4,14 +4,23 @@
  */
 
 import "dotenv/config";
-import { pushComments } from "../../scripts/push-comments.js";
+import { buildCommentStatus, pushComments } from "../../scripts/push-comments.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-comments");
 const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
@@ -30,8 +39,32 @@ if (!dryRun) {
   await resolveIdentity(remoteContext?.apiKey);
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-comments", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-comments",
+    async () => {
+      const status = await buildCommentStatus({ showDelete: allowDelete, targetId, remoteContext });
+      const pushed = await runSync(
+        "push-comments",
+        { remoteContext, remote: true, dryRun: dryRun },
+        () =>
+          pushComments({ force, dryRun, allowDelete, targetId, quiet: true, remoteContext, status })
+      );
+      return {
+        comments: pushEntityReport("comments", status, allowDelete, dryRun ? undefined : pushed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing comments to LeadCMS…");
-pushComments({ force, dryRun, allowDelete, targetId, remoteContext })
+runSync("push-comments", { remoteContext, remote: true, dryRun: dryRun }, () =>
+  pushComments({ force, dryRun, allowDelete, targetId, remoteContext })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Comment push failed");
@@ -4,22 +4,44 @@
  */
 
 import "dotenv/config";
-import { pushLeadCMSContent } from "../../scripts/push-leadcms-content.js";
+import {
+  filterContentOperations,
+  getContentStatusData,
+  pushLeadCMSContent,
+} from "../../scripts/push-leadcms-content.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { createPushPlan, printPushPlanSummary, writePushPlan } from "../../scripts/push-plan.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { parsePushContentStatusArgs } from "./content-status-args.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+  statusEntityReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-content");
 const remoteContext = parseRemoteFlag(args);
 const { statusOnly, statusFilter } = parsePushContentStatusArgs(args);
 const force = args.includes("--force");
 const dryRun = args.includes("--dry-run");
 const allowDelete = args.includes("--delete");
 
-if (!statusOnly && !dryRun) {
+// Write a plan for `leadcms apply` instead of pushing
+let planFile: string | undefined;
+const planIndex = args.findIndex((arg) => arg === "--plan");
+if (planIndex !== -1 && args[planIndex + 1]) {
+  planFile = args[planIndex + 1];
+}
+
+if (!statusOnly && !dryRun && !planFile) {
   await requireAuthenticatedUser(remoteContext?.apiKey);
 } else {
   await resolveIdentity(remoteContext?.apiKey);
@@ -39,17 +61,105 @@ if (slugIndex !== -1 && args[slugIndex + 1]) {
   targetSlug = args[slugIndex + 1];
 }
 
+if (json) {
+  if (!statusOnly && !dryRun && !planFile) {
+    await requireJsonPushConfirmation("push-content", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-content",
+    async () => {
+      const result = await getContentStatusData({ showDelete: allowDelete, remoteContext });
+      const operations = filterContentOperations(
+        result.operations,
+        targetId,
+        targetSlug,
+        statusFilter
+      );
+      if (planFile) {
+        await writePushPlan(
+          planFile,
+          createPushPlan(
+            "push-content",
+            { content: result },
+            { force, allowDelete, targetId, targetSlug, statusFilter },
+            remoteContext
+          )
+        );
+      }
+      if (planFile || statusOnly) {
+        return { content: statusEntityReport("content", { ...result, operations }, allowDelete) };
+      }
+      const pushed = await runSync(
+        "push-content",
+        {
+          remoteContext,
+          remote: true,
+          remoteEntities: ["content"],
+          dryRun,
+        },
+        () =>
+          pushLeadCMSContent({
+            force,
+            targetId,
+            targetSlug,
+            statusFilter,
+            dryRun,
+            allowDelete,
+            remoteContext,
+            quiet: true,
+            status: result,
+          })
+      );
+      return {
+        content: pushEntityReport(
+          "content",
+          { ...result, operations },
+          allowDelete,
+          dryRun ? undefined : pushed
+        ),
+      };
+    },
+    statusOnly ? { remoteContext } : pushReportOptions(remoteContext, dryRun || !!planFile, force)
+  );
+}
+
+if (planFile) {
+  const spinner = startSpinner("Checking content status…");
+  try {
+    const result = await getContentStatusData({ showDelete: allowDelete, remoteContext });
+    spinner.stop();
+    const plan = createPushPlan(
+      "push-content",
+      { content: result },
+      { force, allowDelete, targetId, targetSlug, statusFilter },
+      remoteContext
+    );
+    await writePushPlan(planFile, plan);
+    printPushPlanSummary(plan, planFile);
+    process.exit(0);
+  } catch (error: unknown) {
+    spinner.fail("Failed to create push plan");
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
+
 const spinner = startSpinner("Pushing content to LeadCMS…");
-pushLeadCMSContent({
-  statusOnly,
-  force,
-  targetId,
-  targetSlug,
-  statusFilter,
-  dryRun,
-  allowDelete,
-  remoteContext,
-})
+runSync(
+  "push-content",
+  { remoteContext, remote: true, remoteEntities: ["content"], dryRun: statusOnly || dryRun },
+  () =>
+    pushLeadCMSContent({
+      statusOnly,
+      force,
+      targetId,
+      targetSlug,
+      statusFilter,
+      dryRun,
+      allowDelete,
+      remoteContext,
+    })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Content push failed");
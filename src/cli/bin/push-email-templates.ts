@@ -4,14 +4,27 @@
  */
 
 import "dotenv/config";
-import { pushEmailTemplates } from "../../scripts/push-email-templates.js";
+import {
+  buildEmailTemplateStatus,
+  filterEmailTemplateOperations,
+  pushEmailTemplates,
+} from "../../scripts/push-email-templates.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-email-templates");
 const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
@@ -38,8 +51,49 @@ if (!dryRun) {
   await resolveIdentity();
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-email-templates", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-email-templates",
+    async () => {
+      const result = await buildEmailTemplateStatus({ showDelete: allowDelete, remoteContext });
+      const operations = filterEmailTemplateOperations(result.operations, targetId, targetName);
+      const pushed = await runSync(
+        "push-email-templates",
+        { remoteContext, remote: true, remoteEntities: ["emailTemplates"], dryRun: dryRun },
+        () =>
+          pushEmailTemplates({
+            force,
+            dryRun,
+            allowDelete,
+            targetId,
+            targetName,
+            quiet: true,
+            remoteContext,
+            status: result,
+          })
+      );
+      return {
+        emailTemplates: pushEntityReport(
+          "emailTemplates",
+          { ...result, operations },
+          allowDelete,
+          dryRun ? undefined : pushed
+        ),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing email templates to LeadCMS…");
-pushEmailTemplates({ force, dryRun, allowDelete, targetId, targetName, remoteContext })
+runSync(
+  "push-email-templates",
+  { remoteContext, remote: true, remoteEntities: ["emailTemplates"], dryRun: dryRun },
+  () => pushEmailTemplates({ force, dryRun, allowDelete, targetId, targetName, remoteContext })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Email template push failed");
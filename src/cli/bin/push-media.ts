@@ -4,15 +4,24 @@
  */
 
 import "dotenv/config";
-import { pushMedia } from "../../scripts/push-media.js";
+import { pushMedia, statusMedia } from "../../scripts/push-media.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
-parseRemoteFlag(args);
+const json = initJsonOutputFromArgs(args, "push-media");
+const remoteContext = parseRemoteFlag(args);
 const dryRun = args.includes("--dry-run") || args.includes("-d");
 const force = args.includes("--force") || args.includes("-f");
 const allowDelete = args.includes("--delete");
@@ -30,8 +39,37 @@ if (scopeIndex !== -1 && args[scopeIndex + 1]) {
   scopeUid = args[scopeIndex + 1];
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-media", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-media",
+    async () => {
+      const status = await statusMedia({
+        scopeUid,
+        showDelete: allowDelete,
+        silent: true,
+        remoteContext,
+      });
+      const pushed = await runSync(
+        "push-media",
+        { remoteContext, remote: true, dryRun: dryRun },
+        () =>
+          pushMedia({ dryRun, force, scopeUid, allowDelete, quiet: true, remoteContext, status })
+      );
+      return {
+        media: pushEntityReport("media", status, allowDelete, dryRun ? undefined : pushed.executed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing media to LeadCMS…");
-pushMedia({ dryRun, force, scopeUid, allowDelete })
+runSync("push-media", { remoteContext, remote: true, dryRun: dryRun }, () =>
+  pushMedia({ dryRun, force, scopeUid, allowDelete })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Media push failed");
@@ -4,14 +4,23 @@
  */
 
 import "dotenv/config";
-import { pushRedirects } from "../../scripts/push-redirects.js";
+import { buildRedirectStatus, pushRedirects } from "../../scripts/push-redirects.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-redirects");
 const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
@@ -24,8 +33,33 @@ if (!dryRun) {
   await resolveIdentity();
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-redirects", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-redirects",
+    async () => {
+      const status = await buildRedirectStatus({ showDelete: allowDelete, remoteContext });
+      const pushed = await runSync(
+        "push-redirects",
+        { remoteContext, remote: true, remoteEntities: ["redirects"], dryRun: dryRun },
+        () => pushRedirects({ force, dryRun, allowDelete, quiet: true, remoteContext, status })
+      );
+      return {
+        redirects: pushEntityReport("redirects", status, allowDelete, dryRun ? undefined : pushed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing redirects to LeadCMS…");
-pushRedirects({ force, dryRun, allowDelete, remoteContext })
+runSync(
+  "push-redirects",
+  { remoteContext, remote: true, remoteEntities: ["redirects"], dryRun: dryRun },
+  () => pushRedirects({ force, dryRun, allowDelete, remoteContext })
+)
   .then(() => {
     spinner.stop();
     process.exit(0);
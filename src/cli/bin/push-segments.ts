@@ -4,14 +4,23 @@
  */
 
 import "dotenv/config";
-import { pushSegments } from "../../scripts/push-segments.js";
+import { buildSegmentStatus, pushSegments } from "../../scripts/push-segments.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-segments");
 const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
@@ -24,8 +33,33 @@ if (!dryRun) {
   await resolveIdentity();
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-segments", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-segments",
+    async () => {
+      const status = await buildSegmentStatus({ showDelete: allowDelete, remoteContext });
+      const pushed = await runSync(
+        "push-segments",
+        { remoteContext, remote: true, remoteEntities: ["segments"], dryRun: dryRun },
+        () => pushSegments({ force, dryRun, allowDelete, quiet: true, remoteContext, status })
+      );
+      return {
+        segments: pushEntityReport("segments", status, allowDelete, dryRun ? undefined : pushed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing segments to LeadCMS…");
-pushSegments({ force, dryRun, allowDelete, remoteContext })
+runSync(
+  "push-segments",
+  { remoteContext, remote: true, remoteEntities: ["segments"], dryRun: dryRun },
+  () => pushSegments({ force, dryRun, allowDelete, remoteContext })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Segment push failed");
@@ -4,14 +4,23 @@
  */
 
 import "dotenv/config";
-import { pushSequences } from "../../scripts/push-sequences.js";
+import { buildSequenceStatus, pushSequences } from "../../scripts/push-sequences.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "push-sequences");
 const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
@@ -24,8 +33,33 @@ if (!dryRun) {
   await resolveIdentity();
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-sequences", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-sequences",
+    async () => {
+      const status = await buildSequenceStatus({ showDelete: allowDelete, remoteContext });
+      const pushed = await runSync(
+        "push-sequences",
+        { remoteContext, remote: true, remoteEntities: ["sequences"], dryRun: dryRun },
+        () => pushSequences({ force, dryRun, allowDelete, quiet: true, remoteContext, status })
+      );
+      return {
+        sequences: pushEntityReport("sequences", status, allowDelete, dryRun ? undefined : pushed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing sequences to LeadCMS…");
-pushSequences({ force, dryRun, allowDelete, remoteContext })
+runSync(
+  "push-sequences",
+  { remoteContext, remote: true, remoteEntities: ["sequences"], dryRun: dryRun },
+  () => pushSequences({ force, dryRun, allowDelete, remoteContext })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Sequence push failed");
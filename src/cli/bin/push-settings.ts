@@ -4,15 +4,25 @@
  */
 
 import "dotenv/config";
-import { pushSettings } from "../../scripts/push-settings.js";
+import { getSettingsStatusData, pushSettings } from "../../scripts/push-settings.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import {
+  initJsonOutputFromArgs,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  runJsonCommand,
+  statusEntityReport,
+} from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
-parseRemoteFlag(args);
+const json = initJsonOutputFromArgs(args, "push-settings");
+const remoteContext = parseRemoteFlag(args);
 
 const force = args.includes("--force") || args.includes("-f");
 const dryRun = args.includes("--dry-run") || args.includes("-d");
@@ -31,8 +41,47 @@ if (!dryRun) {
   await resolveIdentity();
 }
 
+if (json) {
+  if (!dryRun) {
+    await requireJsonPushConfirmation("push-settings", args, { remoteContext });
+  }
+  await runJsonCommand(
+    "push-settings",
+    async () => {
+      const status = await getSettingsStatusData({
+        targetName,
+        showDelete: allowDelete,
+        remoteContext,
+      });
+      if (!status) {
+        return { settings: statusEntityReport("settings", null, allowDelete) };
+      }
+      const pushed = await runSync(
+        "push-settings",
+        { remoteContext, remote: true, dryRun: dryRun },
+        () =>
+          pushSettings({
+            targetName,
+            dryRun,
+            force,
+            allowDelete,
+            quiet: true,
+            remoteContext,
+            status,
+          })
+      );
+      return {
+        settings: pushEntityReport("settings", status, allowDelete, dryRun ? undefined : pushed),
+      };
+    },
+    pushReportOptions(remoteContext, dryRun, force)
+  );
+}
+
 const spinner = startSpinner("Pushing settings to LeadCMS…");
-pushSettings({ targetName, dryRun, force, allowDelete })
+runSync("push-settings", { remoteContext, remote: true, dryRun: dryRun }, () =>
+  pushSettings({ targetName, dryRun, force, allowDelete, remoteContext })
+)
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Settings push failed");
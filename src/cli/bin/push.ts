@@ -6,6 +6,7 @@
 import "dotenv/config";
 import { pushLeadCMSContent } from "../../scripts/push-leadcms-content.js";
 import { requireAuthenticatedUser, resolveIdentity } from "../../scripts/leadcms-helpers.js";
+import { runSync } from "../../scripts/sync-history.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
@@ -37,15 +38,20 @@ if (slugIndex !== -1 && args[slugIndex + 1]) {
   targetSlug = args[slugIndex + 1];
 }
 
-pushLeadCMSContent({
-  statusOnly,
-  force,
-  targetId,
-  targetSlug,
-  dryRun,
-  allowDelete,
-  remoteContext,
-}).catch((error: unknown) => {
+runSync(
+  "push-content",
+  { remoteContext, remote: true, remoteEntities: ["content"], dryRun: statusOnly || dryRun },
+  () =>
+    pushLeadCMSContent({
+      statusOnly,
+      force,
+      targetId,
+      targetSlug,
+      dryRun,
+      allowDelete,
+      remoteContext,
+    })
+).catch((error: unknown) => {
   console.error("Error running LeadCMS push:", (error as Error).message);
   process.exit(1);
 });
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Resolve CLI Entry Point
+ *
+ * Works entirely on local files — no remote connection required.
+ * Resolves merge conflict markers left by pull in content and email templates.
+ */
+
+import "dotenv/config";
+import {
+  listConflictedFiles,
+  printConflictedFiles,
+  resolveConflicts,
+} from "../../scripts/resolve-conflicts.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { colorConsole } from "../../lib/console-colors.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const listOnly = args.includes("--list") || args.includes("-l");
+const useMergeTool = args.includes("--tool") || args.includes("-t");
+const files = args.filter((arg) => !arg.startsWith("-"));
+
+async function main(): Promise<number> {
+  if (listOnly) {
+    printConflictedFiles(await listConflictedFiles());
+    return 0;
+  }
+
+  const { resolved, unresolved } = await resolveConflicts({ files, useMergeTool });
+  if (resolved.length + unresolved.length > 0) {
+    console.log("");
+    colorConsole.important(
+      `🔀 Resolved ${resolved.length} file(s), ${unresolved.length} still conflicted.`
+    );
+  }
+  return unresolved.length > 0 ? 1 : 0;
+}
+
+main()
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error: unknown) => {
+    colorConsole.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Schedule CLI Entry Point
+ *
+ * Works entirely from local content — lists items with a future publishedAt.
+ * `--next` prints only the next publish timestamp so CI can schedule the
+ * next static rebuild.
+ */
+
+import "dotenv/config";
+import { listSchedule, parseUntil, type ScheduleOutputFormat } from "../../scripts/schedule.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const format: ScheduleOutputFormat = args.includes("--next")
+  ? "next"
+  : args.includes("--json")
+    ? "json"
+    : "text";
+
+// Parse --language <lang[,lang]> flag
+let locales: string[] | undefined;
+const langIdx = args.findIndex((a) => a === "--language" || a === "-l");
+if (langIdx !== -1 && args[langIdx + 1]) {
+  locales = args[langIdx + 1]
+    .split(",")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+// Parse --type <type[,type]> flag
+let types: string[] | undefined;
+const typeIdx = args.findIndex((a) => a === "--type" || a === "-t");
+if (typeIdx !== -1 && args[typeIdx + 1]) {
+  types = args[typeIdx + 1]
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+// Parse --until <date|duration> flag
+let until: Date | undefined;
+const untilIdx = args.findIndex((a) => a === "--until");
+if (untilIdx !== -1 && args[untilIdx + 1]) {
+  try {
+    until = parseUntil(args[untilIdx + 1]);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
+
+// No spinner: machine-readable output (--json, --next) must stay clean
+listSchedule({ format, locales, types, until })
+  .then(() => process.exit(0))
+  .catch((error: unknown) => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
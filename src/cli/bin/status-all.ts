@@ -26,6 +26,14 @@ import { colorConsole, statusColors } from "../../lib/console-colors.js";
 import { defaultLanguage, leadCMSApiKey, resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { startSpinner } from "../../lib/spinner.js";
 import { parseRemoteFlag } from "./remote-flag.js";
+import {
+  buildJsonReport,
+  initJsonOutputFromArgs,
+  statusEntityReport,
+  writeJsonError,
+  writeJsonReport,
+  type SyncEntity,
+} from "./json-output.js";
 
 import type {
   ContentOperations,
@@ -45,6 +53,7 @@ import type { RedirectStatusResult } from "../../scripts/push-redirects.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse flags
@@ -492,6 +501,7 @@ async function statusAll() {
     let segmentResult: SegmentStatusResult | null = null;
     let sequenceResult: SequenceStatusResult | null = null;
     let redirectResult: RedirectStatusResult | null = null;
+    const errors: Partial<Record<SyncEntity, unknown>> = {};
 
     try {
       [
@@ -504,46 +514,54 @@ async function statusAll() {
         sequenceResult,
         redirectResult,
       ] = await Promise.all([
-        getContentStatusData({ showDelete, remoteContext }).catch((_err: unknown) => {
+        getContentStatusData({ showDelete, remoteContext }).catch((err: unknown) => {
+          errors.content = err;
           spinner.update("Fetching status… (content failed)");
           return null;
         }),
-        buildCommentStatus({ showDelete, remoteContext }).catch((_err: unknown) => {
+        buildCommentStatus({ showDelete, remoteContext }).catch((err: unknown) => {
+          errors.comments = err;
           spinner.update("Fetching status… (comments failed)");
           return null;
         }),
         statusMedia({ scopeUid, showDelete, silent: true, remoteContext }).catch(
-          (_err: unknown) => {
+          (err: unknown) => {
+            errors.media = err;
             spinner.update("Fetching status… (media failed)");
             return null;
           }
         ),
         canCheckEmailTemplates
-          ? buildEmailTemplateStatus({ showDelete, remoteContext }).catch((_err: unknown) => {
+          ? buildEmailTemplateStatus({ showDelete, remoteContext }).catch((err: unknown) => {
+            errors.emailTemplates = err;
             spinner.update("Fetching status… (email templates failed)");
             return null;
           })
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? getSettingsStatusData({ showDelete }).catch((_err: unknown) => {
+          ? getSettingsStatusData({ showDelete, remoteContext }).catch((err: unknown) => {
+            errors.settings = err;
             spinner.update("Fetching status… (settings failed)");
             return null;
           })
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildSegmentStatus({ showDelete, remoteContext }).catch((_err: unknown) => {
+          ? buildSegmentStatus({ showDelete, remoteContext }).catch((err: unknown) => {
+            errors.segments = err;
             spinner.update("Fetching status… (segments failed)");
             return null;
           })
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildSequenceStatus({ showDelete, remoteContext }).catch((_err: unknown) => {
+          ? buildSequenceStatus({ showDelete, remoteContext }).catch((err: unknown) => {
+            errors.sequences = err;
             spinner.update("Fetching status… (sequences failed)");
             return null;
           })
           : Promise.resolve(null),
         canCheckEmailTemplates
-          ? buildRedirectStatus({ showDelete, remoteContext }).catch((_err: unknown) => {
+          ? buildRedirectStatus({ showDelete, remoteContext }).catch((err: unknown) => {
+            errors.redirects = err;
             spinner.update("Fetching status… (redirects failed)");
             return null;
           })
@@ -555,6 +573,44 @@ async function statusAll() {
       throw err;
     }
 
+    if (json) {
+      await writeJsonReport(
+        buildJsonReport(
+          "status",
+          {
+            content: statusEntityReport("content", contentResult, showDelete, errors.content),
+            comments: statusEntityReport("comments", commentResult, showDelete, errors.comments),
+            media: statusEntityReport("media", mediaResult, showDelete, errors.media),
+            ...(canCheckEmailTemplates
+              ? {
+                emailTemplates: statusEntityReport(
+                  "emailTemplates",
+                  emailResult,
+                  showDelete,
+                  errors.emailTemplates
+                ),
+                settings: statusEntityReport("settings", settingsResult, showDelete, errors.settings),
+                segments: statusEntityReport("segments", segmentResult, showDelete, errors.segments),
+                sequences: statusEntityReport(
+                  "sequences",
+                  sequenceResult,
+                  showDelete,
+                  errors.sequences
+                ),
+                redirects: statusEntityReport(
+                  "redirects",
+                  redirectResult,
+                  showDelete,
+                  errors.redirects
+                ),
+              }
+              : {}),
+          },
+          { remoteContext }
+        )
+      );
+    }
+
     colorConsole.important("\n📊 LeadCMS Status");
     console.log("─".repeat(80));
 
@@ -989,6 +1045,9 @@ async function statusAll() {
     process.exit(0);
   } catch (_error: unknown) {
     const error = _error as Error;
+    if (json) {
+      await writeJsonError("status", error, { remoteContext });
+    }
     console.error("\n❌ Status check failed:", error.message);
     process.exit(1);
   }
@@ -4,14 +4,16 @@
  */
 
 import "dotenv/config";
-import { statusComments } from "../../scripts/push-comments.js";
+import { buildCommentStatus, statusComments } from "../../scripts/push-comments.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status-comments");
 const remoteContext = parseRemoteFlag(args);
 
 const showDelete = args.includes("--delete");
@@ -25,6 +27,20 @@ if (idIndex !== -1 && args[idIndex + 1]) {
 
 await resolveIdentity(remoteContext?.apiKey);
 
+if (json) {
+  await runJsonCommand(
+    "status-comments",
+    async () => ({
+      comments: statusEntityReport(
+        "comments",
+        await buildCommentStatus({ showDelete, targetId, remoteContext }),
+        showDelete
+      ),
+    }),
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking comment status…");
 statusComments({ showDelete, targetId, showDetailedPreview, remoteContext })
   .then(() => spinner.stop())
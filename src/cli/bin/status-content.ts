@@ -4,15 +4,21 @@
  */
 
 import "dotenv/config";
-import { pushLeadCMSContent } from "../../scripts/push-leadcms-content.js";
+import {
+  filterContentOperations,
+  getContentStatusData,
+  pushLeadCMSContent,
+} from "../../scripts/push-leadcms-content.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
 import { parseContentStatusFilter } from "./content-status-args.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status-content");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse target ID or slug
@@ -41,6 +47,23 @@ const statusFilter = parseContentStatusFilter(args);
 
 await resolveIdentity(remoteContext?.apiKey);
 
+if (json) {
+  await runJsonCommand(
+    "status-content",
+    async () => {
+      const result = await getContentStatusData({ showDelete, remoteContext });
+      const operations = filterContentOperations(
+        result.operations,
+        targetId,
+        targetSlug,
+        statusFilter
+      );
+      return { content: statusEntityReport("content", { ...result, operations }, showDelete) };
+    },
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking content status…");
 pushLeadCMSContent({
   statusOnly: true,
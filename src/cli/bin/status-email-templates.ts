@@ -4,14 +4,19 @@
  */
 
 import "dotenv/config";
-import { statusEmailTemplates } from "../../scripts/push-email-templates.js";
+import {
+  buildEmailTemplateStatus,
+  statusEmailTemplates,
+} from "../../scripts/push-email-templates.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status-email-templates");
 const remoteContext = parseRemoteFlag(args);
 
 // Parse target ID
@@ -29,6 +34,26 @@ const showDelete = args.includes("--delete");
 
 await resolveIdentity();
 
+if (json) {
+  await runJsonCommand(
+    "status-email-templates",
+    async () => {
+      const result = await buildEmailTemplateStatus({ showDelete, remoteContext });
+      const operations = targetId
+        ? result.operations.filter(
+            (op) =>
+              op.local?.metadata?.id?.toString() === targetId ||
+              op.remote?.id?.toString() === targetId
+          )
+        : result.operations;
+      return {
+        emailTemplates: statusEntityReport("emailTemplates", { ...result, operations }, showDelete),
+      };
+    },
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking email template status…");
 statusEmailTemplates({ showDelete, targetId, showDetailedPreview, remoteContext })
   .then(() => spinner.stop())
@@ -8,11 +8,13 @@ import { statusMedia } from "../../scripts/push-media.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
-parseRemoteFlag(args);
+const json = initJsonOutputFromArgs(args, "status-media");
+const remoteContext = parseRemoteFlag(args);
 
 // Parse scope UID
 let scopeUid: string | undefined;
@@ -26,6 +28,20 @@ const showDelete = args.includes("--delete");
 
 await resolveIdentity();
 
+if (json) {
+  await runJsonCommand(
+    "status-media",
+    async () => ({
+      media: statusEntityReport(
+        "media",
+        await statusMedia({ scopeUid, showDelete, silent: true, remoteContext }),
+        showDelete
+      ),
+    }),
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking media status…");
 statusMedia({ scopeUid, showDelete })
   .then(() => spinner.stop())
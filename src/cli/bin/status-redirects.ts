@@ -4,20 +4,36 @@
  */
 
 import "dotenv/config";
-import { statusRedirects } from "../../scripts/push-redirects.js";
+import { buildRedirectStatus, statusRedirects } from "../../scripts/push-redirects.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status-redirects");
 const remoteContext = parseRemoteFlag(args);
 
 const showDelete = args.includes("--delete");
 
 await resolveIdentity();
 
+if (json) {
+  await runJsonCommand(
+    "status-redirects",
+    async () => ({
+      redirects: statusEntityReport(
+        "redirects",
+        await buildRedirectStatus({ showDelete, remoteContext }),
+        showDelete
+      ),
+    }),
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking redirect status…");
 statusRedirects({ showDelete, remoteContext })
   .then(() => spinner.stop())
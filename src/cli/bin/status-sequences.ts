@@ -4,14 +4,16 @@
  */
 
 import "dotenv/config";
-import { statusSequences } from "../../scripts/push-sequences.js";
+import { buildSequenceStatus, statusSequences } from "../../scripts/push-sequences.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
+const json = initJsonOutputFromArgs(args, "status-sequences");
 const remoteContext = parseRemoteFlag(args);
 
 const showDelete = args.includes("--delete");
@@ -19,6 +21,20 @@ const showDetailedPreview = args.includes("--preview");
 
 await resolveIdentity();
 
+if (json) {
+  await runJsonCommand(
+    "status-sequences",
+    async () => ({
+      sequences: statusEntityReport(
+        "sequences",
+        await buildSequenceStatus({ showDelete, remoteContext }),
+        showDelete
+      ),
+    }),
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking sequence status…");
 statusSequences({ showDelete, showDetailedPreview, remoteContext })
   .then(() => spinner.stop())
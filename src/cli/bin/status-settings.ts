@@ -4,15 +4,17 @@
  */
 
 import "dotenv/config";
-import { statusSettings } from "../../scripts/push-settings.js";
+import { getSettingsStatusData, statusSettings } from "../../scripts/push-settings.js";
 import { resolveIdentity } from "../../scripts/leadcms-helpers.js";
 import { initVerboseFromArgs } from "../../lib/logger.js";
 import { startSpinner } from "../../lib/spinner.js";
+import { initJsonOutputFromArgs, runJsonCommand, statusEntityReport } from "./json-output.js";
 import { parseRemoteFlag } from "./remote-flag.js";
 
 const args = process.argv.slice(2);
 initVerboseFromArgs(args);
-parseRemoteFlag(args);
+const json = initJsonOutputFromArgs(args, "status-settings");
+const remoteContext = parseRemoteFlag(args);
 const showDelete = args.includes("--delete");
 
 // Parse --name flag
@@ -24,8 +26,23 @@ if (nameIndex !== -1 && args[nameIndex + 1]) {
 
 await resolveIdentity();
 
+if (json) {
+  await runJsonCommand(
+    "status-settings",
+    async () => ({
+      settings: statusEntityReport(
+        "settings",
+        await getSettingsStatusData({ targetName, showDelete, remoteContext }),
+        showDelete,
+        new Error("Settings require authentication — no API key configured")
+      ),
+    }),
+    { remoteContext }
+  );
+}
+
 const spinner = startSpinner("Checking settings status…");
-statusSettings({ targetName, showDelete })
+statusSettings({ targetName, showDelete, remoteContext })
   .then(() => spinner.stop())
   .catch((error: unknown) => {
     spinner.fail("Failed to check settings status");
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Undo CLI Entry Point
+ *
+ * Restores the local files changed by a recorded pull or push. For pushes,
+ * the remote items it changed are pushed back to their previous state, and
+ * the items it deleted are created again.
+ */
+
+import "dotenv/config";
+import { undoHistoryEntry } from "../../scripts/sync-history.js";
+import { withSyncLock } from "../../lib/sync-lock.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { colorConsole } from "../../lib/console-colors.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+const force = args.includes("--force") || args.includes("-f");
+const id = args.find((arg) => !arg.startsWith("-"));
+
+if (!id) {
+  console.error('❌ Missing operation ID. Usage: leadcms undo <id> (see "leadcms history")');
+  process.exit(1);
+}
+
+withSyncLock("undo", {}, () => undoHistoryEntry(id, { force }))
+  .then(({ entry, restoredFiles, revertedRemoteItems, recreatedRemoteItems }) => {
+    colorConsole.success(`\n✅ Undid ${entry.id} (leadcms ${entry.command})`);
+    console.log(`   Restored ${restoredFiles} local file(s)`);
+    if (entry.kind === "push") {
+      console.log(`   Reverted ${revertedRemoteItems} remote item(s)`);
+      if (recreatedRemoteItems > 0) {
+        console.log(
+          `   Recreated ${recreatedRemoteItems} deleted remote item(s) with new IDs; ` +
+            "the metadata map and local files were updated to them."
+        );
+      }
+      console.log("   Comments, media and settings were restored locally only.");
+    }
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    colorConsole.error(`\n❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
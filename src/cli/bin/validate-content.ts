@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * LeadCMS Validate Content CLI Entry Point
+ *
+ * Works entirely from local content — checks every file in contentDir against
+ * the schema of its content type. Exits with code 1 when any file is invalid.
+ */
+
+import "dotenv/config";
+import { validateContent } from "../../scripts/validate-content.js";
+import { initVerboseFromArgs } from "../../lib/logger.js";
+import { startSpinner } from "../../lib/spinner.js";
+
+const args = process.argv.slice(2);
+initVerboseFromArgs(args);
+
+// Parse --schemas <file> / -s <file> flag
+let schemasFile: string | undefined;
+const schemasIdx = args.findIndex((a) => a === "--schemas" || a === "-s");
+if (schemasIdx !== -1 && args[schemasIdx + 1]) {
+  schemasFile = args[schemasIdx + 1];
+}
+
+// Parse --type <type[,type]> flag
+let types: string[] | undefined;
+const typeIdx = args.findIndex((a) => a === "--type" || a === "-t");
+if (typeIdx !== -1 && args[typeIdx + 1]) {
+  types = args[typeIdx + 1]
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+const spinner = startSpinner("Validating content…");
+validateContent({ schemasFile, types })
+  .then((result) => {
+    spinner.stop();
+    process.exit(result.errors.length + result.unreadable.length > 0 ? 1 : 0);
+  })
+  .catch((error: unknown) => {
+    spinner.fail("Content validation failed");
+    console.error((error as Error).message);
+    process.exit(1);
+  });
@@ -74,6 +74,9 @@ switch (command) {
   case "push-content":
     runScript("push-content.js", commandArgs);
     break;
+  case "apply":
+    runScript("apply.js", commandArgs);
+    break;
   case "push-media":
     runScript("push-media.js", commandArgs);
     break;
@@ -98,6 +101,33 @@ switch (command) {
   case "generate-redirects-map":
     runScript("generate-redirects-map.js", commandArgs);
     break;
+  case "generate-feeds":
+    runScript("generate-feeds.js", commandArgs);
+    break;
+  case "generate-sitemap":
+    runScript("generate-sitemap.js", commandArgs);
+    break;
+  case "generate-search-index":
+    runScript("generate-search-index.js", commandArgs);
+    break;
+  case "export-comments":
+    runScript("export-comments.js", commandArgs);
+    break;
+  case "validate-content":
+    runScript("validate-content.js", commandArgs);
+    break;
+  case "resolve":
+    runScript("resolve.js", commandArgs);
+    break;
+  case "history":
+    runScript("history.js", commandArgs);
+    break;
+  case "undo":
+    runScript("undo.js", commandArgs);
+    break;
+  case "schedule":
+    runScript("schedule.js", commandArgs);
+    break;
   case "status":
     runScript("status-all.js", commandArgs);
     break;
@@ -202,6 +232,8 @@ Usage:
     --id <content-id>    - Target specific content by ID
     --slug <slug>        - Target specific content by slug
     --status <statuses>  - Only include matching statuses (new, modified, renamed, type-change, conflict, deleted)
+    --plan <file>        - Save the operations to a plan file instead of pushing (push and push-content)
+  leadcms apply <plan-file> - Push a saved plan, only if the remote and local files are unchanged since
   leadcms push-media [options] - Push only media files to LeadCMS
     --force              - Skip confirmation prompt
     --dry-run            - Show what would be changed without making changes
@@ -231,6 +263,45 @@ Usage:
     --output, -o <dir>   - Override output directory path (default: redirects/)
     --language, -l <lang> - Filter to a specific language only
     --dry-run, -d        - Print the map without writing the file
+  leadcms generate-feeds [options] - Generate RSS, Atom and JSON feeds from local content
+    --output, -o <dir>   - Override output directory path (default: public/feeds/)
+    --language, -l <lang> - Generate feeds for a specific language only
+    --type, -t <types>   - Comma-separated content types (default: all published types)
+    --site-url <url>     - Base URL for languages without a languageDomains entry
+    --dry-run, -d        - Show which feeds would be written without writing them
+  leadcms generate-sitemap [options] - Generate sitemap index and per-language sitemaps
+    --output, -o <dir>   - Override output directory path (default: public/)
+    --type, -t <types>   - Comma-separated content types (default: all)
+    --site-url <url>     - Base URL for languages without a languageDomains entry
+    --remote, -r <name>  - Take lastmod timestamps from this remote's metadata
+    --dry-run, -d        - Show which sitemaps would be written without writing them
+  leadcms generate-search-index [options] - Build client-side search indexes (run after pull)
+    --output, -o <dir>   - Override output directory path (default: public/search/)
+    --language, -l <lang> - Build the index for a specific language only
+    --type, -t <types>   - Comma-separated content types (default: all)
+    --dry-run, -d        - Show which indexes would be written without writing them
+  leadcms export-comments [options] - Export approved comments as public JSON for client-side rendering
+    --output, -o <dir>   - Override output directory path (default: public/comments/)
+    --language, -l <lang> - Export comments of a specific language only
+    --sort <order>       - Top-level order: default, newest, oldest, most-replies, least-replies
+    --reply-sort <order> - Reply order (default: oldest)
+    --no-avatars         - Leave avatar URLs out of the exported files
+    --dry-run, -d        - Show which files would be written without writing them
+  leadcms validate-content [options] - Check local content against the content type schemas
+    --schemas, -s <file> - JavaScript module exporting additional schemas
+    --type, -t <types>   - Comma-separated content types (default: all with a schema)
+  leadcms resolve [files...] [options] - Resolve merge conflicts left by pull (content, email templates)
+    --list, -l           - Only list files with conflict markers
+    --tool, -t           - Resolve each file with the mergeTool from leadcms.config.json
+  leadcms history [id]   - List recorded pull/push operations, or show the files one changed
+  leadcms undo <id> [options] - Restore local files changed by an operation (pushes: remote items too)
+    --force              - Undo even if files or remote items changed since the operation
+  leadcms schedule [options] - List content scheduled for publication (future publishedAt)
+    --language, -l <langs> - Comma-separated languages (default: all)
+    --type, -t <types>   - Comma-separated content types (default: all)
+    --until <date|7d>    - Only list publications up to a date or within a duration
+    --json               - Print { next, items } as JSON
+    --next               - Print only the next publish timestamp (nothing if none)
 
   Status & monitoring:
   leadcms status [options] - Show sync status for all entities (content + media + email templates)
@@ -269,6 +340,10 @@ Usage:
                            In multi-remote mode: defaults to defaultRemote when omitted
                            In single-remote mode: uses configured url/apiKey
                            See 'leadcms remote list' for available remotes
+  --json                 - status, push, pull and apply commands: print a JSON report to stdout,
+                           other output to stderr; push commands do not prompt and
+                           only push with --yes (-y)
+                           Exit codes: 0 clean, 1 error, 2 changes, 3 conflicts
 
 Getting Started:
   1. Initialize configuration:
@@ -1,5 +1,8 @@
 // Main exports
 export * from "./lib/cms.js";
+export * from "./lib/content-query.js";
+export * from "./lib/content-taxonomy.js";
+export * from "./lib/content-navigation.js";
 export * from "./lib/config.js";
 export * from "./lib/locale-utils.js";
 export * from "./lib/comment-types.js";
@@ -79,6 +82,120 @@ export type {
   CommentSortOrder,
 } from "./lib/comment-utils.js";
 
+// Paged comment threads with on-demand replies and cached statistics
+export {
+  getCommentsPage,
+  getCommentsPageForContent,
+  getCommentReplies,
+  getCommentsStatistics,
+} from "./lib/comment-pagination.js";
+export type {
+  CommentsPage,
+  CommentsPageOptions,
+  CommentRepliesOptions,
+} from "./lib/comment-pagination.js";
+
+// Persistent content index used by the read API
+export { buildContentIndex, getContentIndexPath } from "./lib/content-index.js";
+export type {
+  ContentIndex,
+  ContentIndexEntry,
+  ContentIndexBuildResult,
+} from "./lib/content-index.js";
+
+// Content schemas (frontmatter validation and typed content)
+export {
+  defineContentSchema,
+  registerContentSchema,
+  registerContentSchemas,
+  clearContentSchemas,
+  getContentSchema,
+  isContentValidationError,
+} from "./lib/content-schema.js";
+export type {
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  InferSchemaOutput,
+  ContentFieldType,
+  ContentFieldDefinition,
+  ContentSchemaDefinition,
+  InferContentSchema,
+  ContentTypeRegistry,
+  ContentOfType,
+  ContentValidationIssue,
+  ContentValidationError,
+} from "./lib/content-schema.js";
+
+// Content URL helpers, feed and sitemap generation
+export {
+  applyPathPattern,
+  buildContentUrl,
+  getContentPath,
+  getLanguageForHost,
+  getSiteUrlForLanguage,
+  toAbsoluteUrl,
+} from "./lib/content-urls.js";
+export type { ContentUrlLayout } from "./lib/content-urls.js";
+export {
+  createContentFeed,
+  contentToFeedItem,
+  buildRssFeed,
+  buildAtomFeed,
+  buildJsonFeed,
+  FEED_FILE_NAMES,
+} from "./lib/feed-generator.js";
+export type { Feed, FeedItem, ContentFeedOptions } from "./lib/feed-generator.js";
+export {
+  generateSitemap,
+  getSitemapUrls,
+  buildSitemapXml,
+  buildSitemapIndexXml,
+  isContentNoindex,
+} from "./lib/sitemap-generator.js";
+export type {
+  SitemapUrl,
+  SitemapAlternate,
+  SitemapOptions,
+  GenerateSitemapOptions,
+  GenerateSitemapResult,
+} from "./lib/sitemap-generator.js";
+
+// Full-text search (browser-safe runtime also available as "@leadcms/sdk/search")
+export { buildSearchIndex } from "./lib/search-index.js";
+export type { BuildSearchIndexOptions } from "./lib/search-index.js";
+export {
+  createSearchIndex,
+  loadSearchIndex,
+  searchContent,
+  stripMarkup,
+  tokenizeSearchText,
+} from "./lib/search.js";
+export type { SearchDocument, SearchIndex, SearchOptions, SearchResult } from "./lib/search.js";
+
+// Table of contents, word count, reading time and excerpts of content bodies
+export { getContentOutline, countWords } from "./lib/content-outline.js";
+export type {
+  ContentOutline,
+  ContentHeading,
+  ContentOutlineOptions,
+} from "./lib/content-outline.js";
+
+// Scheduled publishing (content with a future publishedAt)
+export { getScheduledContent, getNextScheduledPublish } from "./lib/content-schedule.js";
+export type { ScheduledContentItem, ScheduledContentOptions } from "./lib/content-schedule.js";
+
+// Cache invalidation and file watching for long-running processes
+export { invalidateContentCache, watchContent } from "./lib/content-watch.js";
+export type {
+  ContentChangeEvent,
+  ContentChangeListener,
+  ContentChangeSource,
+  ContentChangeType,
+  ContentWatcher,
+  WatchContentOptions,
+} from "./lib/content-watch.js";
+
 // SEO metadata types and utilities
 export type { FrontmatterSeo, SeoMetadataDto, SeoDefaultSources } from "./lib/seo-utils.js";
 export {
@@ -87,6 +204,8 @@ export {
   frontmatterSeoToApi,
   DEFAULT_ROBOTS,
 } from "./lib/seo-utils.js";
+export { getSeoHead, getSeoSchemaType, renderSeoHead } from "./lib/seo-head.js";
+export type { SeoHead, SeoHeadTag, SeoHeadOptions, SeoSchemaType } from "./lib/seo-head.js";
 
 // LeadCMS SDK - Framework-agnostic content management
 //
@@ -96,6 +215,29 @@ export {
 // - getAllContentForLocale() - Get content objects directly (optimized)
 // - getAllContentRoutes() - Get all routes for static generation
 // - getAvailableLanguages() - Get supported languages
+// - *Async() variants (getAllContentForLocaleAsync(), ...) - Non-blocking reads via fs/promises
+// - registerContentSchema() / defineContentSchema() - Frontmatter validation and typed content per type
+// - queryContent() - Filter, sort and paginate local content
+// - getCategoriesForLocale() / getTagsForLocale() / getAuthorsForLocale() - Taxonomy terms with counts
+// - getContentTree() / getBreadcrumbs() - Navigation derived from nested slugs
+// - getRelatedContent() - Related items by tags, category, author and text similarity
+// - getContentOutline() - Table of contents, word count, reading time and excerpt
+// - getSeoHead() - Meta tags, hreflang alternates and JSON-LD from SEO frontmatter
+// - getScheduledContent() / getNextScheduledPublish() - Upcoming publications
+// - invalidateContentCache() / watchContent() - Fresh reads and change events in dev servers
+// - createContentFeed() + buildRssFeed() / buildAtomFeed() / buildJsonFeed() - Content feeds
+// - generateSitemap() - Sitemap index and per-locale sitemaps with hreflang alternates
+// - buildSearchIndex() + searchContent() - Full-text search over local content
+// - getContentByTag() / getContentByCategory() - Content for tag and category archive pages
+//
+// Next.js App Router helpers ("@leadcms/sdk/next"):
+// - generateContentStaticParams() / resolveContentParams() - Static params and page params
+// - getContentMetadata() / isDraftModeEnabled() - generateMetadata() and draft mode
+// - createRevalidateHandler() - On-demand revalidation route handler (used by `leadcms watch`)
+//
+// Astro and Vite ("@leadcms/sdk/astro", "@leadcms/sdk/vite"):
+// - leadcmsLoader() - Astro content-layer loader for local content
+// - leadcmsVitePlugin() - Dev-server reload when local content changes
 //
 // Comments API:
 // - getComments() - Get comments for any commentable entity
@@ -104,6 +246,9 @@ export {
 // - getCommentsForContentStrict() - Get comments for content with strict error handling
 // - getCommentsTree() - Get comments as a hierarchical tree structure with sorting and filtering
 // - getCommentsTreeForContent() - Get comments tree for content (convenience wrapper)
+// - getCommentsPage() / getCommentsPageForContent() - Paged top-level threads with a stable cursor
+// - getCommentReplies() - Load a thread's replies on demand
+// - getCommentsStatistics() - Cached comment counts and statistics for an entity
 //
 // Note: Tree building utilities (buildCommentTree, flattenCommentTree, filterComments, etc.)
 // are internal implementation details and not part of the public API. Use getCommentsTree()
@@ -111,6 +256,8 @@ export {
 //
 // Locale utilities:
 // - isValidLocaleCode() - Validate locale directory names
+// - getLocaleFallbackChain() - Locales tried for a locale (from localeFallbacks)
+// - getContentUrl() / getAlternateUrls() - Content URLs and hreflang alternates (languageDomains-aware)
 //
 // Configuration options:
 // 1. leadcms.config.json file (recommended)
@@ -124,6 +271,11 @@ export {
 // - npx leadcms pull-comments - Pull only comments from LeadCMS
 // - npx leadcms watch     - Watch for real-time updates
 // - npx leadcms generate-env - Generate environment file
+// - npx leadcms generate-feeds - Generate RSS, Atom and JSON feeds from local content
+// - npx leadcms generate-sitemap - Generate sitemap.xml files from local content
+// - npx leadcms generate-search-index - Build client-side search indexes
+// - npx leadcms validate-content - Check local content against the content type schemas
+// - npx leadcms schedule  - List scheduled publications (--next for the next rebuild time)
 //
 // Note: Authentication functions are internal and only available via CLI commands.
 // Use 'npx leadcms login' for authentication instead of programmatic auth functions.
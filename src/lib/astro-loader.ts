@@ -0,0 +1,173 @@
+/**
+ * Astro Content Loader
+ * Content-layer loader exposing local LeadCMS content as an Astro content
+ * collection. Astro is not imported: the loader context is typed with the
+ * subset of Astro's LoaderContext it uses.
+ */
+
+import path from "path";
+import { getAllContentForLocale, getAvailableLanguages, getLeadCMSConfig } from "./cms.js";
+import { getContentSchema, type ContentOfType } from "./content-schema.js";
+import { invalidateContentCache } from "./content-watch.js";
+import { logger } from "./logger.js";
+
+/**
+ * Data of a collection entry: the frontmatter of a content item plus its locale.
+ * The MDX/JSON body is stored separately as the entry body.
+ *
+ * @example
+ * const posts = await getCollection('blog');
+ * const post = posts[0].data as LeadCMSEntryData<'blog-article'>;
+ */
+export type LeadCMSEntryData<K extends string = string> = Omit<ContentOfType<K>, "body"> & {
+  locale: string;
+};
+
+/**
+ * The parts of Astro's LoaderContext used by the loader
+ */
+export interface AstroLoaderContext {
+  collection: string;
+  store: {
+    set(entry: {
+      id: string;
+      data: Record<string, unknown>;
+      body?: string;
+      digest?: string | number;
+    }): boolean;
+    delete(id: string): void;
+    keys(): string[];
+  };
+  logger: { info(message: string): void; warn(message: string): void };
+  parseData<T extends Record<string, unknown>>(props: { id: string; data: T }): Promise<T>;
+  generateDigest(data: Record<string, unknown> | string): string;
+  /** File watcher of the Astro dev server (absent in builds) */
+  watcher?: {
+    add(paths: string | readonly string[]): unknown;
+    on(event: "add" | "change" | "unlink", listener: (file: string) => void): unknown;
+  };
+}
+
+/**
+ * Options for leadcmsLoader()
+ */
+export interface LeadCMSLoaderOptions<K extends string = string> {
+  /** Content types to include (default: all) */
+  types?: readonly K[];
+  /** Locales to include (default: all available locales) */
+  locales?: readonly string[];
+  /**
+   * Collection schema (e.g. a Zod schema) used by Astro to validate entries and
+   * infer their types. Default: the schema registered with registerContentSchema()
+   * when a single content type is loaded and that schema is a Zod schema.
+   */
+  schema?: unknown;
+}
+
+/**
+ * Loader object accepted by `defineCollection({ loader })`
+ */
+export interface LeadCMSLoader {
+  name: string;
+  load(context: AstroLoaderContext): Promise<void>;
+  schema?: unknown;
+}
+
+function getDefaultSchema(types: readonly string[] | undefined): unknown {
+  if (types?.length !== 1) {
+    return undefined;
+  }
+  const schema = getContentSchema(types[0]);
+  // Astro collection schemas must be Zod schemas; other Standard Schema
+  // libraries are still applied by the SDK when the content is read
+  return schema?.["~standard"].vendor === "zod" ? schema : undefined;
+}
+
+/**
+ * Create an Astro content-layer loader for local LeadCMS content.
+ *
+ * Entries are the published items of each locale (drafts only in preview mode),
+ * without fallback-locale copies. Entry ids are the slug for the default
+ * language and `{locale}/{slug}` otherwise. In `astro dev` the loader watches
+ * contentDir and re-syncs the collection when `leadcms watch` or `leadcms pull`
+ * writes files.
+ *
+ * @example
+ * // src/content.config.ts
+ * import { defineCollection } from 'astro:content';
+ * import { leadcmsLoader } from '@leadcms/sdk/astro';
+ *
+ * export const collections = {
+ *   blog: defineCollection({ loader: leadcmsLoader({ types: ['blog-article'] }) }),
+ * };
+ */
+export function leadcmsLoader<K extends string = string>(
+  options: LeadCMSLoaderOptions<K> = {}
+): LeadCMSLoader {
+  const { types, locales } = options;
+  let watching = false;
+
+  const sync = async (context: AstroLoaderContext): Promise<number> => {
+    const config = getLeadCMSConfig();
+    const previousIds = new Set(context.store.keys());
+    let count = 0;
+
+    for (const locale of locales ?? getAvailableLanguages()) {
+      for (const content of getAllContentForLocale(locale, types)) {
+        const { body, ...frontmatter } = content;
+        const id = locale === config.defaultLanguage ? content.slug : `${locale}/${content.slug}`;
+        const data = await context.parseData({ id, data: { ...frontmatter, locale } });
+        context.store.set({ id, data, body, digest: context.generateDigest({ ...data, body }) });
+        previousIds.delete(id);
+        count++;
+      }
+    }
+
+    for (const id of previousIds) {
+      context.store.delete(id);
+    }
+    return count;
+  };
+
+  return {
+    name: "leadcms-loader",
+    schema: options.schema ?? getDefaultSchema(types),
+    async load(context) {
+      const contentDir = getLeadCMSConfig().contentDir;
+      if (!contentDir) {
+        context.logger.warn("No contentDir configured. Please set up your LeadCMS configuration.");
+        return;
+      }
+
+      const count = await sync(context);
+      context.logger.info(`Loaded ${count} entries from ${contentDir}`);
+
+      if (context.watcher && !watching) {
+        watching = true;
+        const root = path.resolve(contentDir);
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const onChange = (file: string) => {
+          const relative = path.relative(root, path.resolve(file));
+          if (relative.startsWith("..") || path.isAbsolute(relative)) return;
+
+          invalidateContentCache(file);
+          // A pull writes many files at once — re-sync once they are written
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(() => {
+            timer = null;
+            logger.verbose(`[astro] Content changed, re-syncing "${context.collection}"`);
+            sync(context).catch((error: unknown) =>
+              context.logger.warn(`Re-sync failed: ${(error as Error).message}`)
+            );
+          }, 100);
+        };
+
+        context.watcher.add(root);
+        context.watcher.on("add", onChange);
+        context.watcher.on("change", onChange);
+        context.watcher.on("unlink", onChange);
+      }
+    },
+  };
+}
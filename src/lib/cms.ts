@@ -2,9 +2,31 @@ import fs from "fs";
 import path from "path";
 import { buildCommentTree } from "./comment-utils.js";
 import type { StoredComment } from "./comment-types.js";
-import matter from "gray-matter";
 import { getConfig, isPreviewMode, type LeadCMSConfig } from "./config.js";
 import { isValidLocaleCode } from "./locale-utils.js";
+import {
+  buildContentUrl,
+  getContentPath,
+  getLanguageForHost,
+  getSiteUrlForLanguage,
+  toAbsoluteUrl,
+} from "./content-urls.js";
+import {
+  DEFAULT_READ_CONCURRENCY,
+  getContentIndex,
+  getContentIndexAsync,
+  listIndexEntries,
+  findIndexEntry,
+  type ContentIndex,
+} from "./content-index.js";
+import { stripMarkup, tokenizeSearchText } from "./search.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { CONTENT_FILE_FORMATS, parseContentFile } from "./content-file.js";
+import {
+  validateContentFile,
+  validateContentFileAsync,
+  type ContentOfType,
+} from "./content-schema.js";
 
 interface ConfigError extends Error {
   configName?: string;
@@ -34,6 +56,24 @@ interface ContentCache<T> {
 const contentCache = new Map<string, ContentCache<any>>();
 const CONTENT_CACHE_TTL = 30000; // 30 seconds cache TTL for content files
 
+/**
+ * Drop cached config files (header, footer, ...), all of them or those at the
+ * given absolute paths
+ * @internal
+ */
+export function clearContentFileCache(filePaths?: readonly string[]): void {
+  if (!filePaths) {
+    contentCache.clear();
+    return;
+  }
+  const paths = new Set(filePaths);
+  for (const [key, cached] of contentCache) {
+    if (paths.has(path.resolve(cached.filePath))) {
+      contentCache.delete(key);
+    }
+  }
+}
+
 /**
  * Check if content is a draft based on publishedAt field
  * Content is considered draft if:
@@ -110,6 +150,11 @@ export interface CMSContent {
   translationKey?: string;
   publishedAt?: Date | string;
   draft?: boolean; // Added to support draft content filtering
+  /**
+   * Locale the item was read from. Differs from the requested locale when the
+   * item was served from a `localeFallbacks` locale (no translation yet).
+   */
+  sourceLocale?: string;
 
   [key: string]: unknown;
   body: string;
@@ -124,24 +169,43 @@ function getAvailableLanguagesFromDir(contentDir: string): string[] {
   const defaultLanguage = config.defaultLanguage || DEFAULT_LANGUAGE;
 
   try {
-    const entries = fs.readdirSync(contentDir, { withFileTypes: true });
-    const languages = [defaultLanguage]; // Always include default language
-
-    for (const entry of entries) {
-      if (entry.isDirectory() && isValidLocaleCode(entry.name)) {
-        // Only include directories that match valid locale patterns
-        if (!languages.includes(entry.name)) {
-          languages.push(entry.name);
-        }
-      }
-    }
+    return languagesFromDirents(fs.readdirSync(contentDir, { withFileTypes: true }));
+  } catch {
+    return [defaultLanguage];
+  }
+}
 
-    return languages.sort();
+/**
+ * Async variant of getAvailableLanguagesFromDir()
+ * @internal
+ */
+async function getAvailableLanguagesFromDirAsync(contentDir: string): Promise<string[]> {
+  const config = getLeadCMSConfig();
+  const defaultLanguage = config.defaultLanguage || DEFAULT_LANGUAGE;
+
+  try {
+    return languagesFromDirents(await fs.promises.readdir(contentDir, { withFileTypes: true }));
   } catch {
     return [defaultLanguage];
   }
 }
 
+function languagesFromDirents(entries: fs.Dirent[]): string[] {
+  const config = getLeadCMSConfig();
+  const languages = [config.defaultLanguage || DEFAULT_LANGUAGE]; // Always include default language
+
+  for (const entry of entries) {
+    if (entry.isDirectory() && isValidLocaleCode(entry.name)) {
+      // Only include directories that match valid locale patterns
+      if (!languages.includes(entry.name)) {
+        languages.push(entry.name);
+      }
+    }
+  }
+
+  return languages.sort();
+}
+
 /**
  * Get all available languages from the content directory structure
  */
@@ -173,30 +237,227 @@ export function getContentDirForLocale(contentDir: string, locale?: string): str
 }
 
 /**
- * Get all content slugs for a specific locale with environment-based draft filtering (internal helper)
+ * Locales to try, in order, when reading content for a locale: the locale
+ * itself, then its `localeFallbacks` entries (followed transitively, nearest first)
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @returns Locale chain starting with the requested locale
+ *
+ * @example
+ * // localeFallbacks: { "de-AT": ["de"], "de": ["en"] }
+ * getLocaleFallbackChain('de-AT') // ['de-AT', 'de', 'en']
+ */
+export function getLocaleFallbackChain(locale?: string): string[] {
+  const config = getLeadCMSConfig();
+  const fallbacks = config.localeFallbacks ?? {};
+  const chain = [locale || config.defaultLanguage || DEFAULT_LANGUAGE];
+
+  // Breadth-first, so a locale's own fallbacks come before their fallbacks
+  for (let i = 0; i < chain.length; i++) {
+    for (const fallback of fallbacks[chain[i]] ?? []) {
+      if (!chain.includes(fallback)) {
+        chain.push(fallback);
+      }
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * A listed slug and the locale its file was found in
  * @internal
  */
-function getAllContentSlugsForLocaleFromDir(
+interface LocalizedSlug {
+  slug: string;
+  locale: string;
+}
+
+/**
+ * Options for the content listing functions
+ */
+export interface ContentListOptions {
+  /**
+   * Append items of the `localeFallbacks` locales that have no translation
+   * (same slug or translationKey) in the requested locale, marked with their
+   * `sourceLocale`. Default: false, so sitemaps, feeds and other per-locale
+   * outputs only list content written in the locale.
+   */
+  includeFallbacks?: boolean;
+}
+
+/**
+ * Get all content slugs for a specific locale, and optionally its fallback
+ * locales, with environment-based draft filtering (internal helper)
+ * @internal
+ */
+function getLocalizedSlugsFromDir(
   contentDir: string,
   locale?: string,
   contentTypes?: readonly string[],
-  draftUserUid?: string | null
-): string[] {
+  draftUserUid?: string | null,
+  includeFallbacks = false
+): LocalizedSlug[] {
   const config = getLeadCMSConfig();
-  const defaultLanguage = config.defaultLanguage;
-  const localeContentDir = getContentDirForLocale(contentDir, locale);
+  const index = getContentIndex(contentDir, config.defaultLanguage || DEFAULT_LANGUAGE);
+  const languages = getAvailableLanguagesFromDir(contentDir);
 
-  let slugs: string[];
-  if (locale === defaultLanguage) {
-    // For default language, we need to exclude language subdirectories
-    slugs = getAllContentSlugsExcludingLanguageDirs(localeContentDir, contentTypes, contentDir);
-  } else {
-    // For other languages, just get all content from their directory
-    slugs = getAllContentSlugsFromDir(localeContentDir, contentTypes);
+  return collectLocalizedSlugs(
+    index,
+    languages,
+    contentDir,
+    locale,
+    contentTypes,
+    draftUserUid,
+    includeFallbacks
+  );
+}
+
+/**
+ * Async variant of getLocalizedSlugsFromDir()
+ * @internal
+ */
+async function getLocalizedSlugsFromDirAsync(
+  contentDir: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  draftUserUid?: string | null,
+  includeFallbacks = false
+): Promise<LocalizedSlug[]> {
+  const config = getLeadCMSConfig();
+  const [index, languages] = await Promise.all([
+    getContentIndexAsync(contentDir, config.defaultLanguage || DEFAULT_LANGUAGE),
+    getAvailableLanguagesFromDirAsync(contentDir),
+  ]);
+
+  return collectLocalizedSlugs(
+    index,
+    languages,
+    contentDir,
+    locale,
+    contentTypes,
+    draftUserUid,
+    includeFallbacks
+  );
+}
+
+/**
+ * List the slugs of a locale, followed (with `includeFallbacks`) by the slugs
+ * of its fallback locales that have no counterpart (same slug or
+ * translationKey) in an earlier locale
+ * @internal
+ */
+function collectLocalizedSlugs(
+  index: ContentIndex,
+  languages: readonly string[],
+  contentDir: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  draftUserUid?: string | null,
+  includeFallbacks = false
+): LocalizedSlug[] {
+  const chain = getLocaleFallbackChain(locale);
+  if (!includeFallbacks || chain.length === 1) {
+    return collectContentSlugs(
+      index,
+      languages,
+      contentDir,
+      locale,
+      contentTypes,
+      draftUserUid
+    ).map((slug) => ({ slug, locale: chain[0] }));
+  }
+
+  const seenSlugs = new Set<string>();
+  const seenKeys = new Set<string>();
+  const results: LocalizedSlug[] = [];
+
+  for (const chainLocale of chain) {
+    const prefix = getLocalePrefix(contentDir, chainLocale);
+    const added: { slug: string; key?: string }[] = [];
+
+    for (const slug of collectContentSlugs(
+      index,
+      languages,
+      contentDir,
+      chainLocale,
+      contentTypes,
+      draftUserUid
+    )) {
+      const translationKey = findIndexEntry(index, prefix, slug)?.frontmatter?.translationKey;
+      const key = typeof translationKey === "string" ? translationKey : undefined;
+      if (seenSlugs.has(slug) || (key && seenKeys.has(key))) {
+        continue;
+      }
+      added.push({ slug, key });
+      results.push({ slug, locale: chainLocale });
+    }
+
+    // Items of the same locale never hide each other
+    for (const { slug, key } of added) {
+      seenSlugs.add(slug);
+      if (key) seenKeys.add(key);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * List the slugs of a locale from the content index and apply draft filtering.
+ * `languages` is only consulted for the default language, whose directory
+ * contains the other language subdirectories.
+ * @internal
+ */
+function collectContentSlugs(
+  index: ContentIndex,
+  languages: readonly string[],
+  contentDir: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  draftUserUid?: string | null
+): string[] {
+  const defaultLanguage = getLeadCMSConfig().defaultLanguage;
+  const localePrefix = getLocalePrefix(contentDir, locale);
+
+  // For the default language, exclude the other language subdirectories;
+  // for other languages, just get all content from their directory
+  const excludeTopDirs =
+    locale === defaultLanguage ? languages.filter((lang) => lang !== defaultLanguage) : [];
+
+  const slugs: string[] = [];
+  for (const { slug, entry } of listIndexEntries(index, localePrefix, excludeTopDirs)) {
+    // If content types filter is provided, only include files of a matching type
+    if (contentTypes && contentTypes.length > 0) {
+      if (!entry.type || !contentTypes.includes(entry.type)) {
+        continue;
+      }
+    }
+    slugs.push(slug);
   }
 
   // Apply draft filtering logic
-  return applyDraftFiltering(slugs, draftUserUid, contentDir, locale);
+  return applyDraftFiltering(slugs, draftUserUid, contentDir, locale, index);
+}
+
+/**
+ * Directory of a locale relative to contentDir ("" for the default language)
+ * @internal
+ */
+function getLocalePrefix(contentDir: string, locale?: string): string {
+  return path.relative(contentDir, getContentDirForLocale(contentDir, locale));
+}
+
+/**
+ * Check whether an indexed slug is published (exists, parses and is not a draft)
+ * @internal
+ */
+function isIndexedSlugPublished(index: ContentIndex, prefix: string, slug: string): boolean {
+  const entry = findIndexEntry(index, prefix, slug);
+  if (!entry || !entry.frontmatter) {
+    return false;
+  }
+  return !isContentDraft({ ...entry.frontmatter, slug, body: "" } as CMSContent);
 }
 
 /**
@@ -211,6 +472,7 @@ function getAllContentSlugsForLocaleFromDir(
  * @param locale - Locale code (optional, uses default language if not provided)
  * @param contentTypes - Optional array of content types to filter
  * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
  * @returns Array of content slugs
  *
  * @example
@@ -229,7 +491,8 @@ function getAllContentSlugsForLocaleFromDir(
 export function getAllContentSlugsForLocale(
   locale?: string,
   contentTypes?: readonly string[],
-  userUid?: string | null
+  userUid?: string | null,
+  options: ContentListOptions = {}
 ): string[] {
   const config = getLeadCMSConfig();
   const contentDir = config.contentDir;
@@ -239,12 +502,13 @@ export function getAllContentSlugsForLocale(
     return [];
   }
   // Use the existing implementation with appropriate draft settings
-  return getAllContentSlugsForLocaleFromDir(
+  return getLocalizedSlugsFromDir(
     contentDir,
     locale,
     contentTypes,
-    userUid // draftUserUid
-  );
+    userUid, // draftUserUid
+    options?.includeFallbacks
+  ).map(({ slug }) => slug);
 }
 
 /**
@@ -260,9 +524,14 @@ export function getAllContentSlugsForLocale(
  * - Can be overridden with LEADCMS_PREVIEW=false to disable drafts
  * - Never includes user-specific draft content in general listings
  *
+ * With `localeFallbacks` configured and `includeFallbacks` set, items of the
+ * fallback locales without a translation (same slug or translationKey) in the
+ * requested locale are appended, marked with their `sourceLocale`.
+ *
  * @param locale - Locale code (optional, uses default language if not provided)
  * @param contentTypes - Optional array of content types to filter
  * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
  * @returns Array of content objects
  *
  * @example
@@ -284,11 +553,12 @@ export function getAllContentSlugsForLocale(
  *     // ... other mappings
  *   }));
  */
-export function getAllContentForLocale(
+export function getAllContentForLocale<K extends string = string>(
   locale?: string,
-  contentTypes?: readonly string[],
-  userUid?: string | null
-): CMSContent[] {
+  contentTypes?: readonly K[],
+  userUid?: string | null,
+  options: ContentListOptions = {}
+): ContentOfType<K>[] {
   const config = getLeadCMSConfig();
   const contentDir = config.contentDir;
 
@@ -297,74 +567,33 @@ export function getAllContentForLocale(
     return [];
   }
 
-  // Get all slugs using the existing logic
-  const slugs = getAllContentSlugsForLocaleFromDir(
+  // Get all slugs (and fallback locale items, if requested) using the existing logic
+  const slugs = getLocalizedSlugsFromDir(
     contentDir,
     locale,
     contentTypes,
-    userUid // draftUserUid
+    userUid, // draftUserUid
+    options?.includeFallbacks
   );
 
-  const localeContentDir = getContentDirForLocale(contentDir, locale);
   const results: CMSContent[] = [];
 
-  // Fetch content for each slug
-  for (const slug of slugs) {
-    let content: CMSContent | null = null;
-
-    // Handle user-specific content if userUid is provided
-    if (userUid) {
-      // Check if this slug represents user-specific content
-      const extractedUserUid = extractUserUidFromSlug(slug);
-
-      if (extractedUserUid) {
-        // This is a user-specific preview slug (e.g., "article-user-guid")
-        // For preview URLs, we should maintain the preview slug for consistency
-        // Try to get the user's draft version first
-        const userSlug = `${slug}-${extractedUserUid}`;
-        content = getCMSContentBySlugFromDir(userSlug, localeContentDir);
-
-        if (content) {
-          // For preview URLs, maintain the preview slug (the original slug parameter)
-          content.slug = slug;
-        } else {
-          // Fall back to base content but keep preview slug for URL consistency
-          const baseSlug = slug.replace(
-            new RegExp(`-${extractedUserUid.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&")}$`, "i"),
-            ""
-          );
-          content = getCMSContentBySlugFromDir(baseSlug, localeContentDir);
-          if (content) {
-            // For preview URLs, maintain the preview slug (the original slug parameter)
-            content.slug = slug;
-          }
-        }
-      } else {
-        // Regular slug - check if user has a draft version
-        const userSlug = `${slug}-${userUid}`;
-        const userDraft = getCMSContentBySlugFromDir(userSlug, localeContentDir);
-
-        if (userDraft) {
-          content = userDraft;
-          // Keep the filename-derived slug (userSlug) - this is the expected behavior
-          // The user has a draft, so they should see the draft with its filename-derived slug
-        } else {
-          // Fall back to regular content
-          content = getCMSContentBySlugFromDir(slug, localeContentDir);
-          // Keep the base slug - this is correct since there's no user-specific version
-        }
+  // Fetch content for each slug, preferring the user's draft version when userUid is provided
+  for (const { slug, locale: sourceLocale } of slugs) {
+    const localeContentDir = getContentDirForLocale(contentDir, sourceLocale);
+    const plan = getSlugLookupPlan(slug, userUid);
+    for (const candidate of plan.candidates) {
+      const content = getCMSContentBySlugFromDir(candidate.slug, localeContentDir);
+      if (content) {
+        // Drafts were already filtered out of the slug list
+        content.sourceLocale = sourceLocale;
+        results.push(applySlugLookupResult(content, candidate, plan, false)!);
+        break;
       }
-    } else {
-      // No userUid provided - get regular content
-      content = getCMSContentBySlugFromDir(slug, localeContentDir);
-    }
-
-    if (content) {
-      results.push(content);
     }
   }
 
-  return results;
+  return results as ContentOfType<K>[];
 }
 
 /**
@@ -378,7 +607,8 @@ function applyDraftFiltering(
   slugs: string[],
   draftUserUid?: string | null,
   contentDir?: string,
-  locale?: string
+  locale?: string,
+  index?: ContentIndex
 ): string[] {
   const shouldIncludeDrafts = isPreviewMode() && !!draftUserUid;
 
@@ -388,11 +618,13 @@ function applyDraftFiltering(
 
     // Also filter based on publishedAt if contentDir is available
     if (contentDir) {
-      filteredSlugs = filteredSlugs.filter((slug) => {
-        const localeContentDir = getContentDirForLocale(contentDir, locale);
-        const content = getCMSContentBySlugFromDir(slug, localeContentDir);
-        return content && !isContentDraft(content);
-      });
+      const contentIndex =
+        index ??
+        getContentIndex(contentDir, getLeadCMSConfig().defaultLanguage || DEFAULT_LANGUAGE);
+      const localePrefix = getLocalePrefix(contentDir, locale);
+      filteredSlugs = filteredSlugs.filter((slug) =>
+        isIndexedSlugPublished(contentIndex, localePrefix, slug)
+      );
     }
 
     return filteredSlugs;
@@ -402,7 +634,7 @@ function applyDraftFiltering(
   // return base content with user's drafts overriding the originals
   // User-specific drafts are always included regardless of publishedAt
   if (draftUserUid) {
-    return getBaseContentWithUserDraftOverrides(slugs, draftUserUid);
+    return getBaseContentWithUserDraftOverrides(slugs, draftUserUid, index);
   }
 
   // Fallback: filter out user-specific drafts but allow published drafts
@@ -410,18 +642,21 @@ function applyDraftFiltering(
 }
 
 /**
- * Filter out draft slugs (those that have a corresponding base slug)
- * Uses GUID pattern detection since userUid is always a GUID
+ * Check whether a slug is a user-specific draft (ends with a user GUID)
+ * @internal
  */
-function filterOutDraftSlugs(slugs: string[]): string[] {
+export function isUserDraftSlug(slug: string): boolean {
   // GUID pattern: 8-4-4-4-12 hexadecimal characters with a preceding dash
   // Example: some-slug-550e8400-e29b-41d4-a716-446655440000
-  const draftSlugPattern = /-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return /-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug);
+}
 
-  return slugs.filter((slug) => {
-    const isDraft = draftSlugPattern.test(slug);
-    return !isDraft;
-  });
+/**
+ * Filter out draft slugs (those that have a corresponding base slug)
+ * Uses GUID pattern detection since userUid is always a GUID
+ */
+function filterOutDraftSlugs(slugs: string[]): string[] {
+  return slugs.filter((slug) => !isUserDraftSlug(slug));
 }
 
 /**
@@ -429,7 +664,11 @@ function filterOutDraftSlugs(slugs: string[]): string[] {
  * Returns base slugs, but when content is fetched, user's version will be preferred
  * Also includes user-only drafts (drafts that don't have a base version)
  */
-function getBaseContentWithUserDraftOverrides(slugs: string[], draftUserUid: string): string[] {
+function getBaseContentWithUserDraftOverrides(
+  slugs: string[],
+  draftUserUid: string,
+  index?: ContentIndex
+): string[] {
   // First, get all base slugs (non-draft by GUID pattern)
   const baseSlugs = filterOutDraftSlugs(slugs);
 
@@ -440,11 +679,12 @@ function getBaseContentWithUserDraftOverrides(slugs: string[], draftUserUid: str
 
   let publishedBaseSlugs: string[] = baseSlugs;
   if (contentDir) {
-    publishedBaseSlugs = baseSlugs.filter((slug) => {
-      const localeContentDir = getContentDirForLocale(contentDir, undefined); // Use default locale logic
-      const content = getCMSContentBySlugFromDir(slug, localeContentDir);
-      return content && !isContentDraft(content);
-    });
+    const contentIndex =
+      index ?? getContentIndex(contentDir, config.defaultLanguage || DEFAULT_LANGUAGE);
+    const localePrefix = getLocalePrefix(contentDir, undefined); // Use default locale logic
+    publishedBaseSlugs = baseSlugs.filter((slug) =>
+      isIndexedSlugPublished(contentIndex, localePrefix, slug)
+    );
   }
 
   const result: string[] = [...publishedBaseSlugs]; // Start with only published base slugs
@@ -467,85 +707,6 @@ function getBaseContentWithUserDraftOverrides(slugs: string[], draftUserUid: str
   return result;
 }
 
-function getAllContentSlugsExcludingLanguageDirs(
-  contentDir: string,
-  contentTypes?: readonly string[],
-  rootContentDir?: string
-): string[] {
-  const config = getLeadCMSConfig();
-  // Get available languages from the root content directory to know which directories to exclude
-  const availableLanguages = rootContentDir
-    ? getAvailableLanguagesFromDir(rootContentDir)
-    : [config.defaultLanguage];
-
-  function walk(dir: string, prefix = ""): string[] {
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    const slugs: string[] = [];
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        // Skip language directories when we're in the root content directory
-        const defaultLanguage = config.defaultLanguage;
-        if (
-          prefix === "" &&
-          availableLanguages.includes(entry.name) &&
-          entry.name !== defaultLanguage
-        ) {
-          continue;
-        }
-
-        const subSlugs = walk(
-          path.join(dir, entry.name),
-          prefix ? `${prefix}/${entry.name}` : entry.name
-        );
-        slugs.push(...subSlugs);
-      } else if (entry.isFile() && (entry.name.endsWith(".mdx") || entry.name.endsWith(".json"))) {
-        const ext = entry.name.endsWith(".mdx") ? ".mdx" : ".json";
-        const slug = (prefix ? `${prefix}/` : "") + entry.name.replace(new RegExp(`\\${ext}$`), "");
-
-        // If content types filter is provided, check the file's type
-        if (contentTypes && contentTypes.length > 0) {
-          const filePath = path.join(dir, entry.name);
-          try {
-            const fileType = getFileTypeOptimized(filePath, ext);
-            // Only include if the type matches the filter
-            if (fileType && contentTypes.includes(fileType)) {
-              slugs.push(slug);
-            }
-          } catch {
-            // Skip files that can't be parsed
-            continue;
-          }
-        } else {
-          // No filter, include all files
-          slugs.push(slug);
-        }
-      }
-    }
-    return slugs;
-  }
-  return walk(contentDir);
-}
-
-/**
- * Get content by slug for a specific locale (internal helper)
- * @internal
- */
-function getCMSContentBySlugForLocaleFromDir(
-  slug: string,
-  contentDir: string,
-  locale?: string
-): CMSContent | null {
-  const localeContentDir = getContentDirForLocale(contentDir, locale);
-  const content = getCMSContentBySlugFromDir(slug, localeContentDir);
-
-  if (content) {
-    // Ensure the locale is set on the content object
-    content.language = content.language || locale;
-  }
-
-  return content;
-}
-
 /**
  * Get content by slug for a specific locale
  *
@@ -555,6 +716,10 @@ function getCMSContentBySlugForLocaleFromDir(
  * - Can be overridden with LEADCMS_PREVIEW=false to disable drafts in development
  * - User-specific content is returned when userUid is provided (fallback to default if not found)
  *
+ * When the slug is missing (or unpublished) in the requested locale, the
+ * `localeFallbacks` locales are tried in order; `sourceLocale` on the result
+ * tells which locale it came from.
+ *
  * @param slug - Content slug (e.g., 'home' or 'home-550e8400-e29b-41d4-a716-446655440000')
  * @param locale - Optional locale code
  * @param userUid - Optional user UID for user-specific draft content
@@ -573,76 +738,108 @@ function getCMSContentBySlugForLocaleFromDir(
  * // With user-specific content
  * getCMSContentBySlugForLocale('home', 'en', '550e8400-e29b-41d4-a716-446655440000')
  */
-export function getCMSContentBySlugForLocale(
+export function getCMSContentBySlugForLocale<K extends string = string>(
   slug: string,
   locale?: string,
   userUid?: string | null
-): CMSContent | null {
+): ContentOfType<K> | null {
   const config = getLeadCMSConfig();
   const contentDir = config.contentDir;
-  const shouldIncludeDrafts = isPreviewMode();
 
   if (!contentDir) {
     console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
     return null;
   }
 
+  // Try the user-specific draft first (preview slug or userUid), then the base content -
+  // in the requested locale first, then in its fallback locales
+  const plan = getSlugLookupPlan(slug, userUid);
+  for (const [i, chainLocale] of getLocaleFallbackChain(locale).entries()) {
+    const lookupLocale = i === 0 ? locale : chainLocale;
+    const localeContentDir = getContentDirForLocale(contentDir, lookupLocale);
+
+    for (const candidate of plan.candidates) {
+      const content = getCMSContentBySlugFromDir(candidate.slug, localeContentDir);
+      if (content) {
+        // Ensure the locale is set on the content object
+        content.language = content.language || lookupLocale;
+        content.sourceLocale = chainLocale;
+        const result = applySlugLookupResult(content, candidate, plan, true);
+        if (result) {
+          return result as ContentOfType<K>;
+        }
+        break; // Unpublished in this locale - try the next fallback locale
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Files to try, in order, when resolving a slug that may have a user-specific
+ * draft version. Shared by the sync and async read API.
+ * @internal
+ */
+interface SlugLookupPlan {
+  /** Slugs to try; the first one with an existing file wins */
+  candidates: { slug: string; applyDraftRules: boolean }[];
+  /** Slug to report on the result (preview slugs keep their GUID suffix) */
+  displaySlug: string | null;
+}
+
+function getSlugLookupPlan(slug: string, userUid?: string | null): SlugLookupPlan {
   // Extract user UID from slug if present
   const extractedUserUid = extractUserUidFromSlug(slug);
 
   if (extractedUserUid) {
-    // User-specific slug detected - extract base slug
+    // User-specific slugs with valid GUIDs should always work (for preview URLs):
+    // try the user's draft first, then the base content, keeping the preview slug
     const guidPattern = new RegExp(
       `-${extractedUserUid.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&")}$`,
       "i"
     );
     const baseSlug = slug.replace(guidPattern, "");
-
-    // User-specific slugs with valid GUIDs should always work (for preview URLs)
-
-    // Try user-specific draft first, then base content
-    const draftSlug = `${baseSlug}-${extractedUserUid}`;
-    const draftContent = getCMSContentBySlugForLocaleFromDir(draftSlug, contentDir, locale);
-    if (draftContent) {
-      draftContent.slug = slug; // Maintain the original preview slug
-      return draftContent;
-    }
-
-    // Fall back to base content
-    const baseContent = getCMSContentBySlugForLocaleFromDir(baseSlug, contentDir, locale);
-    if (baseContent) {
-      baseContent.slug = slug; // Maintain the original preview slug
-      return baseContent;
-    }
-
-    return null;
+    return {
+      candidates: [
+        { slug: `${baseSlug}-${extractedUserUid}`, applyDraftRules: false },
+        { slug: baseSlug, applyDraftRules: false },
+      ],
+      displaySlug: slug,
+    };
   }
 
-  // Handle user-specific content when userUid is provided as parameter
+  const candidates: SlugLookupPlan["candidates"] = [];
   if (userUid) {
-    const userSpecificSlug = `${slug}-${userUid}`;
-    const userContent = getCMSContentBySlugForLocaleFromDir(userSpecificSlug, contentDir, locale);
-    if (userContent) {
-      return userContent;
-    }
-    // Fall back to default content
-  }
-
-  // Normal slug handling
-  const content = getCMSContentBySlugForLocaleFromDir(slug, contentDir, locale);
-
-  if (!content) {
-    return null;
+    // The user's draft keeps its filename-derived slug
+    candidates.push({ slug: `${slug}-${userUid}`, applyDraftRules: false });
   }
+  candidates.push({ slug, applyDraftRules: true });
+  return { candidates, displaySlug: null };
+}
 
-  // Apply draft filtering logic based on environment
-  if (isContentDraft(content)) {
-    // Only include drafts if preview mode is enabled
-    if (!shouldIncludeDrafts) {
+/**
+ * Apply the draft rules and preview slug of a lookup plan to the content found
+ * for one of its candidates. Returns null when the content is a draft that
+ * must not be shown.
+ * @internal
+ */
+function applySlugLookupResult(
+  content: CMSContent,
+  candidate: SlugLookupPlan["candidates"][number],
+  plan: SlugLookupPlan,
+  enforceDraftRules: boolean
+): CMSContent | null {
+  // Only include drafts if preview mode is enabled
+  if (enforceDraftRules && candidate.applyDraftRules && isContentDraft(content)) {
+    if (!isPreviewMode()) {
       return null;
     }
   }
 
+  if (plan.displaySlug) {
+    content.slug = plan.displaySlug; // Maintain the original preview slug
+  }
   return content;
 }
 
@@ -674,7 +871,12 @@ export function getContentTranslations(
       for (const slug of slugs) {
         const content = getCMSContentBySlugForLocale(slug, locale, userUid);
 
-        if (content && content.translationKey === translationKey) {
+        // Items served from a fallback locale are not translations of this locale
+        if (
+          content &&
+          content.translationKey === translationKey &&
+          (content.sourceLocale ?? locale) === locale
+        ) {
           content.language = content.language || locale;
           translations.push({ locale, content });
           break; // Found the translation for this locale
@@ -689,21 +891,51 @@ export function getContentTranslations(
   return translations;
 }
 
+/**
+ * A content route, as returned by getAllContentRoutes()
+ */
+export interface ContentRoute {
+  locale: string;
+  slug: string;
+  slugParts: string[];
+  isDefaultLocale: boolean;
+  /** Route path: no locale prefix for the default language and for languages with their own domain */
+  path: string;
+  /** Base URL of the locale from `languageDomains`, when the locale is served from its own domain */
+  domain?: string;
+}
+
+function createContentRoute(locale: string, slug: string, config: LeadCMSConfig): ContentRoute {
+  const domain = config.languageDomains?.[locale];
+  return {
+    locale,
+    slug,
+    slugParts: slug.split("/"),
+    isDefaultLocale: locale === config.defaultLanguage,
+    path: getContentPath(locale, slug, config.defaultLanguage, config.languageDomains),
+    ...(domain ? { domain } : {}),
+  };
+}
+
 /**
  * Get all content routes for all locales in a framework-agnostic format
- * Returns an array of route objects with locale and slug information
+ * Returns an array of route objects with locale and slug information.
+ * With `languageDomains`, routes of locales served from their own domain
+ * have unprefixed paths and carry the domain, so routes of different
+ * locales may share a path.
  *
  * @param contentTypes - Optional array of content types to filter
  * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
  * @returns Array of route objects with locale and slug information
  */
 export function getAllContentRoutes(
   contentTypes?: readonly string[],
-  userUid?: string | null
-): { locale: string; slug: string; slugParts: string[]; isDefaultLocale: boolean; path: string }[] {
+  userUid?: string | null,
+  options: ContentListOptions = {}
+): ContentRoute[] {
   const config = getLeadCMSConfig();
   const contentDir = config.contentDir;
-  const defaultLanguage = config.defaultLanguage;
 
   if (!contentDir) {
     console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
@@ -711,35 +943,260 @@ export function getAllContentRoutes(
   }
 
   const languages = getAvailableLanguagesFromDir(contentDir);
-  const allRoutes: {
-    locale: string;
-    slug: string;
-    slugParts: string[];
-    isDefaultLocale: boolean;
-    path: string;
-  }[] = [];
+  const allRoutes: ContentRoute[] = [];
 
   for (const locale of languages) {
-    const slugs = getAllContentSlugsForLocale(locale, contentTypes, userUid);
+    const slugs = getAllContentSlugsForLocale(locale, contentTypes, userUid, options);
 
     for (const slug of slugs) {
-      const isDefaultLocale = locale === defaultLanguage;
-      const slugParts = slug.split("/");
-      const path = isDefaultLocale ? `/${slug}` : `/${locale}/${slug}`;
-
-      allRoutes.push({
-        locale,
-        slug,
-        slugParts,
-        isDefaultLocale,
-        path,
-      });
+      allRoutes.push(createContentRoute(locale, slug, config));
     }
   }
 
   return allRoutes;
 }
 
+/**
+ * Options for getContentUrl()
+ */
+export interface ContentUrlOptions {
+  /** Return an absolute URL (requires a `languageDomains` entry or `siteUrl`). Default: false */
+  absolute?: boolean;
+  /**
+   * Locale of the page the link is rendered on. Links to a locale served from
+   * another domain are returned absolute, so they work as cross-domain links.
+   */
+  fromLocale?: string;
+  /** Locale of the URL (default: the locale the item was read from, then its `language`) */
+  locale?: string;
+}
+
+/**
+ * Get the URL of a content item, following the configured URL layout:
+ * path-prefixed locales (/{locale}/{slug}) by default, and the locale's own
+ * domain for locales with a `languageDomains` entry.
+ *
+ * Items served from a fallback locale (see `localeFallbacks`) link to their
+ * source locale, which makes the original the canonical page.
+ *
+ * @throws {Error} When an absolute URL is needed but no base URL is configured for the locale
+ *
+ * @example
+ * getContentUrl(post)                     // "/blog/hello" (default language)
+ * getContentUrl(post, { absolute: true }) // "https://www.example.com/blog/hello"
+ * // languageDomains: { de: "https://de.example.com" }
+ * getContentUrl(dePost, { fromLocale: "en" }) // "https://de.example.com/blog/hallo"
+ */
+export function getContentUrl(content: CMSContent, options: ContentUrlOptions = {}): string {
+  const config = getLeadCMSConfig();
+  const locale =
+    options.locale || content.sourceLocale || content.language || config.defaultLanguage;
+  const contentPath = getContentPath(
+    locale,
+    content.slug,
+    config.defaultLanguage,
+    config.languageDomains
+  );
+
+  const baseUrl = getSiteUrlForLanguage(locale, config.languageDomains, config.siteUrl);
+  const crossDomain =
+    options.fromLocale !== undefined &&
+    getSiteUrlForLanguage(options.fromLocale, config.languageDomains, config.siteUrl) !== baseUrl;
+
+  if (!options.absolute && !crossDomain) {
+    return contentPath;
+  }
+
+  if (!baseUrl) {
+    throw new Error(
+      `[LeadCMS] No site URL configured for language "${locale}". Set "siteUrl" or a "languageDomains" entry in your LeadCMS config.`
+    );
+  }
+  return toAbsoluteUrl(contentPath, baseUrl);
+}
+
+/**
+ * Get the URLs of all translations of a content item (matched by
+ * translationKey), e.g. for hreflang tags and language switchers.
+ * URLs are absolute when a base URL is configured for the locale and
+ * root-relative paths otherwise. Includes "x-default" (the default language
+ * version) when that translation exists.
+ *
+ * @param content - Content item (its own locale is always included)
+ * @param userUid - Optional user UID for user-specific draft content
+ * @param siteUrl - Base URL for locales without a languageDomains entry (default: `siteUrl` from the config)
+ * @returns Locale → URL map
+ *
+ * @example
+ * getAlternateUrls(post)
+ * // { en: "https://www.example.com/blog/hello", de: "https://de.example.com/blog/hallo",
+ * //   "x-default": "https://www.example.com/blog/hello" }
+ */
+export function getAlternateUrls(
+  content: CMSContent,
+  userUid?: string | null,
+  siteUrl?: string
+): Record<string, string> {
+  const config = getLeadCMSConfig();
+  const ownLocale = content.sourceLocale || content.language || config.defaultLanguage;
+
+  const translations = content.translationKey
+    ? getContentTranslations(content.translationKey, userUid)
+    : [];
+  if (!translations.some(({ locale }) => locale === ownLocale)) {
+    translations.push({ locale: ownLocale, content });
+  }
+
+  const urls: Record<string, string> = {};
+  for (const { locale, content: translation } of translations) {
+    urls[locale] = buildContentUrl(locale, translation.slug, {
+      ...config,
+      siteUrl: siteUrl ?? config.siteUrl,
+    });
+  }
+  if (urls[config.defaultLanguage]) {
+    urls["x-default"] = urls[config.defaultLanguage];
+  }
+  return urls;
+}
+
+/**
+ * Options for getRelatedContent()
+ */
+export interface RelatedContentOptions {
+  /** Maximum number of items to return. Default: 5 */
+  limit?: number;
+  /** Content types to consider (default: the type of the source item) */
+  types?: readonly string[];
+  /** Optional user UID for user-specific draft content */
+  userUid?: string | null;
+}
+
+/** Score weights used by getRelatedContent() */
+const RELATED_SCORE_WEIGHTS = { tag: 3, category: 2, author: 1, text: 5 };
+
+function normalizedTerms(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === "string" && v.trim() !== "")
+    .map((v) => v.trim().toLowerCase());
+}
+
+/**
+ * Build TF-IDF vectors for the body text of a set of content items
+ * @internal
+ */
+function buildTfIdfVectors(items: readonly CMSContent[]): Map<string, number>[] {
+  const termCounts = items.map((item) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenizeSearchText(stripMarkup(typeof item.body === "string" ? item.body : ""));
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return { counts, length: tokens.length };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const n = items.length;
+  return termCounts.map(({ counts, length }) => {
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const idf = Math.log((n + 1) / (documentFrequency.get(term)! + 1)) + 1;
+      vector.set(term, (count / length) * idf);
+    }
+    return vector;
+  });
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other !== undefined) dot += weight * other;
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Get content related to an item, for "related articles" blocks
+ *
+ * Candidates are scored by shared tags, same category, same author and the
+ * TF-IDF cosine similarity of their body text. Drafts and the item itself are
+ * skipped; candidates without any relation are not returned. Works entirely
+ * on the local content files.
+ *
+ * @param slug - Slug of the source content item
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param options - Result limit, content types and user UID
+ * @returns Related items, most related first (ties: newest first)
+ *
+ * @example
+ * const related = getRelatedContent('blog/hello-world', 'en', { limit: 3 });
+ */
+export function getRelatedContent(
+  slug: string,
+  locale?: string,
+  options: RelatedContentOptions = {}
+): CMSContent[] {
+  const { limit = 5, userUid } = options;
+  const actualLocale = locale || getLeadCMSConfig().defaultLanguage;
+
+  const source = getCMSContentBySlugForLocale(slug, actualLocale, userUid);
+  if (!source) {
+    return [];
+  }
+
+  const types = options.types ?? [source.type];
+  const candidates = getAllContentForLocale(actualLocale, types, userUid).filter(
+    (content) => content.slug !== source.slug && !isContentDraft(content)
+  );
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const [sourceVector, ...candidateVectors] = buildTfIdfVectors([source, ...candidates]);
+  const sourceTags = new Set(normalizedTerms(source.tags));
+  const [sourceCategory] = normalizedTerms(source.category);
+  const [sourceAuthor] = normalizedTerms(source.author);
+
+  const scored = candidates.map((content, i) => {
+    let score = 0;
+    const tags = new Set(normalizedTerms(content.tags));
+    for (const tag of tags) {
+      if (sourceTags.has(tag)) score += RELATED_SCORE_WEIGHTS.tag;
+    }
+    if (sourceCategory && normalizedTerms(content.category)[0] === sourceCategory) {
+      score += RELATED_SCORE_WEIGHTS.category;
+    }
+    if (sourceAuthor && normalizedTerms(content.author)[0] === sourceAuthor) {
+      score += RELATED_SCORE_WEIGHTS.author;
+    }
+    score += RELATED_SCORE_WEIGHTS.text * cosineSimilarity(sourceVector, candidateVectors[i]);
+    return { content, score };
+  });
+
+  const publishedTime = (content: CMSContent) =>
+    content.publishedAt ? new Date(content.publishedAt).getTime() || 0 : 0;
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || publishedTime(b.content) - publishedTime(a.content))
+    .slice(0, limit)
+    .map(({ content }) => content);
+}
+
 /**
  * Extract userUid from a draft slug if it exists
  * @param slug - The slug to check for userUid
@@ -768,197 +1225,297 @@ export function getAllContentSlugs(
   return getAllContentSlugsForLocale(config.defaultLanguage, contentTypes, userUid);
 }
 
-function getAllContentSlugsFromDir(contentDir: string, contentTypes?: readonly string[]): string[] {
-  function walk(dir: string, prefix = ""): string[] {
-    let entries;
-    try {
-      entries = fs.readdirSync(dir, { withFileTypes: true });
-    } catch (_error: unknown) {
-      const error = _error as NodeJS.ErrnoException;
-      // If directory doesn't exist or can't be read, return empty array
-      if (error.code === "ENOENT" || error.code === "EACCES") {
-        return [];
-      }
-      throw error;
-    }
+/**
+ * Get content by slug for the default locale
+ *
+ * @param slug - Content slug
+ * @param userUid - Optional user UID for user-specific draft content
+ */
+export function getCMSContentBySlug<K extends string = string>(
+  slug: string,
+  userUid?: string | null
+): ContentOfType<K> | null {
+  const config = getLeadCMSConfig();
+  return getCMSContentBySlugForLocale<K>(slug, config.defaultLanguage, userUid);
+}
 
-    const slugs: string[] = [];
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const subSlugs = walk(
-          path.join(dir, entry.name),
-          prefix ? `${prefix}/${entry.name}` : entry.name
-        );
-        slugs.push(...subSlugs);
-      } else if (entry.isFile() && (entry.name.endsWith(".mdx") || entry.name.endsWith(".json"))) {
-        const ext = entry.name.endsWith(".mdx") ? ".mdx" : ".json";
-        const slug = (prefix ? `${prefix}/` : "") + entry.name.replace(new RegExp(`\\${ext}$`), "");
-
-        // If content types filter is provided, check the file's type
-        if (contentTypes && contentTypes.length > 0) {
-          const filePath = path.join(dir, entry.name);
-          try {
-            const fileType = getFileTypeOptimized(filePath, ext);
-            // Only include if the type matches the filter
-            if (fileType && contentTypes.includes(fileType)) {
-              slugs.push(slug);
-            }
-          } catch {
-            // Skip files that can't be parsed
-            continue;
-          }
-        } else {
-          // No filter, include all files
-          slugs.push(slug);
-        }
-      }
-    }
-    return slugs;
+/**
+ * Get all available languages from the content directory structure (async)
+ *
+ * Non-blocking variant of getAvailableLanguages().
+ */
+export async function getAvailableLanguagesAsync(): Promise<string[]> {
+  const config = getLeadCMSConfig();
+  const contentDir = config.contentDir;
+
+  if (!contentDir) {
+    return [config.defaultLanguage || DEFAULT_LANGUAGE];
   }
-  return walk(contentDir);
+
+  return getAvailableLanguagesFromDirAsync(contentDir);
 }
 
 /**
- * Get content by slug for the default locale
+ * Get all content slugs for a specific locale (async)
  *
- * @param slug - Content slug
+ * Non-blocking variant of getAllContentSlugsForLocale() with the same draft
+ * handling. The content index is refreshed through fs/promises, reading
+ * changed files concurrently.
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to filter
  * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
+ * @returns Promise resolving to an array of content slugs
  */
-export function getCMSContentBySlug(slug: string, userUid?: string | null): CMSContent | null {
+export async function getAllContentSlugsForLocaleAsync(
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null,
+  options: ContentListOptions = {}
+): Promise<string[]> {
   const config = getLeadCMSConfig();
-  return getCMSContentBySlugForLocale(slug, config.defaultLanguage, userUid);
+  const contentDir = config.contentDir;
+
+  if (!contentDir) {
+    console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
+    return [];
+  }
+
+  const slugs = await getLocalizedSlugsFromDirAsync(
+    contentDir,
+    locale,
+    contentTypes,
+    userUid,
+    options?.includeFallbacks
+  );
+  return slugs.map(({ slug }) => slug);
 }
 
-function getCMSContentBySlugFromDir(slug: string, contentDir: string): CMSContent | null {
-  // Try both .mdx and .json extensions
-  const mdxPath = path.join(contentDir, `${slug}.mdx`);
-  const jsonPath = path.join(contentDir, `${slug}.json`);
+/**
+ * Get all content objects for a specific locale (async)
+ *
+ * Non-blocking variant of getAllContentForLocale() with the same draft and
+ * user-override rules. Content files are read concurrently (at most 16 at a
+ * time); results keep the order of getAllContentSlugsForLocaleAsync().
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to filter
+ * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
+ * @returns Promise resolving to an array of content objects
+ *
+ * @example
+ * // In a Next.js server component or Astro SSR route
+ * const posts = await getAllContentForLocaleAsync('en', ['blog-article']);
+ */
+export async function getAllContentForLocaleAsync<K extends string = string>(
+  locale?: string,
+  contentTypes?: readonly K[],
+  userUid?: string | null,
+  options: ContentListOptions = {}
+): Promise<ContentOfType<K>[]> {
+  const config = getLeadCMSConfig();
+  const contentDir = config.contentDir;
 
-  try {
-    // Try MDX first - combine existence check with read operation
-    try {
-      const file = fs.readFileSync(mdxPath, "utf8");
-      const { data, content } = matter(file);
+  if (!contentDir) {
+    console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
+    return [];
+  }
 
-      // Convert publishedAt string to Date if present
-      if (data.publishedAt && typeof data.publishedAt === "string") {
-        data.publishedAt = new Date(data.publishedAt);
-      }
+  const slugs = await getLocalizedSlugsFromDirAsync(
+    contentDir,
+    locale,
+    contentTypes,
+    userUid,
+    options?.includeFallbacks
+  );
 
-      return {
-        ...data,
-        slug,
-        body: content,
-      } as CMSContent;
-    } catch (_mdxError: unknown) {
-      const mdxError = _mdxError as NodeJS.ErrnoException;
-      // If MDX doesn't exist or can't be read, try JSON
-      if (mdxError.code !== "ENOENT") {
-        // If it's not a "file not found" error, rethrow
-        throw mdxError;
+  const contents = await mapWithConcurrency(
+    slugs,
+    DEFAULT_READ_CONCURRENCY,
+    async ({ slug, locale: sourceLocale }) => {
+      const localeContentDir = getContentDirForLocale(contentDir, sourceLocale);
+      const plan = getSlugLookupPlan(slug, userUid);
+      for (const candidate of plan.candidates) {
+        const content = await getCMSContentBySlugFromDirAsync(candidate.slug, localeContentDir);
+        if (content) {
+          // Drafts were already filtered out of the slug list
+          content.sourceLocale = sourceLocale;
+          return applySlugLookupResult(content, candidate, plan, false);
+        }
       }
+      return null;
     }
+  );
 
-    // Try JSON
-    try {
-      const file = fs.readFileSync(jsonPath, "utf8");
-      const data = JSON.parse(file);
+  return contents.filter(
+    (content): content is CMSContent => content !== null
+  ) as ContentOfType<K>[];
+}
 
-      // Convert publishedAt string to Date if present
-      if (data.publishedAt && typeof data.publishedAt === "string") {
-        data.publishedAt = new Date(data.publishedAt);
-      }
+/**
+ * Get content by slug for a specific locale (async)
+ *
+ * Non-blocking variant of getCMSContentBySlugForLocale() with the same draft
+ * and user-override rules.
+ *
+ * @param slug - Content slug (e.g., 'home' or 'home-550e8400-e29b-41d4-a716-446655440000')
+ * @param locale - Optional locale code
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Promise resolving to the content object, or null if not found/not published
+ */
+export async function getCMSContentBySlugForLocaleAsync<K extends string = string>(
+  slug: string,
+  locale?: string,
+  userUid?: string | null
+): Promise<ContentOfType<K> | null> {
+  const config = getLeadCMSConfig();
+  const contentDir = config.contentDir;
+
+  if (!contentDir) {
+    console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
+    return null;
+  }
 
-      return {
-        ...data,
-        slug,
-      } as CMSContent;
-    } catch (_jsonError: unknown) {
-      const jsonError = _jsonError as NodeJS.ErrnoException;
-      // If JSON doesn't exist or can't be read, return null
-      if (jsonError.code === "ENOENT") {
-        return null;
+  // Try the requested locale first, then its fallback locales
+  const plan = getSlugLookupPlan(slug, userUid);
+  for (const [i, chainLocale] of getLocaleFallbackChain(locale).entries()) {
+    const lookupLocale = i === 0 ? locale : chainLocale;
+    const localeContentDir = getContentDirForLocale(contentDir, lookupLocale);
+
+    for (const candidate of plan.candidates) {
+      const content = await getCMSContentBySlugFromDirAsync(candidate.slug, localeContentDir);
+      if (content) {
+        // Ensure the locale is set on the content object
+        content.language = content.language || lookupLocale;
+        content.sourceLocale = chainLocale;
+        const result = applySlugLookupResult(content, candidate, plan, true);
+        if (result) {
+          return result as ContentOfType<K>;
+        }
+        break; // Unpublished in this locale - try the next fallback locale
       }
-      // If it's a parse error or other issue, rethrow
-      throw jsonError;
     }
-  } catch {
-    return null;
   }
+
+  return null;
 }
 
 /**
- * Optimized function to extract file type without reading the entire file content.
- * For MDX files, it reads only the frontmatter section.
- * For JSON files, it attempts to read just enough to find the type field.
+ * Get all content slugs for the default locale (async)
+ *
+ * @param contentTypes - Optional array of content types to filter
+ * @param userUid - Optional user UID for user-specific draft content
  */
-function getFileTypeOptimized(filePath: string, ext: string): string | undefined {
-  if (ext === ".mdx") {
-    return extractTypeFromMDXFrontmatter(filePath);
-  } else if (ext === ".json") {
-    return extractTypeFromJSON(filePath);
-  }
-  return undefined;
+export async function getAllContentSlugsAsync(
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): Promise<string[]> {
+  const config = getLeadCMSConfig();
+  return getAllContentSlugsForLocaleAsync(config.defaultLanguage, contentTypes, userUid);
 }
 
 /**
- * Reads only the frontmatter section of an MDX file to extract the type.
- * This is much more efficient than parsing the entire file.
+ * Get content by slug for the default locale (async)
+ *
+ * @param slug - Content slug
+ * @param userUid - Optional user UID for user-specific draft content
  */
-function extractTypeFromMDXFrontmatter(filePath: string): string | undefined {
-  try {
-    const file = fs.readFileSync(filePath, "utf8");
-    // Quick check if file starts with frontmatter
-    if (!file.startsWith("---\n") && !file.startsWith("---\r\n")) {
-      return undefined;
-    }
+export async function getCMSContentBySlugAsync<K extends string = string>(
+  slug: string,
+  userUid?: string | null
+): Promise<ContentOfType<K> | null> {
+  const config = getLeadCMSConfig();
+  return getCMSContentBySlugForLocaleAsync<K>(slug, config.defaultLanguage, userUid);
+}
 
-    // Find the end of frontmatter
-    let endIndex = file.indexOf("\n---\n", 4);
-    if (endIndex === -1) {
-      endIndex = file.indexOf("\r\n---\r\n", 4);
-    }
-    if (endIndex === -1) {
-      return undefined;
-    }
+/**
+ * Get all content routes for all locales (async)
+ *
+ * Non-blocking variant of getAllContentRoutes(). Locales are listed in parallel.
+ *
+ * @param contentTypes - Optional array of content types to filter
+ * @param userUid - Optional user UID for user-specific draft content
+ * @param options - Listing options (`includeFallbacks`)
+ * @returns Promise resolving to an array of route objects with locale and slug information
+ */
+export async function getAllContentRoutesAsync(
+  contentTypes?: readonly string[],
+  userUid?: string | null,
+  options: ContentListOptions = {}
+): Promise<ContentRoute[]> {
+  const config = getLeadCMSConfig();
+  const contentDir = config.contentDir;
 
-    // Extract and parse only the frontmatter
-    const frontmatterContent = file.slice(4, endIndex);
-    const { data } = matter(`---\n${frontmatterContent}\n---`);
+  if (!contentDir) {
+    console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
+    return [];
+  }
 
-    return data.type;
-  } catch {
-    return undefined;
+  const languages = await getAvailableLanguagesFromDirAsync(contentDir);
+  const slugsByLocale = await Promise.all(
+    languages.map((locale) =>
+      getLocalizedSlugsFromDirAsync(
+        contentDir,
+        locale,
+        contentTypes,
+        userUid,
+        options?.includeFallbacks
+      )
+    )
+  );
+
+  return languages.flatMap((locale, i) =>
+    slugsByLocale[i].map(({ slug }) => createContentRoute(locale, slug, config))
+  );
+}
+
+function getCMSContentBySlugFromDir(slug: string, contentDir: string): CMSContent | null {
+  for (const format of CONTENT_FILE_FORMATS) {
+    const filePath = path.join(contentDir, `${slug}.${format}`);
+    let file: string;
+    try {
+      file = fs.readFileSync(filePath, "utf8");
+    } catch (error: unknown) {
+      // If the file doesn't exist, try the next format; any other read error means no content
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      return null;
+    }
+    const content = parseContentFile(file, format, slug);
+    // Files of a type with a registered schema must match it (throws otherwise)
+    return content && validateContentFile(content, filePath);
   }
+
+  return null;
 }
 
 /**
- * Attempts to extract the type field from a JSON file without parsing the entire content.
- * Uses streaming approach for large files.
+ * Async variant of getCMSContentBySlugFromDir() using fs/promises
+ * @internal
  */
-function extractTypeFromJSON(filePath: string): string | undefined {
-  try {
-    const file = fs.readFileSync(filePath, "utf8");
-
-    // For small files, just parse normally
-    if (file.length < 100) {
-      const data = JSON.parse(file);
-      return data.type;
-    }
-
-    // For larger files, try to find the type field early in the content
-    // This is a simple optimization - look for "type": in the first part of the file
-    const typeMatch = file.match(/"type"\s*:\s*"([^"]+)"/);
-    if (typeMatch) {
-      return typeMatch[1];
+async function getCMSContentBySlugFromDirAsync(
+  slug: string,
+  contentDir: string
+): Promise<CMSContent | null> {
+  for (const format of CONTENT_FILE_FORMATS) {
+    const filePath = path.join(contentDir, `${slug}.${format}`);
+    let file: string;
+    try {
+      file = await fs.promises.readFile(filePath, "utf8");
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      return null;
     }
-
-    // Fallback to full parsing if quick match fails
-    const data = JSON.parse(file);
-    return data.type;
-  } catch {
-    return undefined;
+    const content = parseContentFile(file, format, slug);
+    return content && validateContentFileAsync(content, filePath);
   }
+
+  return null;
 }
 
 /**
@@ -1078,13 +1635,48 @@ function loadConfigWithDraftSupport<T>(
   }
 }
 
+/**
+ * Load a configuration file for a locale, falling back along its
+ * `localeFallbacks` chain when the file is missing. Errors other than a
+ * missing file are thrown immediately; if the file is missing in every locale,
+ * the error for the requested locale is thrown.
+ * @internal
+ */
+function loadConfigWithLocaleFallbacks<T>(
+  contentDir: string,
+  locale: string,
+  configName: string,
+  userUid?: string | null
+): T | null {
+  let missingError: unknown = null;
+
+  for (const chainLocale of getLocaleFallbackChain(locale)) {
+    try {
+      const result = loadConfigWithDraftSupport<T>(contentDir, chainLocale, configName, userUid);
+      if (result !== null) {
+        return result;
+      }
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "MissingConfigurationFile")) {
+        throw error;
+      }
+      missingError = missingError ?? error;
+    }
+  }
+
+  if (missingError) {
+    throw missingError;
+  }
+  return null;
+}
+
 /**
  * Convenience function to load configuration with automatic contentDir resolution
  * Uses the configured contentDir from the LeadCMS configuration system
  * @param configName - Name of the config file (e.g., 'header', 'footer', 'contact', 'navigation')
  * @param locale - Locale code (optional, uses default language from config if not provided)
  * @param userUid - Optional user UID for draft content
- * @returns Parsed config object or null if not found
+ * @returns Parsed config object (from the first locale of the `localeFallbacks` chain that has it) or null if not found
  */
 export function loadContentConfig<T>(
   configName: string,
@@ -1107,7 +1699,7 @@ export function loadContentConfig<T>(
   }
 
   try {
-    return loadConfigWithDraftSupport<T>(contentDir, actualLocale, configName, userUid);
+    return loadConfigWithLocaleFallbacks<T>(contentDir, actualLocale, configName, userUid);
   } catch (error) {
     // Handle missing configuration files gracefully
     if (error instanceof Error && error.name === "MissingConfigurationFile") {
@@ -1148,9 +1740,10 @@ export function getFooterConfig(locale?: string, userUid?: string | null): Foote
 /**
  * Get the current locale from a path
  * @param pathname - The pathname to extract locale from
- * @param contentDir - Content directory path (optional, uses configured contentDir if not provided)
+ * @param host - Optional request host (e.g. "de.example.com"); when it matches a
+ *   `languageDomains` entry, that entry's locale is returned regardless of the path
  */
-export function getLocaleFromPath(pathname: string): string {
+export function getLocaleFromPath(pathname: string, host?: string): string {
   const config = getLeadCMSConfig();
   const contentDir = config.contentDir;
   const defaultLanguage = config.defaultLanguage;
@@ -1161,6 +1754,11 @@ export function getLocaleFromPath(pathname: string): string {
     );
   }
 
+  const domainLocale = host ? getLanguageForHost(host, config.languageDomains) : undefined;
+  if (domainLocale) {
+    return domainLocale;
+  }
+
   const segments = pathname.split("/").filter(Boolean);
   if (segments.length > 0) {
     const firstSegment = segments[0];
@@ -1190,6 +1788,7 @@ export function getLocaleFromPath(pathname: string): string {
 
 /**
  * Make a link locale-aware by adding the current locale prefix
+ * (not added for the default language and locales with a `languageDomains` entry)
  * @param href - The href to make locale-aware
  * @param currentLocale - The current locale
  */
@@ -1208,8 +1807,8 @@ export function makeLocaleAwareLink(href: string, currentLocale: string): string
     );
   }
 
-  // If it's the default language, don't add prefix
-  if (currentLocale === defaultLanguage) {
+  // The default language and locales served from their own domain have no prefix
+  if (currentLocale === defaultLanguage || config.languageDomains?.[currentLocale]) {
     return href;
   }
 
@@ -1253,7 +1852,7 @@ export function loadContentConfigStrict<T>(
   }
 
   // This will throw detailed errors with configName, locale, and path information
-  return loadConfigWithDraftSupport<T>(contentDir, actualLocale, configName, userUid) as T;
+  return loadConfigWithLocaleFallbacks<T>(contentDir, actualLocale, configName, userUid) as T;
 }
 
 /**
@@ -1265,7 +1864,7 @@ export function loadContentConfigStrict<T>(
  * @returns Full path to the comment file
  * @internal
  */
-function getCommentFilePath(
+export function getCommentFilePath(
   commentsDir: string,
   commentableType: string,
   commentableId: number,
@@ -1319,7 +1918,11 @@ export function getComments(
   }
 }
 
-function resolveContentCommentableId(
+/**
+ * Resolve the numeric commentable id of a content item from its id or slug
+ * @internal
+ */
+export function resolveContentCommentableId(
   contentIdentifier: number | string,
   language?: string,
   strict = false
@@ -0,0 +1,377 @@
+/**
+ * Comment Pagination
+ * Paged access to comment threads for entities with many comments: top-level
+ * threads are served in pages with a cursor, reply subtrees are loaded
+ * on demand, and per-entity statistics are computed once per file version.
+ */
+
+import fs from "fs";
+import path from "path";
+import { getCommentFilePath, getLeadCMSConfig, resolveContentCommentableId } from "./cms.js";
+import type { StoredComment } from "./comment-types.js";
+import {
+  buildCommentTree,
+  flattenCommentTree,
+  getCommentStatistics,
+  type CommentSortOrder,
+  type CommentStatistics,
+  type CommentTreeNode,
+} from "./comment-utils.js";
+
+/**
+ * Options for getCommentsPage()
+ */
+export interface CommentsPageOptions {
+  /** Language code (uses the default language if not provided) */
+  language?: string;
+  /**
+   * Page number, starting at 1. Ignored when `cursor` is set.
+   * @default 1
+   */
+  page?: number;
+  /**
+   * Number of top-level threads per page
+   * @default 20
+   */
+  pageSize?: number;
+  /**
+   * Sort order of top-level threads. Replies are always oldest first.
+   * @default 'default' (oldest first)
+   */
+  sort?: CommentSortOrder;
+  /** `nextCursor` of the previous page. Must have been created with the same `sort`. */
+  cursor?: string;
+  /**
+   * Levels of replies included below each thread (0 = none, load them with getCommentReplies())
+   * @default 0
+   */
+  replyDepth?: number;
+}
+
+/**
+ * A page of top-level comment threads
+ *
+ * `threadCount` and `isLeaf` of each thread describe the full thread, even when
+ * replies are not included, so "Show N replies" links can be rendered.
+ */
+export interface CommentsPage {
+  threads: CommentTreeNode[];
+  /** Page number of the first thread on this page */
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  /** Number of top-level threads */
+  totalThreads: number;
+  /** Number of comments, including replies */
+  totalComments: number;
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Options for getCommentReplies()
+ */
+export interface CommentRepliesOptions {
+  /** Language code (uses the default language if not provided) */
+  language?: string;
+  /**
+   * Levels of replies included below each returned reply (0 = direct replies only)
+   * @default unlimited
+   */
+  replyDepth?: number;
+}
+
+interface CommentFileCacheEntry {
+  mtimeMs: number;
+  size: number;
+  comments: StoredComment[];
+  /** Full tree, replies sorted oldest first */
+  roots: CommentTreeNode[];
+  nodes: Map<number, CommentTreeNode>;
+  sortedRoots: Map<CommentSortOrder, CommentTreeNode[]>;
+  statistics?: CommentStatistics;
+}
+
+interface CommentsCursor {
+  s: CommentSortOrder;
+  k: number;
+  i: number;
+}
+
+const SORT_ORDERS: readonly CommentSortOrder[] = [
+  "default",
+  "newest",
+  "oldest",
+  "most-replies",
+  "least-replies",
+];
+
+// Parsed comment files by absolute path, validated against mtime and size on every read
+const commentFileCache = new Map<string, CommentFileCacheEntry>();
+
+function loadCommentFile(
+  commentableType: string,
+  commentableId: number,
+  language?: string
+): CommentFileCacheEntry | null {
+  const config = getLeadCMSConfig();
+  const filePath = path.resolve(
+    getCommentFilePath(config.commentsDir, commentableType, commentableId, language)
+  );
+
+  const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+  if (!stat?.isFile()) {
+    commentFileCache.delete(filePath);
+    return null;
+  }
+
+  const cached = commentFileCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached;
+  }
+
+  let comments: unknown;
+  try {
+    comments = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch {
+    commentFileCache.delete(filePath);
+    return null;
+  }
+  if (!Array.isArray(comments)) {
+    commentFileCache.delete(filePath);
+    return null;
+  }
+
+  const roots = buildCommentTree(comments);
+  const entry: CommentFileCacheEntry = {
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    comments,
+    roots,
+    nodes: new Map(flattenCommentTree(roots).map((node) => [node.id, node])),
+    sortedRoots: new Map(),
+  };
+  commentFileCache.set(filePath, entry);
+  return entry;
+}
+
+function getSortKey(node: CommentTreeNode, sort: CommentSortOrder): number {
+  if (sort === "most-replies" || sort === "least-replies") {
+    return node.threadCount;
+  }
+  const time = Date.parse(node.createdAt);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/** Total order for a sort: the sort key, then the comment id */
+function compareThreads(
+  a: { key: number; id: number },
+  b: { key: number; id: number },
+  sort: CommentSortOrder
+): number {
+  const descending = sort === "newest" || sort === "most-replies";
+  const byKey = descending ? b.key - a.key : a.key - b.key;
+  return byKey !== 0 ? byKey : a.id - b.id;
+}
+
+function getSortedRoots(entry: CommentFileCacheEntry, sort: CommentSortOrder): CommentTreeNode[] {
+  let sorted = entry.sortedRoots.get(sort);
+  if (!sorted) {
+    sorted = [...entry.roots].sort((a, b) =>
+      compareThreads(
+        { key: getSortKey(a, sort), id: a.id },
+        { key: getSortKey(b, sort), id: b.id },
+        sort
+      )
+    );
+    entry.sortedRoots.set(sort, sorted);
+  }
+  return sorted;
+}
+
+function encodeCursor(node: CommentTreeNode, sort: CommentSortOrder): string {
+  const cursor: CommentsCursor = { s: sort, k: getSortKey(node, sort), i: node.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: CommentSortOrder): CommentsCursor {
+  let decoded: Partial<CommentsCursor> | null = null;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    // Reported below
+  }
+
+  if (
+    !decoded ||
+    decoded.s !== sort ||
+    typeof decoded.k !== "number" ||
+    typeof decoded.i !== "number"
+  ) {
+    const error = new Error(
+      `[LeadCMS] Invalid comments cursor "${cursor}" for sort order "${sort}"`
+    );
+    error.name = "InvalidCommentsCursor";
+    throw error;
+  }
+  return decoded as CommentsCursor;
+}
+
+/** Copy a node with `replyDepth` levels of replies, leaving the cached tree untouched */
+function copyNode(node: CommentTreeNode, replyDepth: number): CommentTreeNode {
+  return {
+    ...node,
+    children: replyDepth > 0 ? node.children.map((child) => copyNode(child, replyDepth - 1)) : [],
+  };
+}
+
+/**
+ * Get one page of top-level comment threads for an entity.
+ *
+ * The comments file is parsed and turned into a tree once per file version, so
+ * paging through a large discussion does not rebuild the tree for every page.
+ * Pages can be addressed by number, or by the `nextCursor` of the previous page.
+ * With the time-based sorts ("default", "newest", "oldest"), cursors stay stable
+ * when comments are added or removed between requests. "most-replies" and
+ * "least-replies" sort by reply counts, which change with new replies, so
+ * threads may be skipped or repeated across pages when the comments change.
+ *
+ * @param commentableType - The type of entity (e.g., "Content", "Contact")
+ * @param commentableId - The ID of the entity
+ * @param options - Page, page size, sort order and included reply levels
+ * @returns The page, or an empty page if the entity has no comments
+ * @throws Error named "InvalidCommentsCursor" for a malformed cursor or one created with a different sort order
+ *
+ * @example
+ * const first = getCommentsPage('Content', 42, { pageSize: 10, sort: 'newest' });
+ * const second = getCommentsPage('Content', 42, { pageSize: 10, sort: 'newest', cursor: first.nextCursor! });
+ */
+export function getCommentsPage(
+  commentableType: string,
+  commentableId: number,
+  options: CommentsPageOptions = {}
+): CommentsPage {
+  const { language, sort = "default", cursor, replyDepth = 0 } = options;
+  if (!SORT_ORDERS.includes(sort)) {
+    throw new Error(`[LeadCMS] Unknown comment sort order "${sort}"`);
+  }
+  const pageSize = Math.max(1, Math.floor(options.pageSize ?? 20));
+  const decoded = cursor ? decodeCursor(cursor, sort) : null;
+
+  const entry = loadCommentFile(commentableType, commentableId, language);
+  const roots = entry ? getSortedRoots(entry, sort) : [];
+
+  let start: number;
+  if (decoded) {
+    const after = { key: decoded.k, id: decoded.i };
+    start = roots.findIndex(
+      (node) => compareThreads({ key: getSortKey(node, sort), id: node.id }, after, sort) > 0
+    );
+    if (start === -1) start = roots.length;
+  } else {
+    start = (Math.max(1, Math.floor(options.page ?? 1)) - 1) * pageSize;
+  }
+
+  const pageRoots = roots.slice(start, start + pageSize);
+  const hasMore = start + pageSize < roots.length;
+
+  return {
+    threads: pageRoots.map((node) => copyNode(node, replyDepth)),
+    page: Math.floor(start / pageSize) + 1,
+    pageSize,
+    totalPages: Math.ceil(roots.length / pageSize),
+    totalThreads: roots.length,
+    totalComments: entry?.comments.length ?? 0,
+    nextCursor:
+      hasMore && pageRoots.length > 0 ? encodeCursor(pageRoots[pageRoots.length - 1], sort) : null,
+  };
+}
+
+/**
+ * Get one page of top-level comment threads for a content item by content ID or slug
+ * This is a convenience function that calls getCommentsPage with commentableType="Content"
+ * @param contentIdentifier - The ID or slug of the content
+ * @param options - Page, page size, sort order and included reply levels
+ * @returns The page, or an empty page if the content or its comments are not found
+ */
+export function getCommentsPageForContent(
+  contentIdentifier: number | string,
+  options: CommentsPageOptions = {}
+): CommentsPage {
+  const contentId = resolveContentCommentableId(contentIdentifier, options.language);
+
+  if (contentId === null) {
+    const pageSize = Math.max(1, Math.floor(options.pageSize ?? 20));
+    return {
+      threads: [],
+      page: 1,
+      pageSize,
+      totalPages: 0,
+      totalThreads: 0,
+      totalComments: 0,
+      nextCursor: null,
+    };
+  }
+
+  return getCommentsPage("Content", contentId, options);
+}
+
+/**
+ * Get the replies to a comment, for loading a thread's subtree on demand
+ * @param commentableType - The type of entity (e.g., "Content", "Contact")
+ * @param commentableId - The ID of the entity
+ * @param parentId - The ID of the comment whose replies are loaded
+ * @param options - Language and included reply levels
+ * @returns Direct replies (oldest first) with their nested replies, or empty array if none found
+ */
+export function getCommentReplies(
+  commentableType: string,
+  commentableId: number,
+  parentId: number,
+  options: CommentRepliesOptions = {}
+): CommentTreeNode[] {
+  const { language, replyDepth = Infinity } = options;
+  const parent = loadCommentFile(commentableType, commentableId, language)?.nodes.get(parentId);
+  return parent ? parent.children.map((child) => copyNode(child, replyDepth)) : [];
+}
+
+/**
+ * Get comment statistics for an entity (totals, threads, depth, authors, ...).
+ * Computed once per version of the comments file and cached.
+ * @param commentableType - The type of entity (e.g., "Content", "Contact")
+ * @param commentableId - The ID of the entity
+ * @param language - Language code (optional, uses default language if not provided)
+ * @returns Statistics, with zero counts if the entity has no comments
+ */
+export function getCommentsStatistics(
+  commentableType: string,
+  commentableId: number,
+  language?: string
+): CommentStatistics {
+  const entry = loadCommentFile(commentableType, commentableId, language);
+  if (!entry) {
+    return getCommentStatistics([]);
+  }
+  entry.statistics ??= getCommentStatistics(entry.comments);
+  return entry.statistics;
+}
+
+/**
+ * Drop cached comment files, all of them or those at or below the given absolute paths
+ * @internal
+ */
+export function clearCommentCache(paths?: readonly string[]): void {
+  if (!paths) {
+    commentFileCache.clear();
+    return;
+  }
+  for (const filePath of commentFileCache.keys()) {
+    const covered = paths.some((p) => {
+      const relative = path.relative(p, filePath);
+      return !relative.startsWith("..") && !path.isAbsolute(relative);
+    });
+    if (covered) {
+      commentFileCache.delete(filePath);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Bounded-parallelism helpers for the async read API
+ */
+
+/**
+ * Map over items with at most `limit` callbacks in flight at once.
+ * Results keep the order of the input, regardless of completion order.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent callbacks (at least 1)
+ * @param fn - Async callback, called with the item and its index
+ * @internal
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  }
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
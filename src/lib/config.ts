@@ -1,6 +1,8 @@
 import fs from "fs";
 import path from "path";
 import type { RemoteConfig } from "./remote-context.js";
+import type { CommentSortOrder } from "./comment-utils.js";
+import type { ContentSchemaDefinition } from "./content-schema.js";
 
 export interface LeadCMSConfig {
   /** LeadCMS instance URL (single-remote mode) */
@@ -31,6 +33,18 @@ export interface LeadCMSConfig {
    * Example: { "en": "https://en.example.com", "de": "https://de.example.com" }
    */
   languageDomains?: Record<string, string>;
+  /**
+   * Public base URL of the site (no trailing slash), used to build absolute
+   * URLs for languages without a `languageDomains` entry.
+   * Example: "https://www.example.com"
+   */
+  siteUrl?: string;
+  /**
+   * Locale → fallback locales, tried in order when content or a config file is
+   * missing in the requested locale (followed transitively).
+   * Example: { "de-AT": ["de"], "de": ["en"] }
+   */
+  localeFallbacks?: Record<string, string[]>;
   /** Redirects map generation settings */
   redirects?: {
     /**
@@ -52,6 +66,115 @@ export interface LeadCMSConfig {
      */
     trailingSlash?: "strict" | "both";
   };
+  /** RSS / Atom / JSON Feed generation settings */
+  feeds?: {
+    /**
+     * Output directory for generated feeds (relative to project root).
+     * Feeds are written to `{outputDir}/{language}/{type}/rss.xml|atom.xml|feed.json`.
+     * Default: "public/feeds"
+     */
+    outputDir?: string;
+    /** URL path the output directory is served from. Default: "/feeds" */
+    publicPath?: string;
+    /**
+     * Path template for content item links.
+     * Tokens: {language}, {slug}, {domain}. Default: redirects.pathPattern, else the
+     * route of getContentPath() (no prefix for the default language and languages
+     * with a languageDomains entry)
+     */
+    pathPattern?: string;
+    /** Content types to generate feeds for. Default: every type with published content */
+    types?: string[];
+    /** Maximum number of items per feed (newest first). Default: 20 */
+    limit?: number;
+    /** Feed title template. Tokens: {type}, {language}. Default: "{type} ({language})" */
+    title?: string;
+    /** Feed description template. Tokens: {type}, {language} */
+    description?: string;
+  };
+  /** Sitemap generation settings */
+  sitemap?: {
+    /**
+     * Output directory for sitemap files (relative to project root).
+     * The SDK writes `{outputDir}/sitemap.xml` and `{outputDir}/sitemap-{language}.xml`.
+     * Default: "public"
+     */
+    outputDir?: string;
+    /** URL path the output directory is served from. Default: "" (site root) */
+    publicPath?: string;
+    /**
+     * Path template for page URLs.
+     * Tokens: {language}, {slug}, {domain}. Default: redirects.pathPattern, else the
+     * route of getContentPath() (no prefix for the default language and languages
+     * with a languageDomains entry)
+     */
+    pathPattern?: string;
+    /** Content types to include. Default: all */
+    types?: string[];
+  };
+  /** Client-side search index generation settings */
+  search?: {
+    /**
+     * Output directory for search indexes (relative to project root).
+     * The SDK writes `{outputDir}/{language}.json`. Default: "public/search"
+     */
+    outputDir?: string;
+    /**
+     * Path template for result links.
+     * Tokens: {language}, {slug}, {domain}. Default: redirects.pathPattern, else the
+     * route of getContentPath() (no prefix for the default language and languages
+     * with a languageDomains entry)
+     */
+    pathPattern?: string;
+    /** Content types to index. Default: all */
+    types?: string[];
+  };
+  /** Static comment export settings (`leadcms export-comments`) */
+  commentsExport?: {
+    /**
+     * Output directory for exported comments (relative to project root).
+     * The SDK writes `{outputDir}/{language}/{contentId}.json`. Default: "public/comments"
+     */
+    outputDir?: string;
+    /** "keep" exports `avatarUrl`, "omit" leaves it out. Default: "keep" */
+    avatars?: "keep" | "omit";
+    /** Sort order of top-level comments. Default: "default" (oldest first) */
+    sortOrder?: CommentSortOrder;
+    /** Sort order of replies. Default: "oldest" */
+    replySortOrder?: CommentSortOrder;
+  };
+  /** Snapshots of sync operations for `leadcms history` and `leadcms undo` */
+  history?: {
+    /** Record pulls and pushes made with the CLI. Default: true */
+    enabled?: boolean;
+    /** Number of operations to keep. Default: 20 */
+    limit?: number;
+    /** Also snapshot mediaDir (binary files, can use a lot of disk space). Default: false */
+    includeMedia?: boolean;
+  };
+  /** Locking of pull and push commands against concurrent runs */
+  lock?: {
+    /** Take the local .leadcms/sync.lock. Default: true */
+    enabled?: boolean;
+    /** Seconds to wait for a lock held by another run. Default: 0 (fail at once) */
+    wait?: number;
+    /** Minutes after which a lock of a process on another host counts as stale. Default: 60 */
+    staleAfter?: number;
+    /** Pushes also take the server-side lock /api/locks/leadcms-push. Default: false */
+    remote?: boolean;
+  };
+  /**
+   * External merge tool for `leadcms resolve --tool`, run through the shell.
+   * $BASE, $LOCAL, $REMOTE and $MERGED are replaced with quoted file paths.
+   * Example: "code --wait --merge $LOCAL $REMOTE $BASE $MERGED"
+   */
+  mergeTool?: string;
+  /**
+   * Frontmatter schemas per content type (content type → field definitions).
+   * Files of these types are validated when read and by `leadcms validate-content`.
+   * Example: { "article": { "title": "string", "tags": { "type": "string[]", "optional": true } } }
+   */
+  contentSchemas?: Record<string, ContentSchemaDefinition>;
   /** Enable draft content support */
   enableDrafts: boolean;
   /** Force preview mode on/off (overrides environment detection) */
@@ -133,7 +256,17 @@ export function loadConfig(): LeadCMSConfig {
     sequencesDir: mergedConfig.sequencesDir || DEFAULT_CONFIG.sequencesDir!,
     redirectsDir: mergedConfig.redirectsDir || DEFAULT_CONFIG.redirectsDir!,
     languageDomains: mergedConfig.languageDomains,
+    siteUrl: mergedConfig.siteUrl,
+    localeFallbacks: mergedConfig.localeFallbacks,
     redirects: mergedConfig.redirects,
+    feeds: mergedConfig.feeds,
+    sitemap: mergedConfig.sitemap,
+    search: mergedConfig.search,
+    commentsExport: mergedConfig.commentsExport,
+    mergeTool: mergedConfig.mergeTool,
+    history: mergedConfig.history,
+    lock: mergedConfig.lock,
+    contentSchemas: mergedConfig.contentSchemas,
     enableDrafts: mergedConfig.enableDrafts || DEFAULT_CONFIG.enableDrafts!,
     preview: mergedConfig.preview, // Optional - undefined if not provided
     remotes: mergedConfig.remotes,
@@ -144,6 +277,14 @@ export function loadConfig(): LeadCMSConfig {
   return cleanConfig;
 }
 
+/**
+ * Drop cached config files so the next getConfig() re-reads leadcms.config.json
+ * @internal
+ */
+export function clearConfigCache(): void {
+  configCache.clear();
+}
+
 /**
  * Set configuration programmatically
  */
@@ -305,6 +446,10 @@ function loadConfigFromEnv(): Partial<LeadCMSConfig> {
     config.redirectsDir = process.env.LEADCMS_REDIRECTS_DIR;
   }
 
+  if (process.env.LEADCMS_SITE_URL) {
+    config.siteUrl = process.env.LEADCMS_SITE_URL;
+  }
+
   if (process.env.LEADCMS_ENABLE_DRAFTS) {
     config.enableDrafts = process.env.LEADCMS_ENABLE_DRAFTS === "true";
   }
@@ -0,0 +1,162 @@
+/**
+ * Resolution of merge conflict markers left by threeWayMerge() and
+ * threeWayMergeJson() (see content-merge.ts).
+ *
+ * A conflicted file is split into text and conflict hunks. Each hunk can be
+ * resolved to the local side, the remote side, both sides or custom lines;
+ * unresolved hunks keep their markers.
+ */
+
+const HUNK_START = /^<{7}(\s|$)/;
+const HUNK_SEPARATOR = /^={7}$/;
+const HUNK_END = /^>{7}(\s|$)/;
+
+/**
+ * One conflict region: the lines between `<<<<<<<` and `=======` (local)
+ * and between `=======` and `>>>>>>>` (remote)
+ */
+export interface ConflictHunk {
+  local: string[];
+  remote: string[];
+  /** The marker lines, kept so unresolved hunks are written back unchanged */
+  markers: { start: string; separator: string; end: string };
+  /** 1-based line number of the `<<<<<<<` marker */
+  line: number;
+}
+
+export type ConflictSegment =
+  | { type: "text"; lines: string[] }
+  | { type: "conflict"; hunk: ConflictHunk };
+
+/**
+ * How to resolve a hunk:
+ * - "ours": keep the local lines
+ * - "theirs": take the remote lines
+ * - "both": local lines followed by remote lines
+ * - `{ lines }`: custom lines (e.g. edited by the user)
+ * - null: leave the hunk unresolved (markers are kept)
+ */
+export type HunkResolution = "ours" | "theirs" | "both" | { lines: string[] } | null;
+
+/**
+ * Split file content into text and conflict hunks. Incomplete conflict
+ * markers (e.g. a lone `=======` in a code sample) are kept as text.
+ */
+export function parseConflicts(content: string): ConflictSegment[] {
+  const lines = content.split("\n");
+  const segments: ConflictSegment[] = [];
+  let text: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (HUNK_START.test(lines[i])) {
+      const separator = findLine(lines, HUNK_SEPARATOR, i + 1);
+      const end = separator === -1 ? -1 : findLine(lines, HUNK_END, separator + 1);
+      if (end !== -1 && findLine(lines.slice(0, separator), HUNK_START, i + 1) === -1) {
+        if (text.length > 0) {
+          segments.push({ type: "text", lines: text });
+          text = [];
+        }
+        segments.push({
+          type: "conflict",
+          hunk: {
+            local: lines.slice(i + 1, separator),
+            remote: lines.slice(separator + 1, end),
+            markers: { start: lines[i], separator: lines[separator], end: lines[end] },
+            line: i + 1,
+          },
+        });
+        i = end + 1;
+        continue;
+      }
+    }
+    text.push(lines[i]);
+    i++;
+  }
+
+  if (text.length > 0 || segments.length === 0) {
+    segments.push({ type: "text", lines: text });
+  }
+  return segments;
+}
+
+function findLine(lines: string[], pattern: RegExp, from: number): number {
+  for (let i = from; i < lines.length; i++) {
+    if (pattern.test(lines[i])) return i;
+  }
+  return -1;
+}
+
+/** Conflict hunks of the content, in file order */
+export function getConflictHunks(content: string): ConflictHunk[] {
+  return parseConflicts(content).flatMap((segment) =>
+    segment.type === "conflict" ? [segment.hunk] : []
+  );
+}
+
+/** Lines of a hunk resolved as given (null: the hunk with its markers) */
+export function resolveHunk(hunk: ConflictHunk, resolution: HunkResolution): string[] {
+  if (resolution === null) {
+    return [
+      hunk.markers.start,
+      ...hunk.local,
+      hunk.markers.separator,
+      ...hunk.remote,
+      hunk.markers.end,
+    ];
+  }
+  switch (resolution) {
+    case "ours":
+      return hunk.local;
+    case "theirs":
+      return hunk.remote;
+    case "both":
+      return [...hunk.local, ...hunk.remote];
+    default:
+      return resolution.lines;
+  }
+}
+
+/**
+ * Rebuild content with each hunk resolved; `resolutions[i]` applies to the
+ * i-th hunk. Missing resolutions leave the hunk unresolved.
+ */
+export function applyResolutions(
+  segments: ConflictSegment[],
+  resolutions: readonly HunkResolution[]
+): string {
+  const lines: string[] = [];
+  let index = 0;
+  for (const segment of segments) {
+    if (segment.type === "text") {
+      lines.push(...segment.lines);
+    } else {
+      lines.push(...resolveHunk(segment.hunk, resolutions[index++] ?? null));
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Reconstruct the versions of a conflicted file for an external merge tool:
+ * `local` and `remote` take the respective side of every hunk, `base` keeps
+ * only the lines both sides agree on (the actual base version is not stored
+ * locally).
+ */
+export function splitConflictVersions(content: string): {
+  base: string;
+  local: string;
+  remote: string;
+} {
+  const segments = parseConflicts(content);
+  const resolveAll = (resolution: HunkResolution) =>
+    applyResolutions(
+      segments,
+      segments.map(() => resolution)
+    );
+  return {
+    base: resolveAll({ lines: [] }),
+    local: resolveAll("ours"),
+    remote: resolveAll("theirs"),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Parsing of local content files (.mdx with frontmatter, .json) into content
+ * objects, shared by the read API and the CLI.
+ */
+
+import matter from "gray-matter";
+import type { CMSContent } from "./cms.js";
+
+// Content file formats in lookup order - .mdx takes precedence over .json
+export const CONTENT_FILE_FORMATS = ["mdx", "json"] as const;
+
+export type ContentFileFormat = (typeof CONTENT_FILE_FORMATS)[number];
+
+/**
+ * Parse a raw content file into a content object (null if it can't be parsed)
+ * @internal
+ */
+export function parseContentFile(
+  file: string,
+  format: ContentFileFormat,
+  slug: string
+): CMSContent | null {
+  try {
+    let content: CMSContent;
+    if (format === "mdx") {
+      const { data, content: body } = matter(file);
+      content = { ...data, slug, body } as CMSContent;
+    } else {
+      content = { ...JSON.parse(file), slug } as CMSContent;
+    }
+
+    // Convert publishedAt string to Date if present
+    if (content.publishedAt && typeof content.publishedAt === "string") {
+      content.publishedAt = new Date(content.publishedAt);
+    }
+
+    return content;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,675 @@
+/**
+ * Persistent on-disk content index for the runtime read API.
+ *
+ * Every listing function in cms.ts needs the slug, type and publishedAt of each
+ * file under contentDir. Without an index that means re-reading and re-parsing
+ * the whole tree on every call. The index records, per content file:
+ *   - slug, locale and content type
+ *   - parsed frontmatter (JSON content: every field except `body`)
+ *   - file mtime, size and a SHA-1 hash of the raw file
+ *
+ * The index is persisted next to contentDir as `content-index.json` (with the
+ * default layout: `.leadcms/content-index.json`) by `pull-content` or explicitly
+ * via buildContentIndex(), and kept in memory by the read API.
+ * Before use, the index is validated against the file system with a cheap
+ * readdir/stat walk — only files whose mtime or size changed are re-read, so a
+ * stale or missing index transparently degrades to an in-memory rebuild.
+ * The walk runs at most once per event loop turn, so reads in the same turn
+ * (e.g. one getAllContentRoutes() call per locale) share it. While a watcher
+ * invalidates changed files (see watchContentIndex()), the in-memory index is
+ * not walked again at all.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import matter from "gray-matter";
+import { isValidLocaleCode } from "./locale-utils.js";
+import { mapWithConcurrency } from "./concurrency.js";
+
+/** Bump when the on-disk format changes; older files are ignored and rebuilt. */
+const CONTENT_INDEX_VERSION = 1;
+
+const CONTENT_INDEX_FILE = "content-index.json";
+
+/** Default number of files stat'ed/read at once by the async refresh */
+export const DEFAULT_READ_CONCURRENCY = 16;
+
+export interface ContentIndexEntry {
+  /** File path relative to contentDir, always using forward slashes */
+  file: string;
+  /** Slug derived from the file path (locale directory prefix removed) */
+  slug: string;
+  /** Locale the file belongs to (locale directory name or the default language) */
+  locale: string;
+  /** Content type from frontmatter, if present */
+  type?: string;
+  format: "mdx" | "json";
+  mtimeMs: number;
+  size: number;
+  /** SHA-1 of the raw file contents */
+  hash: string;
+  /** Parsed frontmatter, or null when the file could not be parsed */
+  frontmatter: Record<string, unknown> | null;
+}
+
+export interface ContentIndex {
+  version: number;
+  /** Absolute content directory the index was built for */
+  contentDir: string;
+  defaultLanguage: string;
+  generatedAt: string;
+  /** Entries in directory walk order */
+  entries: ContentIndexEntry[];
+}
+
+export interface ContentIndexBuildResult {
+  index: ContentIndex;
+  /** Absolute path the index was written to */
+  filePath: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+interface RefreshStats {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+// In-memory indexes keyed by absolute contentDir
+const memoryIndexes = new Map<string, ContentIndex>();
+
+// In-flight async refreshes keyed by absolute contentDir, shared by concurrent callers
+const pendingRefreshes = new Map<string, Promise<ContentIndex>>();
+
+// Lazily built file → entry lookup per index
+const entriesByFile = new WeakMap<ContentIndex, Map<string, ContentIndexEntry>>();
+
+// Directories whose in-memory index was validated in the current event loop turn,
+// or, when watched, since it was last invalidated
+const validatedDirs = new Set<string>();
+let validationResetScheduled = false;
+
+// Number of watchers per directory that invalidate the in-memory index on changes
+const watchedDirs = new Map<string, number>();
+
+/**
+ * Absolute path of the persisted content index file for a content directory.
+ * The file lives next to contentDir so it never shows up as content itself.
+ */
+export function getContentIndexPath(contentDir: string): string {
+  return path.join(path.dirname(path.resolve(contentDir)), CONTENT_INDEX_FILE);
+}
+
+function hashContent(raw: string): string {
+  return crypto.createHash("sha1").update(raw).digest("hex");
+}
+
+function parseFrontmatter(raw: string, format: "mdx" | "json"): Record<string, unknown> | null {
+  try {
+    if (format === "mdx") {
+      return { ...matter(raw).data };
+    }
+    const { body: _body, ...data } = JSON.parse(raw) as Record<string, unknown>;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+function resolveEntryIdentity(
+  file: string,
+  format: "mdx" | "json",
+  defaultLanguage: string
+): { slug: string; locale: string } {
+  const withoutExt = file.slice(0, -(format === "mdx" ? ".mdx" : ".json").length);
+  const firstSlash = withoutExt.indexOf("/");
+  if (firstSlash !== -1) {
+    const topDir = withoutExt.slice(0, firstSlash);
+    if (topDir !== defaultLanguage && isValidLocaleCode(topDir)) {
+      return { locale: topDir, slug: withoutExt.slice(firstSlash + 1) };
+    }
+  }
+  return { locale: defaultLanguage, slug: withoutExt };
+}
+
+function parsePersistedIndex(
+  raw: string,
+  contentDir: string,
+  defaultLanguage: string
+): ContentIndex | null {
+  try {
+    const parsed = JSON.parse(raw) as ContentIndex;
+    if (
+      parsed.version !== CONTENT_INDEX_VERSION ||
+      parsed.contentDir !== contentDir ||
+      parsed.defaultLanguage !== defaultLanguage ||
+      !Array.isArray(parsed.entries)
+    ) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function readPersistedIndex(contentDir: string, defaultLanguage: string): ContentIndex | null {
+  try {
+    const raw = fs.readFileSync(getContentIndexPath(contentDir), "utf8");
+    return parsePersistedIndex(raw, contentDir, defaultLanguage);
+  } catch {
+    return null;
+  }
+}
+
+async function readPersistedIndexAsync(
+  contentDir: string,
+  defaultLanguage: string
+): Promise<ContentIndex | null> {
+  try {
+    const raw = await fs.promises.readFile(getContentIndexPath(contentDir), "utf8");
+    return parsePersistedIndex(raw, contentDir, defaultLanguage);
+  } catch {
+    return null;
+  }
+}
+
+interface ContentFile {
+  /** Path relative to contentDir, using forward slashes */
+  relPath: string;
+  filePath: string;
+  format: "mdx" | "json";
+}
+
+/** Outcome of reconciling one file; `entry` is null when the file could not be read */
+type FileRefresh =
+  | { file: string; entry: ContentIndexEntry; change: "added" | "updated" | "unchanged" }
+  | { file: string; entry: null };
+
+function getContentFileFormat(name: string): "mdx" | "json" | null {
+  return name.endsWith(".mdx") ? "mdx" : name.endsWith(".json") ? "json" : null;
+}
+
+function listContentFiles(contentDir: string): ContentFile[] {
+  const files: ContentFile[] = [];
+
+  function walk(dir: string, prefix: string): void {
+    let dirents: fs.Dirent[];
+    try {
+      dirents = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const dirent of dirents) {
+      const relPath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        walk(path.join(dir, dirent.name), relPath);
+        continue;
+      }
+      const format = dirent.isFile() ? getContentFileFormat(dirent.name) : null;
+      if (format) {
+        files.push({ relPath, filePath: path.join(dir, dirent.name), format });
+      }
+    }
+  }
+
+  walk(contentDir, "");
+  return files;
+}
+
+async function listContentFilesAsync(contentDir: string): Promise<ContentFile[]> {
+  async function walk(dir: string, prefix: string): Promise<ContentFile[]> {
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    // Subdirectories are walked in parallel, results keep the readdir order
+    const groups = await Promise.all(
+      dirents.map(async (dirent): Promise<ContentFile[]> => {
+        const relPath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+        if (dirent.isDirectory()) {
+          return walk(path.join(dir, dirent.name), relPath);
+        }
+        const format = dirent.isFile() ? getContentFileFormat(dirent.name) : null;
+        return format ? [{ relPath, filePath: path.join(dir, dirent.name), format }] : [];
+      })
+    );
+    return groups.flat();
+  }
+
+  return walk(contentDir, "");
+}
+
+function isEntryUnchanged(prev: ContentIndexEntry | undefined, stat: fs.Stats): boolean {
+  return !!prev && prev.mtimeMs === stat.mtimeMs && prev.size === stat.size;
+}
+
+function createEntry(
+  file: ContentFile,
+  stat: fs.Stats,
+  raw: string,
+  prev: ContentIndexEntry | undefined,
+  defaultLanguage: string
+): FileRefresh {
+  const hash = hashContent(raw);
+  const frontmatter =
+    prev && prev.hash === hash ? prev.frontmatter : parseFrontmatter(raw, file.format);
+  const { slug, locale } = resolveEntryIdentity(file.relPath, file.format, defaultLanguage);
+  const type = typeof frontmatter?.type === "string" ? frontmatter.type : undefined;
+
+  return {
+    file: file.relPath,
+    entry: {
+      file: file.relPath,
+      slug,
+      locale,
+      type,
+      format: file.format,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      hash,
+      frontmatter,
+    },
+    change: prev ? "updated" : "added",
+  };
+}
+
+function indexPreviousEntries(previous: ContentIndex | null): Map<string, ContentIndexEntry> {
+  return new Map(previous ? previous.entries.map((entry) => [entry.file, entry]) : []);
+}
+
+/**
+ * Assemble the refreshed index from per-file results (in directory walk order).
+ * Files that were seen but could not be read are neither kept nor counted as removed.
+ */
+function finishRefresh(
+  previous: ContentIndex | null,
+  refreshed: FileRefresh[],
+  contentDir: string,
+  defaultLanguage: string
+): { index: ContentIndex; stats: RefreshStats } {
+  const stats: RefreshStats = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+  const entries: ContentIndexEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const result of refreshed) {
+    seen.add(result.file);
+    if (result.entry === null) continue;
+    entries.push(result.entry);
+    stats[result.change]++;
+  }
+  stats.removed = previous ? previous.entries.filter((entry) => !seen.has(entry.file)).length : 0;
+
+  // Keep the previous object when nothing changed so lookups built for it stay valid
+  if (previous && stats.added === 0 && stats.updated === 0 && stats.removed === 0) {
+    return { index: previous, stats };
+  }
+
+  return {
+    index: {
+      version: CONTENT_INDEX_VERSION,
+      contentDir,
+      defaultLanguage,
+      generatedAt: new Date().toISOString(),
+      entries,
+    },
+    stats,
+  };
+}
+
+/**
+ * Walk contentDir and reconcile it with a previous index. Files whose mtime and
+ * size are unchanged reuse their previous entry; files whose hash is unchanged
+ * reuse their previous frontmatter; everything else is parsed.
+ */
+function refreshIndex(
+  previous: ContentIndex | null,
+  contentDir: string,
+  defaultLanguage: string
+): { index: ContentIndex; stats: RefreshStats } {
+  const previousEntries = indexPreviousEntries(previous);
+  const refreshed: FileRefresh[] = [];
+
+  for (const file of listContentFiles(contentDir)) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(file.filePath);
+    } catch {
+      continue;
+    }
+
+    const prev = previousEntries.get(file.relPath);
+    if (prev && isEntryUnchanged(prev, stat)) {
+      refreshed.push({ file: file.relPath, entry: prev, change: "unchanged" });
+      continue;
+    }
+
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file.filePath, "utf8");
+    } catch {
+      refreshed.push({ file: file.relPath, entry: null });
+      continue;
+    }
+    refreshed.push(createEntry(file, stat, raw, prev, defaultLanguage));
+  }
+
+  return finishRefresh(previous, refreshed, contentDir, defaultLanguage);
+}
+
+/**
+ * Non-blocking variant of refreshIndex(): stats and reads files through
+ * fs/promises with at most `concurrency` files in flight.
+ */
+async function refreshIndexAsync(
+  previous: ContentIndex | null,
+  contentDir: string,
+  defaultLanguage: string,
+  concurrency: number
+): Promise<{ index: ContentIndex; stats: RefreshStats }> {
+  const previousEntries = indexPreviousEntries(previous);
+  const files = await listContentFilesAsync(contentDir);
+
+  const refreshed = await mapWithConcurrency(
+    files,
+    concurrency,
+    async (file): Promise<FileRefresh | null> => {
+      let stat: fs.Stats;
+      try {
+        stat = await fs.promises.stat(file.filePath);
+      } catch {
+        return null;
+      }
+
+      const prev = previousEntries.get(file.relPath);
+      if (prev && isEntryUnchanged(prev, stat)) {
+        return { file: file.relPath, entry: prev, change: "unchanged" };
+      }
+
+      try {
+        const raw = await fs.promises.readFile(file.filePath, "utf8");
+        return createEntry(file, stat, raw, prev, defaultLanguage);
+      } catch {
+        return { file: file.relPath, entry: null };
+      }
+    }
+  );
+
+  return finishRefresh(
+    previous,
+    refreshed.filter((result): result is FileRefresh => result !== null),
+    contentDir,
+    defaultLanguage
+  );
+}
+
+function markValidated(absoluteDir: string): void {
+  validatedDirs.add(absoluteDir);
+  if (validationResetScheduled) return;
+  validationResetScheduled = true;
+  setImmediate(() => {
+    validationResetScheduled = false;
+    for (const dir of validatedDirs) {
+      if (!watchedDirs.has(dir)) validatedDirs.delete(dir);
+    }
+  });
+}
+
+/** The in-memory index, if it needs no validation walk */
+function getValidatedIndex(absoluteDir: string, defaultLanguage: string): ContentIndex | null {
+  const index = memoryIndexes.get(absoluteDir);
+  return index && index.defaultLanguage === defaultLanguage && validatedDirs.has(absoluteDir)
+    ? index
+    : null;
+}
+
+/**
+ * Get an up-to-date content index for a content directory.
+ *
+ * Uses the in-memory index when available, otherwise the persisted index file,
+ * and reconciles it with the file system before returning, at most once per
+ * event loop turn (see watchContentIndex()). Never writes to disk.
+ *
+ * @param contentDir - Content directory (relative or absolute)
+ * @param defaultLanguage - Default language of the site
+ * @internal
+ */
+export function getContentIndex(contentDir: string, defaultLanguage: string): ContentIndex {
+  const absoluteDir = path.resolve(contentDir);
+  const validated = getValidatedIndex(absoluteDir, defaultLanguage);
+  if (validated) {
+    return validated;
+  }
+
+  const previous =
+    memoryIndexes.get(absoluteDir) ?? readPersistedIndex(absoluteDir, defaultLanguage);
+  const base = previous && previous.defaultLanguage === defaultLanguage ? previous : null;
+
+  const { index } = refreshIndex(base, absoluteDir, defaultLanguage);
+  memoryIndexes.set(absoluteDir, index);
+  markValidated(absoluteDir);
+  return index;
+}
+
+/**
+ * Non-blocking variant of getContentIndex(): the file system walk, stats and
+ * reads go through fs/promises with bounded parallelism. Concurrent calls for
+ * the same directory share one refresh.
+ *
+ * @param contentDir - Content directory (relative or absolute)
+ * @param defaultLanguage - Default language of the site
+ * @param concurrency - Maximum number of files read at once
+ * @internal
+ */
+export async function getContentIndexAsync(
+  contentDir: string,
+  defaultLanguage: string,
+  concurrency: number = DEFAULT_READ_CONCURRENCY
+): Promise<ContentIndex> {
+  const absoluteDir = path.resolve(contentDir);
+  const validated = getValidatedIndex(absoluteDir, defaultLanguage);
+  if (validated) {
+    return validated;
+  }
+  const pending = pendingRefreshes.get(absoluteDir);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = (async () => {
+    const previous =
+      memoryIndexes.get(absoluteDir) ??
+      (await readPersistedIndexAsync(absoluteDir, defaultLanguage));
+    const base = previous && previous.defaultLanguage === defaultLanguage ? previous : null;
+
+    const { index } = await refreshIndexAsync(base, absoluteDir, defaultLanguage, concurrency);
+    memoryIndexes.set(absoluteDir, index);
+    markValidated(absoluteDir);
+    return index;
+  })();
+
+  pendingRefreshes.set(absoluteDir, refresh);
+  try {
+    return await refresh;
+  } finally {
+    pendingRefreshes.delete(absoluteDir);
+  }
+}
+
+/**
+ * Build (or incrementally refresh) the content index and persist it next to
+ * contentDir (see getContentIndexPath()). Called automatically at the end of
+ * `leadcms pull-content`; can also be run before a build to warm the index.
+ *
+ * @param contentDir - Content directory (relative or absolute)
+ * @param defaultLanguage - Default language of the site
+ * @returns The index plus counts of added, updated, removed and unchanged files
+ */
+export async function buildContentIndex(
+  contentDir: string,
+  defaultLanguage: string
+): Promise<ContentIndexBuildResult> {
+  const absoluteDir = path.resolve(contentDir);
+  const previous =
+    (await readPersistedIndexAsync(absoluteDir, defaultLanguage)) ??
+    memoryIndexes.get(absoluteDir) ??
+    null;
+
+  const { index, stats } = await refreshIndexAsync(
+    previous,
+    absoluteDir,
+    defaultLanguage,
+    DEFAULT_READ_CONCURRENCY
+  );
+  memoryIndexes.set(absoluteDir, index);
+  markValidated(absoluteDir);
+
+  const filePath = getContentIndexPath(absoluteDir);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(index), "utf8");
+
+  return { index, filePath, ...stats };
+}
+
+/**
+ * Drop all in-memory indexes. The next read re-validates from the persisted file.
+ * @internal
+ */
+export function clearContentIndexCache(): void {
+  memoryIndexes.clear();
+  validatedDirs.clear();
+}
+
+/**
+ * Forget files of the in-memory index of a content directory, so the next read
+ * re-parses them even when their mtime and size look unchanged. Without
+ * `files`, the directory's in-memory index is dropped.
+ *
+ * @param contentDir - Content directory (relative or absolute)
+ * @param files - File paths relative to contentDir, using forward slashes
+ * @internal
+ */
+export function invalidateContentIndex(contentDir: string, files?: readonly string[]): void {
+  const absoluteDir = path.resolve(contentDir);
+  validatedDirs.delete(absoluteDir);
+  const index = memoryIndexes.get(absoluteDir);
+  if (!index || !files) {
+    memoryIndexes.delete(absoluteDir);
+    return;
+  }
+
+  const stale = new Set(files);
+  memoryIndexes.set(absoluteDir, {
+    ...index,
+    entries: index.entries.filter((entry) => !stale.has(entry.file)),
+  });
+}
+
+/**
+ * Declare that a file watcher calls invalidateContentIndex() for every change
+ * in a content directory. Until the returned function is called, reads trust
+ * the in-memory index after validating it once, instead of walking the
+ * directory in every event loop turn.
+ *
+ * @param contentDir - Content directory (relative or absolute)
+ * @returns Function to call when the watcher stops
+ * @internal
+ */
+export function watchContentIndex(contentDir: string): () => void {
+  const absoluteDir = path.resolve(contentDir);
+  watchedDirs.set(absoluteDir, (watchedDirs.get(absoluteDir) ?? 0) + 1);
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    const count = (watchedDirs.get(absoluteDir) ?? 1) - 1;
+    if (count > 0) {
+      watchedDirs.set(absoluteDir, count);
+    } else {
+      watchedDirs.delete(absoluteDir);
+      validatedDirs.delete(absoluteDir);
+    }
+  };
+}
+
+/**
+ * Slug and locale of a content file, as recorded in the index
+ *
+ * @param file - File path relative to contentDir, using forward slashes
+ * @param defaultLanguage - Default language of the site
+ * @returns null for files that are not content files (.mdx or .json)
+ * @internal
+ */
+export function getContentFileIdentity(
+  file: string,
+  defaultLanguage: string
+): { slug: string; locale: string } | null {
+  const format = getContentFileFormat(file);
+  return format ? resolveEntryIdentity(file, format, defaultLanguage) : null;
+}
+
+/**
+ * List index entries below a directory prefix, mirroring the directory walks
+ * used by cms.ts: optionally skipping top-level directories named in
+ * `excludeTopDirs` (other languages when listing the default locale).
+ *
+ * @param index - Content index
+ * @param prefix - Directory relative to contentDir ("" for the root)
+ * @param excludeTopDirs - Top-level directory names to skip (only applies when prefix is "")
+ * @returns Entries with `slug` relative to the prefix
+ * @internal
+ */
+export function listIndexEntries(
+  index: ContentIndex,
+  prefix: string,
+  excludeTopDirs: readonly string[] = []
+): { slug: string; entry: ContentIndexEntry }[] {
+  const normalizedPrefix = prefix ? `${prefix.split(path.sep).join("/")}/` : "";
+  const results: { slug: string; entry: ContentIndexEntry }[] = [];
+
+  for (const entry of index.entries) {
+    if (normalizedPrefix && !entry.file.startsWith(normalizedPrefix)) continue;
+
+    const relative = entry.file.slice(normalizedPrefix.length);
+    if (!normalizedPrefix && excludeTopDirs.length > 0) {
+      const firstSlash = relative.indexOf("/");
+      if (firstSlash !== -1 && excludeTopDirs.includes(relative.slice(0, firstSlash))) continue;
+    }
+
+    const ext = entry.format === "mdx" ? ".mdx" : ".json";
+    results.push({ slug: relative.slice(0, -ext.length), entry });
+  }
+
+  return results;
+}
+
+/**
+ * Find the index entry for a slug below a directory prefix. Like the file
+ * lookup in cms.ts, `.mdx` takes precedence over `.json`.
+ * @internal
+ */
+export function findIndexEntry(
+  index: ContentIndex,
+  prefix: string,
+  slug: string
+): ContentIndexEntry | undefined {
+  const normalizedPrefix = prefix ? `${prefix.split(path.sep).join("/")}/` : "";
+  const base = `${normalizedPrefix}${slug}`;
+
+  let byFile = entriesByFile.get(index);
+  if (!byFile) {
+    byFile = new Map(index.entries.map((entry) => [entry.file, entry]));
+    entriesByFile.set(index, byFile);
+  }
+
+  return byFile.get(`${base}.mdx`) ?? byFile.get(`${base}.json`);
+}
@@ -0,0 +1,179 @@
+/**
+ * Content Navigation
+ * Navigation trees and breadcrumbs derived from nested slugs (e.g. "docs/guides/setup")
+ */
+
+import {
+  getAllContentForLocale,
+  getCMSContentBySlugForLocale,
+  getLeadCMSConfig,
+  type CMSContent,
+} from "./cms.js";
+import { getContentPath } from "./content-urls.js";
+
+/**
+ * A node of the content tree. Intermediate slug segments without a content
+ * file of their own (e.g. "docs/guides" when only "docs/guides/setup"
+ * exists) become nodes with `hasContent: false`.
+ */
+export interface ContentTreeNode {
+  /** Full slug of the node, e.g. "docs/guides" */
+  slug: string;
+  /** Last slug segment, e.g. "guides" */
+  segment: string;
+  /** Content title, or a title derived from the segment for nodes without content */
+  title: string;
+  /** Route path, same format as getAllContentRoutes() */
+  path: string;
+  /** Value of the frontmatter `order` field, if set */
+  order?: number;
+  /** Content type (undefined for nodes without content) */
+  type?: string;
+  /** Whether a content item exists for this slug */
+  hasContent: boolean;
+  /** Child nodes, sorted by order, then title */
+  children: ContentTreeNode[];
+}
+
+/**
+ * A breadcrumb entry, from the top-level ancestor to the current item
+ */
+export interface Breadcrumb {
+  slug: string;
+  title: string;
+  path: string;
+  /** Whether a content item exists for this slug (render as plain text if false) */
+  hasContent: boolean;
+}
+
+/**
+ * Derive a readable title from a slug segment: "getting-started" → "Getting started"
+ */
+function titleFromSegment(segment: string): string {
+  const words = segment.replace(/[-_]+/g, " ").trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : segment;
+}
+
+function getOrder(content: CMSContent): number | undefined {
+  const { order } = content;
+  if (typeof order === "string") {
+    // Number("") is 0: an empty value is unset, so the item sorts by title
+    return order.trim() && !isNaN(Number(order)) ? Number(order) : undefined;
+  }
+  return typeof order === "number" && !isNaN(order) ? order : undefined;
+}
+
+function sortNodes(nodes: ContentTreeNode[]): void {
+  nodes.sort((a, b) => {
+    if (a.order !== undefined && b.order !== undefined && a.order !== b.order) {
+      return a.order - b.order;
+    }
+    if (a.order !== undefined && b.order === undefined) return -1;
+    if (a.order === undefined && b.order !== undefined) return 1;
+    return a.title.localeCompare(b.title);
+  });
+  for (const node of nodes) {
+    sortNodes(node.children);
+  }
+}
+
+/**
+ * Build a navigation tree from the nested slugs of a locale
+ *
+ * Siblings are sorted by the optional frontmatter `order` field (ascending,
+ * items without it last), then by title.
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Top-level nodes with nested children
+ *
+ * @example
+ * // docs/intro.mdx (order: 1), docs/guides/setup.mdx, docs/guides/deploy.mdx
+ * getContentTree('en', ['doc'])
+ * // [{ slug: 'docs', title: 'Docs', hasContent: false, children: [
+ * //   { slug: 'docs/intro', title: 'Introduction', order: 1, ... },
+ * //   { slug: 'docs/guides', title: 'Guides', hasContent: false, children: [...] } ] }]
+ */
+export function getContentTree(
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): ContentTreeNode[] {
+  const config = getLeadCMSConfig();
+  const actualLocale = locale || config.defaultLanguage;
+
+  const nodes = new Map<string, ContentTreeNode>();
+  const roots: ContentTreeNode[] = [];
+
+  const getNode = (slug: string): ContentTreeNode => {
+    const existing = nodes.get(slug);
+    if (existing) return existing;
+
+    const separator = slug.lastIndexOf("/");
+    const segment = slug.slice(separator + 1);
+    const node: ContentTreeNode = {
+      slug,
+      segment,
+      title: titleFromSegment(segment),
+      path: getContentPath(actualLocale, slug, config.defaultLanguage, config.languageDomains),
+      hasContent: false,
+      children: [],
+    };
+    nodes.set(slug, node);
+
+    if (separator === -1) {
+      roots.push(node);
+    } else {
+      getNode(slug.slice(0, separator)).children.push(node);
+    }
+    return node;
+  };
+
+  for (const content of getAllContentForLocale(actualLocale, contentTypes, userUid)) {
+    const node = getNode(content.slug);
+    node.hasContent = true;
+    node.type = content.type;
+    node.title = content.title || node.title;
+    node.order = getOrder(content);
+  }
+
+  sortNodes(roots);
+  return roots;
+}
+
+/**
+ * Get the breadcrumb trail for a nested slug
+ *
+ * Returns one entry per slug prefix, e.g. "docs", "docs/guides",
+ * "docs/guides/setup". Ancestors without a content item in the locale
+ * (fallback locales are not used) are included with `hasContent: false` and
+ * a title derived from the slug segment.
+ *
+ * @param slug - Content slug, e.g. "docs/guides/setup"
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Breadcrumbs from the top-level ancestor to the item itself
+ */
+export function getBreadcrumbs(
+  slug: string,
+  locale?: string,
+  userUid?: string | null
+): Breadcrumb[] {
+  const config = getLeadCMSConfig();
+  const actualLocale = locale || config.defaultLanguage;
+  const parts = slug.split("/").filter(Boolean);
+
+  return parts.map((segment, i) => {
+    const prefix = parts.slice(0, i + 1).join("/");
+    // Ancestors only count in the requested locale, not through `localeFallbacks`
+    const found = getCMSContentBySlugForLocale(prefix, actualLocale, userUid);
+    const content = found?.sourceLocale === actualLocale ? found : null;
+    return {
+      slug: prefix,
+      title: content?.title || titleFromSegment(segment),
+      path: getContentPath(actualLocale, prefix, config.defaultLanguage, config.languageDomains),
+      hasContent: content !== null,
+    };
+  });
+}
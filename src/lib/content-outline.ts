@@ -0,0 +1,257 @@
+/**
+ * Content Outline
+ * Headings (for tables of contents), word count, reading time and excerpts
+ * extracted from MDX/Markdown bodies.
+ *
+ * Code fences, MDX ESM statements, comments and JSX/HTML blocks are skipped,
+ * so headings and words inside them are not counted.
+ */
+
+import type { CMSContent } from "./cms.js";
+import { stripMarkup } from "./search.js";
+import { slugify } from "./slugify.js";
+
+/**
+ * A heading of a content body
+ */
+export interface ContentHeading {
+  /** Heading level, 1–6 */
+  depth: number;
+  /** Plain heading text (inline markup removed) */
+  text: string;
+  /** Anchor id, unique within the body (e.g. "getting-started", "faq-1") */
+  id: string;
+}
+
+/**
+ * Outline of a content body, as returned by getContentOutline()
+ */
+export interface ContentOutline {
+  /** Headings within the configured depth range, in document order */
+  headings: ContentHeading[];
+  /** Number of words of prose (code and JSX blocks excluded) */
+  wordCount: number;
+  /** Estimated reading time in whole minutes (at least 1 for non-empty bodies) */
+  readingTimeMinutes: number;
+  /** Plain-text excerpt of the first paragraphs */
+  excerpt: string;
+}
+
+/**
+ * Options for getContentOutline()
+ */
+export interface ContentOutlineOptions {
+  /** Shallowest heading level to include. Default: 2 */
+  minDepth?: number;
+  /** Deepest heading level to include. Default: 3 */
+  maxDepth?: number;
+  /** Reading speed used for readingTimeMinutes. Default: 200 */
+  wordsPerMinute?: number;
+  /** Maximum excerpt length in characters. Default: 160 */
+  excerptLength?: number;
+}
+
+const DEFAULT_WORDS_PER_MINUTE = 200;
+const DEFAULT_EXCERPT_LENGTH = 160;
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const CUSTOM_ID_PATTERN = /[ \t]*\{#([A-Za-z0-9_-]+)\}[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+// A tag (or fragment) at the start of a line, but not an autolink like <https://…>
+const JSX_BLOCK_START = /^ {0,3}<(?:[A-Za-z][\w.:-]*(?=[\s/>]|$)|>)/;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/** HTML elements without a closing tag */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+interface TagScanState {
+  /** Inside an opening tag that continues on the next line */
+  inTag: boolean;
+  /** The open tag is self-closing by nature (void HTML element) */
+  isVoid: boolean;
+  /** Nesting of `{…}` attribute expressions */
+  braces: number;
+}
+
+/**
+ * Nesting change of the tags on a line: +1 per opening tag, -1 per closing
+ * tag, 0 for self-closing and void tags. Attribute values in quotes or
+ * braces are skipped, so `<Chart data={a > b} />` counts as self-closing.
+ */
+function countTagDepth(line: string, state: TagScanState): number {
+  let delta = 0;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (state.inTag) {
+      if (char === "{") state.braces++;
+      else if (char === "}") state.braces--;
+      else if ((char === '"' || char === "'") && state.braces === 0) {
+        const end = line.indexOf(char, i + 1);
+        i = end === -1 ? line.length : end;
+      } else if (char === ">" && state.braces === 0) {
+        state.inTag = false;
+        if (line[i - 1] !== "/" && !state.isVoid) delta++;
+      }
+    } else if (char === "<") {
+      if (line[i + 1] === "/") {
+        delta--;
+        const end = line.indexOf(">", i);
+        i = end === -1 ? line.length : end;
+      } else {
+        const name = /^(?:[A-Za-z][\w.:-]*|(?=>))/.exec(line.slice(i + 1));
+        if (name) {
+          state.inTag = true;
+          state.isVoid = VOID_ELEMENTS.has(name[0].toLowerCase());
+          state.braces = 0;
+        }
+      }
+    }
+  }
+  return delta;
+}
+
+/**
+ * Split a body into heading lines and prose lines, dropping code fences,
+ * ESM statements, comments and JSX/HTML blocks.
+ */
+function scanBody(body: string): { headings: { depth: number; raw: string }[]; prose: string[] } {
+  const headings: { depth: number; raw: string }[] = [];
+  const prose: string[] = [];
+  const source = body.replace(/\{\/\*[\s\S]*?\*\/\}/g, "").replace(/<!--[\s\S]*?-->/g, "");
+
+  let fence: string | null = null;
+  let jsxDepth = 0;
+  const tagState: TagScanState = { inTag: false, isVoid: false, braces: 0 };
+
+  for (const line of source.split(/\r?\n/)) {
+    if (fence) {
+      if (line.trim().startsWith(fence)) fence = null;
+      continue;
+    }
+    if (jsxDepth > 0 || tagState.inTag) {
+      jsxDepth += countTagDepth(line, tagState);
+      continue;
+    }
+
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+    if (JSX_BLOCK_START.test(line)) {
+      jsxDepth = Math.max(0, countTagDepth(line, tagState));
+      continue;
+    }
+    if (/^\s*(import|export)\s/.test(line)) {
+      continue;
+    }
+
+    const headingMatch = HEADING_PATTERN.exec(line);
+    if (headingMatch) {
+      headings.push({ depth: headingMatch[1].length, raw: headingMatch[2] });
+      continue;
+    }
+    prose.push(line);
+  }
+
+  return { headings, prose };
+}
+
+/**
+ * Build a unique anchor id, numbering repeats like GitHub does ("faq", "faq-1")
+ */
+function uniqueId(base: string, used: Map<string, number>): string {
+  let id = base;
+  let count = used.get(base);
+  if (count !== undefined) {
+    do {
+      count++;
+      id = `${base}-${count}`;
+    } while (used.has(id));
+    used.set(base, count);
+  }
+  used.set(id, 0);
+  return id;
+}
+
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.]+$/, "")}…`;
+}
+
+/**
+ * Count the words of a plain text
+ */
+export function countWords(text: string): number {
+  return text.match(WORD_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Get the outline of a content item: headings with anchor ids for a table of
+ * contents, word count, reading time and a plain-text excerpt.
+ *
+ * Anchor ids are slugified heading texts (numbered when repeated); an
+ * explicit id can be set with `## Heading {#custom-id}`. Only ATX headings
+ * (`## Heading`) are recognized.
+ *
+ * @param content - Content item or raw MDX/Markdown body
+ * @param options - Heading depth range, reading speed and excerpt length
+ *
+ * @example
+ * const { headings, readingTimeMinutes } = getContentOutline(post);
+ * // headings: [{ depth: 2, text: "Getting started", id: "getting-started" }, ...]
+ * // `${readingTimeMinutes} min read`
+ */
+export function getContentOutline(
+  content: Pick<CMSContent, "body"> | string,
+  options: ContentOutlineOptions = {}
+): ContentOutline {
+  const {
+    minDepth = 2,
+    maxDepth = 3,
+    wordsPerMinute = DEFAULT_WORDS_PER_MINUTE,
+    excerptLength = DEFAULT_EXCERPT_LENGTH,
+  } = options;
+  const body = typeof content === "string" ? content : content.body;
+  const { headings: rawHeadings, prose } = scanBody(typeof body === "string" ? body : "");
+
+  // Ids are assigned for every heading so they do not change with the depth range
+  const usedIds = new Map<string, number>();
+  const headings: ContentHeading[] = [];
+  for (const { depth, raw } of rawHeadings) {
+    const customId = CUSTOM_ID_PATTERN.exec(raw);
+    const text = stripMarkup(customId ? raw.slice(0, customId.index) : raw);
+    const id = uniqueId(customId ? customId[1] : slugify(text) || "section", usedIds);
+    if (depth >= minDepth && depth <= maxDepth) {
+      headings.push({ depth, text, id });
+    }
+  }
+
+  const text = stripMarkup(prose.join("\n"));
+  const wordCount = countWords(text);
+
+  return {
+    headings,
+    wordCount,
+    readingTimeMinutes: wordCount > 0 ? Math.max(1, Math.round(wordCount / wordsPerMinute)) : 0,
+    excerpt: truncateText(text, excerptLength),
+  };
+}
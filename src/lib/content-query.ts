@@ -0,0 +1,365 @@
+/**
+ * Content Query
+ * Typed filtering, sorting and pagination on top of the local content read API
+ */
+
+import { getAllContentForLocale, getLeadCMSConfig, type CMSContent } from "./cms.js";
+
+/**
+ * Scalar value that can be compared in a query condition
+ */
+export type ContentQueryValue = string | number | boolean | Date | null;
+
+/**
+ * Operator-based condition for a single content field.
+ * All operators given on one field must match.
+ */
+export interface ContentFieldCondition {
+  /** Field equals the value (for array fields: contains the value) */
+  eq?: ContentQueryValue;
+  /** Field does not equal the value (for array fields: does not contain the value) */
+  ne?: ContentQueryValue;
+  /** Field equals one of the values (for array fields: contains at least one) */
+  in?: readonly ContentQueryValue[];
+  /** Field equals none of the values (for array fields: contains none) */
+  nin?: readonly ContentQueryValue[];
+  /** Array field contains at least one of the values */
+  any?: readonly ContentQueryValue[];
+  /** Array field contains all of the values */
+  all?: readonly ContentQueryValue[];
+  /** Array field contains none of the values */
+  none?: readonly ContentQueryValue[];
+  /** Field is greater than the value (dates are compared chronologically) */
+  gt?: ContentQueryValue;
+  /** Field is greater than or equal to the value */
+  gte?: ContentQueryValue;
+  /** Field is less than the value */
+  lt?: ContentQueryValue;
+  /** Field is less than or equal to the value */
+  lte?: ContentQueryValue;
+  /** Field is present (not undefined, null or empty string) */
+  exists?: boolean;
+}
+
+/**
+ * Filter conditions keyed by content field. Nested fields use dot notation
+ * (e.g. `"seo.robots"`). A plain value is shorthand for `{ eq: value }`,
+ * an array is shorthand for `{ in: values }`.
+ */
+export type ContentWhere = Record<
+  string,
+  ContentQueryValue | readonly ContentQueryValue[] | ContentFieldCondition | undefined
+>;
+
+/**
+ * Sort specification for query results
+ */
+export interface ContentSort {
+  /** Field to sort by (dot notation supported) */
+  field: string;
+  /** @default 'asc' */
+  order?: "asc" | "desc";
+}
+
+/**
+ * Options for queryContent()
+ */
+export interface ContentQueryOptions {
+  /** Locale code (uses default language if not provided) */
+  locale?: string;
+  /** Content types to include */
+  types?: readonly string[];
+  /** Field filters; all conditions must match */
+  where?: ContentWhere;
+  /** Sort order; the first entry has the highest priority. Items without the field sort last. */
+  sort?: ContentSort | readonly ContentSort[];
+  /** Maximum number of items to return */
+  limit?: number;
+  /** Number of matching items to skip */
+  offset?: number;
+  /** Optional user UID for user-specific draft content */
+  userUid?: string | null;
+  /** Include items of `localeFallbacks` locales without a translation (default: false) */
+  includeFallbacks?: boolean;
+}
+
+/**
+ * Query result with pagination metadata for listing pages
+ */
+export interface ContentQueryResult<T = CMSContent> {
+  items: T[];
+  /** Number of items matching the filters before pagination */
+  total: number;
+  offset: number;
+  /** Applied limit, or null when all remaining items were returned */
+  limit: number | null;
+  /** 1-based page number (1 when no limit is set) */
+  page: number;
+  /** Total number of pages (1 when no limit is set) */
+  pageCount: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+const CONDITION_KEYS: readonly string[] = [
+  "eq",
+  "ne",
+  "in",
+  "nin",
+  "any",
+  "all",
+  "none",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "exists",
+];
+
+function getFieldValue(content: CMSContent, field: string): unknown {
+  if (!field.includes(".")) {
+    return content[field];
+  }
+
+  let current: unknown = content;
+  for (const part of field.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function isCondition(value: unknown): value is ContentFieldCondition {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    Object.keys(value).some((key) => CONDITION_KEYS.includes(key))
+  );
+}
+
+function toComparable(value: unknown): string | number | boolean | null | undefined {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return value as string | number | boolean | null | undefined;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const aTime = a instanceof Date ? a.getTime() : new Date(a as string).getTime();
+    const bTime = b instanceof Date ? b.getTime() : new Date(b as string).getTime();
+    return !isNaN(aTime) && aTime === bTime;
+  }
+  return a === b;
+}
+
+/**
+ * Compare two field values. Dates (or date strings compared against a Date)
+ * are compared chronologically, numbers numerically and strings with
+ * localeCompare. Returns null when the values are not comparable.
+ */
+function compareValues(a: unknown, b: unknown): number | null {
+  if (a === undefined || a === null || b === undefined || b === null) {
+    return null;
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    const aTime = a instanceof Date ? a.getTime() : new Date(a as string).getTime();
+    const bTime = b instanceof Date ? b.getTime() : new Date(b as string).getTime();
+    if (isNaN(aTime) || isNaN(bTime)) return null;
+    return aTime - bTime;
+  }
+
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right));
+}
+
+function containsValue(fieldValue: unknown, value: unknown): boolean {
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some((item) => valuesEqual(item, value));
+  }
+  return valuesEqual(fieldValue, value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+function matchesCondition(fieldValue: unknown, condition: ContentFieldCondition): boolean {
+  const asArray = Array.isArray(fieldValue)
+    ? fieldValue
+    : isPresent(fieldValue)
+      ? [fieldValue]
+      : [];
+
+  if (condition.exists !== undefined && isPresent(fieldValue) !== condition.exists) {
+    return false;
+  }
+  if (condition.eq !== undefined && !containsValue(fieldValue, condition.eq)) {
+    return false;
+  }
+  if (condition.ne !== undefined && containsValue(fieldValue, condition.ne)) {
+    return false;
+  }
+  if (condition.in && !condition.in.some((value) => containsValue(fieldValue, value))) {
+    return false;
+  }
+  if (condition.nin && condition.nin.some((value) => containsValue(fieldValue, value))) {
+    return false;
+  }
+  if (condition.any && !condition.any.some((value) => asArray.some((v) => valuesEqual(v, value)))) {
+    return false;
+  }
+  if (
+    condition.all &&
+    !condition.all.every((value) => asArray.some((v) => valuesEqual(v, value)))
+  ) {
+    return false;
+  }
+  if (
+    condition.none &&
+    condition.none.some((value) => asArray.some((v) => valuesEqual(v, value)))
+  ) {
+    return false;
+  }
+
+  const ranges: [ContentQueryValue | undefined, (diff: number) => boolean][] = [
+    [condition.gt, (diff) => diff > 0],
+    [condition.gte, (diff) => diff >= 0],
+    [condition.lt, (diff) => diff < 0],
+    [condition.lte, (diff) => diff <= 0],
+  ];
+  for (const [bound, check] of ranges) {
+    if (bound === undefined) continue;
+    const diff = compareValues(fieldValue, bound);
+    if (diff === null || !check(diff)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a content item matches all filter conditions
+ * @param content - Content item to test
+ * @param where - Field filters
+ * @returns true if every condition matches
+ */
+export function matchesContentWhere(content: CMSContent, where: ContentWhere): boolean {
+  for (const [field, spec] of Object.entries(where)) {
+    if (spec === undefined) continue;
+
+    const fieldValue = getFieldValue(content, field);
+    let condition: ContentFieldCondition;
+    if (isCondition(spec)) {
+      condition = spec;
+    } else if (Array.isArray(spec)) {
+      condition = { in: spec };
+    } else {
+      condition = { eq: spec as ContentQueryValue };
+    }
+
+    if (!matchesCondition(fieldValue, condition)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Sort content items by one or more fields. Returns a new array; items
+ * missing a sort field are placed after items that have it.
+ * @param items - Content items to sort
+ * @param sort - Sort specification(s), highest priority first
+ */
+export function sortContent<T extends CMSContent>(
+  items: readonly T[],
+  sort: ContentSort | readonly ContentSort[]
+): T[] {
+  const sorts = (Array.isArray(sort) ? sort : [sort]) as readonly ContentSort[];
+
+  return [...items].sort((a, b) => {
+    for (const { field, order = "asc" } of sorts) {
+      const aValue = getFieldValue(a, field);
+      const bValue = getFieldValue(b, field);
+      const aMissing = !isPresent(aValue);
+      const bMissing = !isPresent(bValue);
+
+      if (aMissing && bMissing) continue;
+      if (aMissing) return 1;
+      if (bMissing) return -1;
+
+      const diff = compareValues(aValue, bValue);
+      if (diff) {
+        return order === "desc" ? -diff : diff;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Query local content with filtering, sorting and pagination
+ *
+ * Builds on getAllContentForLocale(), so draft filtering and user-specific
+ * draft overrides behave exactly as in the other read functions.
+ *
+ * @param options - Query options (locale, types, where, sort, limit, offset, userUid, includeFallbacks)
+ * @returns Matching items plus total count and pagination metadata
+ *
+ * @example
+ * // Second page of English blog posts tagged "release", newest first
+ * const { items, total, pageCount } = queryContent({
+ *   locale: 'en',
+ *   types: ['blog-article'],
+ *   where: { tags: { any: ['release'] }, author: 'Jane Doe' },
+ *   sort: { field: 'publishedAt', order: 'desc' },
+ *   limit: 10,
+ *   offset: 10,
+ * });
+ */
+export function queryContent(options: ContentQueryOptions = {}): ContentQueryResult {
+  const { locale, types, where, sort, userUid, includeFallbacks } = options;
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit =
+    options.limit !== undefined && options.limit !== null
+      ? Math.max(0, Math.floor(options.limit))
+      : null;
+
+  const actualLocale = locale || getLeadCMSConfig().defaultLanguage;
+  let items = getAllContentForLocale(actualLocale, types, userUid, { includeFallbacks });
+
+  if (where) {
+    items = items.filter((content) => matchesContentWhere(content, where));
+  }
+
+  if (sort) {
+    items = sortContent(items, sort);
+  }
+
+  const total = items.length;
+  const pageItems = limit === null ? items.slice(offset) : items.slice(offset, offset + limit);
+
+  const page = limit ? Math.floor(offset / limit) + 1 : 1;
+  const pageCount = limit ? Math.max(1, Math.ceil(total / limit)) : 1;
+
+  return {
+    items: pageItems,
+    total,
+    offset,
+    limit,
+    page,
+    pageCount,
+    hasNextPage: offset + pageItems.length < total,
+    hasPreviousPage: offset > 0,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Content Schedule
+ * Content with a future `publishedAt` (scheduled publications), for
+ * rebuilding static sites when scheduled items go live
+ */
+
+import { getLeadCMSConfig, isUserDraftSlug } from "./cms.js";
+import { getContentIndex } from "./content-index.js";
+
+/**
+ * A content item scheduled for publication
+ */
+export interface ScheduledContentItem {
+  locale: string;
+  slug: string;
+  type?: string;
+  title?: string;
+  /** Date the item becomes visible (its `publishedAt`) */
+  publishAt: Date;
+  /** File path relative to contentDir */
+  file: string;
+}
+
+/**
+ * Options for getScheduledContent()
+ */
+export interface ScheduledContentOptions {
+  /** Locales to include (default: all) */
+  locales?: readonly string[];
+  /** Content types to include (default: all) */
+  types?: readonly string[];
+  /** Only include items publishing up to this date */
+  until?: Date;
+}
+
+/**
+ * Get content scheduled for publication: items whose `publishedAt` lies in
+ * the future. Such items are treated as drafts by isContentDraft() and
+ * appear once a site is rebuilt after that date.
+ *
+ * User-specific drafts and files without a valid `publishedAt` are not
+ * included.
+ *
+ * @param options - Locale, content type and date filters
+ * @returns Scheduled items, soonest first
+ *
+ * @example
+ * const upcoming = getScheduledContent({ types: ['blog-article'] });
+ * // [{ locale: 'en', slug: 'launch', publishAt: Date(2024-11-01T09:00:00Z), ... }]
+ */
+export function getScheduledContent(options: ScheduledContentOptions = {}): ScheduledContentItem[] {
+  const config = getLeadCMSConfig();
+  if (!config.contentDir) {
+    console.warn("[LeadCMS] No contentDir configured. Please set up your LeadCMS configuration.");
+    return [];
+  }
+
+  const { locales, types, until } = options;
+  const now = Date.now();
+  const index = getContentIndex(config.contentDir, config.defaultLanguage);
+
+  const items: ScheduledContentItem[] = [];
+  for (const entry of index.entries) {
+    const frontmatter = entry.frontmatter;
+    if (!frontmatter || !frontmatter.publishedAt || isUserDraftSlug(entry.slug)) continue;
+    if (locales && !locales.includes(entry.locale)) continue;
+    if (types && (!entry.type || !types.includes(entry.type))) continue;
+
+    const publishAt = new Date(frontmatter.publishedAt as string | Date);
+    const time = publishAt.getTime();
+    if (isNaN(time) || time <= now || (until && time > until.getTime())) continue;
+
+    items.push({
+      locale: entry.locale,
+      slug: entry.slug,
+      type: entry.type,
+      title: typeof frontmatter.title === "string" ? frontmatter.title : undefined,
+      publishAt,
+      file: entry.file,
+    });
+  }
+
+  return items.sort(
+    (a, b) =>
+      a.publishAt.getTime() - b.publishAt.getTime() ||
+      a.locale.localeCompare(b.locale) ||
+      a.slug.localeCompare(b.slug)
+  );
+}
+
+/**
+ * Get the date the next scheduled item becomes visible — the time a static
+ * site should be rebuilt next
+ *
+ * @param options - Locale, content type and date filters
+ * @returns Date of the soonest scheduled publication, or null when nothing is scheduled
+ */
+export function getNextScheduledPublish(options: ScheduledContentOptions = {}): Date | null {
+  return getScheduledContent(options)[0]?.publishAt ?? null;
+}
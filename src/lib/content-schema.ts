@@ -0,0 +1,391 @@
+/**
+ * Content Schemas
+ * Per-content-type frontmatter validation and typed content access.
+ *
+ * Schemas follow the Standard Schema interface (https://standardschema.dev), so
+ * Zod, Valibot, ArkType and similar libraries can be registered directly. For
+ * projects without a schema library, defineContentSchema() builds one from a
+ * plain field definition — the same definition format can be put in
+ * `contentSchemas` in leadcms.config.json.
+ */
+
+import path from "path";
+import { getConfig } from "./config.js";
+import type { CMSContent } from "./cms.js";
+
+// ── Standard Schema v1 ─────────────────────────────────────────────────
+
+/**
+ * Standard Schema v1 interface, as implemented by common validation libraries
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** Output type of a Standard Schema */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+// ── Built-in field definitions ─────────────────────────────────────────
+
+export type ContentFieldType = "string" | "number" | "boolean" | "date" | "string[]" | "object";
+
+export interface ContentFieldDefinition {
+  type: ContentFieldType;
+  /** Allow the field to be missing (fields are required by default) */
+  optional?: boolean;
+  /** Allowed values for string fields */
+  enum?: readonly string[];
+}
+
+/**
+ * Field name → field type (shorthand for a required field) or field definition
+ *
+ * @example
+ * { title: "string", tags: { type: "string[]", optional: true }, publishedAt: "date" }
+ */
+export type ContentSchemaDefinition = Record<string, ContentFieldType | ContentFieldDefinition>;
+
+type FieldValue<T extends ContentFieldType> = T extends "string"
+  ? string
+  : T extends "number"
+    ? number
+    : T extends "boolean"
+      ? boolean
+      : T extends "date"
+        ? Date
+        : T extends "string[]"
+          ? string[]
+          : Record<string, unknown>;
+
+type FieldOutput<F> = F extends ContentFieldType
+  ? FieldValue<F>
+  : F extends { enum: readonly (infer E)[] }
+    ? E
+    : F extends ContentFieldDefinition
+      ? FieldValue<F["type"]>
+      : never;
+
+type OptionalKeys<D> = {
+  [K in keyof D]: D[K] extends { optional: true } ? K : never;
+}[keyof D];
+
+/** Object type described by a ContentSchemaDefinition */
+export type InferContentSchema<D extends ContentSchemaDefinition> = {
+  [K in Exclude<keyof D, OptionalKeys<D>>]: FieldOutput<D[K]>;
+} & {
+  [K in OptionalKeys<D>]?: FieldOutput<D[K]>;
+};
+
+// ── Typed content ──────────────────────────────────────────────────────
+
+/**
+ * Frontmatter types per content type. Empty by default — extend it with
+ * module augmentation to get typed results from the read API:
+ *
+ * @example
+ * declare module "@leadcms/sdk" {
+ *   interface ContentTypeRegistry {
+ *     article: InferContentSchema<typeof articleDefinition>;
+ *   }
+ * }
+ * const article = getCMSContentBySlugForLocale<"article">("hello", "en");
+ * article?.title; // string
+ */
+export interface ContentTypeRegistry {}
+
+/** CMSContent narrowed to the registered frontmatter type of K (plain CMSContent otherwise) */
+export type ContentOfType<K extends string> = K extends keyof ContentTypeRegistry
+  ? CMSContent & ContentTypeRegistry[K] & { type: K }
+  : CMSContent;
+
+// ── Validation errors ──────────────────────────────────────────────────
+
+export interface ContentValidationIssue {
+  /** Dotted field path, e.g. "author.name" ("" for the whole object) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown when a content file does not match the schema of its type
+ */
+export interface ContentValidationError extends Error {
+  name: "ContentValidationError";
+  /** Absolute path of the invalid file */
+  filePath: string;
+  contentType: string;
+  issues: ContentValidationIssue[];
+}
+
+export function isContentValidationError(error: unknown): error is ContentValidationError {
+  return error instanceof Error && error.name === "ContentValidationError";
+}
+
+function formatIssuePath(issuePath: StandardSchemaIssue["path"]): string {
+  return (issuePath ?? [])
+    .map((segment) => String(typeof segment === "object" ? segment.key : segment))
+    .join(".");
+}
+
+function createContentValidationError(
+  filePath: string,
+  contentType: string,
+  issues: readonly StandardSchemaIssue[]
+): ContentValidationError {
+  const normalized = issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }));
+  const details = normalized
+    .map((issue) => `  - ${issue.path ? `${issue.path}: ` : ""}${issue.message}`)
+    .join("\n");
+
+  const error = new Error(
+    `[LeadCMS] Invalid content in ${path.relative(process.cwd(), filePath) || filePath} (type "${contentType}"):\n${details}`
+  ) as ContentValidationError;
+  error.name = "ContentValidationError";
+  error.filePath = filePath;
+  error.contentType = contentType;
+  error.issues = normalized;
+  return error;
+}
+
+// ── Built-in validator ─────────────────────────────────────────────────
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  return typeof value;
+}
+
+/**
+ * Check a field value. Returns the (possibly converted) value or an issue message.
+ */
+function checkField(
+  value: unknown,
+  field: ContentFieldDefinition
+): { value: unknown } | { message: string } {
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return { message: `expected string, received ${describeValue(value)}` };
+      }
+      if (field.enum && !field.enum.includes(value)) {
+        return { message: `expected one of ${field.enum.join(", ")}, received "${value}"` };
+      }
+      return { value };
+    case "number":
+      return typeof value === "number" && !isNaN(value)
+        ? { value }
+        : { message: `expected number, received ${describeValue(value)}` };
+    case "boolean":
+      return typeof value === "boolean"
+        ? { value }
+        : { message: `expected boolean, received ${describeValue(value)}` };
+    case "date": {
+      const date =
+        value instanceof Date ? value : typeof value === "string" ? new Date(value) : null;
+      return date && !isNaN(date.getTime())
+        ? { value: date }
+        : { message: `expected date, received ${JSON.stringify(value) ?? describeValue(value)}` };
+    }
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? { value }
+        : { message: `expected array of strings, received ${describeValue(value)}` };
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value)
+        ? { value }
+        : { message: `expected object, received ${describeValue(value)}` };
+  }
+}
+
+/**
+ * Build a Standard Schema from a field definition. Unknown fields are kept,
+ * "date" fields are converted to Date objects.
+ *
+ * @example
+ * registerContentSchema("article", defineContentSchema({
+ *   title: "string",
+ *   category: { type: "string", enum: ["news", "guides"] },
+ *   tags: { type: "string[]", optional: true },
+ * }));
+ */
+export function defineContentSchema<const D extends ContentSchemaDefinition>(
+  definition: D
+): StandardSchemaV1<unknown, InferContentSchema<D>> {
+  const fields = Object.entries(definition).map(
+    ([name, field]) => [name, typeof field === "string" ? { type: field } : field] as const
+  );
+
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "leadcms",
+      validate(value) {
+        if (value === null || typeof value !== "object" || Array.isArray(value)) {
+          return { issues: [{ message: `expected object, received ${describeValue(value)}` }] };
+        }
+
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = { ...input };
+        const issues: StandardSchemaIssue[] = [];
+
+        for (const [name, field] of fields) {
+          if (input[name] === undefined || input[name] === null) {
+            if (!field.optional) {
+              issues.push({ message: "required", path: [name] });
+            }
+            continue;
+          }
+          const result = checkField(input[name], field);
+          if ("message" in result) {
+            issues.push({ message: result.message, path: [name] });
+          } else {
+            output[name] = result.value;
+          }
+        }
+
+        return issues.length > 0 ? { issues } : { value: output as InferContentSchema<D> };
+      },
+    },
+  };
+}
+
+// ── Registry ───────────────────────────────────────────────────────────
+
+const registeredSchemas = new Map<string, StandardSchemaV1>();
+
+// Schemas built from config definitions, keyed by the definition object
+const configSchemas = new WeakMap<ContentSchemaDefinition, StandardSchemaV1>();
+
+/**
+ * Register the schema for a content type. Files of that type are validated
+ * whenever they are read; invalid files throw a ContentValidationError.
+ * Replaces any schema registered (or configured) for the type before.
+ */
+export function registerContentSchema(contentType: string, schema: StandardSchemaV1): void {
+  registeredSchemas.set(contentType, schema);
+}
+
+/**
+ * Register several schemas at once (content type → schema)
+ */
+export function registerContentSchemas(schemas: Record<string, StandardSchemaV1>): void {
+  for (const [contentType, schema] of Object.entries(schemas)) {
+    registerContentSchema(contentType, schema);
+  }
+}
+
+/**
+ * Remove all registered schemas (schemas from `contentSchemas` in the config stay active)
+ */
+export function clearContentSchemas(): void {
+  registeredSchemas.clear();
+}
+
+function getConfiguredDefinitions(): Record<string, ContentSchemaDefinition> | undefined {
+  try {
+    return getConfig().contentSchemas;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the schema for a content type: a registered schema first, then a
+ * definition from `contentSchemas` in the config.
+ *
+ * @returns The schema, or null when the type has none
+ */
+export function getContentSchema(contentType: string): StandardSchemaV1 | null {
+  const registered = registeredSchemas.get(contentType);
+  if (registered) {
+    return registered;
+  }
+
+  const definition = getConfiguredDefinitions()?.[contentType];
+  if (!definition) {
+    return null;
+  }
+
+  let schema = configSchemas.get(definition);
+  if (!schema) {
+    schema = defineContentSchema(definition);
+    configSchemas.set(definition, schema);
+  }
+  return schema;
+}
+
+// ── Validation ─────────────────────────────────────────────────────────
+
+function applyValidationResult(
+  content: CMSContent,
+  filePath: string,
+  result: StandardSchemaResult<unknown>
+): CMSContent {
+  if (result.issues) {
+    throw createContentValidationError(filePath, content.type, result.issues);
+  }
+  // Keep slug and body even when the schema strips unknown keys
+  return { ...content, ...(result.value as object), slug: content.slug, body: content.body };
+}
+
+/**
+ * Validate content read from a file against the schema of its type.
+ * Content without a type or without a schema is returned unchanged.
+ *
+ * @throws ContentValidationError when the content does not match the schema
+ * @internal
+ */
+export function validateContentFile(content: CMSContent, filePath: string): CMSContent {
+  const schema = content.type ? getContentSchema(content.type) : null;
+  if (!schema) {
+    return content;
+  }
+
+  const result = schema["~standard"].validate(content);
+  if (result instanceof Promise) {
+    throw new Error(
+      `[LeadCMS] The schema for content type "${content.type}" is asynchronous. Use the async read API (e.g. getCMSContentBySlugForLocaleAsync) to read ${filePath}.`
+    );
+  }
+  return applyValidationResult(content, filePath, result);
+}
+
+/**
+ * Async variant of validateContentFile() that also supports async schemas
+ *
+ * @throws ContentValidationError when the content does not match the schema
+ * @internal
+ */
+export async function validateContentFileAsync(
+  content: CMSContent,
+  filePath: string
+): Promise<CMSContent> {
+  const schema = content.type ? getContentSchema(content.type) : null;
+  if (!schema) {
+    return content;
+  }
+
+  return applyValidationResult(content, filePath, await schema["~standard"].validate(content));
+}
@@ -0,0 +1,180 @@
+/**
+ * Content Taxonomy
+ * Categories, tags and authors collected from local content files
+ */
+
+import { getAllContentForLocale, getLeadCMSConfig, type CMSContent } from "./cms.js";
+import { sortContent } from "./content-query.js";
+import { slugify } from "./slugify.js";
+
+/**
+ * A category, tag or author with the number of content items using it
+ */
+export interface TaxonomyTerm {
+  /** Term as written in frontmatter (first spelling encountered) */
+  name: string;
+  /** URL-safe slug of the name, for archive page routes */
+  slug: string;
+  /** Number of content items using this term */
+  count: number;
+}
+
+type TaxonomyField = "category" | "tags" | "author";
+
+function getTermValues(content: CMSContent, field: TaxonomyField): string[] {
+  const value = content[field];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function termKey(name: string): string {
+  return slugify(name) || name.toLowerCase();
+}
+
+function termMatches(name: string, query: string): boolean {
+  return name.toLowerCase() === query.trim().toLowerCase() || termKey(name) === termKey(query);
+}
+
+/**
+ * Collect terms of a taxonomy field, grouping spellings that share a slug
+ * (e.g. "Next.js" and "next.js"). Sorted by count (desc), then by name.
+ */
+function collectTerms(
+  field: TaxonomyField,
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): TaxonomyTerm[] {
+  const actualLocale = locale || getLeadCMSConfig().defaultLanguage;
+  const terms = new Map<string, TaxonomyTerm>();
+
+  for (const content of getAllContentForLocale(actualLocale, contentTypes, userUid)) {
+    // Count each term at most once per content item
+    const seen = new Set<string>();
+    for (const name of getTermValues(content, field)) {
+      const key = termKey(name);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const existing = terms.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        terms.set(key, { name, slug: key, count: 1 });
+      }
+    }
+  }
+
+  return [...terms.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function getContentByTerm(
+  field: TaxonomyField,
+  term: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): CMSContent[] {
+  const actualLocale = locale || getLeadCMSConfig().defaultLanguage;
+  const matching = getAllContentForLocale(actualLocale, contentTypes, userUid).filter((content) =>
+    getTermValues(content, field).some((name) => termMatches(name, term))
+  );
+  return sortContent(matching, { field: "publishedAt", order: "desc" });
+}
+
+/**
+ * Get all categories used by published content in a locale
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Categories with usage counts, most used first
+ *
+ * @example
+ * getCategoriesForLocale('en', ['blog-article'])
+ * // [{ name: 'News', slug: 'news', count: 12 }, { name: 'Guides', slug: 'guides', count: 4 }]
+ */
+export function getCategoriesForLocale(
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): TaxonomyTerm[] {
+  return collectTerms("category", locale, contentTypes, userUid);
+}
+
+/**
+ * Get all tags used by published content in a locale
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Tags with usage counts, most used first
+ */
+export function getTagsForLocale(
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): TaxonomyTerm[] {
+  return collectTerms("tags", locale, contentTypes, userUid);
+}
+
+/**
+ * Get all authors of published content in a locale
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Authors with content counts, most prolific first
+ */
+export function getAuthorsForLocale(
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): TaxonomyTerm[] {
+  return collectTerms("author", locale, contentTypes, userUid);
+}
+
+/**
+ * Get content tagged with a tag, newest first
+ *
+ * The tag matches case-insensitively by name or by its slug, so archive
+ * routes can pass the `slug` returned by getTagsForLocale().
+ *
+ * @param tag - Tag name or slug
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Matching content items sorted by publishedAt (newest first)
+ */
+export function getContentByTag(
+  tag: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): CMSContent[] {
+  return getContentByTerm("tags", tag, locale, contentTypes, userUid);
+}
+
+/**
+ * Get content in a category, newest first
+ *
+ * The category matches case-insensitively by name or by its slug, so archive
+ * routes can pass the `slug` returned by getCategoriesForLocale().
+ *
+ * @param category - Category name or slug
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param contentTypes - Optional array of content types to include
+ * @param userUid - Optional user UID for user-specific draft content
+ * @returns Matching content items sorted by publishedAt (newest first)
+ */
+export function getContentByCategory(
+  category: string,
+  locale?: string,
+  contentTypes?: readonly string[],
+  userUid?: string | null
+): CMSContent[] {
+  return getContentByTerm("category", category, locale, contentTypes, userUid);
+}
@@ -0,0 +1,146 @@
+/**
+ * Content URLs
+ * Path template resolution and absolute URL helpers shared by the generators
+ * (redirect maps, feeds, sitemaps, search indexes) and the route/URL helpers
+ * of the read API. getContentPath() is the one route layout all of them use.
+ */
+
+/**
+ * The URL settings of the LeadCMS config
+ */
+export interface ContentUrlLayout {
+  defaultLanguage: string;
+  /** Language → base URL of languages served from their own domain */
+  languageDomains?: Record<string, string>;
+  /** Base URL of languages without a languageDomains entry */
+  siteUrl?: string;
+  /** Path template replacing the default route layout. Tokens: {language}, {slug}, {domain} */
+  pathPattern?: string;
+}
+
+/**
+ * Resolve a path template for a content item.
+ * Tokens: {language}, {slug}, {domain} (resolved from languageDomains).
+ *
+ * @example
+ * applyPathPattern('/{language}/{slug}', 'en', 'blog/hello') // '/en/blog/hello'
+ * applyPathPattern('{domain}/{slug}', 'de', 'hallo', { de: 'https://de.example.com' })
+ * // 'https://de.example.com/hallo'
+ */
+export function applyPathPattern(
+  pattern: string,
+  language: string,
+  slug: string,
+  languageDomains?: Record<string, string>
+): string {
+  const domain = languageDomains && language ? (languageDomains[language] ?? "") : "";
+  return pattern
+    .replace("{language}", language)
+    .replace("{slug}", slug)
+    .replace("{domain}", domain);
+}
+
+/**
+ * Get the public base URL for a language: its languageDomains entry when
+ * present, otherwise siteUrl. Trailing slashes are removed.
+ * @returns Base URL, or undefined when neither is configured
+ */
+export function getSiteUrlForLanguage(
+  language: string,
+  languageDomains?: Record<string, string>,
+  siteUrl?: string
+): string | undefined {
+  const base = languageDomains?.[language] || siteUrl;
+  return base ? base.replace(/\/+$/, "") : undefined;
+}
+
+/**
+ * Make a path absolute against a base URL. Values that are already absolute
+ * (http, https or protocol-relative) are returned unchanged.
+ */
+export function toAbsoluteUrl(pathOrUrl: string, baseUrl: string): string {
+  if (/^(https?:)?\/\//i.test(pathOrUrl)) {
+    return pathOrUrl;
+  }
+  const base = baseUrl.replace(/\/+$/, "");
+  return pathOrUrl.startsWith("/") ? `${base}${pathOrUrl}` : `${base}/${pathOrUrl}`;
+}
+
+/**
+ * Get the route path of a content item, as used by getAllContentRoutes().
+ * The default language and languages served from their own domain
+ * (a languageDomains entry) have no locale prefix; other languages are
+ * served under /{language}/. A path pattern, when given, replaces this layout.
+ *
+ * @example
+ * getContentPath('de', 'ueber-uns', 'en') // '/de/ueber-uns'
+ * getContentPath('de', 'ueber-uns', 'en', { de: 'https://de.example.com' }) // '/ueber-uns'
+ * getContentPath('en', 'about', 'en', undefined, '/{language}/{slug}') // '/en/about'
+ */
+export function getContentPath(
+  language: string,
+  slug: string,
+  defaultLanguage: string,
+  languageDomains?: Record<string, string>,
+  pathPattern?: string
+): string {
+  if (pathPattern) {
+    return applyPathPattern(pathPattern, language, slug, languageDomains);
+  }
+  if (language === defaultLanguage || languageDomains?.[language]) {
+    return `/${slug}`;
+  }
+  return `/${language}/${slug}`;
+}
+
+/**
+ * Get the URL of a content item: its getContentPath() route, absolute against
+ * the base URL of the language when one is configured (root-relative otherwise)
+ *
+ * @example
+ * buildContentUrl('en', 'about', { defaultLanguage: 'en', siteUrl: 'https://www.example.com' })
+ * // 'https://www.example.com/about'
+ */
+export function buildContentUrl(language: string, slug: string, layout: ContentUrlLayout): string {
+  const contentPath = getContentPath(
+    language,
+    slug,
+    layout.defaultLanguage,
+    layout.languageDomains,
+    layout.pathPattern
+  );
+  const baseUrl = getSiteUrlForLanguage(language, layout.languageDomains, layout.siteUrl);
+  return baseUrl ? toAbsoluteUrl(contentPath, baseUrl) : contentPath;
+}
+
+/**
+ * Host name of a URL or a bare host ("de.example.com:3000"), lowercased and
+ * without port. Returns undefined for values that cannot be parsed.
+ */
+function getHostName(value: string): string | undefined {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the language served on a host via languageDomains. Ports and the
+ * protocol are ignored, so a request Host header can be passed directly.
+ *
+ * @example
+ * getLanguageForHost('de.example.com', { de: 'https://de.example.com' }) // 'de'
+ */
+export function getLanguageForHost(
+  host: string,
+  languageDomains?: Record<string, string>
+): string | undefined {
+  const hostName = getHostName(host);
+  if (!hostName || !languageDomains) {
+    return undefined;
+  }
+  return Object.keys(languageDomains).find(
+    (language) => getHostName(languageDomains[language]) === hostName
+  );
+}
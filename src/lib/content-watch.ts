@@ -0,0 +1,340 @@
+/**
+ * Content Watch
+ * Cache invalidation for the runtime read API, and an opt-in file watcher for
+ * long-running processes (dev servers) that invalidates caches and emits
+ * typed change events when local LeadCMS files change.
+ */
+
+import fs from "fs";
+import path from "path";
+import { clearContentFileCache, getLeadCMSConfig } from "./cms.js";
+import { clearCommentCache } from "./comment-pagination.js";
+import { clearConfigCache } from "./config.js";
+import {
+  clearContentIndexCache,
+  getContentFileIdentity,
+  invalidateContentIndex,
+  watchContentIndex,
+} from "./content-index.js";
+import { logger } from "./logger.js";
+
+/** Directory a change happened in: `contentDir`, `commentsDir` or `settingsDir` */
+export type ContentChangeSource = "content" | "comments" | "settings";
+
+/** "add" for created (or replaced) files, "change" for modified files, "unlink" for deleted files */
+export type ContentChangeType = "add" | "change" | "unlink";
+
+/**
+ * A changed file, as emitted by watchContent()
+ */
+export interface ContentChangeEvent {
+  source: ContentChangeSource;
+  type: ContentChangeType;
+  /** Absolute file path */
+  filePath: string;
+  /** File path relative to the source directory, using forward slashes */
+  file: string;
+  /** Locale of a content file */
+  locale?: string;
+  /** Slug of a content file */
+  slug?: string;
+}
+
+/** Receives the changes of one debounce window */
+export type ContentChangeListener = (events: ContentChangeEvent[]) => void;
+
+/**
+ * Options for watchContent()
+ */
+export interface WatchContentOptions {
+  /** Directories to watch. Default: all of "content", "comments" and "settings" */
+  sources?: readonly ContentChangeSource[];
+  /** Delay after the last change before listeners are called. Default: 100 */
+  debounceMs?: number;
+  /** Listener subscribed right away */
+  onChange?: ContentChangeListener;
+}
+
+/**
+ * Handle returned by watchContent()
+ */
+export interface ContentWatcher {
+  /** Subscribe to change batches. Returns a function that unsubscribes the listener. */
+  subscribe(listener: ContentChangeListener): () => void;
+  /** Stop watching */
+  close(): void;
+}
+
+const CONFIG_FILE_NAMES = new Set([
+  "leadcms.config.js",
+  "leadcms.config.mjs",
+  "leadcms.config.json",
+  ".leadcmsrc.json",
+  ".leadcmsrc",
+]);
+
+/** Receives the absolute path of a changed file or directory */
+type TreeWatchCallback = (eventType: string, filePath: string) => void;
+
+function getRelativePath(dir: string, filePath: string): string | null {
+  const relative = path.relative(dir, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return null;
+  }
+  return relative.split(path.sep).join("/");
+}
+
+/**
+ * Drop cached data so the next read sees the files on disk: the in-memory
+ * content index, cached config files (header, footer, ...), parsed comment
+ * files and the cached leadcms.config.json.
+ *
+ * Reads validate the content index against file mtimes and sizes once per
+ * event loop turn, so this is only needed for changes made in the same turn as
+ * a read, changes that keep both (e.g. fast rewrites by tools) and cached
+ * config files, which otherwise expire after 30 seconds.
+ *
+ * @param paths - Changed files or directories. Without paths, everything is dropped.
+ *
+ * @example
+ * invalidateContentCache(); // after `leadcms pull`
+ * invalidateContentCache('.leadcms/content/blog/hello.mdx');
+ */
+export function invalidateContentCache(paths?: string | readonly string[]): void {
+  if (paths === undefined) {
+    clearContentFileCache();
+    clearContentIndexCache();
+    clearCommentCache();
+    clearConfigCache();
+    return;
+  }
+
+  const filePaths = (typeof paths === "string" ? [paths] : paths).map((p) => path.resolve(p));
+  clearContentFileCache(filePaths);
+  clearCommentCache(filePaths);
+
+  const contentDir = path.resolve(getLeadCMSConfig().contentDir);
+  const contentFiles: string[] = [];
+  let wholeIndex = false;
+  for (const filePath of filePaths) {
+    if (CONFIG_FILE_NAMES.has(path.basename(filePath))) {
+      clearConfigCache();
+    }
+
+    if (getRelativePath(filePath, contentDir) !== null) {
+      // contentDir itself or one of its parents
+      wholeIndex = true;
+      continue;
+    }
+    const file = getRelativePath(contentDir, filePath);
+    if (file === null) continue;
+    if (/\.(mdx|json)$/.test(file)) {
+      contentFiles.push(file);
+    } else if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+      wholeIndex = true;
+    }
+  }
+
+  if (wholeIndex) {
+    invalidateContentIndex(contentDir);
+  } else if (contentFiles.length > 0) {
+    invalidateContentIndex(contentDir, contentFiles);
+  }
+}
+
+/**
+ * Watch a directory tree with one recursive fs.watch(). Where recursive
+ * watching is unavailable (Linux before Node.js 20), every directory gets its
+ * own watcher instead; directories created later are watched as they appear,
+ * and the files already in them are reported.
+ * @returns Function that closes the watchers of the tree
+ */
+function watchTree(root: string, onEvent: TreeWatchCallback): () => void {
+  try {
+    const watcher = fs.watch(root, { recursive: true }, (eventType, filename) => {
+      if (filename) onEvent(eventType, path.join(root, filename.toString()));
+    });
+    watcher.on("error", (error) => {
+      logger.verbose(`[watch] Stopped watching ${root}: ${error.message}`);
+      watcher.close();
+    });
+    return () => watcher.close();
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+      throw error;
+    }
+    logger.verbose(`[watch] Recursive fs.watch unavailable, watching ${root} per directory`);
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  let closed = false;
+
+  const unwatchDir = (dir: string) => {
+    for (const [watchedDir, watcher] of watchers) {
+      if (getRelativePath(dir, watchedDir) !== null) {
+        watcher.close();
+        watchers.delete(watchedDir);
+      }
+    }
+  };
+
+  const watchDir = (dir: string, reportFiles: boolean) => {
+    if (closed || watchers.has(dir)) return;
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(dir, (eventType, filename) => {
+        if (!filename) return;
+        const filePath = path.join(dir, filename.toString());
+        onEvent(eventType, filePath);
+        if (eventType !== "rename") return;
+        if (fs.statSync(filePath, { throwIfNoEntry: false })?.isDirectory()) {
+          watchDir(filePath, true);
+        } else {
+          unwatchDir(filePath);
+        }
+      });
+    } catch {
+      // Removed before it could be watched
+      return;
+    }
+    watcher.on("error", (error) => {
+      logger.verbose(`[watch] Stopped watching ${dir}: ${error.message}`);
+      unwatchDir(dir);
+    });
+    watchers.set(dir, watcher);
+
+    // Entries created before the watcher was set up
+    let entries: fs.Dirent[] = [];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Removed in the meantime; its parent reports the deletion
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        watchDir(entryPath, reportFiles);
+      } else if (reportFiles) {
+        onEvent("rename", entryPath);
+      }
+    }
+  };
+
+  watchDir(root, false);
+  return () => {
+    closed = true;
+    watchers.forEach((watcher) => watcher.close());
+    watchers.clear();
+  };
+}
+
+/**
+ * Watch local LeadCMS files and keep the read API fresh in long-running
+ * processes. Uses recursive `fs.watch` on `contentDir`, `commentsDir` and
+ * `settingsDir` (directories that do not exist are skipped), or one watcher
+ * per directory where recursive watching is not supported.
+ *
+ * Changes are collected for `debounceMs`, so a `leadcms pull` results in one
+ * batch. For each batch, caches of the changed files are invalidated first
+ * (see invalidateContentCache()), then listeners are called. While content is
+ * watched, reads rely on this invalidation instead of validating the content
+ * index against contentDir.
+ *
+ * @param options - Watched sources, debounce delay and an initial listener
+ * @returns A watcher to subscribe listeners to and to close
+ *
+ * @example
+ * const watcher = watchContent();
+ * watcher.subscribe((events) => {
+ *   for (const event of events) {
+ *     if (event.source === 'content') console.log(event.type, event.locale, event.slug);
+ *   }
+ * });
+ * // later: watcher.close();
+ */
+export function watchContent(options: WatchContentOptions = {}): ContentWatcher {
+  const { sources = ["content", "comments", "settings"], debounceMs = 100 } = options;
+  const config = getLeadCMSConfig();
+  const dirs: Record<ContentChangeSource, string | undefined> = {
+    content: config.contentDir,
+    comments: config.commentsDir,
+    settings: config.settingsDir,
+  };
+
+  const listeners = new Set<ContentChangeListener>();
+  if (options.onChange) {
+    listeners.add(options.onChange);
+  }
+
+  // First fs.watch event type per file in the current window
+  const pending = new Map<string, { source: ContentChangeSource; eventType: string }>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const events: ContentChangeEvent[] = [];
+    for (const [filePath, { source, eventType }] of pending) {
+      const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+      if (stat?.isDirectory()) continue;
+
+      const file = getRelativePath(path.resolve(dirs[source]!), filePath)!;
+      const type: ContentChangeType = !stat ? "unlink" : eventType === "rename" ? "add" : "change";
+      const identity =
+        source === "content" ? getContentFileIdentity(file, config.defaultLanguage) : null;
+      events.push({ source, type, filePath, file, ...(identity ?? {}) });
+    }
+    pending.clear();
+    if (events.length === 0) return;
+
+    invalidateContentCache(events.map((event) => event.filePath));
+    logger.verbose(`[watch] ${events.length} file(s) changed`);
+    for (const listener of listeners) {
+      try {
+        listener(events);
+      } catch (error) {
+        console.error("[LeadCMS] watchContent listener failed:", error);
+      }
+    }
+  };
+
+  const closers: (() => void)[] = [];
+  for (const source of sources) {
+    const dir = dirs[source];
+    if (!dir || !fs.existsSync(dir)) {
+      logger.verbose(`[watch] Skipping ${source}: ${dir ?? "(not configured)"} does not exist`);
+      continue;
+    }
+
+    const closeTree = watchTree(path.resolve(dir), (eventType, filePath) => {
+      if (!pending.has(filePath)) {
+        pending.set(filePath, { source, eventType });
+      }
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    });
+    closers.push(closeTree);
+    if (source === "content") {
+      // Changed content files are invalidated, so reads need not walk contentDir
+      closers.push(watchContentIndex(dir));
+    }
+  }
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending.clear();
+      closers.forEach((closeTree) => closeTree());
+      listeners.clear();
+    },
+  };
+}
@@ -132,6 +132,9 @@ export interface UserIdentity {
   avatarUrl?: string;
 }
 
+/** Outcome of acquiring a server-side lock */
+export type RemoteLockResult = "acquired" | "held" | "unsupported";
+
 interface EmailTemplateItem {
   id?: number;
   name?: string;
@@ -364,6 +367,29 @@ function shouldUseMock(): boolean {
   return false;
 }
 
+/** Remote items whose changes can be observed, by entity (see observeRemoteChanges) */
+export interface ObservedRemoteItems {
+  content: ContentItem;
+  emailTemplates: EmailTemplateItem;
+  segments: SegmentDetailsDto;
+  sequences: SequenceDetailsDto;
+  redirects: RedirectDetailsDto;
+}
+
+export type ObservedRemoteEntity = keyof ObservedRemoteItems;
+
+/** Observer of the remote items created, updated and deleted through the data service */
+export interface RemoteChangeObserver {
+  /** Called before an item is updated or deleted */
+  beforeChange(entity: ObservedRemoteEntity, id: number): Promise<void>;
+  /** Called after an item was created or updated (with the item the API returned) or deleted (null) */
+  changed<E extends ObservedRemoteEntity>(
+    entity: E,
+    id: number,
+    item: ObservedRemoteItems[E] | null
+  ): void;
+}
+
 /**
  * LeadCMS Data Service - Unified interface that abstracts API vs mock data
  */
@@ -375,6 +401,7 @@ class LeadCMSDataService {
   private apiKey?: string;
   private currentScenario?: MockScenario;
   private mockData?: MockData;
+  private remoteChangeObservers = new Set<RemoteChangeObserver>();
 
   /**
    * Initialize the service lazily when first used
@@ -413,6 +440,38 @@ class LeadCMSDataService {
     logger.verbose(`[DATA SERVICE] Configured for remote: ${this.baseURL}`);
   }
 
+  /**
+   * Report the content, email templates, segments, sequences and redirects
+   * created, updated and deleted from now on to `observer`.
+   * Returns a function that stops observing.
+   */
+  observeRemoteChanges(observer: RemoteChangeObserver): () => void {
+    this.remoteChangeObservers.add(observer);
+    return () => {
+      this.remoteChangeObservers.delete(observer);
+    };
+  }
+
+  private async beforeRemoteChange(entity: ObservedRemoteEntity, id: number): Promise<void> {
+    for (const observer of this.remoteChangeObservers) {
+      await observer.beforeChange(entity, id);
+    }
+  }
+
+  /** Report a changed item to the observers, returns the item */
+  private remoteChanged<E extends ObservedRemoteEntity, T extends ObservedRemoteItems[E] | null>(
+    entity: E,
+    id: number | undefined,
+    item: T
+  ): T {
+    if (id != null) {
+      for (const observer of this.remoteChangeObservers) {
+        observer.changed(entity, id, item);
+      }
+    }
+    return item;
+  }
+
   /**
    * Return the currently configured base URL.
    * Triggers lazy initialization if not yet initialized.
@@ -690,7 +749,7 @@ class LeadCMSDataService {
       } as ContentItem;
 
       this.mockData.remoteContent.push(newContent);
-      return newContent;
+      return this.remoteChanged("content", newContent.id, newContent);
     }
 
     try {
@@ -703,7 +762,7 @@ class LeadCMSDataService {
         }
       );
 
-      return response.data;
+      return this.remoteChanged("content", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       // Handle authentication errors (401)
@@ -739,6 +798,7 @@ class LeadCMSDataService {
    */
   async updateContent(id: number, content: Partial<ContentItem>): Promise<ContentItem> {
     this._initialize();
+    await this.beforeRemoteChange("content", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Updating content ID ${id}: ${content.title}`);
@@ -755,7 +815,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.remoteContent[existingIndex] = updatedContent;
-      return updatedContent;
+      return this.remoteChanged("content", updatedContent.id, updatedContent);
     }
 
     try {
@@ -768,7 +828,7 @@ class LeadCMSDataService {
         }
       );
 
-      return response.data;
+      return this.remoteChanged("content", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       // Handle authentication errors (401)
@@ -804,6 +864,7 @@ class LeadCMSDataService {
    */
   async deleteContent(id: number): Promise<void> {
     this._initialize();
+    await this.beforeRemoteChange("content", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Deleting content with ID: ${id}`);
@@ -813,6 +874,7 @@ class LeadCMSDataService {
       if (index !== -1) {
         this.mockData.remoteContent.splice(index, 1);
       }
+      this.remoteChanged("content", id, null);
       return;
     }
 
@@ -826,6 +888,7 @@ class LeadCMSDataService {
       await axios.delete(`${this.baseURL}/api/content/${id}`, {
         headers: this.getApiHeaders(),
       });
+      this.remoteChanged("content", id, null);
 
       logger.verbose("[API] Content deleted successfully");
     } catch (_error: unknown) {
@@ -1187,7 +1250,7 @@ class LeadCMSDataService {
       } as EmailTemplateItem;
 
       this.mockData.emailTemplates.push(newTemplate);
-      return newTemplate;
+      return this.remoteChanged("emailTemplates", newTemplate.id, newTemplate);
     }
 
     if (!this.apiKey) {
@@ -1204,7 +1267,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("emailTemplates", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1232,6 +1295,7 @@ class LeadCMSDataService {
     template: Partial<EmailTemplateItem>
   ): Promise<EmailTemplateItem> {
     this._initialize();
+    await this.beforeRemoteChange("emailTemplates", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Updating email template ID ${id}: ${template.name}`);
@@ -1248,7 +1312,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.emailTemplates[existingIndex] = updatedTemplate;
-      return updatedTemplate;
+      return this.remoteChanged("emailTemplates", updatedTemplate.id, updatedTemplate);
     }
 
     if (!this.apiKey) {
@@ -1265,7 +1329,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("emailTemplates", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1290,6 +1354,7 @@ class LeadCMSDataService {
    */
   async deleteEmailTemplate(id: number): Promise<void> {
     this._initialize();
+    await this.beforeRemoteChange("emailTemplates", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Deleting email template with ID: ${id}`);
@@ -1298,6 +1363,7 @@ class LeadCMSDataService {
       if (index !== -1) {
         this.mockData.emailTemplates.splice(index, 1);
       }
+      this.remoteChanged("emailTemplates", id, null);
       return;
     }
 
@@ -1317,6 +1383,7 @@ class LeadCMSDataService {
       await axios.delete(`${this.baseURL}/api/email-templates/${id}`, {
         headers: this.getApiHeaders(),
       });
+      this.remoteChanged("emailTemplates", id, null);
 
       logger.verbose("[API] Email template deleted successfully");
     } catch (_error: unknown) {
@@ -1398,7 +1465,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.segments.push(newSegment);
-      return newSegment;
+      return this.remoteChanged("segments", newSegment.id, newSegment);
     }
 
     if (!this.apiKey) {
@@ -1415,7 +1482,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("segments", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1440,6 +1507,7 @@ class LeadCMSDataService {
    */
   async updateSegment(id: number, segment: SegmentUpdateDto): Promise<SegmentDetailsDto> {
     this._initialize();
+    await this.beforeRemoteChange("segments", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Updating segment ID ${id}: ${segment.name}`);
@@ -1457,7 +1525,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.segments[existingIndex] = updatedSegment;
-      return updatedSegment;
+      return this.remoteChanged("segments", updatedSegment.id, updatedSegment);
     }
 
     if (!this.apiKey) {
@@ -1474,7 +1542,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("segments", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1499,6 +1567,7 @@ class LeadCMSDataService {
    */
   async deleteSegment(id: number): Promise<void> {
     this._initialize();
+    await this.beforeRemoteChange("segments", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Deleting segment with ID: ${id}`);
@@ -1506,6 +1575,7 @@ class LeadCMSDataService {
       if (index !== -1) {
         this.mockData.segments.splice(index, 1);
       }
+      this.remoteChanged("segments", id, null);
       return;
     }
 
@@ -1525,6 +1595,7 @@ class LeadCMSDataService {
       await axios.delete(`${this.baseURL}/api/segments/${id}`, {
         headers: this.getApiHeaders(),
       });
+      this.remoteChanged("segments", id, null);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1604,7 +1675,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.sequences.push(newSequence);
-      return newSequence;
+      return this.remoteChanged("sequences", newSequence.id, newSequence);
     }
 
     if (!this.apiKey) {
@@ -1621,7 +1692,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("sequences", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1646,6 +1717,7 @@ class LeadCMSDataService {
    */
   async updateSequence(id: number, sequence: SequenceCreateDto): Promise<SequenceDetailsDto> {
     this._initialize();
+    await this.beforeRemoteChange("sequences", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Updating sequence ID ${id}: ${sequence.name}`);
@@ -1670,7 +1742,7 @@ class LeadCMSDataService {
       };
 
       this.mockData.sequences[existingIndex] = updatedSequence;
-      return updatedSequence;
+      return this.remoteChanged("sequences", updatedSequence.id, updatedSequence);
     }
 
     if (!this.apiKey) {
@@ -1687,7 +1759,7 @@ class LeadCMSDataService {
         { headers: this.getApiHeaders() }
       );
 
-      return response.data;
+      return this.remoteChanged("sequences", response.data.id, response.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1712,6 +1784,7 @@ class LeadCMSDataService {
    */
   async deleteSequence(id: number): Promise<void> {
     this._initialize();
+    await this.beforeRemoteChange("sequences", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Deleting sequence with ID: ${id}`);
@@ -1719,6 +1792,7 @@ class LeadCMSDataService {
       if (index !== -1) {
         this.mockData.sequences.splice(index, 1);
       }
+      this.remoteChanged("sequences", id, null);
       return;
     }
 
@@ -1738,6 +1812,7 @@ class LeadCMSDataService {
       await axios.delete(`${this.baseURL}/api/sequences/${id}`, {
         headers: this.getApiHeaders(),
       });
+      this.remoteChanged("sequences", id, null);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1910,7 +1985,7 @@ class LeadCMSDataService {
       };
       this.mockData.redirects = this.mockData.redirects || [];
       this.mockData.redirects.push(redirect);
-      return redirect;
+      return this.remoteChanged("redirects", redirect.id, redirect);
     }
 
     if (!this.apiKey) {
@@ -1930,7 +2005,7 @@ class LeadCMSDataService {
         dto,
         { headers: this.getApiHeaders() }
       );
-      return res.data;
+      return this.remoteChanged("redirects", res.data.id, res.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1947,13 +2022,14 @@ class LeadCMSDataService {
    */
   async updateRedirect(id: number, dto: RedirectUpdateDto): Promise<RedirectDetailsDto> {
     this._initialize();
+    await this.beforeRemoteChange("redirects", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Updating redirect with ID: ${id}`);
       const existing = this.mockData.redirects?.find((r) => r.id === id);
       if (!existing) throw new Error(`Redirect ${id} not found`);
       Object.assign(existing, dto, { updatedAt: new Date().toISOString() });
-      return existing;
+      return this.remoteChanged("redirects", existing.id, existing);
     }
 
     if (!this.apiKey) {
@@ -1973,7 +2049,7 @@ class LeadCMSDataService {
         dto,
         { headers: this.getApiHeaders() }
       );
-      return res.data;
+      return this.remoteChanged("redirects", res.data.id, res.data);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -1990,6 +2066,7 @@ class LeadCMSDataService {
    */
   async deleteRedirect(id: number): Promise<void> {
     this._initialize();
+    await this.beforeRemoteChange("redirects", id);
 
     if (this.useMock && this.mockData) {
       logger.verbose(`[MOCK] Deleting redirect with ID: ${id}`);
@@ -1997,6 +2074,7 @@ class LeadCMSDataService {
       if (index !== -1) {
         this.mockData.redirects!.splice(index, 1);
       }
+      this.remoteChanged("redirects", id, null);
       return;
     }
 
@@ -2015,6 +2093,7 @@ class LeadCMSDataService {
       await axios.delete(`${this.baseURL}/api/redirects/${id}`, {
         headers: this.getApiHeaders(),
       });
+      this.remoteChanged("redirects", id, null);
     } catch (_error: unknown) {
       const error = _error as ApiAxiosError;
       if (error.response?.status === 401) {
@@ -2300,6 +2379,77 @@ class LeadCMSDataService {
     }
   }
 
+  // ── Locks ─────────────────────────────────────────────────────────────
+
+  /**
+   * Take a server-side lock via /api/locks/{key}.
+   * Returns "held" if another client holds it (409) and "unsupported" on
+   * servers without the endpoint (404).
+   */
+  async acquireLock(key: string): Promise<RemoteLockResult> {
+    this._initialize();
+
+    if (this.useMock) {
+      logger.verbose(`[MOCK] Acquiring lock ${key}`);
+      return "acquired";
+    }
+
+    if (!this.baseURL) {
+      throw new Error("LeadCMS URL is not configured.");
+    }
+
+    try {
+      logger.verbose(`[API] Acquiring lock ${key}`);
+      await axios.get(`${this.baseURL}/api/locks/${encodeURIComponent(key)}`, {
+        headers: this.getApiHeaders(),
+      });
+      return "acquired";
+    } catch (_error: unknown) {
+      const error = _error as ApiAxiosError;
+      if (error.response?.status === 409) {
+        return "held";
+      }
+      if (error.response?.status === 404) {
+        return "unsupported";
+      }
+      if (error.response?.status === 401) {
+        throw formatAuthenticationError(error);
+      }
+      console.error(`[API] Failed to acquire lock ${key}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Release a server-side lock taken with acquireLock()
+   */
+  async releaseLock(key: string): Promise<void> {
+    this._initialize();
+
+    if (this.useMock) {
+      logger.verbose(`[MOCK] Releasing lock ${key}`);
+      return;
+    }
+
+    if (!this.baseURL) {
+      throw new Error("LeadCMS URL is not configured.");
+    }
+
+    try {
+      logger.verbose(`[API] Releasing lock ${key}`);
+      await axios.get(`${this.baseURL}/api/locks/${encodeURIComponent(key)}/release`, {
+        headers: this.getApiHeaders(),
+      });
+    } catch (_error: unknown) {
+      const error = _error as ApiAxiosError;
+      if (error.response?.status === 401) {
+        throw formatAuthenticationError(error);
+      }
+      console.error(`[API] Failed to release lock ${key}:`, error.message);
+      throw error;
+    }
+  }
+
   /**
    * Fetch the authenticated user's identity from /api/users/me.
    * Returns user details if the API key is valid.
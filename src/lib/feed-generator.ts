@@ -0,0 +1,373 @@
+/**
+ * Feed Generator
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents built from local content
+ */
+
+import {
+  getAllContentForLocale,
+  getLeadCMSConfig,
+  isContentDraft,
+  type CMSContent,
+} from "./cms.js";
+import { sortContent } from "./content-query.js";
+import { getContentPath, getSiteUrlForLanguage, toAbsoluteUrl } from "./content-urls.js";
+
+/**
+ * A single feed entry with absolute URLs
+ */
+export interface FeedItem {
+  /** Stable entry id (the item URL) */
+  id: string;
+  url: string;
+  title: string;
+  summary?: string;
+  publishedAt: Date;
+  /** Last modification date (falls back to publishedAt) */
+  updatedAt: Date;
+  author?: string;
+  /** Category followed by tags */
+  categories: string[];
+  /** Cover image, published as enclosure / image */
+  image?: { url: string; type: string };
+}
+
+/**
+ * Format-independent feed for one locale and content type
+ */
+export interface Feed {
+  title: string;
+  description?: string;
+  language: string;
+  type: string;
+  /** Site home page URL for the language */
+  homePageUrl: string;
+  /** Public URLs of the generated feed files */
+  feedUrls: { rss: string; atom: string; json: string };
+  /** Most recent item modification date */
+  updatedAt: Date;
+  /** Items, newest first */
+  items: FeedItem[];
+}
+
+/**
+ * Options for createContentFeed(). Unset values fall back to the `feeds`,
+ * `siteUrl`, `languageDomains` and `redirects.pathPattern` config settings.
+ */
+export interface ContentFeedOptions {
+  /** Content type of the feed */
+  type: string;
+  /** Locale code (uses default language if not provided) */
+  locale?: string;
+  /** Base URL used when the language has no languageDomains entry */
+  siteUrl?: string;
+  /** Path template for item links. Tokens: {language}, {slug}, {domain} */
+  pathPattern?: string;
+  /** URL path the feed files are served from. Default: "/feeds" */
+  publicPath?: string;
+  /** Maximum number of items (0 for no limit). Default: 20 */
+  limit?: number;
+  /** Title template. Tokens: {type}, {language} */
+  title?: string;
+  /** Description template. Tokens: {type}, {language} */
+  description?: string;
+}
+
+/** File names written for each feed */
+export const FEED_FILE_NAMES = { rss: "rss.xml", atom: "atom.xml", json: "feed.json" } as const;
+
+const DEFAULT_FEED_LIMIT = 20;
+const DEFAULT_FEED_TITLE = "{type} ({language})";
+const DEFAULT_FEED_PUBLIC_PATH = "/feeds";
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+function fillTemplate(template: string, type: string, language: string): string {
+  return template.replace(/\{type\}/g, type).replace(/\{language\}/g, language);
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+function guessImageType(url: string): string {
+  const ext = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_TYPES[ext] ?? "application/octet-stream";
+}
+
+function getItemCategories(content: CMSContent): string[] {
+  const values = [content.category, ...(Array.isArray(content.tags) ? content.tags : [])];
+  const categories: string[] = [];
+  for (const value of values) {
+    if (typeof value === "string" && value.trim() && !categories.includes(value.trim())) {
+      categories.push(value.trim());
+    }
+  }
+  return categories;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Convert a content item to a feed entry with absolute URLs
+ * @param content - Published content item
+ * @param language - Language of the item
+ * @param siteUrl - Base URL for the language
+ * @param pathPattern - Path template for the item link (default: the getContentPath() route)
+ * @param languageDomains - Optional language → domain map
+ */
+export function contentToFeedItem(
+  content: CMSContent,
+  language: string,
+  siteUrl: string,
+  pathPattern?: string,
+  languageDomains?: Record<string, string>
+): FeedItem {
+  const url = toAbsoluteUrl(
+    getContentPath(
+      language,
+      content.slug,
+      getLeadCMSConfig().defaultLanguage,
+      languageDomains,
+      pathPattern
+    ),
+    siteUrl
+  );
+  const publishedAt = toDate(content.publishedAt) ?? new Date(0);
+
+  const item: FeedItem = {
+    id: url,
+    url,
+    title: content.title || content.slug,
+    publishedAt,
+    updatedAt: toDate(content.updatedAt) ?? publishedAt,
+    categories: getItemCategories(content),
+  };
+
+  if (content.description) {
+    item.summary = content.description;
+  }
+  if (typeof content.author === "string" && content.author.trim()) {
+    item.author = content.author.trim();
+  }
+  if (content.coverImageUrl) {
+    const imageUrl = toAbsoluteUrl(content.coverImageUrl, siteUrl);
+    item.image = { url: imageUrl, type: guessImageType(imageUrl) };
+  }
+
+  return item;
+}
+
+/**
+ * Build a feed of published content for one locale and content type
+ *
+ * Drafts (no publishedAt or publishedAt in the future) are always excluded,
+ * also in preview mode. Items are sorted newest first.
+ *
+ * @param options - Feed options (type, locale, siteUrl, pathPattern, limit, title, ...)
+ * @returns Format-independent feed, ready for buildRssFeed/buildAtomFeed/buildJsonFeed
+ * @throws Error if no base URL is configured for the locale
+ *
+ * @example
+ * const feed = createContentFeed({ type: 'blog-article', locale: 'en' });
+ * fs.writeFileSync('public/rss.xml', buildRssFeed(feed));
+ */
+export function createContentFeed(options: ContentFeedOptions): Feed {
+  const config = getLeadCMSConfig();
+  const feedsConfig = config.feeds ?? {};
+  const { type } = options;
+  const language = options.locale || config.defaultLanguage;
+
+  const siteUrl = getSiteUrlForLanguage(
+    language,
+    config.languageDomains,
+    options.siteUrl ?? config.siteUrl
+  );
+  if (!siteUrl) {
+    throw new Error(
+      `No site URL configured for language "${language}". Set "siteUrl" or a "languageDomains" entry in your LeadCMS config.`
+    );
+  }
+
+  const pathPattern =
+    options.pathPattern ?? feedsConfig.pathPattern ?? config.redirects?.pathPattern;
+  const publicPath = (
+    options.publicPath ??
+    feedsConfig.publicPath ??
+    DEFAULT_FEED_PUBLIC_PATH
+  ).replace(/\/+$/, "");
+  const limit = options.limit ?? feedsConfig.limit ?? DEFAULT_FEED_LIMIT;
+
+  const published = getAllContentForLocale(language, [type]).filter(
+    (content) => !isContentDraft(content)
+  );
+  let sorted = sortContent(published, { field: "publishedAt", order: "desc" });
+  if (limit > 0) {
+    sorted = sorted.slice(0, limit);
+  }
+
+  const items = sorted.map((content) =>
+    contentToFeedItem(content, language, siteUrl, pathPattern, config.languageDomains)
+  );
+
+  const feedBase = toAbsoluteUrl(`${publicPath}/${language}/${type}`, siteUrl);
+  const updatedAt = items.reduce<Date | undefined>(
+    (latest, item) => (!latest || item.updatedAt > latest ? item.updatedAt : latest),
+    undefined
+  );
+
+  const description = options.description ?? feedsConfig.description;
+
+  return {
+    title: fillTemplate(options.title ?? feedsConfig.title ?? DEFAULT_FEED_TITLE, type, language),
+    description: description ? fillTemplate(description, type, language) : undefined,
+    language,
+    type,
+    homePageUrl: siteUrl,
+    feedUrls: {
+      rss: `${feedBase}/${FEED_FILE_NAMES.rss}`,
+      atom: `${feedBase}/${FEED_FILE_NAMES.atom}`,
+      json: `${feedBase}/${FEED_FILE_NAMES.json}`,
+    },
+    updatedAt: updatedAt ?? new Date(Date.now()),
+    items,
+  };
+}
+
+/**
+ * Render a feed as RSS 2.0 XML
+ */
+export function buildRssFeed(feed: Feed): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    `  <channel>`,
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description ?? feed.title)}</description>`,
+    `    <language>${escapeXml(feed.language)}</language>`,
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>`,
+  ];
+
+  for (const item of feed.items) {
+    lines.push(`    <item>`);
+    lines.push(`      <title>${escapeXml(item.title)}</title>`);
+    lines.push(`      <link>${escapeXml(item.url)}</link>`);
+    lines.push(`      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`);
+    lines.push(`      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`);
+    if (item.summary) {
+      lines.push(`      <description>${escapeXml(item.summary)}</description>`);
+    }
+    if (item.author) {
+      lines.push(`      <dc:creator>${escapeXml(item.author)}</dc:creator>`);
+    }
+    for (const category of item.categories) {
+      lines.push(`      <category>${escapeXml(category)}</category>`);
+    }
+    if (item.image) {
+      lines.push(
+        `      <enclosure url="${escapeXml(item.image.url)}" length="0" type="${item.image.type}"/>`
+      );
+    }
+    lines.push(`    </item>`);
+  }
+
+  lines.push(`  </channel>`, `</rss>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a feed as Atom 1.0 XML
+ */
+export function buildAtomFeed(feed: Feed): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.language)}">`,
+    `  <id>${escapeXml(feed.feedUrls.atom)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+  ];
+  if (feed.description) {
+    lines.push(`  <subtitle>${escapeXml(feed.description)}</subtitle>`);
+  }
+  lines.push(
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}"/>`
+  );
+
+  for (const item of feed.items) {
+    lines.push(`  <entry>`);
+    lines.push(`    <id>${escapeXml(item.id)}</id>`);
+    lines.push(`    <title>${escapeXml(item.title)}</title>`);
+    lines.push(`    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`);
+    lines.push(`    <published>${item.publishedAt.toISOString()}</published>`);
+    lines.push(`    <updated>${item.updatedAt.toISOString()}</updated>`);
+    if (item.summary) {
+      lines.push(`    <summary>${escapeXml(item.summary)}</summary>`);
+    }
+    if (item.author) {
+      lines.push(`    <author><name>${escapeXml(item.author)}</name></author>`);
+    }
+    for (const category of item.categories) {
+      lines.push(`    <category term="${escapeXml(category)}"/>`);
+    }
+    if (item.image) {
+      lines.push(
+        `    <link rel="enclosure" type="${item.image.type}" href="${escapeXml(item.image.url)}"/>`
+      );
+    }
+    lines.push(`  </entry>`);
+  }
+
+  lines.push(`</feed>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a feed as JSON Feed 1.1
+ */
+export function buildJsonFeed(feed: Feed): string {
+  const json = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    ...(feed.description ? { description: feed.description } : {}),
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.summary ? { summary: item.summary } : {}),
+      content_text: item.summary ?? item.title,
+      ...(item.image ? { image: item.image.url } : {}),
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString(),
+      ...(item.author ? { authors: [{ name: item.author }] } : {}),
+      ...(item.categories.length > 0 ? { tags: item.categories } : {}),
+    })),
+  };
+  return JSON.stringify(json, null, 2) + "\n";
+}
@@ -0,0 +1,403 @@
+/**
+ * Next.js Helpers
+ * App Router helpers for static params, metadata, draft mode, preview slugs
+ * and on-demand revalidation. Next.js is not imported: inputs and outputs
+ * are plain objects shaped like the Next.js APIs, and `revalidatePath` /
+ * `revalidateTag` are passed in by the application.
+ */
+
+import crypto from "crypto";
+import {
+  extractUserUidFromSlug,
+  getAllContentRoutes,
+  getLeadCMSConfig,
+  getLocaleFromPath,
+  type CMSContent,
+} from "./cms.js";
+import { isPreviewMode } from "./config.js";
+import { logger } from "./logger.js";
+import { getSeoHead, type SeoHeadOptions } from "./seo-head.js";
+
+/** Route params as passed to pages and generateStaticParams() */
+export type ContentRouteParams = Record<string, string | string[]>;
+
+/**
+ * Options for generateContentStaticParams() and resolveContentParams()
+ */
+export interface ContentParamsOptions {
+  /** Name of the catch-all slug segment, e.g. "slug" for `[...slug]`. Default: "slug" */
+  slugParam?: string;
+  /**
+   * Name of the locale segment, e.g. "locale" for `[locale]/[...slug]`.
+   * Without it, non-default locales are part of the slug (`/de/blog/post`).
+   */
+  localeParam?: string;
+}
+
+/**
+ * Options for generateContentStaticParams()
+ */
+export interface ContentStaticParamsOptions extends ContentParamsOptions {
+  /** Content types to include (default: all) */
+  contentTypes?: readonly string[];
+  /** Optional user UID for user-specific draft content */
+  userUid?: string | null;
+}
+
+/**
+ * Build generateStaticParams() results from getAllContentRoutes()
+ *
+ * Without `localeParam` the slug segments are the route path, so the default
+ * locale and locales with their own domain are unprefixed; routes sharing a
+ * path are returned once.
+ *
+ * @example
+ * // app/[...slug]/page.tsx
+ * export const generateStaticParams = () => generateContentStaticParams();
+ * // [{ slug: ['blog', 'hello'] }, { slug: ['de', 'blog', 'hallo'] }]
+ *
+ * // app/[locale]/[...slug]/page.tsx
+ * export const generateStaticParams = () => generateContentStaticParams({ localeParam: 'locale' });
+ * // [{ locale: 'en', slug: ['blog', 'hello'] }, { locale: 'de', slug: ['blog', 'hallo'] }]
+ */
+export function generateContentStaticParams(
+  options: ContentStaticParamsOptions = {}
+): ContentRouteParams[] {
+  const { slugParam = "slug", localeParam, contentTypes, userUid } = options;
+  const routes = getAllContentRoutes(contentTypes, userUid);
+
+  if (localeParam) {
+    return routes.map((route) => ({ [localeParam]: route.locale, [slugParam]: route.slugParts }));
+  }
+
+  const seen = new Set<string>();
+  const params: ContentRouteParams[] = [];
+  for (const route of routes) {
+    if (seen.has(route.path)) continue;
+    seen.add(route.path);
+    params.push({ [slugParam]: route.path.split("/").filter(Boolean) });
+  }
+  return params;
+}
+
+/**
+ * Content lookup for a request, as returned by resolveContentParams()
+ */
+export interface ContentRequestParams {
+  locale: string;
+  /** Slug to look up, including a preview suffix when present */
+  slug: string;
+  /** User UID from a preview slug (`{slug}-{userUid}`), or null */
+  userUid: string | null;
+  /** Whether the slug is a LeadCMS preview slug */
+  isPreview: boolean;
+}
+
+/**
+ * Options for resolveContentParams()
+ */
+export interface ResolveContentParamsOptions extends ContentParamsOptions {
+  /** Request host, for sites with `languageDomains` */
+  host?: string;
+  /** Slug used when the slug segment is empty (optional catch-all). Default: "home" */
+  defaultSlug?: string;
+}
+
+/**
+ * Turn page params into the locale, slug and preview user of the content to
+ * load. Preview slugs (`{slug}-{userUid}`) keep their suffix so that
+ * getCMSContentBySlugForLocale() serves the user's draft.
+ *
+ * @example
+ * const { locale, slug } = resolveContentParams(await params);
+ * const content = getCMSContentBySlugForLocale(slug, locale);
+ */
+export function resolveContentParams(
+  params: Partial<ContentRouteParams>,
+  options: ResolveContentParamsOptions = {}
+): ContentRequestParams {
+  const { slugParam = "slug", localeParam, host, defaultSlug = "home" } = options;
+  const config = getLeadCMSConfig();
+
+  const value = params[slugParam];
+  let segments = (Array.isArray(value) ? value : value ? value.split("/") : []).filter(Boolean);
+
+  let locale: string;
+  const localeValue = localeParam ? params[localeParam] : undefined;
+  if (typeof localeValue === "string" && localeValue) {
+    locale = localeValue;
+  } else {
+    locale = getLocaleFromPath(`/${segments.join("/")}`, host);
+    if (segments[0] === locale && locale !== config.defaultLanguage) {
+      segments = segments.slice(1);
+    }
+  }
+
+  const slug = segments.length > 0 ? segments.join("/") : defaultSlug;
+  const userUid = extractUserUidFromSlug(slug);
+  return { locale, slug, userUid, isPreview: userUid !== null };
+}
+
+/**
+ * Whether draft content should be shown: Next.js draft mode is enabled, or
+ * the SDK is in preview mode (see isPreviewMode())
+ *
+ * @param draftMode - Result of Next.js `draftMode()`
+ *
+ * @example
+ * const preview = isDraftModeEnabled(await draftMode());
+ */
+export function isDraftModeEnabled(draftMode?: { isEnabled: boolean } | null): boolean {
+  return Boolean(draftMode?.isEnabled) || isPreviewMode();
+}
+
+/**
+ * Metadata object in the shape of the Next.js `Metadata` type
+ */
+export interface ContentMetadata {
+  title: string;
+  description?: string;
+  keywords?: string[];
+  robots: string;
+  alternates: {
+    canonical: string;
+    /** Translation URLs by locale, plus "x-default" */
+    languages: Record<string, string>;
+  };
+  openGraph: {
+    type: "article" | "website";
+    title: string;
+    description?: string;
+    url: string;
+    locale: string;
+    siteName?: string;
+    images?: { url: string; alt?: string }[];
+    publishedTime?: string;
+    modifiedTime?: string;
+    authors?: string[];
+    section?: string;
+    tags?: string[];
+  };
+  twitter: {
+    card: "summary" | "summary_large_image";
+    title: string;
+    description?: string;
+    images?: string[];
+    site?: string;
+  };
+}
+
+/**
+ * Build generateMetadata() results from getSeoHead(): `seo` frontmatter
+ * overrides, content defaults, canonical URL and hreflang alternates
+ *
+ * @param content - Content item
+ * @param options - Site URL, locale, site name and schema type overrides
+ *
+ * @example
+ * export async function generateMetadata({ params }) {
+ *   const { locale, slug } = resolveContentParams(await params);
+ *   const content = getCMSContentBySlugForLocale(slug, locale);
+ *   return content ? getContentMetadata(content, { siteName: 'Example' }) : {};
+ * }
+ */
+export function getContentMetadata(
+  content: CMSContent,
+  options: SeoHeadOptions = {}
+): ContentMetadata {
+  const head = getSeoHead(content, options);
+
+  const values = new Map<string, string[]>();
+  for (const tag of head.tags) {
+    if (tag.tag !== "meta") continue;
+    const key = "name" in tag ? tag.name : tag.property;
+    values.set(key, [...(values.get(key) ?? []), tag.content]);
+  }
+  const get = (key: string) => values.get(key)?.[0];
+  const list = (key: string) => values.get(key);
+
+  const image = get("og:image");
+  const keywords = get("keywords");
+  const author = get("article:author");
+
+  return {
+    title: head.title,
+    ...(head.description ? { description: head.description } : {}),
+    ...(keywords ? { keywords: keywords.split(", ") } : {}),
+    robots: head.robots,
+    alternates: { canonical: head.canonical, languages: head.alternates },
+    openGraph: {
+      type: get("og:type") === "article" ? "article" : "website",
+      title: get("og:title") ?? head.title,
+      ...(get("og:description") ? { description: get("og:description") } : {}),
+      url: head.canonical,
+      locale: get("og:locale")!,
+      ...(options.siteName ? { siteName: options.siteName } : {}),
+      ...(image
+        ? { images: [{ url: image, ...(get("og:image:alt") ? { alt: get("og:image:alt") } : {}) }] }
+        : {}),
+      ...(get("article:published_time") ? { publishedTime: get("article:published_time") } : {}),
+      ...(get("article:modified_time") ? { modifiedTime: get("article:modified_time") } : {}),
+      ...(author ? { authors: [author] } : {}),
+      ...(get("article:section") ? { section: get("article:section") } : {}),
+      ...(list("article:tag") ? { tags: list("article:tag") } : {}),
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title: get("twitter:title") ?? head.title,
+      ...(get("twitter:description") ? { description: get("twitter:description") } : {}),
+      ...(image ? { images: [image] } : {}),
+      ...(options.twitterSite ? { site: options.twitterSite } : {}),
+    },
+  };
+}
+
+// ── On-demand revalidation ─────────────────────────────────────────────
+
+/** Header carrying the revalidation secret (alternative to `Authorization: Bearer`) */
+export const REVALIDATE_SECRET_HEADER = "x-leadcms-revalidate-secret";
+
+/**
+ * Request body of a revalidation call. Without paths and tags the whole
+ * site is revalidated.
+ */
+export interface RevalidateRequestBody {
+  paths?: string[];
+  tags?: string[];
+}
+
+/**
+ * The parts of a Next.js route handler request used by the revalidate handler
+ */
+export interface RevalidateRequest {
+  method?: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+}
+
+/**
+ * Options for createRevalidateHandler()
+ */
+export interface RevalidateHandlerOptions {
+  /** `revalidatePath` from "next/cache" */
+  revalidatePath: (path: string, type?: "layout" | "page") => void;
+  /** `revalidateTag` from "next/cache" (required to revalidate tags) */
+  revalidateTag?: (tag: string) => void;
+  /** Shared secret. Default: the LEADCMS_REVALIDATE_SECRET environment variable */
+  secret?: string;
+}
+
+function secretsMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+/**
+ * Create a POST route handler that revalidates pages on demand, e.g. when
+ * `leadcms watch` has pulled new content (set LEADCMS_REVALIDATE_URL and
+ * LEADCMS_REVALIDATE_SECRET for the watcher).
+ *
+ * Requests must carry the secret as `Authorization: Bearer <secret>` or in
+ * the `x-leadcms-revalidate-secret` header. The body may list `paths` and
+ * `tags` to revalidate; without either the whole site is revalidated.
+ *
+ * Responses: 200 `{ revalidated: true, paths, tags }`, 401 for a missing or
+ * wrong secret, 405 for methods other than POST, 500 when no secret is configured.
+ *
+ * @example
+ * // app/api/revalidate/route.ts
+ * import { revalidatePath, revalidateTag } from 'next/cache';
+ * export const POST = createRevalidateHandler({ revalidatePath, revalidateTag });
+ */
+export function createRevalidateHandler(
+  options: RevalidateHandlerOptions
+): (request: RevalidateRequest) => Promise<Response> {
+  return async (request) => {
+    if (request.method && request.method.toUpperCase() !== "POST") {
+      return Response.json({ error: "Method not allowed" }, { status: 405 });
+    }
+
+    const secret = options.secret ?? process.env.LEADCMS_REVALIDATE_SECRET;
+    if (!secret) {
+      return Response.json({ error: "Revalidation secret is not configured" }, { status: 500 });
+    }
+
+    const authorization = request.headers.get("authorization") ?? "";
+    const provided = authorization.startsWith("Bearer ")
+      ? authorization.slice("Bearer ".length)
+      : (request.headers.get(REVALIDATE_SECRET_HEADER) ?? "");
+    if (!secretsMatch(provided, secret)) {
+      return Response.json({ error: "Invalid revalidation secret" }, { status: 401 });
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      const parsed = await request.json();
+      if (parsed && typeof parsed === "object") {
+        body = parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Empty or non-JSON body: revalidate everything
+    }
+
+    let paths = getStringList(body.paths);
+    const tags = options.revalidateTag ? getStringList(body.tags) : [];
+    if (paths.length === 0 && tags.length === 0) {
+      paths = ["/"];
+      options.revalidatePath("/", "layout");
+    } else {
+      paths.forEach((path) => options.revalidatePath(path));
+    }
+    tags.forEach((tag) => options.revalidateTag!(tag));
+
+    logger.verbose(
+      `[next] Revalidated paths: ${paths.join(", ") || "-"}; tags: ${tags.join(", ") || "-"}`
+    );
+    return Response.json({ revalidated: true, paths, tags });
+  };
+}
+
+/**
+ * Options for requestRevalidation()
+ */
+export interface RequestRevalidationOptions extends RevalidateRequestBody {
+  /** URL of the revalidate route handler */
+  url: string;
+  /** Shared secret, sent as a Bearer token */
+  secret?: string;
+}
+
+/**
+ * Call a revalidate route handler created with createRevalidateHandler()
+ *
+ * @returns true when the handler accepted the request
+ */
+export async function requestRevalidation(options: RequestRevalidationOptions): Promise<boolean> {
+  const { url, secret, paths, tags } = options;
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+      },
+      body: JSON.stringify({ paths, tags }),
+    });
+    if (!response.ok) {
+      logger.verbose(
+        `[next] Revalidation request failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response.ok;
+  } catch (error) {
+    logger.verbose(`[next] Revalidation request failed: ${(error as Error).message}`);
+    return false;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Result of a pull function (pullLeadCMSContent, pullLeadCMSMedia, pullSettings, ...).
+ *
+ * Pull functions return what they changed locally, so `--json` reports of pull
+ * commands can report the pulled changes and the files this pull left with
+ * merge conflict markers.
+ */
+export interface PullResult {
+  /** Local items written or deleted */
+  changes: number;
+  /**
+   * Files written with merge conflict markers by the three-way merge, relative
+   * to the entity directory (e.g. contentDir), using forward slashes
+   */
+  conflictedFiles: string[];
+}
+
+/** Result of a pull that changed nothing */
+export function nothingPulled(): PullResult {
+  return { changes: 0, conflictedFiles: [] };
+}
@@ -0,0 +1,14 @@
+/**
+ * Result of a push function (pushLeadCMSContent, pushComments, pushSettings, ...).
+ *
+ * Push functions report a failed item (an API call that was rejected) and
+ * continue with the remaining items. They return how many items were pushed
+ * and how many failed, so `--json` reports of push commands can tell a partial
+ * push from a clean one.
+ */
+export interface PushResult {
+  /** Items the remote accepted */
+  successful: number;
+  /** Items the remote rejected */
+  failed: number;
+}
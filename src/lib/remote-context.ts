@@ -173,6 +173,11 @@ export function syncTokenPath(
   return path.join(ctx.stateDir, `${entityType}-sync-token`);
 }
 
+/** Absolute path to the directory holding the state directories of all remotes. */
+export function remotesBaseDir(): string {
+  return path.resolve(REMOTES_BASE_DIR);
+}
+
 /** Absolute path to the metadata.json for a given remote. */
 export function metadataMapPath(ctx: RemoteContext): string {
   return path.join(ctx.stateDir, "metadata.json");
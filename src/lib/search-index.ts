@@ -0,0 +1,66 @@
+/**
+ * Search Index Builder
+ * Builds per-locale search indexes from local content files
+ */
+
+import { getAllContentForLocale, getLeadCMSConfig, isContentDraft } from "./cms.js";
+import { getContentPath } from "./content-urls.js";
+import { createSearchIndex, stripMarkup, type SearchIndex } from "./search.js";
+
+/**
+ * Options for buildSearchIndex(). Unset values fall back to the `search`
+ * and `redirects.pathPattern` config settings.
+ */
+export interface BuildSearchIndexOptions {
+  /** Content types to index (default: all) */
+  types?: readonly string[];
+  /** Path template for result links. Tokens: {language}, {slug}, {domain} */
+  pathPattern?: string;
+}
+
+/**
+ * Build the search index of a locale from published local content
+ *
+ * Indexes title, description, tags and the MDX body with markup stripped.
+ * Drafts are excluded. JSON content is indexed by its text fields only.
+ *
+ * @param locale - Locale code (optional, uses default language if not provided)
+ * @param options - Content types and path pattern
+ * @returns Serializable index for searchContent()
+ *
+ * @example
+ * fs.writeFileSync('public/search/en.json', JSON.stringify(buildSearchIndex('en')));
+ */
+export function buildSearchIndex(
+  locale?: string,
+  options: BuildSearchIndexOptions = {}
+): SearchIndex {
+  const config = getLeadCMSConfig();
+  const language = locale || config.defaultLanguage;
+  const pathPattern =
+    options.pathPattern ?? config.search?.pathPattern ?? config.redirects?.pathPattern;
+  const types = options.types ?? config.search?.types;
+
+  const documents = getAllContentForLocale(language, types)
+    .filter((content) => !isContentDraft(content))
+    .sort((a, b) => a.slug.localeCompare(b.slug))
+    .map((content) => ({
+      slug: content.slug,
+      type: content.type,
+      title: content.title || content.slug,
+      description: content.description,
+      path: getContentPath(
+        language,
+        content.slug,
+        config.defaultLanguage,
+        config.languageDomains,
+        pathPattern
+      ),
+      tags: Array.isArray(content.tags)
+        ? content.tags.filter((tag): tag is string => typeof tag === "string")
+        : undefined,
+      body: typeof content.body === "string" ? stripMarkup(content.body) : undefined,
+    }));
+
+  return createSearchIndex(documents, language);
+}
@@ -0,0 +1,252 @@
+/**
+ * Search
+ * Compact full-text search index format and the runtime search helper.
+ *
+ * This module has no Node.js dependencies so it can run in the browser
+ * against an index generated at build time (see `leadcms generate-search-index`).
+ */
+
+/**
+ * Document metadata stored in the index and returned with search results
+ */
+export interface SearchDocument {
+  slug: string;
+  type: string;
+  title: string;
+  description?: string;
+  /** Page path (or absolute URL) built from the configured path pattern */
+  path?: string;
+}
+
+/**
+ * Text fields of a document to be indexed
+ */
+export interface SearchSourceDocument extends SearchDocument {
+  tags?: readonly string[];
+  /** Plain text body (markup already stripped) */
+  body?: string;
+}
+
+/**
+ * Compact per-locale inverted index.
+ *
+ * `terms` maps each token to a flat list of `[documentIndex, weight, ...]`
+ * pairs, where weight is the field-weighted term frequency.
+ */
+export interface SearchIndex {
+  version: 1;
+  locale: string;
+  documents: SearchDocument[];
+  terms: Record<string, number[]>;
+}
+
+/**
+ * A search hit
+ */
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
+/**
+ * Options for searchContent()
+ */
+export interface SearchOptions {
+  /** Maximum number of results. Default: 10 */
+  limit?: number;
+  /** Index to search instead of the one registered with loadSearchIndex() */
+  index?: SearchIndex;
+  /** Content types to include */
+  types?: readonly string[];
+}
+
+/** Field weights applied to term frequencies */
+export const SEARCH_FIELD_WEIGHTS = { title: 4, tags: 3, description: 2, body: 1 } as const;
+
+/** Score factor for prefix matches (e.g. "conf" → "configuration") */
+const PREFIX_MATCH_FACTOR = 0.5;
+const MIN_TOKEN_LENGTH = 2;
+
+const registeredIndexes = new Map<string, SearchIndex>();
+
+/**
+ * Remove MDX/Markdown/HTML markup and return plain text
+ *
+ * Drops ESM import/export lines, comments, code fence markers, tags and
+ * link targets while keeping the visible text (link text, image alt text,
+ * code content).
+ */
+export function stripMarkup(source: string): string {
+  return (
+    source
+      // MDX ESM statements
+      .replace(/^\s*(import|export)\s.*$/gm, " ")
+      // MDX and HTML comments
+      .replace(/\{\/\*[\s\S]*?\*\/\}/g, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      // Code fence markers (keep code content)
+      .replace(/^\s*(```|~~~).*$/gm, " ")
+      // Images and links: keep alt / link text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/^\s*\[[^\]]+\]:\s*\S+.*$/gm, " ")
+      // JSX / HTML tags
+      .replace(/<\/?[A-Za-z][^>]*>/g, " ")
+      // HTML entities
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      // Markdown syntax characters
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+      .replace(/[`*_~|{}]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * Split text into lowercase search tokens with diacritics removed
+ * @example
+ * tokenizeSearchText('Café au Lait!') // ['cafe', 'au', 'lait']
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const tokens = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  return tokens ? tokens.filter((token) => token.length >= MIN_TOKEN_LENGTH) : [];
+}
+
+/**
+ * Build a search index from documents
+ * @param documents - Documents with plain text fields
+ * @param locale - Locale of the documents
+ */
+export function createSearchIndex(
+  documents: readonly SearchSourceDocument[],
+  locale: string
+): SearchIndex {
+  // No prototype, so tokens like "constructor" or "__proto__" are plain keys
+  const terms: Record<string, number[]> = Object.create(null);
+
+  documents.forEach((doc, docIndex) => {
+    const weights = new Map<string, number>();
+    const fields: [string | undefined, number][] = [
+      [doc.title, SEARCH_FIELD_WEIGHTS.title],
+      [doc.tags?.join(" "), SEARCH_FIELD_WEIGHTS.tags],
+      [doc.description, SEARCH_FIELD_WEIGHTS.description],
+      [doc.body, SEARCH_FIELD_WEIGHTS.body],
+    ];
+
+    for (const [text, weight] of fields) {
+      if (!text) continue;
+      for (const token of tokenizeSearchText(text)) {
+        weights.set(token, (weights.get(token) ?? 0) + weight);
+      }
+    }
+
+    for (const [token, weight] of weights) {
+      (terms[token] ??= []).push(docIndex, weight);
+    }
+  });
+
+  return {
+    version: 1,
+    locale,
+    documents: documents.map(({ slug, type, title, description, path }) => ({
+      slug,
+      type,
+      title,
+      ...(description ? { description } : {}),
+      ...(path ? { path } : {}),
+    })),
+    terms,
+  };
+}
+
+/**
+ * Register a search index for searchContent(), e.g. after fetching it in the browser
+ *
+ * @example
+ * const index = await fetch('/search/en.json').then((r) => r.json());
+ * loadSearchIndex(index);
+ * searchContent('setup guide', 'en');
+ */
+export function loadSearchIndex(index: SearchIndex): void {
+  registeredIndexes.set(index.locale, index);
+}
+
+/**
+ * Search content in a locale's index
+ *
+ * Every query token must match (exactly, or as a prefix of an indexed term).
+ * Results are ranked by field-weighted term frequency times inverse
+ * document frequency.
+ *
+ * @param query - Free text query
+ * @param locale - Locale of the registered index to search
+ * @param options - Result limit, type filter or an explicit index
+ * @returns Matching documents, best match first (empty if no index is available)
+ */
+export function searchContent(
+  query: string,
+  locale: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const index = options.index ?? registeredIndexes.get(locale);
+  const queryTokens = [...new Set(tokenizeSearchText(query))];
+  if (!index || queryTokens.length === 0) {
+    return [];
+  }
+
+  const documentCount = index.documents.length;
+  const termKeys = Object.keys(index.terms);
+  let scores: Map<number, number> | null = null;
+
+  for (const token of queryTokens) {
+    const tokenScores = new Map<number, number>();
+
+    for (const term of termKeys) {
+      const factor = term === token ? 1 : term.startsWith(token) ? PREFIX_MATCH_FACTOR : 0;
+      if (!factor) continue;
+
+      const postings = index.terms[term];
+      const idf = Math.log(1 + documentCount / (postings.length / 2));
+      for (let i = 0; i < postings.length; i += 2) {
+        const docIndex = postings[i];
+        tokenScores.set(
+          docIndex,
+          (tokenScores.get(docIndex) ?? 0) + postings[i + 1] * idf * factor
+        );
+      }
+    }
+
+    // All query tokens must match
+    const previous: Map<number, number> | null = scores;
+    scores = new Map();
+    for (const [docIndex, score] of tokenScores) {
+      if (previous === null) {
+        scores.set(docIndex, score);
+      } else if (previous.has(docIndex)) {
+        scores.set(docIndex, previous.get(docIndex)! + score);
+      }
+    }
+    if (scores.size === 0) {
+      return [];
+    }
+  }
+
+  const results: SearchResult[] = [];
+  for (const [docIndex, score] of scores ?? []) {
+    const doc = index.documents[docIndex];
+    if (options.types && !options.types.includes(doc.type)) continue;
+    results.push({ ...doc, score: Math.round(score * 1000) / 1000 });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.slug.localeCompare(b.slug))
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,279 @@
+/**
+ * SEO Head
+ * Framework-neutral head metadata (meta/link tags) and JSON-LD structured
+ * data built from content fields and `seo` frontmatter overrides
+ */
+
+import { getAlternateUrls, getLeadCMSConfig, type CMSContent } from "./cms.js";
+import type { LeadCMSConfig } from "./config.js";
+import { getBreadcrumbs } from "./content-navigation.js";
+import { buildContentUrl, getSiteUrlForLanguage, toAbsoluteUrl } from "./content-urls.js";
+import { computeSeoDefaults, DEFAULT_ROBOTS, type FrontmatterSeo } from "./seo-utils.js";
+
+/**
+ * A head element: `<title>`, `<meta>` (name or property) or `<link>`
+ */
+export type SeoHeadTag =
+  | { tag: "title"; content: string }
+  | { tag: "meta"; name: string; content: string }
+  | { tag: "meta"; property: string; content: string }
+  | { tag: "link"; rel: string; href: string; hreflang?: string };
+
+/** schema.org types emitted for content items */
+export type SeoSchemaType = "Article" | "BlogPosting" | "WebPage";
+
+/**
+ * Effective head metadata of a content item, as returned by getSeoHead()
+ */
+export interface SeoHead {
+  title: string;
+  description?: string;
+  /** Canonical URL: `seo.canonicalUrl` or the item's own URL */
+  canonical: string;
+  robots: string;
+  /** Translation URLs by locale, plus "x-default" (see getAlternateUrls()) */
+  alternates: Record<string, string>;
+  /** All head tags in render order */
+  tags: SeoHeadTag[];
+  /** JSON-LD objects, each to be rendered in its own `<script type="application/ld+json">` */
+  jsonLd: Record<string, unknown>[];
+}
+
+/**
+ * Options for getSeoHead(). Unset values fall back to the `siteUrl` and
+ * `languageDomains` config settings.
+ */
+export interface SeoHeadOptions {
+  /** Base URL used when the locale has no languageDomains entry */
+  siteUrl?: string;
+  /** Locale of the page (default: the locale the item was read from, then its `language`) */
+  locale?: string;
+  /** Site name for og:site_name and the JSON-LD publisher */
+  siteName?: string;
+  /** Twitter handle of the site, e.g. "@leadcms" */
+  twitterSite?: string;
+  /** schema.org type per content type (default: derived from the content type name) */
+  schemaTypes?: Record<string, SeoSchemaType>;
+  /** Optional user UID for user-specific draft content (alternates and breadcrumbs) */
+  userUid?: string | null;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "")
+    : [];
+}
+
+/**
+ * Pick the schema.org type for a content type: blog and post types are
+ * BlogPosting, article and news types are Article, everything else WebPage.
+ */
+export function getSeoSchemaType(
+  contentType: string | undefined,
+  schemaTypes?: Record<string, SeoSchemaType>
+): SeoSchemaType {
+  const type = contentType ?? "";
+  if (schemaTypes?.[type]) {
+    return schemaTypes[type];
+  }
+  if (/blog|post/i.test(type)) {
+    return "BlogPosting";
+  }
+  if (/article|news/i.test(type)) {
+    return "Article";
+  }
+  return "WebPage";
+}
+
+function buildBreadcrumbList(
+  content: CMSContent,
+  locale: string,
+  config: LeadCMSConfig,
+  options: SeoHeadOptions,
+  siteUrl?: string
+): Record<string, unknown> | null {
+  if (!content.slug.includes("/")) {
+    return null;
+  }
+
+  const breadcrumbs = getBreadcrumbs(content.slug, locale, options.userUid);
+  return {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: breadcrumbs.map((crumb, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      name: crumb.title,
+      // Ancestors without a page of their own have no URL to link to
+      ...(crumb.hasContent
+        ? { item: buildContentUrl(locale, crumb.slug, { ...config, siteUrl }) }
+        : {}),
+    })),
+  };
+}
+
+/**
+ * Build the head metadata of a content item: title, description, canonical
+ * URL, robots, hreflang alternates, OpenGraph and Twitter tags, plus JSON-LD
+ * (Article, BlogPosting or WebPage, and a BreadcrumbList for nested slugs).
+ *
+ * Values come from the `seo` frontmatter overrides, falling back to the
+ * content defaults from computeSeoDefaults() (title, description, cover image).
+ * URLs follow the route layout of getContentUrl() and are absolute when a
+ * base URL is configured for the locale.
+ *
+ * @param content - Content item
+ * @param options - Site URL, locale, site name and schema type overrides
+ *
+ * @example
+ * const head = getSeoHead(post, { siteName: 'Example' });
+ * // Next.js: export const metadata = { title: head.title, alternates: { canonical: head.canonical } }
+ * // Anywhere else: render head.tags and head.jsonLd, or use renderSeoHead(head)
+ */
+export function getSeoHead(content: CMSContent, options: SeoHeadOptions = {}): SeoHead {
+  const config = getLeadCMSConfig();
+  const siteUrl = options.siteUrl ?? config.siteUrl;
+  const locale =
+    options.locale || content.sourceLocale || content.language || config.defaultLanguage;
+
+  const seo = (content.seo ?? {}) as FrontmatterSeo;
+  const defaults = computeSeoDefaults({
+    title: content.title,
+    description: content.description,
+    coverImageUrl: content.coverImageUrl,
+  });
+
+  const url = buildContentUrl(locale, content.slug, { ...config, siteUrl });
+  const baseUrl = getSiteUrlForLanguage(locale, config.languageDomains, siteUrl);
+  const absolute = (value: string) => (baseUrl ? toAbsoluteUrl(value, baseUrl) : value);
+
+  const title = seo.title || defaults.metaTitle || content.slug;
+  const description = seo.description || defaults.metaDescription || undefined;
+  const canonical = seo.canonicalUrl ? absolute(seo.canonicalUrl) : url;
+  const robots = seo.robots || defaults.robots || DEFAULT_ROBOTS;
+  const ogTitle = seo.ogTitle || defaults.openGraphTitle || title;
+  const ogDescription = seo.ogDescription || defaults.openGraphDescription || description;
+  const ogImageSource = seo.ogImage || defaults.openGraphImageUrl;
+  const ogImage = ogImageSource ? absolute(ogImageSource) : undefined;
+  const keywords = seo.keywords?.length ? seo.keywords : getStringList(content.tags);
+
+  const schemaType = getSeoSchemaType(content.type, options.schemaTypes);
+  const isArticle = schemaType !== "WebPage";
+  const publishedAt = toDate(content.publishedAt);
+  const updatedAt = toDate(content.updatedAt) ?? publishedAt;
+  const author = typeof content.author === "string" ? content.author.trim() : "";
+  const alternates = getAlternateUrls(content, options.userUid, siteUrl);
+
+  const tags: SeoHeadTag[] = [{ tag: "title", content: title }];
+  const meta = (name: string, value: string | undefined) => {
+    if (value) tags.push({ tag: "meta", name, content: value });
+  };
+  const property = (name: string, value: string | undefined) => {
+    if (value) tags.push({ tag: "meta", property: name, content: value });
+  };
+
+  meta("description", description);
+  meta("keywords", keywords.join(", "));
+  meta("robots", robots);
+  tags.push({ tag: "link", rel: "canonical", href: canonical });
+  for (const [hreflang, href] of Object.entries(alternates)) {
+    tags.push({ tag: "link", rel: "alternate", hreflang, href });
+  }
+
+  property("og:type", isArticle ? "article" : "website");
+  property("og:title", ogTitle);
+  property("og:description", ogDescription);
+  property("og:url", canonical);
+  property("og:image", ogImage);
+  property("og:image:alt", ogImage ? content.coverImageAlt : undefined);
+  property("og:locale", locale.replace("-", "_"));
+  property("og:site_name", options.siteName);
+  if (isArticle) {
+    property("article:published_time", publishedAt?.toISOString());
+    property("article:modified_time", updatedAt?.toISOString());
+    property("article:author", author);
+    property("article:section", typeof content.category === "string" ? content.category : "");
+    for (const tag of getStringList(content.tags)) {
+      property("article:tag", tag);
+    }
+  }
+
+  meta("twitter:card", ogImage ? "summary_large_image" : "summary");
+  meta("twitter:title", ogTitle);
+  meta("twitter:description", ogDescription);
+  meta("twitter:image", ogImage);
+  meta("twitter:site", options.twitterSite);
+
+  const page: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": schemaType,
+    [isArticle ? "headline" : "name"]: title,
+    ...(description ? { description } : {}),
+    url: canonical,
+    inLanguage: locale,
+    ...(ogImage ? { image: ogImage } : {}),
+    ...(publishedAt ? { datePublished: publishedAt.toISOString() } : {}),
+    ...(updatedAt ? { dateModified: updatedAt.toISOString() } : {}),
+  };
+  if (isArticle) {
+    page.mainEntityOfPage = { "@type": "WebPage", "@id": canonical };
+    if (author) page.author = { "@type": "Person", name: author };
+    if (options.siteName) page.publisher = { "@type": "Organization", name: options.siteName };
+    if (keywords.length > 0) page.keywords = keywords.join(", ");
+  }
+
+  const jsonLd = [page];
+  const breadcrumbList = buildBreadcrumbList(content, locale, config, options, siteUrl);
+  if (breadcrumbList) {
+    jsonLd.push(breadcrumbList);
+  }
+
+  return { title, description, canonical, robots, alternates, tags, jsonLd };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render head metadata as HTML, for templates without a head API
+ *
+ * @example
+ * `<head>${renderSeoHead(getSeoHead(post))}</head>`
+ */
+export function renderSeoHead(head: SeoHead): string {
+  const lines = head.tags.map((tag) => {
+    if (tag.tag === "title") {
+      return `<title>${escapeHtml(tag.content)}</title>`;
+    }
+    if (tag.tag === "link") {
+      const hreflang = tag.hreflang ? ` hreflang="${escapeHtml(tag.hreflang)}"` : "";
+      return `<link rel="${escapeHtml(tag.rel)}"${hreflang} href="${escapeHtml(tag.href)}">`;
+    }
+    const key =
+      "name" in tag ? `name="${escapeHtml(tag.name)}"` : `property="${escapeHtml(tag.property)}"`;
+    return `<meta ${key} content="${escapeHtml(tag.content)}">`;
+  });
+
+  for (const data of head.jsonLd) {
+    // Escape "<" so the JSON cannot close the script element
+    const json = JSON.stringify(data).replace(/</g, "\\u003c");
+    lines.push(`<script type="application/ld+json">${json}</script>`);
+  }
+  return lines.join("\n");
+}
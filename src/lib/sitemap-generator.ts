@@ -0,0 +1,364 @@
+/**
+ * Sitemap Generator
+ * XML sitemaps with hreflang alternates built from local content
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  getAllContentForLocale,
+  getAvailableLanguages,
+  getLeadCMSConfig,
+  isContentDraft,
+  type CMSContent,
+} from "./cms.js";
+import { buildContentUrl, getSiteUrlForLanguage, toAbsoluteUrl } from "./content-urls.js";
+import {
+  getMetadataForContent,
+  readMetadataMap,
+  resolveRemote,
+  type MetadataMap,
+  type RemoteContext,
+} from "./remote-context.js";
+
+/**
+ * hreflang alternate of a sitemap URL
+ */
+export interface SitemapAlternate {
+  /** Language code, or "x-default" for the default language version */
+  hreflang: string;
+  href: string;
+}
+
+/**
+ * A single `<url>` entry of a sitemap
+ */
+export interface SitemapUrl {
+  language: string;
+  slug: string;
+  /** Absolute page URL */
+  loc: string;
+  /** Last modification date (ISO 8601) */
+  lastmod?: string;
+  /** Translations of the page, including the page itself. Empty if untranslated. */
+  alternates: SitemapAlternate[];
+}
+
+/**
+ * Options for getSitemapUrls() and generateSitemap(). Unset values fall back
+ * to the `sitemap`, `siteUrl`, `languageDomains` and `redirects.pathPattern`
+ * config settings.
+ */
+export interface SitemapOptions {
+  /** Base URL used when a language has no languageDomains entry */
+  siteUrl?: string;
+  /** Path template for page URLs. Tokens: {language}, {slug}, {domain} */
+  pathPattern?: string;
+  /** Content types to include (default: all) */
+  types?: readonly string[];
+  /** Languages to include (default: all available languages) */
+  languages?: readonly string[];
+  /** Remote whose metadata.json provides lastmod timestamps (default: the default remote) */
+  remoteContext?: RemoteContext;
+}
+
+/**
+ * Options for generateSitemap()
+ */
+export interface GenerateSitemapOptions extends SitemapOptions {
+  /** Output directory for sitemap files. Default: config sitemap.outputDir or "public" */
+  outputDir?: string;
+  /** URL path the output directory is served from. Default: "" (site root) */
+  publicPath?: string;
+  /** Build the sitemaps without writing any files */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of generateSitemap()
+ */
+export interface GenerateSitemapResult {
+  /** Absolute path of the sitemap index file */
+  indexFile: string;
+  /** Per-language sitemap files referenced by the index */
+  sitemaps: { language: string; file: string; url: string; urlCount: number }[];
+  /** Number of published items left out because their SEO robots contains noindex */
+  excludedNoindex: number;
+}
+
+/** Maximum number of URLs per sitemap file (sitemaps.org protocol limit) */
+const MAX_URLS_PER_SITEMAP = 50000;
+
+const SITEMAP_NS = "http://www.sitemaps.org/schemas/sitemap/0.9";
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Check whether a content item opts out of indexing via `seo.robots`
+ */
+export function isContentNoindex(content: CMSContent): boolean {
+  const seo = content.seo as { robots?: unknown } | undefined;
+  return typeof seo?.robots === "string" && /\bnoindex\b/i.test(seo.robots);
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== "string" && !(value instanceof Date)) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Last modification date: per-remote metadata updatedAt/createdAt first,
+ * then the updatedAt/publishedAt frontmatter fields.
+ */
+function getLastmod(
+  content: CMSContent,
+  language: string,
+  metadata: MetadataMap | undefined
+): string | undefined {
+  const entry = metadata ? getMetadataForContent(metadata, language, content.slug) : undefined;
+  return (
+    toIsoDate(entry?.updatedAt) ??
+    toIsoDate(entry?.createdAt) ??
+    toIsoDate(content.updatedAt) ??
+    toIsoDate(content.publishedAt)
+  );
+}
+
+/**
+ * Collect the sitemap entries of all published, indexable content
+ *
+ * Drafts and items whose `seo.robots` contains `noindex` are excluded.
+ * Items sharing a `translationKey` list each other as hreflang alternates,
+ * plus an `x-default` alternate pointing to the default language version.
+ *
+ * @param options - Sitemap options (siteUrl, pathPattern, types, languages, remoteContext)
+ * @returns Sitemap URLs grouped by language order, then by slug
+ * @throws Error if no base URL is configured for a language with content
+ */
+export async function getSitemapUrls(options: SitemapOptions = {}): Promise<SitemapUrl[]> {
+  return (await collectSitemapUrls(options)).urls;
+}
+
+async function collectSitemapUrls(
+  options: SitemapOptions
+): Promise<{ urls: SitemapUrl[]; excludedNoindex: number }> {
+  const config = getLeadCMSConfig();
+  const defaultLanguage = config.defaultLanguage;
+  const pathPattern =
+    options.pathPattern ?? config.sitemap?.pathPattern ?? config.redirects?.pathPattern;
+  const types = options.types ?? config.sitemap?.types;
+  // Default language first, so its sitemap is listed first in the index
+  const languages =
+    options.languages ??
+    [...getAvailableLanguages()].sort(
+      (a, b) => Number(b === defaultLanguage) - Number(a === defaultLanguage)
+    );
+
+  let metadata: MetadataMap | undefined;
+  try {
+    metadata = await readMetadataMap(options.remoteContext ?? resolveRemote(undefined, config));
+  } catch {
+    // No usable remote configuration — fall back to frontmatter dates
+    metadata = undefined;
+  }
+
+  const urls: SitemapUrl[] = [];
+  const groups = new Map<string, SitemapUrl[]>();
+  let excludedNoindex = 0;
+
+  for (const language of languages) {
+    const items = getAllContentForLocale(language, types)
+      .filter((content) => !isContentDraft(content))
+      .sort((a, b) => a.slug.localeCompare(b.slug));
+    if (items.length === 0) continue;
+
+    const siteUrl = getSiteUrlForLanguage(
+      language,
+      config.languageDomains,
+      options.siteUrl ?? config.siteUrl
+    );
+    if (!siteUrl) {
+      throw new Error(
+        `No site URL configured for language "${language}". Set "siteUrl" or a "languageDomains" entry in your LeadCMS config.`
+      );
+    }
+
+    for (const content of items) {
+      if (isContentNoindex(content)) {
+        excludedNoindex++;
+        continue;
+      }
+
+      const url: SitemapUrl = {
+        language,
+        slug: content.slug,
+        loc: buildContentUrl(language, content.slug, { ...config, siteUrl, pathPattern }),
+        lastmod: getLastmod(content, language, metadata),
+        alternates: [],
+      };
+      urls.push(url);
+
+      if (content.translationKey) {
+        const group = groups.get(content.translationKey) ?? [];
+        group.push(url);
+        groups.set(content.translationKey, group);
+      }
+    }
+  }
+
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+
+    const alternates: SitemapAlternate[] = group.map((url) => ({
+      hreflang: url.language,
+      href: url.loc,
+    }));
+    const defaultVersion = group.find((url) => url.language === defaultLanguage);
+    if (defaultVersion) {
+      alternates.push({ hreflang: "x-default", href: defaultVersion.loc });
+    }
+    for (const url of group) {
+      url.alternates = alternates;
+    }
+  }
+
+  return { urls, excludedNoindex };
+}
+
+/**
+ * Render a sitemap `<urlset>` with xhtml:link hreflang alternates
+ */
+export function buildSitemapXml(urls: readonly SitemapUrl[]): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="${SITEMAP_NS}" xmlns:xhtml="${XHTML_NS}">`,
+  ];
+
+  for (const url of urls) {
+    lines.push(`  <url>`);
+    lines.push(`    <loc>${escapeXml(url.loc)}</loc>`);
+    if (url.lastmod) {
+      lines.push(`    <lastmod>${url.lastmod}</lastmod>`);
+    }
+    for (const alternate of url.alternates) {
+      lines.push(
+        `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}"/>`
+      );
+    }
+    lines.push(`  </url>`);
+  }
+
+  lines.push(`</urlset>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a `<sitemapindex>` referencing other sitemap files
+ */
+export function buildSitemapIndexXml(
+  sitemaps: readonly { loc: string; lastmod?: string }[]
+): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="${SITEMAP_NS}">`,
+  ];
+
+  for (const sitemap of sitemaps) {
+    lines.push(`  <sitemap>`);
+    lines.push(`    <loc>${escapeXml(sitemap.loc)}</loc>`);
+    if (sitemap.lastmod) {
+      lines.push(`    <lastmod>${sitemap.lastmod}</lastmod>`);
+    }
+    lines.push(`  </sitemap>`);
+  }
+
+  lines.push(`</sitemapindex>`);
+  return lines.join("\n") + "\n";
+}
+
+function latestLastmod(urls: readonly SitemapUrl[]): string | undefined {
+  let latest: string | undefined;
+  for (const url of urls) {
+    if (url.lastmod && (!latest || url.lastmod > latest)) {
+      latest = url.lastmod;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Generate a sitemap index plus one sitemap per language
+ *
+ * Writes `{outputDir}/sitemap.xml` (the index) and `{outputDir}/sitemap-{language}.xml`.
+ * Languages with more than 50,000 URLs are split into `sitemap-{language}-{n}.xml`.
+ * Per-language sitemaps are referenced from the index using that language's base URL.
+ *
+ * @param options - Output and sitemap options
+ * @returns Paths of the generated files and the number of noindex exclusions
+ * @throws Error if no base URL is configured for a language with content
+ *
+ * @example
+ * // Write public/sitemap.xml and public/sitemap-en.xml, public/sitemap-de.xml, ...
+ * await generateSitemap({ siteUrl: 'https://www.example.com' });
+ */
+export async function generateSitemap(
+  options: GenerateSitemapOptions = {}
+): Promise<GenerateSitemapResult> {
+  const config = getLeadCMSConfig();
+  const outputDir = path.resolve(options.outputDir ?? config.sitemap?.outputDir ?? "public");
+  const publicPath = (options.publicPath ?? config.sitemap?.publicPath ?? "").replace(/\/+$/, "");
+  const { urls, excludedNoindex } = await collectSitemapUrls(options);
+
+  const byLanguage = new Map<string, SitemapUrl[]>();
+  for (const url of urls) {
+    const list = byLanguage.get(url.language) ?? [];
+    list.push(url);
+    byLanguage.set(url.language, list);
+  }
+
+  const files: [string, string][] = [];
+  const sitemaps: GenerateSitemapResult["sitemaps"] = [];
+  const indexEntries: { loc: string; lastmod?: string }[] = [];
+
+  for (const [language, languageUrls] of byLanguage) {
+    const siteUrl = getSiteUrlForLanguage(
+      language,
+      config.languageDomains,
+      options.siteUrl ?? config.siteUrl
+    )!;
+    const chunkCount = Math.ceil(languageUrls.length / MAX_URLS_PER_SITEMAP);
+
+    for (let i = 0; i < chunkCount; i++) {
+      const chunk = languageUrls.slice(i * MAX_URLS_PER_SITEMAP, (i + 1) * MAX_URLS_PER_SITEMAP);
+      const fileName =
+        chunkCount === 1 ? `sitemap-${language}.xml` : `sitemap-${language}-${i + 1}.xml`;
+      const filePath = path.join(outputDir, fileName);
+      const url = toAbsoluteUrl(`${publicPath}/${fileName}`, siteUrl);
+
+      files.push([filePath, buildSitemapXml(chunk)]);
+      sitemaps.push({ language, file: filePath, url, urlCount: chunk.length });
+      indexEntries.push({ loc: url, lastmod: latestLastmod(chunk) });
+    }
+  }
+
+  const indexFile = path.join(outputDir, "sitemap.xml");
+  files.push([indexFile, buildSitemapIndexXml(indexEntries)]);
+
+  if (!options.dryRun) {
+    await fs.mkdir(outputDir, { recursive: true });
+    for (const [filePath, contents] of files) {
+      await fs.writeFile(filePath, contents, "utf8");
+    }
+  }
+
+  return { indexFile, sitemaps, excludedNoindex };
+}
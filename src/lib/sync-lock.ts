@@ -0,0 +1,275 @@
+/**
+ * Advisory locking of sync commands.
+ *
+ * Pull and push commands write sync tokens and metadata maps. Two of them
+ * running at the same time in one checkout (two terminals, CI plus
+ * `leadcms watch`) can corrupt these files, so every sync command takes the
+ * lockfile .leadcms/sync.lock for the duration of its writes.
+ *
+ * A lock is stale, and taken over, when its process no longer runs (same
+ * host) or when it is older than `lock.staleAfter` minutes (other hosts).
+ * Takers hold .leadcms/sync.lock.takeover while they remove a stale lock, so
+ * two of them cannot both take it over.
+ *
+ * With `lock.remote` enabled, pushes also take the server-side lock
+ * /api/locks/leadcms-push, so pushes from different machines to the same
+ * remote run one after the other.
+ */
+
+import fs from "fs/promises";
+import { rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { getConfig } from "./config.js";
+import { leadCMSDataService } from "./data-service.js";
+import { logger } from "./logger.js";
+import type { RemoteContext } from "./remote-context.js";
+
+const LOCK_FILE = ".leadcms/sync.lock";
+const REMOTE_LOCK_KEY = "leadcms-push";
+const DEFAULT_STALE_AFTER_MINUTES = 60;
+const RETRY_INTERVAL_MS = 500;
+
+/** Contents of the lockfile */
+export interface SyncLockInfo {
+  pid: number;
+  hostname: string;
+  /** CLI command holding the lock, e.g. "pull", "push-content" */
+  command: string;
+  acquiredAt: string;
+}
+
+export interface SyncLockOptions {
+  remoteContext?: RemoteContext;
+  /** Also take the server-side lock of the remote (pushes, with `lock.remote`) */
+  remote?: boolean;
+  /** Nothing is written on a dry run, so no lock is taken */
+  dryRun?: boolean;
+  /** Milliseconds to wait for a held lock. Default: `lock.wait` seconds from the config */
+  waitMs?: number;
+}
+
+/** Number of withSyncLock() calls holding the lock in this process; nested calls reuse it */
+let heldDepth = 0;
+
+function lockPath(): string {
+  return path.resolve(LOCK_FILE);
+}
+
+function takeoverPath(): string {
+  return `${lockPath()}.takeover`;
+}
+
+function syncLockedError(message: string): Error {
+  const error = new Error(message);
+  error.name = "SyncLocked";
+  return error;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Read the current lockfile
+ * @returns Lock info, or null if no lock is held
+ */
+export async function readSyncLock(): Promise<SyncLockInfo | null> {
+  return readLockFile(lockPath());
+}
+
+async function readLockFile(file: string): Promise<SyncLockInfo | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as SyncLockInfo;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    // Unreadable or half-written lockfile: treat as held by an unknown process
+    return { pid: 0, hostname: "", command: "unknown", acquiredAt: new Date(0).toISOString() };
+  }
+}
+
+/**
+ * Whether a lock was left behind by a process that no longer runs
+ */
+export function isStaleSyncLock(info: SyncLockInfo, now: Date = new Date()): boolean {
+  if (info.hostname === os.hostname() && info.pid > 0) {
+    return !isProcessRunning(info.pid);
+  }
+  const staleAfter = getConfig().lock?.staleAfter ?? DEFAULT_STALE_AFTER_MINUTES;
+  return now.getTime() - Date.parse(info.acquiredAt) > staleAfter * 60_000;
+}
+
+function describeLock(info: SyncLockInfo): string {
+  const host = info.hostname === os.hostname() ? "" : ` on ${info.hostname}`;
+  return `leadcms ${info.command} (pid ${info.pid}${host}, since ${info.acquiredAt})`;
+}
+
+/** Remove the lockfile at exit if this process still holds it (e.g. after process.exit()) */
+function releaseOnExit(): void {
+  try {
+    rmSync(lockPath(), { force: true });
+  } catch {
+    // Nothing left to do while exiting
+  }
+}
+
+function sameLock(a: SyncLockInfo, b: SyncLockInfo): boolean {
+  return a.pid === b.pid && a.hostname === b.hostname && a.acquiredAt === b.acquiredAt;
+}
+
+/**
+ * Remove a stale lock while holding the takeover file, after checking that the
+ * lockfile still is that lock: another taker may have replaced it meanwhile.
+ * @returns false if another process is taking over the lock
+ */
+async function removeStaleLock(stale: SyncLockInfo, info: SyncLockInfo): Promise<boolean> {
+  try {
+    await fs.writeFile(takeoverPath(), JSON.stringify(info, null, 2), { flag: "wx" });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    // Left behind by a taker that crashed
+    const taker = await readLockFile(takeoverPath());
+    if (taker && taker.pid > 0 && isStaleSyncLock(taker)) {
+      await fs.rm(takeoverPath(), { force: true });
+    }
+    return false;
+  }
+
+  try {
+    const current = await readSyncLock();
+    if (current && sameLock(current, stale)) {
+      logger.verbose(`[LOCK] Removing stale lock of ${describeLock(stale)}`);
+      await fs.rm(lockPath(), { force: true });
+    }
+    return true;
+  } finally {
+    await fs.rm(takeoverPath(), { force: true });
+  }
+}
+
+async function acquireLocalLock(command: string, waitMs: number): Promise<void> {
+  const info: SyncLockInfo = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    command,
+    acquiredAt: new Date().toISOString(),
+  };
+  const deadline = Date.now() + waitMs;
+
+  for (;;) {
+    try {
+      await fs.mkdir(path.dirname(lockPath()), { recursive: true });
+      await fs.writeFile(lockPath(), JSON.stringify(info, null, 2), { flag: "wx" });
+      process.once("exit", releaseOnExit);
+      logger.verbose(`[LOCK] Acquired ${LOCK_FILE}`);
+      return;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    const holder = await readSyncLock();
+    if (holder && isStaleSyncLock(holder) && (await removeStaleLock(holder, info))) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw syncLockedError(
+        `Another sync is running: ${holder ? describeLock(holder) : "unknown process"}. ` +
+          `Try again when it has finished. If it is not running, delete ${LOCK_FILE}.`
+      );
+    }
+    await sleep(RETRY_INTERVAL_MS);
+  }
+}
+
+async function releaseLocalLock(): Promise<void> {
+  process.removeListener("exit", releaseOnExit);
+  const holder = await readSyncLock();
+  if (holder?.pid === process.pid && holder.hostname === os.hostname()) {
+    await fs.rm(lockPath(), { force: true });
+    logger.verbose(`[LOCK] Released ${LOCK_FILE}`);
+  }
+}
+
+/**
+ * Take the server-side push lock
+ * @returns Whether a lock was taken that needs to be released
+ */
+async function acquireRemoteLock(
+  remoteContext: RemoteContext | undefined,
+  waitMs: number
+): Promise<boolean> {
+  if (remoteContext) {
+    leadCMSDataService.configureForRemote(remoteContext.url, remoteContext.apiKey);
+  }
+  const deadline = Date.now() + waitMs;
+
+  for (;;) {
+    const result = await leadCMSDataService.acquireLock(REMOTE_LOCK_KEY);
+    if (result === "acquired") return true;
+    if (result === "unsupported") {
+      logger.verbose("[LOCK] Server has no /api/locks endpoint, pushing without remote lock");
+      return false;
+    }
+    if (Date.now() >= deadline) {
+      const target = remoteContext ? `remote "${remoteContext.name}"` : "the remote";
+      throw syncLockedError(
+        `Another push to ${target} is running (server lock "${REMOTE_LOCK_KEY}"). ` +
+          "Try again when it has finished."
+      );
+    }
+    await sleep(RETRY_INTERVAL_MS);
+  }
+}
+
+/**
+ * Run a sync operation while holding the local lock and, for pushes with
+ * `lock.remote` enabled, the server-side lock.
+ *
+ * @throws Error named "SyncLocked" if a lock is still held by another run
+ *         after waiting
+ */
+export async function withSyncLock<T>(
+  command: string,
+  options: SyncLockOptions,
+  run: () => Promise<T>
+): Promise<T> {
+  const lockConfig = getConfig().lock ?? {};
+  if (options.dryRun || lockConfig.enabled === false || heldDepth > 0) {
+    return run();
+  }
+
+  const waitMs = options.waitMs ?? (lockConfig.wait ?? 0) * 1000;
+  await acquireLocalLock(command, waitMs);
+  heldDepth++;
+  let remoteLocked = false;
+  try {
+    if (options.remote && lockConfig.remote) {
+      remoteLocked = await acquireRemoteLock(options.remoteContext, waitMs);
+    }
+    return await run();
+  } finally {
+    heldDepth--;
+    if (remoteLocked) {
+      if (options.remoteContext) {
+        leadCMSDataService.configureForRemote(
+          options.remoteContext.url,
+          options.remoteContext.apiKey
+        );
+      }
+      await leadCMSDataService.releaseLock(REMOTE_LOCK_KEY).catch((error: unknown) => {
+        logger.verbose(`[LOCK] Failed to release server lock: ${(error as Error).message}`);
+      });
+    }
+    await releaseLocalLock();
+  }
+}
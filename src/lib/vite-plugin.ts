@@ -0,0 +1,131 @@
+/**
+ * Vite Plugin
+ * Dev-server plugin that reloads the page when LeadCMS files change on disk,
+ * e.g. when `leadcms watch` pulls an update. Vite is not imported: the
+ * dev server is typed with the subset of ViteDevServer the plugin uses.
+ */
+
+import path from "path";
+import { getLeadCMSConfig } from "./cms.js";
+import { invalidateContentCache } from "./content-watch.js";
+import { logger } from "./logger.js";
+
+/** Custom HMR event sent with the changed files before the page reloads */
+export const CONTENT_UPDATE_EVENT = "leadcms:content-update";
+
+/**
+ * Payload of the `leadcms:content-update` event
+ */
+export interface ContentUpdateEventData {
+  /** Changed files, relative to the Vite root */
+  files: string[];
+}
+
+/**
+ * The parts of Vite's ViteDevServer used by the plugin
+ */
+export interface ViteDevServerLike {
+  config?: { root?: string };
+  watcher: {
+    add(paths: string | readonly string[]): unknown;
+    on(event: "add" | "change" | "unlink", listener: (file: string) => void): unknown;
+  };
+  ws: {
+    send(
+      payload:
+        | { type: "full-reload"; path?: string }
+        | { type: "custom"; event: string; data?: unknown }
+    ): void;
+  };
+  moduleGraph?: { invalidateAll(): void };
+}
+
+/**
+ * Plugin object accepted in Vite's `plugins` array
+ */
+export interface LeadCMSVitePlugin {
+  name: string;
+  apply: "serve";
+  configureServer(server: ViteDevServerLike): void;
+}
+
+/**
+ * Options for leadcmsVitePlugin()
+ */
+export interface LeadCMSVitePluginOptions {
+  /** Directories to watch. Default: `contentDir` and `commentsDir` from the LeadCMS config */
+  dirs?: readonly string[];
+  /** Delay after the last change before reloading, so a pull triggers one reload. Default: 100 */
+  debounceMs?: number;
+  /** Send a full page reload after the update event. Default: true */
+  fullReload?: boolean;
+}
+
+/**
+ * Create a Vite plugin that watches LeadCMS content during development.
+ *
+ * On every change below the watched directories, the SDK's in-memory caches are
+ * dropped immediately. Once changes settle, server-side modules are invalidated,
+ * a `leadcms:content-update` HMR event with the changed files is sent and the
+ * page is reloaded — no dev server restart after `leadcms pull`.
+ *
+ * @example
+ * // vite.config.ts (or `vite.plugins` in astro.config.mjs)
+ * import { leadcmsVitePlugin } from '@leadcms/sdk/vite';
+ *
+ * export default defineConfig({ plugins: [leadcmsVitePlugin()] });
+ */
+export function leadcmsVitePlugin(options: LeadCMSVitePluginOptions = {}): LeadCMSVitePlugin {
+  const { debounceMs = 100, fullReload = true } = options;
+
+  return {
+    name: "leadcms",
+    apply: "serve",
+    configureServer(server) {
+      const config = getLeadCMSConfig();
+      const dirs = (options.dirs ?? [config.contentDir, config.commentsDir])
+        .filter((dir): dir is string => !!dir)
+        .map((dir) => path.resolve(dir));
+      if (dirs.length === 0) {
+        return;
+      }
+
+      const root = server.config?.root ?? process.cwd();
+      const changed = new Set<string>();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const flush = () => {
+        timer = null;
+        const files = [...changed].map((file) => path.relative(root, file).replace(/\\/g, "/"));
+        changed.clear();
+
+        logger.verbose(`[vite] ${files.length} LeadCMS file(s) changed, reloading`);
+        server.moduleGraph?.invalidateAll();
+        const data: ContentUpdateEventData = { files };
+        server.ws.send({ type: "custom", event: CONTENT_UPDATE_EVENT, data });
+        if (fullReload) {
+          server.ws.send({ type: "full-reload" });
+        }
+      };
+
+      const onChange = (file: string) => {
+        const absolute = path.resolve(file);
+        const watched = dirs.some((dir) => {
+          const relative = path.relative(dir, absolute);
+          return !relative.startsWith("..") && !path.isAbsolute(relative);
+        });
+        if (!watched) return;
+
+        invalidateContentCache(absolute);
+        changed.add(absolute);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+      };
+
+      server.watcher.add(dirs);
+      server.watcher.on("add", onChange);
+      server.watcher.on("change", onChange);
+      server.watcher.on("unlink", onChange);
+    },
+  };
+}
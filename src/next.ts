@@ -0,0 +1,35 @@
+// Next.js App Router entry point: @leadcms/sdk/next
+//
+// Static params, metadata, draft mode and on-demand revalidation helpers.
+// Next.js itself is not imported — pass in `draftMode()`, `revalidatePath` and
+// `revalidateTag` from your app:
+//
+//   import { generateContentStaticParams, getContentMetadata } from "@leadcms/sdk/next";
+//
+//   export const generateStaticParams = () => generateContentStaticParams();
+//   export async function generateMetadata({ params }) {
+//     const { locale, slug } = resolveContentParams(await params);
+//     const content = getCMSContentBySlugForLocale(slug, locale);
+//     return content ? getContentMetadata(content) : {};
+//   }
+export {
+  createRevalidateHandler,
+  generateContentStaticParams,
+  getContentMetadata,
+  isDraftModeEnabled,
+  requestRevalidation,
+  resolveContentParams,
+  REVALIDATE_SECRET_HEADER,
+} from "./lib/nextjs.js";
+export type {
+  ContentMetadata,
+  ContentParamsOptions,
+  ContentRequestParams,
+  ContentRouteParams,
+  ContentStaticParamsOptions,
+  RequestRevalidationOptions,
+  ResolveContentParamsOptions,
+  RevalidateHandlerOptions,
+  RevalidateRequest,
+  RevalidateRequestBody,
+} from "./lib/nextjs.js";
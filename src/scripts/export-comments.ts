@@ -0,0 +1,255 @@
+/**
+ * Export approved comments as public JSON files for client-side rendering.
+ *
+ * One file per content item and language is written to:
+ *   - {outputDir}/{language}/{contentId}.json
+ *
+ * Each file holds the approved comments as a tree (see buildCommentTree):
+ *   { "contentId": 91, "language": "en", "total": 3, "comments": [...] }
+ *
+ * Only comments with status "Approved" are exported; replies to comments that
+ * are not exported are left out as well. Personal data (see PRIVATE_COMMENT_FIELDS)
+ * is stripped, avatar URLs are optional. Files are written for every local
+ * comment file, so a content item whose comments were all unapproved gets an
+ * empty list instead of a stale export.
+ * No remote connection is required — export works entirely from local files.
+ */
+
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { getConfig } from "../lib/config.js";
+import type { StoredComment } from "../lib/comment-types.js";
+import {
+  buildCommentTree,
+  type CommentSortOrder,
+  type CommentTreeNode,
+} from "../lib/comment-utils.js";
+import { isValidLocaleCode } from "../lib/locale-utils.js";
+import { logger } from "../lib/logger.js";
+
+/**
+ * Fields written to exported files. Anything else, such as `authorEmail`,
+ * `contactId` or fields added to comments later, stays out of the public files.
+ */
+export const PUBLIC_COMMENT_FIELDS = [
+  "id",
+  "parentId",
+  "authorName",
+  "body",
+  "status",
+  "answerStatus",
+  "createdAt",
+  "updatedAt",
+  "publishedAt",
+  "commentableId",
+  "commentableType",
+  "avatarUrl",
+  "language",
+  "translationKey",
+  "source",
+  "tags",
+  "depth",
+  "isLeaf",
+  "threadCount",
+] as const;
+
+export interface ExportCommentsOptions {
+  /** Override output directory path. */
+  outputDir?: string;
+  /** Export comments of this language only. */
+  language?: string;
+  /** "keep" exports `avatarUrl`, "omit" leaves it out. */
+  avatars?: "keep" | "omit";
+  /** Sort order of top-level comments. */
+  sortOrder?: CommentSortOrder;
+  /** Sort order of replies. */
+  replySortOrder?: CommentSortOrder;
+  dryRun?: boolean;
+}
+
+export interface PublicCommentsOptions {
+  avatars?: "keep" | "omit";
+  sortOrder?: CommentSortOrder;
+  replySortOrder?: CommentSortOrder;
+}
+
+/** Exported comment: the public fields of a comment tree node */
+export type PublicCommentNode = Pick<CommentTreeNode, (typeof PUBLIC_COMMENT_FIELDS)[number]> & {
+  children: PublicCommentNode[];
+};
+
+export interface ExportedCommentsFile {
+  contentId: number;
+  language: string;
+  /** Number of exported comments, including replies */
+  total: number;
+  comments: PublicCommentNode[];
+}
+
+export interface ExportedComments {
+  language: string;
+  contentId: number;
+  total: number;
+  /** Absolute path of the JSON file (not written in dry run mode) */
+  file: string;
+}
+
+interface LocalContentCommentsFile {
+  filePath: string;
+  language: string;
+  contentId: number;
+}
+
+/** Approved comments whose ancestors are all approved */
+function getApprovedComments(comments: StoredComment[]): StoredComment[] {
+  const approved = new Map(
+    comments.filter((c) => c.status === "Approved").map((c) => [c.id, c] as const)
+  );
+  const visible = new Map<number, boolean>();
+
+  const isVisible = (comment: StoredComment, seen: Set<number>): boolean => {
+    const known = visible.get(comment.id);
+    if (known !== undefined) return known;
+    let result = true;
+    if (comment.parentId) {
+      const parent = approved.get(comment.parentId);
+      // Cycles are treated like missing parents
+      result = !!parent && !seen.has(parent.id) && isVisible(parent, seen.add(comment.id));
+    }
+    visible.set(comment.id, result);
+    return result;
+  };
+
+  return [...approved.values()].filter((comment) => isVisible(comment, new Set()));
+}
+
+function toPublicNode(node: CommentTreeNode, avatars: "keep" | "omit"): PublicCommentNode {
+  const publicNode: Record<string, unknown> = {};
+  for (const field of PUBLIC_COMMENT_FIELDS) {
+    if (node[field] !== undefined && !(field === "avatarUrl" && avatars === "omit")) {
+      publicNode[field] = node[field];
+    }
+  }
+  return {
+    ...(publicNode as Omit<PublicCommentNode, "children">),
+    children: node.children.map((child) => toPublicNode(child, avatars)),
+  };
+}
+
+/**
+ * Turn stored comments into the public tree written by `leadcms export-comments`:
+ * approved comments only, sorted, without personal data.
+ */
+export function toPublicCommentTree(
+  comments: StoredComment[],
+  options: PublicCommentsOptions = {}
+): PublicCommentNode[] {
+  const { avatars = "keep", sortOrder = "default", replySortOrder = "oldest" } = options;
+  const tree = buildCommentTree(getApprovedComments(comments), { sortOrder, replySortOrder });
+  return tree.map((node) => toPublicNode(node, avatars));
+}
+
+async function findContentCommentFiles(
+  commentsDir: string,
+  defaultLanguage: string
+): Promise<LocalContentCommentsFile[]> {
+  // Default language: {commentsDir}/content/{id}.json, others: {commentsDir}/{locale}/content/{id}.json
+  const dirs: { dir: string; language: string }[] = [
+    { dir: path.join(commentsDir, "content"), language: defaultLanguage },
+  ];
+  const entries = await fs.readdir(commentsDir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (entry.isDirectory() && entry.name !== "content" && isValidLocaleCode(entry.name)) {
+      dirs.push({ dir: path.join(commentsDir, entry.name, "content"), language: entry.name });
+    }
+  }
+
+  const files: LocalContentCommentsFile[] = [];
+  for (const { dir, language } of dirs) {
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    for (const name of names.sort()) {
+      const match = /^(\d+)\.json$/.exec(name);
+      if (match) {
+        files.push({ filePath: path.join(dir, name), language, contentId: Number(match[1]) });
+      }
+    }
+  }
+  return files;
+}
+
+// ── Main export ────────────────────────────────────────────────────────
+
+export async function exportComments(
+  options: ExportCommentsOptions = {}
+): Promise<ExportedComments[]> {
+  const { outputDir: outputDirArg, language, dryRun = false } = options;
+
+  const config = getConfig();
+  const exportConfig = config.commentsExport ?? {};
+  const outputDir = path.resolve(outputDirArg ?? exportConfig.outputDir ?? "public/comments");
+  const treeOptions: PublicCommentsOptions = {
+    avatars: options.avatars ?? exportConfig.avatars,
+    sortOrder: options.sortOrder ?? exportConfig.sortOrder,
+    replySortOrder: options.replySortOrder ?? exportConfig.replySortOrder,
+  };
+
+  const files = await findContentCommentFiles(
+    path.resolve(config.commentsDir),
+    config.defaultLanguage
+  );
+  const exported: ExportedComments[] = [];
+
+  for (const source of files) {
+    if (language && source.language !== language) continue;
+
+    let comments: unknown;
+    try {
+      comments = JSON.parse(await fs.readFile(source.filePath, "utf8"));
+    } catch (error: unknown) {
+      logger.verbose(
+        `[export-comments] Failed to parse ${source.filePath}: ${(error as Error).message}`
+      );
+      continue;
+    }
+    if (!Array.isArray(comments)) {
+      logger.verbose(`[export-comments] Skipping non-array comment file: ${source.filePath}`);
+      continue;
+    }
+
+    const tree = toPublicCommentTree(comments, treeOptions);
+    const total = tree.reduce((sum, node) => sum + node.threadCount, 0);
+    const data: ExportedCommentsFile = {
+      contentId: source.contentId,
+      language: source.language,
+      total,
+      comments: tree,
+    };
+
+    const file = path.join(outputDir, source.language, `${source.contentId}.json`);
+    if (!dryRun) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data), "utf8");
+    }
+    exported.push({ language: source.language, contentId: source.contentId, total, file });
+  }
+
+  if (exported.length === 0) {
+    console.log("   ℹ️  No local content comments found — nothing to export.");
+    return exported;
+  }
+
+  const total = exported.reduce((sum, e) => sum + e.total, 0);
+  console.log(
+    `   ✅ Exported ${total} approved comment(s) for ${exported.length} content item(s) to ${outputDir}`
+  );
+  if (dryRun) {
+    console.log(`\n   🔍 Dry run — no files written`);
+  }
+  for (const e of exported) {
+    const verb = dryRun ? "Would write" : "Written";
+    console.log(`   📄 ${verb}: ${e.language}/${e.contentId}.json (${e.total} comments)`);
+  }
+
+  return exported;
+}
@@ -0,0 +1,123 @@
+/**
+ * Generate RSS 2.0, Atom and JSON Feed files from local content.
+ *
+ * One feed per language and content type is written to:
+ *   - {outputDir}/{language}/{type}/rss.xml
+ *   - {outputDir}/{language}/{type}/atom.xml
+ *   - {outputDir}/{language}/{type}/feed.json
+ *
+ * Item links are absolute: the path comes from config.feeds.pathPattern
+ * (falling back to config.redirects.pathPattern, default the getContentPath()
+ * route) and the base URL from config.languageDomains[language] or config.siteUrl.
+ *
+ * Drafts are excluded. Content types without published items get no feed.
+ * No remote connection is required — generation works entirely from local files.
+ */
+
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { getConfig } from "../lib/config.js";
+import { getAllContentForLocale, getAvailableLanguages, isContentDraft } from "../lib/cms.js";
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  createContentFeed,
+  FEED_FILE_NAMES,
+} from "../lib/feed-generator.js";
+import { logger } from "../lib/logger.js";
+
+export interface GenerateFeedsOptions {
+  /** Override output directory path. */
+  outputDir?: string;
+  /** Generate feeds for this language only. */
+  language?: string;
+  /** Generate feeds for these content types only. */
+  types?: string[];
+  /** Override the base URL for languages without a languageDomains entry. */
+  siteUrl?: string;
+  dryRun?: boolean;
+}
+
+export interface GeneratedFeed {
+  language: string;
+  type: string;
+  itemCount: number;
+  /** Absolute paths of the feed files (not written in dry run mode) */
+  files: string[];
+}
+
+function getPublishedTypes(language: string): string[] {
+  const types = new Set<string>();
+  for (const content of getAllContentForLocale(language)) {
+    if (content.type && !isContentDraft(content)) {
+      types.add(content.type);
+    }
+  }
+  return [...types].sort();
+}
+
+// ── Main export ────────────────────────────────────────────────────────
+
+export async function generateFeeds(options: GenerateFeedsOptions = {}): Promise<GeneratedFeed[]> {
+  const { outputDir: outputDirArg, language, types, siteUrl, dryRun = false } = options;
+
+  const config = getConfig();
+  const outputDir = path.resolve(outputDirArg ?? config.feeds?.outputDir ?? "public/feeds");
+  const languages = language ? [language] : getAvailableLanguages();
+  const typeFilter = types ?? config.feeds?.types;
+
+  const generated: GeneratedFeed[] = [];
+
+  for (const lang of languages) {
+    const langTypes = typeFilter ?? getPublishedTypes(lang);
+
+    for (const type of langTypes) {
+      const feed = createContentFeed({ type, locale: lang, siteUrl });
+      if (feed.items.length === 0) {
+        logger.verbose(`[generate-feeds] No published "${type}" content for ${lang} — skipping`);
+        continue;
+      }
+
+      const feedDir = path.join(outputDir, lang, type);
+      const outputs: [string, string][] = [
+        [path.join(feedDir, FEED_FILE_NAMES.rss), buildRssFeed(feed)],
+        [path.join(feedDir, FEED_FILE_NAMES.atom), buildAtomFeed(feed)],
+        [path.join(feedDir, FEED_FILE_NAMES.json), buildJsonFeed(feed)],
+      ];
+
+      if (!dryRun) {
+        await fs.mkdir(feedDir, { recursive: true });
+        for (const [filePath, contents] of outputs) {
+          await fs.writeFile(filePath, contents, "utf8");
+        }
+      }
+
+      generated.push({
+        language: lang,
+        type,
+        itemCount: feed.items.length,
+        files: outputs.map(([filePath]) => filePath),
+      });
+    }
+  }
+
+  if (generated.length === 0) {
+    console.log("   ℹ️  No published content found — nothing to generate.");
+    return generated;
+  }
+
+  console.log(`   ✅ Generated ${generated.length} feed(s) in ${outputDir}`);
+  if (dryRun) {
+    console.log(`\n   🔍 Dry run — no files written`);
+  }
+  for (const feed of generated) {
+    const verb = dryRun ? "Would write" : "Written";
+    console.log(
+      `   📄 ${verb}: ${feed.language}/${feed.type}/{${Object.values(FEED_FILE_NAMES).join(",")}} (${feed.itemCount} items)`
+    );
+  }
+
+  return generated;
+}
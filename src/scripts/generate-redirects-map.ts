@@ -39,6 +39,7 @@ import { REDIRECTS_DIR, defaultLanguage } from "./leadcms-helpers.js";
 import { getConfig } from "../lib/config.js";
 import { leadCMSDataService } from "../lib/data-service.js";
 import { logger } from "../lib/logger.js";
+import { applyPathPattern } from "../lib/content-urls.js";
 import type { LocalRedirect, LocalRedirectsFile, RedirectKind } from "../lib/automation-types.js";
 import {
   detectSourceType,
@@ -101,19 +102,6 @@ async function readLocalRedirects(): Promise<LocalRedirect[]> {
   return all;
 }
 
-function applyPathPattern(
-  pattern: string,
-  language: string,
-  slug: string,
-  languageDomains?: Record<string, string>
-): string {
-  const domain = languageDomains && language ? (languageDomains[language] ?? "") : "";
-  return pattern
-    .replace("{language}", language)
-    .replace("{slug}", slug)
-    .replace("{domain}", domain);
-}
-
 // Content lookup cache: id → { language, slug } | null
 const contentCache = new Map<number, { language: string; slug: string } | null>();
 
@@ -0,0 +1,91 @@
+/**
+ * Generate client-side search indexes from local content.
+ *
+ * Writes one compact JSON index per language to {outputDir}/{language}.json
+ * (default outputDir: "public/search"). Load it in the browser with
+ * loadSearchIndex() from "@leadcms/sdk/search" and query it with searchContent().
+ *
+ * Intended to run after `leadcms pull`. No remote connection is required.
+ */
+
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { getConfig } from "../lib/config.js";
+import { getAvailableLanguages } from "../lib/cms.js";
+import { buildSearchIndex } from "../lib/search-index.js";
+import { logger } from "../lib/logger.js";
+
+export interface GenerateSearchIndexOptions {
+  /** Override output directory path. */
+  outputDir?: string;
+  /** Generate the index for this language only. */
+  language?: string;
+  /** Index these content types only. */
+  types?: string[];
+  dryRun?: boolean;
+}
+
+export interface GeneratedSearchIndex {
+  language: string;
+  file: string;
+  documentCount: number;
+  termCount: number;
+  /** Size of the serialized index in bytes */
+  size: number;
+}
+
+// ── Main export ────────────────────────────────────────────────────────
+
+export async function generateSearchIndex(
+  options: GenerateSearchIndexOptions = {}
+): Promise<GeneratedSearchIndex[]> {
+  const { outputDir: outputDirArg, language, types, dryRun = false } = options;
+
+  const config = getConfig();
+  const outputDir = path.resolve(outputDirArg ?? config.search?.outputDir ?? "public/search");
+  const languages = language ? [language] : getAvailableLanguages();
+
+  const generated: GeneratedSearchIndex[] = [];
+
+  for (const lang of languages) {
+    const index = buildSearchIndex(lang, { types });
+    if (index.documents.length === 0) {
+      logger.verbose(`[generate-search-index] No published content for ${lang} — skipping`);
+      continue;
+    }
+
+    const file = path.join(outputDir, `${lang}.json`);
+    const json = JSON.stringify(index);
+
+    if (!dryRun) {
+      await fs.mkdir(outputDir, { recursive: true });
+      await fs.writeFile(file, json, "utf8");
+    }
+
+    generated.push({
+      language: lang,
+      file,
+      documentCount: index.documents.length,
+      termCount: Object.keys(index.terms).length,
+      size: Buffer.byteLength(json, "utf8"),
+    });
+  }
+
+  if (generated.length === 0) {
+    console.log("   ℹ️  No published content found — nothing to index.");
+    return generated;
+  }
+
+  if (dryRun) {
+    console.log(`   🔍 Dry run — no files written`);
+  }
+  for (const entry of generated) {
+    const verb = dryRun ? "Would write" : "Written";
+    console.log(
+      `   📄 ${verb}: ${entry.file} (${entry.documentCount} documents, ${entry.termCount} terms, ${(entry.size / 1024).toFixed(1)} KB)`
+    );
+  }
+
+  return generated;
+}
@@ -24,6 +24,7 @@ import { getConfig } from "../lib/config.js";
 import { logger } from "../lib/logger.js";
 import { syncTokenPath, metadataMapPath, clearMetadataSection } from "../lib/remote-context.js";
 import type { RemoteContext } from "../lib/remote-context.js";
+import type { PullResult } from "../lib/pull-result.js";
 
 interface PullAllOptions {
   targetId?: string;
@@ -36,6 +37,18 @@ interface PullAllOptions {
   remoteContext?: RemoteContext;
 }
 
+/** What the pull changed per entity; entities that were not pulled are left out */
+export interface PullAllResult {
+  content?: PullResult;
+  media?: PullResult;
+  comments?: PullResult;
+  emailTemplates?: PullResult;
+  settings?: PullResult;
+  segments?: PullResult;
+  sequences?: PullResult;
+  redirects?: PullResult;
+}
+
 /**
  * Fetch CMS config to determine which entities are supported
  */
@@ -408,7 +421,7 @@ async function resetLocalState(remoteCtx?: RemoteContext): Promise<void> {
 /**
  * Main orchestrator function
  */
-async function main(options: PullAllOptions = {}): Promise<void> {
+async function main(options: PullAllOptions = {}): Promise<PullAllResult> {
   const { targetId, targetSlug, reset, force, remoteContext: remoteCtx } = options;
   const effectiveUrl = remoteCtx?.url || leadCMSUrl;
 
@@ -416,8 +429,7 @@ async function main(options: PullAllOptions = {}): Promise<void> {
   if (targetId || targetSlug) {
     console.log(`\n🚀 LeadCMS Pull - Pulling specific content\n`);
     const { pullContent } = await import("./pull-content.js");
-    await pullContent({ targetId, targetSlug, remoteContext: remoteCtx });
-    return;
+    return { content: await pullContent({ targetId, targetSlug, remoteContext: remoteCtx }) };
   }
 
   // Handle --reset flag: clear everything before pulling
@@ -443,15 +455,17 @@ async function main(options: PullAllOptions = {}): Promise<void> {
     !redirects
   ) {
     console.log(`⏭️  No supported entities found - nothing to sync`);
-    return;
+    return {};
   }
 
+  const result: PullAllResult = {};
+
   // Pull settings first — other content may depend on settings
   if (settings) {
     console.log(`\n⚙️  Pulling settings...`);
     try {
       const { pullSettings } = await import("./pull-settings.js");
-      await pullSettings({ reset: false });
+      result.settings = await pullSettings({ reset: false });
     } catch (_error: unknown) {
       const error = _error as Error;
       console.error(`   ❌ Failed to pull settings: ${error.message}`);
@@ -466,46 +480,50 @@ async function main(options: PullAllOptions = {}): Promise<void> {
     if (content) {
       console.log(`📄 Pulling content...`);
       const { pullLeadCMSContent } = await import("./pull-leadcms-content.js");
-      await pullLeadCMSContent({ forceOverwrite: force, remoteContext: remoteCtx });
+      result.content = await pullLeadCMSContent({
+        forceOverwrite: force,
+        remoteContext: remoteCtx,
+      });
     }
 
     if (media) {
       console.log(`🖼️  Pulling media...`);
       const { pullLeadCMSMedia } = await import("./pull-leadcms-media.js");
-      await pullLeadCMSMedia({ remoteContext: remoteCtx });
+      result.media = await pullLeadCMSMedia({ remoteContext: remoteCtx });
     }
 
     if (comments) {
       console.log(`💬 Pulling comments...`);
       const { pullLeadCMSComments } = await import("./pull-leadcms-comments.js");
-      await pullLeadCMSComments(remoteCtx);
+      result.comments = await pullLeadCMSComments(remoteCtx);
     }
 
     if (emailTemplates) {
       console.log(`📧 Pulling email templates...`);
       const { pullLeadCMSEmailTemplates } = await import("./pull-leadcms-email-templates.js");
-      await pullLeadCMSEmailTemplates(remoteCtx);
+      result.emailTemplates = await pullLeadCMSEmailTemplates(remoteCtx);
     }
 
     if (segments) {
       console.log(`🔖 Pulling segments...`);
       const { pullLeadCMSSegments } = await import("./pull-segments.js");
-      await pullLeadCMSSegments(remoteCtx);
+      result.segments = await pullLeadCMSSegments(remoteCtx);
     }
 
     if (sequences) {
       console.log(`🔗 Pulling sequences...`);
       const { pullLeadCMSSequences } = await import("./pull-sequences.js");
-      await pullLeadCMSSequences(remoteCtx);
+      result.sequences = await pullLeadCMSSequences(remoteCtx);
     }
 
     if (redirects) {
       console.log(`↩️  Pulling redirects...`);
       const { pullLeadCMSRedirects } = await import("./pull-redirects.js");
-      await pullLeadCMSRedirects(remoteCtx);
+      result.redirects = await pullLeadCMSRedirects(remoteCtx);
     }
 
     console.log(`\n✨ Pull completed successfully!\n`);
+    return result;
   } catch (_error: unknown) {
     const error = _error as Error;
     console.error(`\n❌ Pull failed: ${error.message}\n`);
@@ -10,6 +10,7 @@ import { setCMSConfig, isCommentsSupported } from "../lib/cms-config-types.js";
 import { pullLeadCMSComments } from "./pull-leadcms-comments.js";
 import { resetCommentsState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 
 interface PullCommentsOptions {
@@ -22,7 +23,7 @@ interface PullCommentsOptions {
 /**
  * Main function
  */
-async function main(options: PullCommentsOptions = {}): Promise<void> {
+async function main(options: PullCommentsOptions = {}): Promise<PullResult> {
   const { reset, remoteContext } = options;
 
   console.log(`\n💬 LeadCMS Pull Comments\n`);
@@ -44,7 +45,7 @@ async function main(options: PullCommentsOptions = {}): Promise<void> {
 
       if (!isCommentsSupported()) {
         console.log(`⏭️  Comments entity not supported by this LeadCMS instance`);
-        return;
+        return nothingPulled();
       }
 
       logger.verbose(`✅ Comments entity supported\n`);
@@ -56,9 +57,10 @@ async function main(options: PullCommentsOptions = {}): Promise<void> {
   }
 
   // Fetch comments
-  await pullLeadCMSComments(remoteContext);
+  const result = await pullLeadCMSComments(remoteContext);
 
   console.log(`\n✨ Comments pull completed!\n`);
+  return result;
 }
 
 // Note: CLI execution moved to src/cli/bin/pull-comments.ts
@@ -13,6 +13,7 @@ import { saveContentFile } from "../lib/content-transformation.js";
 import { CONTENT_DIR, fetchContentTypes } from "./leadcms-helpers.js";
 import { resetContentState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
 import {
   filterContentOperations,
   getContentStatusData,
@@ -78,14 +79,15 @@ export function getPullTargetsFromOperations(operations: ContentOperations): Pul
   return { items, skipped };
 }
 
+/** Pull the content matching the filter; null without a filter */
 async function pullFilteredContent(
   targetId?: string,
   targetSlug?: string,
   statusFilter?: string[]
-): Promise<boolean> {
+): Promise<PullResult | null> {
   const hasFilter = !!(targetId || targetSlug || (statusFilter && statusFilter.length > 0));
   if (!hasFilter) {
-    return false;
+    return null;
   }
 
   const { operations } = await getContentStatusData({ showDelete: true });
@@ -108,7 +110,7 @@ async function pullFilteredContent(
     } else {
       console.log(`✅ No remote-backed content matched the requested filter.`);
     }
-    return true;
+    return nothingPulled();
   }
 
   console.log(`🎯 Pulling ${items.length} content item(s) from LeadCMS...`);
@@ -120,6 +122,7 @@ async function pullFilteredContent(
   }
 
   const typeMap = await fetchContentTypes();
+  const result = nothingPulled();
 
   for (const item of items) {
     const content = await leadCMSDataService.getContentById(item.id);
@@ -135,16 +138,17 @@ async function pullFilteredContent(
     });
 
     console.log(`✅ Pulled: ${content.slug} (${content.type})`);
+    result.changes++;
   }
 
   console.log(`\n✨ Content pull completed!\n`);
-  return true;
+  return result;
 }
 
 /**
  * Main function
  */
-async function main(options: PullContentOptions = {}): Promise<void> {
+async function main(options: PullContentOptions = {}): Promise<PullResult> {
   const { targetId, targetSlug, statusFilter, reset, force, remoteContext: remoteCtx } = options;
   const effectiveUrl = remoteCtx?.url || leadCMSUrl;
 
@@ -159,9 +163,9 @@ async function main(options: PullContentOptions = {}): Promise<void> {
   // If pulling targeted or filtered content
   if (targetId || targetSlug || (statusFilter && statusFilter.length > 0)) {
     if (statusFilter && statusFilter.length > 0) {
-      const handled = await pullFilteredContent(targetId, targetSlug, statusFilter);
-      if (handled) {
-        return;
+      const filtered = await pullFilteredContent(targetId, targetSlug, statusFilter);
+      if (filtered) {
+        return filtered;
       }
     }
 
@@ -176,7 +180,7 @@ async function main(options: PullContentOptions = {}): Promise<void> {
         const id = parseInt(targetId, 10);
         if (isNaN(id)) {
           console.error(`❌ Invalid ID: ${targetId}`);
-          return;
+          return nothingPulled();
         }
         content = await leadCMSDataService.getContentById(id);
       } else if (targetSlug) {
@@ -187,7 +191,7 @@ async function main(options: PullContentOptions = {}): Promise<void> {
         console.log(
           `⚠️  Content not found: ${targetId ? `ID ${targetId}` : `slug "${targetSlug}"`}`
         );
-        return;
+        return nothingPulled();
       }
 
       console.log(`✅ Found content: ${content.title} (${content.type})`);
@@ -211,7 +215,7 @@ async function main(options: PullContentOptions = {}): Promise<void> {
         `   Location: ${CONTENT_DIR}/${content.language || "default"}/${content.type}/${content.slug}`
       );
       console.log(`\n✨ Pull completed!\n`);
-      return;
+      return { changes: 1, conflictedFiles: [] };
     } catch (_error: unknown) {
       const error = _error as Error;
       console.error(`❌ Failed to pull content:`, error.message);
@@ -230,7 +234,7 @@ async function main(options: PullContentOptions = {}): Promise<void> {
 
       if (!isContentSupported()) {
         console.log(`⏭️  Content entity not supported by this LeadCMS instance`);
-        return;
+        return nothingPulled();
       }
 
       logger.verbose(`✅ Content entity supported\n`);
@@ -242,9 +246,10 @@ async function main(options: PullContentOptions = {}): Promise<void> {
   }
 
   // Fetch content only (no media)
-  await pullLeadCMSContent({ forceOverwrite: force, remoteContext: remoteCtx });
+  const result = await pullLeadCMSContent({ forceOverwrite: force, remoteContext: remoteCtx });
 
   console.log(`\n✨ Content pull completed!\n`);
+  return result;
 }
 
 // Note: CLI execution moved to src/cli/bin/pull-content.ts
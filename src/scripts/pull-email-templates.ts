@@ -15,6 +15,7 @@ import {
 } from "./pull-leadcms-email-templates.js";
 import { resetEmailTemplatesState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 
 interface ScriptError extends Error {
@@ -34,7 +35,7 @@ interface PullEmailTemplatesOptions {
   remoteContext?: RemoteContext;
 }
 
-async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
+async function main(options: PullEmailTemplatesOptions = {}): Promise<PullResult> {
   const { targetId, reset, remoteContext } = options;
   console.log(`\n📧 LeadCMS Pull Email Templates\n`);
 
@@ -47,12 +48,12 @@ async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
     const id = parseInt(targetId, 10);
     if (Number.isNaN(id)) {
       console.error(`❌ Invalid ID: ${targetId}`);
-      return;
+      return nothingPulled();
     }
 
     if (!leadCMSApiKey) {
       console.error(`❌ LEADCMS_API_KEY is required to pull email templates by ID`);
-      return;
+      return nothingPulled();
     }
 
     try {
@@ -64,7 +65,7 @@ async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
 
       if (!response.data) {
         console.log(`⚠️  Email template not found: ID ${id}`);
-        return;
+        return nothingPulled();
       }
 
       const index = await buildEmailTemplateIdIndex(EMAIL_TEMPLATES_DIR);
@@ -73,16 +74,16 @@ async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
       const filePath = await saveEmailTemplateFile(response.data);
       console.log(`✅ Email template saved: ${filePath}`);
       console.log(`\n✨ Email templates pull completed!\n`);
-      return;
+      return { changes: 1, conflictedFiles: [] };
     } catch (_error: unknown) {
       const error = _error as ScriptError;
       if (error.response?.status === 404) {
         console.log(`⚠️  Email template not found: ID ${id}`);
-        return;
+        return nothingPulled();
       }
       if (error.response?.status === 401) {
         console.error(`❌ Authentication failed - check your LEADCMS_API_KEY`);
-        return;
+        return nothingPulled();
       }
       throw error;
     }
@@ -98,7 +99,7 @@ async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
 
       if (!isEmailTemplatesSupported()) {
         console.log(`⏭️  Email templates entity not supported by this LeadCMS instance`);
-        return;
+        return nothingPulled();
       }
 
       logger.verbose(`✅ Email templates entity supported\n`);
@@ -109,9 +110,10 @@ async function main(options: PullEmailTemplatesOptions = {}): Promise<void> {
     console.warn(`⚠️  Assuming email templates are supported (backward compatibility)\n`);
   }
 
-  await pullLeadCMSEmailTemplates(remoteContext);
+  const result = await pullLeadCMSEmailTemplates(remoteContext);
 
   console.log(`\n✨ Email templates pull completed!\n`);
+  return result;
 }
 
 export { main as pullEmailTemplates };
@@ -12,6 +12,7 @@ import type {
 import { getConfig } from "../lib/config.js";
 import { isValidLocaleCode } from "../lib/locale-utils.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
 
 interface ScriptError extends Error {
   code?: string;
@@ -475,7 +476,7 @@ async function fetchCMSConfigForEntity(): Promise<boolean> {
 /**
  * Main function to sync comments from LeadCMS
  */
-export async function main(remoteCtx?: RemoteContext): Promise<void> {
+export async function main(remoteCtx?: RemoteContext): Promise<PullResult> {
   logger.verbose(`[ENV] LeadCMS URL: ${leadCMSUrl}`);
   logger.verbose(
     `[ENV] LeadCMS API Key: ${leadCMSApiKey ? "CONFIGURED (ignored for anonymous comment pull)" : "NOT_SET"}`
@@ -490,7 +491,7 @@ export async function main(remoteCtx?: RemoteContext): Promise<void> {
     console.log(
       `⏭️  Comments entity not supported by this LeadCMS instance - skipping comment sync`
     );
-    return;
+    return nothingPulled();
   }
 
   logger.verbose(`✅ Comments supported - proceeding with sync\n`);
@@ -643,6 +644,7 @@ export async function main(remoteCtx?: RemoteContext): Promise<void> {
   }
 
   console.log(`\nComment sync completed successfully.`);
+  return { changes: items.length + deleted.length, conflictedFiles: [] };
 }
 
 // Export the main function so it can be imported by other modules
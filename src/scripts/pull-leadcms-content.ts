@@ -17,7 +17,9 @@ import {
 } from "../lib/content-transformation.js";
 import { threeWayMerge, threeWayMergeJson, isLocallyModified } from "../lib/content-merge.js";
 import { getConfig } from "../lib/config.js";
+import { buildContentIndex } from "../lib/content-index.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 import { syncTokenPath } from "../lib/remote-context.js";
 
@@ -573,7 +575,7 @@ async function findAndDeleteContentFile(dir: string, idStr: string): Promise<voi
   }
 }
 
-async function main(options: PullContentOptions = {}): Promise<void> {
+async function main(options: PullContentOptions = {}): Promise<PullResult> {
   const { forceOverwrite = false, remoteContext: remoteCtx } = options;
   const effectiveUrl = remoteCtx?.url || leadCMSUrl;
 
@@ -638,6 +640,7 @@ async function main(options: PullContentOptions = {}): Promise<void> {
   let conflictCount = 0;
   let overwrittenCount = 0;
   let newCount = 0;
+  const conflictedFiles: string[] = [];
 
   // Build a ContentTypeMap for transformation
   const contentTypeMap: ContentTypeMap = {};
@@ -826,6 +829,9 @@ async function main(options: PullContentOptions = {}): Promise<void> {
               `⚠️  Conflict in: ${content.slug} (${mergeResult.conflictCount} conflict(s) — manual resolution needed)`
             );
             conflictCount++;
+            conflictedFiles.push(
+              path.relative(CONTENT_DIR, expectedPath).split(path.sep).join("/")
+            );
           }
         }
       } else {
@@ -855,8 +861,10 @@ async function main(options: PullContentOptions = {}): Promise<void> {
     if (newCount > 0) console.log(`   ✨ New: ${newCount}`);
     if (overwrittenCount > 0) console.log(`   📝 Updated (no local changes): ${overwrittenCount}`);
     if (mergedCount > 0) console.log(`   🔀 Auto-merged: ${mergedCount}`);
-    if (conflictCount > 0)
+    if (conflictCount > 0) {
       console.log(`   ⚠️  Conflicts (need manual resolution): ${conflictCount}`);
+      console.log(`   💡 Run "leadcms resolve" to resolve them.`);
+    }
   }
 
   // Remove deleted content files from all language directories
@@ -967,6 +975,18 @@ async function main(options: PullContentOptions = {}): Promise<void> {
     logger.verbose(`Content sync token updated: ${nextSyncToken}`);
   }
 
+  // Refresh the on-disk content index used by the runtime read API.
+  // Only files changed by this pull are re-parsed.
+  try {
+    const indexResult = await buildContentIndex(CONTENT_DIR, getConfig().defaultLanguage);
+    logger.verbose(
+      `[PULL] Content index updated: ${indexResult.added} added, ${indexResult.updated} updated, ${indexResult.removed} removed (${indexResult.filePath})`
+    );
+  } catch (_error: unknown) {
+    const error = _error as Error;
+    logger.verbose(`[PULL] Could not update content index: ${error.message}`);
+  }
+
   // Clean up legacy sync token after a successful pull
   if (contentTokenMigrated) {
     await cleanupLegacySyncToken();
@@ -976,6 +996,17 @@ async function main(options: PullContentOptions = {}): Promise<void> {
       await unlinkSafe(SYNC_TOKEN_PATH);
     }
   }
+
+  return {
+    changes:
+      newCount +
+      overwrittenCount +
+      mergedCount +
+      conflictCount +
+      deletedLocalFiles +
+      staleContentRemoved,
+    conflictedFiles: conflictedFiles.sort(),
+  };
 }
 
 // Export the main function so it can be imported by other modules
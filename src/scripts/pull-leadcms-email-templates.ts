@@ -20,6 +20,7 @@ import type { MetadataMap } from "../lib/remote-context.js";
 import { getConfig } from "../lib/config.js";
 import { slugify } from "../lib/slugify.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 
 interface ScriptError extends Error {
   code?: string;
@@ -409,7 +410,7 @@ async function cleanupStaleRemoteDeletedEmailTemplates(
   }
 }
 
-export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Promise<void> {
+export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Promise<PullResult> {
   const { token: lastSyncToken } = await readSyncToken(remoteCtx);
 
   const { items, deleted, baseItems, nextSyncToken } = await pullEmailTemplateSync(lastSyncToken);
@@ -483,6 +484,7 @@ export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Prom
   let conflictCount = 0;
   let overwrittenCount = 0;
   let newCount = 0;
+  const conflictedFiles: string[] = [];
 
   for (const template of items) {
     const idStr = template.id != null ? String(template.id) : undefined;
@@ -598,6 +600,9 @@ export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Prom
             `⚠️  Conflict in: ${template.name || template.id} (${mergeResult.conflictCount} conflict(s))`
           );
           conflictCount++;
+          conflictedFiles.push(
+            path.relative(EMAIL_TEMPLATES_DIR, filePath).split(path.sep).join("/")
+          );
         }
       }
     } else {
@@ -615,8 +620,10 @@ export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Prom
     if (newCount > 0) console.log(`   ✨ New: ${newCount}`);
     if (overwrittenCount > 0) console.log(`   📝 Updated (no local changes): ${overwrittenCount}`);
     if (mergedCount > 0) console.log(`   🔀 Auto-merged: ${mergedCount}`);
-    if (conflictCount > 0)
+    if (conflictCount > 0) {
       console.log(`   ⚠️  Conflicts (need manual resolution): ${conflictCount}`);
+      console.log(`   💡 Run "leadcms resolve" to resolve them.`);
+    }
   }
 
   let deletedLocalTemplates = 0;
@@ -743,6 +750,17 @@ export async function pullLeadCMSEmailTemplates(remoteCtx?: RemoteContext): Prom
   if (nextSyncToken) {
     await writeSyncToken(nextSyncToken, remoteCtx);
   }
+
+  return {
+    changes:
+      newCount +
+      overwrittenCount +
+      mergedCount +
+      conflictCount +
+      deletedLocalTemplates +
+      staleTemplatesRemoved,
+    conflictedFiles: conflictedFiles.sort(),
+  };
 }
 
 export {
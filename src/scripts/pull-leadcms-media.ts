@@ -9,6 +9,7 @@ import {
   MEDIA_DIR,
 } from "./leadcms-helpers.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 import { syncTokenPath } from "../lib/remote-context.js";
 
@@ -206,7 +207,7 @@ async function pullMediaSync(syncToken?: string, baseUrl?: string): Promise<Medi
 /**
  * Pull and sync media files from LeadCMS.
  */
-async function main(options: PullMediaOptions = {}): Promise<void> {
+async function main(options: PullMediaOptions = {}): Promise<PullResult> {
   const { remoteContext: remoteCtx } = options;
   const effectiveUrl = remoteCtx?.url || leadCMSUrl;
   const effectiveApiKey = remoteCtx?.apiKey || leadCMSApiKey;
@@ -253,6 +254,9 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
 
   logger.verbose(`Pulled ${mediaItems.length} media items, ${mediaDeleted.length} deleted.\x1b[0m`);
 
+  let downloaded = 0;
+  let removedCount = 0;
+
   // Download new/updated media files
   console.log(
     `🖼️  Processing media sync (${mediaItems.length} download(s), ${mediaDeleted.length} remote deletion event(s))...`
@@ -260,7 +264,6 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
   if (mediaItems.length > 0) {
     logger.verbose(`\nProcessing media changes...`);
 
-    let downloaded = 0;
     let attemptedDownloads = 0;
     for (const mediaItem of mediaItems) {
       if (mediaItem.location) {
@@ -295,7 +298,6 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
   // Remove deleted media files from local filesystem
   if (mediaDeleted.length > 0) {
     console.log(`🗑️  Applying media deletions (${mediaDeleted.length} remote event(s))...`);
-    let removedCount = 0;
     let missingCount = 0;
     for (const deletedMedia of mediaDeleted) {
       const relPath = deletedMedia.scopeUid
@@ -337,6 +339,8 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
       await unlinkSafe(MEDIA_SYNC_TOKEN_PATH);
     }
   }
+
+  return { changes: downloaded + removedCount, conflictedFiles: [] };
 }
 
 export {
@@ -9,6 +9,7 @@ import { leadCMSUrl } from "./leadcms-helpers.js";
 import { setCMSConfig, isMediaSupported } from "../lib/cms-config-types.js";
 import { resetMediaState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
 
 import type { RemoteContext } from "../lib/remote-context.js";
 
@@ -23,7 +24,7 @@ interface PullMediaOptions {
  * Main function - currently media is pulled as part of content sync
  * This is a placeholder for future dedicated media sync
  */
-async function main(options: PullMediaOptions = {}): Promise<void> {
+async function main(options: PullMediaOptions = {}): Promise<PullResult> {
   const { reset, remoteContext } = options;
 
   console.log(`\n🖼️  LeadCMS Pull Media\n`);
@@ -45,7 +46,7 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
 
       if (!isMediaSupported()) {
         console.log(`⏭️  Media entity not supported by this LeadCMS instance`);
-        return;
+        return nothingPulled();
       }
 
       logger.verbose(`✅ Media entity supported\n`);
@@ -58,9 +59,10 @@ async function main(options: PullMediaOptions = {}): Promise<void> {
 
   // Pull media
   const { pullLeadCMSMedia } = await import("./pull-leadcms-media.js");
-  await pullLeadCMSMedia({ remoteContext: options.remoteContext });
+  const result = await pullLeadCMSMedia({ remoteContext: options.remoteContext });
 
   console.log(`\n✨ Media pull completed!\n`);
+  return result;
 }
 
 // Note: CLI execution moved to src/cli/bin/pull-media.ts
@@ -27,6 +27,7 @@ import {
   type RemoteContext,
 } from "../lib/remote-context.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 import type {
   RedirectDetailsDto,
   LocalRedirect,
@@ -341,7 +342,7 @@ function mergeRedirects(
 
 export async function pullLeadCMSRedirects(
   optionsOrRemoteCtx?: PullRedirectsOptions | RemoteContext
-): Promise<void> {
+): Promise<PullResult> {
   let reset: boolean | undefined;
   let remoteCtx: RemoteContext | undefined;
 
@@ -391,6 +392,8 @@ export async function pullLeadCMSRedirects(
   if (nextSyncToken) {
     await writeSyncToken(nextSyncToken, remoteCtx);
   }
+
+  return { changes: items.length + deleted.length, conflictedFiles: [] };
 }
 
 export { pullRedirectsSync, readSyncToken as readRedirectSyncTokenForStatus };
@@ -12,6 +12,7 @@ import { syncTokenPath, type RemoteContext } from "../lib/remote-context.js";
 import type { MetadataMap } from "../lib/remote-context.js";
 import { resetSegmentsState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 import { slugify } from "../lib/slugify.js";
 import type { SegmentDetailsDto, SegmentSyncResponse } from "../lib/automation-types.js";
 import { stripNullsAndEmptyArrays } from "../lib/automation-types.js";
@@ -166,7 +167,7 @@ interface PullSegmentsOptions {
 
 export async function pullLeadCMSSegments(
   optionsOrRemoteCtx?: PullSegmentsOptions | RemoteContext
-): Promise<void> {
+): Promise<PullResult> {
   // Support both old signature (RemoteContext) and new options object
   let reset: boolean | undefined;
   let remoteCtx: RemoteContext | undefined;
@@ -315,6 +316,8 @@ export async function pullLeadCMSSegments(
     if (updatedCount > 0) console.log(`   📝 Updated: ${updatedCount}`);
     if (deleted.length > 0) console.log(`   🗑️  Deleted: ${deleted.length}`);
   }
+
+  return { changes: newCount + updatedCount + deleted.length, conflictedFiles: [] };
 }
 
 export {
@@ -15,6 +15,7 @@ import type { MetadataMap } from "../lib/remote-context.js";
 import { getConfig } from "../lib/config.js";
 import { resetSequencesState } from "./pull-all.js";
 import { logger } from "../lib/logger.js";
+import type { PullResult } from "../lib/pull-result.js";
 import type {
   SequenceDetailsDto,
   SequenceSyncResponse,
@@ -189,7 +190,7 @@ interface PullSequencesOptions {
 
 export async function pullLeadCMSSequences(
   optionsOrRemoteCtx?: PullSequencesOptions | RemoteContext
-): Promise<void> {
+): Promise<PullResult> {
   // Support both old signature (RemoteContext) and new options object
   let reset: boolean | undefined;
   let remoteCtx: RemoteContext | undefined;
@@ -407,6 +408,8 @@ export async function pullLeadCMSSequences(
     if (updatedCount > 0) console.log(`   📝 Updated: ${updatedCount}`);
     if (deleted.length > 0) console.log(`   🗑️  Deleted: ${deleted.length}`);
   }
+
+  return { changes: newCount + updatedCount + deleted.length, conflictedFiles: [] };
 }
 
 export { pullSequenceSync, buildSequenceIdIndex, getSequenceFilePath, buildLookupMaps };
@@ -6,11 +6,15 @@ import "dotenv/config";
 import fs from "fs/promises";
 import { leadCMSUrl, leadCMSApiKey, defaultLanguage, SETTINGS_DIR } from "./leadcms-helpers.js";
 import {
+  buildSettingsStatus,
   fetchRemoteSettings,
   filterTrackedSettings,
+  readLocalSettings,
   saveSettingsLocally,
 } from "./settings-manager.js";
 import { logger } from "../lib/logger.js";
+import { nothingPulled, type PullResult } from "../lib/pull-result.js";
+import type { SettingDetailsDto } from "../lib/settings-types.js";
 
 interface ScriptError extends Error {
   code?: string;
@@ -43,7 +47,7 @@ export async function resetSettingsState(): Promise<void> {
 /**
  * Pull settings from LeadCMS and save locally.
  */
-export async function pullSettings(options: PullSettingsOptions = {}): Promise<void> {
+export async function pullSettings(options: PullSettingsOptions = {}): Promise<PullResult> {
   const { targetName, reset } = options;
 
   if (reset) {
@@ -53,7 +57,7 @@ export async function pullSettings(options: PullSettingsOptions = {}): Promise<v
 
   if (!leadCMSApiKey) {
     console.log("⏭️  Skipping settings pull (no API key configured)");
-    return;
+    return nothingPulled();
   }
 
   console.log(`⚙️  Pulling settings from LeadCMS...`);
@@ -61,24 +65,36 @@ export async function pullSettings(options: PullSettingsOptions = {}): Promise<v
   try {
     const allSettings = await fetchRemoteSettings(leadCMSUrl, leadCMSApiKey);
     const tracked = filterTrackedSettings(allSettings);
+    const local = await readLocalSettings(SETTINGS_DIR, defaultLanguage);
+
+    // Settings the pull changes: the ones that differ locally
+    const countChanges = (remote: SettingDetailsDto[]): PullResult => ({
+      changes: buildSettingsStatus(local, remote).comparisons.filter(
+        (c) => c.status !== "in-sync" && (!targetName || c.key === targetName)
+      ).length,
+      conflictedFiles: [],
+    });
 
     if (tracked.length === 0) {
       await saveSettingsLocally([], SETTINGS_DIR, defaultLanguage);
       console.log(`   ✅ No tracked settings found on remote (local tracked settings reconciled)`);
-      return;
+      return countChanges([]);
     }
 
     if (targetName) {
       const matching = tracked.filter((s) => s.key === targetName);
       if (matching.length === 0) {
         console.log(`   ℹ️  Setting "${targetName}" not found or has no value on remote`);
-        return;
+        return nothingPulled();
       }
+      const result = countChanges(matching);
       await saveSettingsLocally(matching, SETTINGS_DIR, defaultLanguage, targetName);
       console.log(
         `   ✅ Pulled setting: ${targetName} (${matching.length} language variant${matching.length !== 1 ? "s" : ""})`
       );
+      return result;
     } else {
+      const result = countChanges(tracked);
       await saveSettingsLocally(tracked, SETTINGS_DIR, defaultLanguage);
 
       // Count unique keys
@@ -87,6 +103,7 @@ export async function pullSettings(options: PullSettingsOptions = {}): Promise<v
       console.log(
         `   ✅ Pulled ${uniqueKeys.size} settings${languages.size > 0 ? ` across ${languages.size + 1} language(s)` : ""}`
       );
+      return result;
     }
   } catch (_error: unknown) {
     const error = _error as ScriptError;
@@ -11,6 +11,7 @@ import { compareVersions } from "../lib/auth.js";
 import { isValidLocaleCode } from "../lib/locale-utils.js";
 import { colorConsole, diffColors, statusColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import { pullCommentSync, saveCommentsForEntity } from "./pull-leadcms-comments.js";
 
 import type { Comment, StoredComment } from "../lib/comment-types.js";
@@ -61,7 +62,11 @@ interface PushCommentsOptions {
   dryRun?: boolean;
   allowDelete?: boolean;
   targetId?: string;
+  /** Do not prompt: new comments without authorEmail get the authenticated user's email. */
+  quiet?: boolean;
   remoteContext?: RemoteContext;
+  /** Push the operations of this status (see buildCommentStatus()) instead of building it again */
+  status?: CommentStatusResult;
 }
 
 export interface CommentStatusResult {
@@ -802,7 +807,8 @@ async function promptForLine(rl: readline.Interface, prompt: string): Promise<st
 
 async function resolveAuthorEmails(
   createOps: CommentOperation[],
-  currentUserEmail: string | undefined
+  currentUserEmail: string | undefined,
+  quiet = false
 ): Promise<Map<CommentOperation, string>> {
   const emailMap = new Map<CommentOperation, string>();
   const opsNeedingEmail = createOps.filter((op) => op.local && !op.local.comment.authorEmail);
@@ -823,6 +829,15 @@ async function resolveAuthorEmails(
     }
   }
 
+  if (quiet) {
+    if (currentUserEmail) {
+      for (const op of opsNeedingEmail) {
+        emailMap.set(op, currentUserEmail);
+      }
+    }
+    return emailMap;
+  }
+
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 
   try {
@@ -874,19 +889,22 @@ async function resolveAuthorEmails(
   }
 }
 
-export async function pushComments(options: PushCommentsOptions = {}): Promise<void> {
+export async function pushComments(options: PushCommentsOptions = {}): Promise<PushResult> {
   if (!leadCMSDataService.isApiKeyConfigured()) {
     console.log("⏭️  Comments require authentication — no API key configured, skipping");
-    return;
+    return { successful: 0, failed: 0 };
   }
 
-  const { force, dryRun, allowDelete, targetId, remoteContext: remoteCtx } = options;
-  const status = await buildCommentStatus({
-    showDelete: allowDelete,
-    targetId,
-    remoteContext: remoteCtx,
-  });
+  const { force, dryRun, allowDelete, targetId, quiet, remoteContext: remoteCtx } = options;
+  const status =
+    options.status ??
+    (await buildCommentStatus({
+      showDelete: allowDelete,
+      targetId,
+      remoteContext: remoteCtx,
+    }));
   const { supported: canReparent } = await checkReparentingSupport();
+  let successCount = 0;
   let failureCount = 0;
 
   // Resolve Content id -> slug for user-facing messages (best-effort, offline-first).
@@ -929,7 +947,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
     } catch {
       // Identity resolution is best-effort
     }
-    authorEmails = await resolveAuthorEmails(createOps, currentUserEmail);
+    authorEmails = await resolveAuthorEmails(createOps, currentUserEmail, quiet);
   }
 
   for (const operation of status.operations) {
@@ -969,6 +987,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
         const created = await leadCMSDataService.createComment(payload);
         const createdTarget = formatCommentable(created.commentableType, created.commentableId);
         console.log(`${progress()} ✅ Created comment ${created.id} in ${createdTarget}`);
+        successCount++;
         await updateLocalFileFromResponse(operation.local, created, remoteCtx);
       } catch (_error: unknown) {
         const error = _error as Error;
@@ -1003,6 +1022,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
       try {
         const updated = await leadCMSDataService.updateComment(operation.remote.id, payload);
         console.log(`${progress()} ✅ Updated comment ${updated.id} in ${target}`);
+        successCount++;
         await updateLocalFileFromResponse(operation.local, updated, remoteCtx);
       } catch (_error: unknown) {
         const error = _error as Error;
@@ -1061,6 +1081,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
       try {
         const updated = await leadCMSDataService.updateComment(remoteId, payload);
         console.log(`${progress()} ✅ Force-updated comment ${updated.id} in ${target}`);
+        successCount++;
         await updateLocalFileFromResponse(operation.local, updated, remoteCtx);
       } catch (_error: unknown) {
         const error = _error as Error;
@@ -1096,6 +1117,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
       try {
         await leadCMSDataService.deleteComment(operation.remote.id);
         console.log(`${progress()} ✅ Deleted remote comment ${operation.remote.id} in ${target}`);
+        successCount++;
       } catch (_error: unknown) {
         const error = _error as Error;
         const { message } = formatCommentApiError(error);
@@ -1112,6 +1134,7 @@ export async function pushComments(options: PushCommentsOptions = {}): Promise<v
       `⚠️  ${failureCount} comment ${failureCount === 1 ? "operation" : "operations"} failed (see messages above). Other comments were processed successfully.`
     );
   }
+  return { successful: successCount, failed: failureCount };
 }
 
 export type {
@@ -19,6 +19,7 @@ import { leadCMSDataService } from "../lib/data-service.js";
 import { pullEmailTemplateSync } from "./pull-leadcms-email-templates.js";
 import { colorConsole, statusColors, diffColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import type { RemoteContext, MetadataMap } from "../lib/remote-context.js";
 
 interface LocalEmailTemplateItem {
@@ -61,6 +62,11 @@ interface PushOptions {
   quiet?: boolean;
   /** Remote context for multi-remote support. When provided, API calls target this remote. */
   remoteContext?: RemoteContext;
+  /**
+   * Status to push, e.g. already shown to the user. Built when omitted.
+   * targetId and targetName still apply.
+   */
+  status?: EmailTemplateStatusResult;
 }
 
 interface StatusOptions {
@@ -295,6 +301,7 @@ async function createMissingEmailGroups(
       groupIndex.set(key, existing);
     } catch (_error: unknown) {
       const error = _error as Error;
+      // Templates in this group fail to push for the missing emailGroupId
       colorConsole.error(`❌ Failed to create email group '${name}': ${error.message}`);
     }
   }
@@ -955,10 +962,27 @@ export {
 };
 export type { EmailGroupItem };
 
-export async function pushEmailTemplates(options: PushOptions = {}): Promise<void> {
+/** Operations for the template with the given ID or name (all operations without a target) */
+export function filterEmailTemplateOperations(
+  operations: EmailTemplateOperation[],
+  targetId?: string,
+  targetName?: string
+): EmailTemplateOperation[] {
+  return operations.filter((op) => {
+    if (targetId) {
+      return (
+        op.local?.metadata?.id?.toString() === targetId || op.remote?.id?.toString() === targetId
+      );
+    }
+    return !targetName || op.local?.metadata?.name === targetName;
+  });
+}
+
+export async function pushEmailTemplates(options: PushOptions = {}): Promise<PushResult> {
+  const result: PushResult = { successful: 0, failed: 0 };
   if (!leadCMSDataService.isApiKeyConfigured()) {
     console.log("⏭️  Email templates require authentication — no API key configured, skipping");
-    return;
+    return result;
   }
 
   const { force, dryRun, allowDelete, targetId, targetName, quiet, remoteContext: remoteCtx } =
@@ -970,102 +994,84 @@ export async function pushEmailTemplates(options: PushOptions = {}): Promise<voi
     logger.verbose(`[PUSH] Using remote "${remoteCtx.name}" (${remoteCtx.url})`);
   }
 
-  // Load per-remote id-map and metadata-map for multi-remote support
+  // Load per-remote metadata-map for multi-remote support
   let metadataMap: MetadataMap | undefined;
   if (remoteCtx) {
     const rc = await import("../lib/remote-context.js");
     metadataMap = await rc.readMetadataMap(remoteCtx);
   }
 
-  let localTemplates = await readLocalEmailTemplates();
+  const status =
+    options.status ??
+    (await buildEmailTemplateStatus({ showDelete: allowDelete, remoteContext: remoteCtx }));
+  const operations = filterEmailTemplateOperations(status.operations, targetId, targetName);
 
-  // Filter to a single template when --id or --name is specified
   if (targetId) {
-    localTemplates = localTemplates.filter((t) => {
-      const localId = t.metadata.id != null ? String(t.metadata.id) : undefined;
-      return localId === targetId;
-    });
-
-    if (localTemplates.length === 0) {
-      console.log(`❌ No local email template found with ID ${targetId}`);
-      return;
-    }
-
     if (!quiet) console.log(`🔍 Pushing email template with ID ${targetId}`);
   } else if (targetName) {
-    localTemplates = localTemplates.filter((t) => {
-      return t.metadata.name === targetName;
-    });
-
-    if (localTemplates.length === 0) {
-      console.log(`❌ No local email template found with name "${targetName}"`);
-      return;
-    }
-
     if (!quiet) console.log(`🔍 Pushing email template "${targetName}"`);
   }
-  const remoteTemplates = await leadCMSDataService.getAllEmailTemplates();
-  const emailGroups = await leadCMSDataService.getAllEmailGroups();
 
+  const emailGroups = await leadCMSDataService.getAllEmailGroups();
   const groupIndex = buildGroupIndex(emailGroups);
 
-  // Enrich remote templates with group names for accurate comparison
-  enrichRemoteTemplatesWithGroups(remoteTemplates, emailGroups);
+  const localOperations = operations.filter(
+    (op): op is EmailTemplateOperation & { local: LocalEmailTemplateItem } => op.local != null
+  );
 
   // Auto-create missing email groups (like content type auto-creation)
-  await createMissingEmailGroups(localTemplates, groupIndex, dryRun);
+  await createMissingEmailGroups(
+    localOperations
+      .filter((op) => op.type !== "conflict" || (op.remote && force))
+      .map((op) => op.local),
+    groupIndex,
+    dryRun
+  );
 
   // Fetch base items for three-way auto-merge
   const baseItems = await fetchBaseItemsForMerge(emailGroups);
 
-  for (const local of localTemplates) {
+  for (const op of localOperations) {
+    const { local, remote: match } = op;
+
+    if (op.type === "conflict" && (!match || !force)) {
+      console.warn(
+        `⚠️  Skipping ${local.metadata.name || local.filePath} - ${op.reason} (use --force to override)`
+      );
+      continue;
+    }
+
     const resolvedGroupId = resolveEmailGroupId(local, groupIndex);
     if (resolvedGroupId != null) {
       local.metadata.emailGroupId = resolvedGroupId;
     }
 
-    const match = getRemoteMatch(local, remoteTemplates, metadataMap);
-
-    // Use remote-specific metadata-map when available, falling back to frontmatter
-    const language = local.metadata.language || local.locale;
-    const name = local.metadata.name;
-    let localUpdatedStr: string | undefined;
-    if (metadataMap && name) {
-      const rc = await import("../lib/remote-context.js");
-      localUpdatedStr = rc.getMetadataForEmailTemplate(metadataMap, language, name)?.updatedAt;
-    }
-    if (!localUpdatedStr) {
-      localUpdatedStr = local.metadata.updatedAt;
-    }
-    const localUpdated = localUpdatedStr ? new Date(localUpdatedStr) : new Date(0);
-    const remoteUpdated = match?.updatedAt ? new Date(match.updatedAt) : new Date(0);
-
     let autoMerged = false;
 
-    if (match && !force && remoteUpdated > localUpdated) {
-      // Attempt three-way auto-merge instead of immediately skipping as conflict
-      const mergeAttempt = await attemptAutoMerge(local, match, baseItems);
-
-      if (mergeAttempt.canMerge && mergeAttempt.localUnmodified) {
-        // Local hasn't changed since last pull — nothing to push
-        logger.verbose(`[PUSH] Skipping ${local.metadata.name} — no local changes to push`);
-        continue;
-      } else if (mergeAttempt.canMerge && !mergeAttempt.hasConflicts) {
-        // Auto-merge succeeded — update local data from merged content
-        const parsed = parseEmailTemplateFileContent(mergeAttempt.merged!);
-        local.metadata = { ...parsed.metadata, emailGroupId: local.metadata.emailGroupId };
-        local.body = parsed.body;
-        autoMerged = true;
-      } else if (mergeAttempt.canMerge && mergeAttempt.hasConflicts) {
-        console.warn(
-          `⚠️  Auto-merge has ${mergeAttempt.conflictCount} conflict(s): ${local.metadata.name || match.id} — skipping (use --force to override)`
-        );
-        continue;
-      } else {
-        console.warn(
-          `⚠️  Remote email template updated after local changes: ${local.metadata.name || match.id}`
-        );
-        continue;
+    if (match && op.type === "update" && !force) {
+      // Use remote-specific metadata-map when available, falling back to frontmatter
+      const language = local.metadata.language || local.locale;
+      const name = local.metadata.name;
+      let localUpdatedStr: string | undefined;
+      if (metadataMap && name) {
+        const rc = await import("../lib/remote-context.js");
+        localUpdatedStr = rc.getMetadataForEmailTemplate(metadataMap, language, name)?.updatedAt;
+      }
+      if (!localUpdatedStr) {
+        localUpdatedStr = local.metadata.updatedAt;
+      }
+      const localUpdated = localUpdatedStr ? new Date(localUpdatedStr) : new Date(0);
+      const remoteUpdated = match.updatedAt ? new Date(match.updatedAt) : new Date(0);
+
+      if (remoteUpdated > localUpdated) {
+        // The status found that the three-way auto-merge succeeds: push the merged content
+        const mergeAttempt = await attemptAutoMerge(local, match, baseItems);
+        if (mergeAttempt.canMerge && !mergeAttempt.hasConflicts && mergeAttempt.merged) {
+          const parsed = parseEmailTemplateFileContent(mergeAttempt.merged);
+          local.metadata = { ...parsed.metadata, emailGroupId: local.metadata.emailGroupId };
+          local.body = parsed.body;
+          autoMerged = true;
+        }
       }
     }
 
@@ -1076,18 +1082,20 @@ export async function pushEmailTemplates(options: PushOptions = {}): Promise<voi
       })
     );
 
+    // The status checked the required fields: a missing one is an email group that failed to create
     const requiredFields = ["name", "subject", "fromEmail", "fromName", "language", "emailGroupId"];
     const missingFields = requiredFields.filter(
       (field) => payload[field] === undefined || payload[field] === null || payload[field] === ""
     );
-    if (missingFields.length > 0) {
+    if (missingFields.length > 0 && !dryRun) {
       console.warn(
         `⚠️  Skipping ${local.filePath} - missing required fields: ${missingFields.join(", ")}`
       );
+      result.failed++;
       continue;
     }
 
-    if (!match) {
+    if (!match || op.type === "remote-deleted") {
       if (dryRun) {
         if (!quiet) console.log(`🟡 [DRY RUN] Create email template: ${payload.name}`);
         continue;
@@ -1095,16 +1103,14 @@ export async function pushEmailTemplates(options: PushOptions = {}): Promise<voi
 
       const created = await leadCMSDataService.createEmailTemplate(payload);
       console.log(`    ✅ Created email template: ${payload.name}`);
+      result.successful++;
       await updateLocalFileFromResponse(local, created, emailGroups, remoteCtx);
       continue;
     }
 
-    // Only check hasChanges for non-merged items (merged content is known to differ)
-    if (!autoMerged) {
-      const hasChanges = await hasTemplateChanges(local, match);
-      if (!hasChanges) {
-        continue;
-      }
+    // A forced conflict may only differ in timestamps
+    if (op.type === "conflict" && !(await hasTemplateChanges(local, match))) {
+      continue;
     }
 
     if (dryRun) {
@@ -1116,45 +1122,29 @@ export async function pushEmailTemplates(options: PushOptions = {}): Promise<voi
     const updated = await leadCMSDataService.updateEmailTemplate(Number(match.id), payload);
     const label = autoMerged ? "🔀 Auto-merged and updated" : "✅ Updated";
     console.log(`    ${label} email template: ${payload.name}`);
+    result.successful++;
     await updateLocalFileFromResponse(local, updated, emailGroups, remoteCtx);
   }
 
   if (!allowDelete || targetId || targetName) {
-    return;
+    return result;
   }
 
-  const localIds = new Set(
-    localTemplates
-      .map((template) => template.metadata.id)
-      .filter((id) => id != null)
-      .map((id) => Number(id))
-  );
-  // Build a set of local name+language keys for matching (like slug+locale in content)
-  const localNameKeys = new Set(
-    localTemplates.map((template) => {
-      const name = template.metadata.name;
-      const lang = template.metadata.language || template.locale;
-      return `${name}::${lang}`;
-    })
-  );
-
-  for (const remote of remoteTemplates) {
-    if (remote.id == null) {
+  for (const op of operations) {
+    const remote = op.remote;
+    if (op.type !== "delete" || remote?.id == null) {
       continue;
     }
 
-    const isMatchedById = localIds.has(Number(remote.id));
-    const remoteNameKey = `${remote.name}::${remote.language || defaultLanguage}`;
-    const isMatchedByName = localNameKeys.has(remoteNameKey);
-
-    if (!isMatchedById && !isMatchedByName) {
-      if (dryRun) {
-        if (!quiet) console.log(`🟡 [DRY RUN] Delete email template: ${remote.name || remote.id}`);
-        continue;
-      }
-
-      await leadCMSDataService.deleteEmailTemplate(Number(remote.id));
-      console.log(`    🗑️  Deleted email template: ${remote.name || remote.id}`);
+    if (dryRun) {
+      if (!quiet) console.log(`🟡 [DRY RUN] Delete email template: ${remote.name || remote.id}`);
+      continue;
     }
+
+    await leadCMSDataService.deleteEmailTemplate(Number(remote.id));
+    console.log(`    🗑️  Deleted email template: ${remote.name || remote.id}`);
+    result.successful++;
   }
+
+  return result;
 }
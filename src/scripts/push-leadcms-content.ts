@@ -16,6 +16,7 @@ import {
 import { formatContentForAPI } from "../lib/content-api-formatting.js";
 import { colorConsole, statusColors, diffColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import type { RemoteContext, MetadataMap } from "../lib/remote-context.js";
 import { hasMergeConflictMarkers } from "../lib/merge-conflict-detector.js";
 
@@ -68,6 +69,12 @@ export interface PushOptions {
   syncAfterPush?: boolean;
   /** Remote context for multi-remote support. When provided, API calls target this remote. */
   remoteContext?: import("../lib/remote-context.js").RemoteContext;
+  /**
+   * Push the operations of this status (see getContentStatusData()) instead of
+   * comparing local and remote content again, e.g. a status that was already
+   * shown or verified. targetId, targetSlug and statusFilter still apply.
+   */
+  status?: ContentStatusResult;
 }
 
 export interface ExecutionOptions {
@@ -96,8 +103,11 @@ class LocalContentReadError extends Error {
         return `   - ${issue.filePath}: ${reason}`;
       })
       .join("\n");
+    const hint = issues.some((issue) => issue.isMergeConflict)
+      ? '\n   Run "leadcms resolve" to resolve the merge conflicts.'
+      : "";
     super(
-      `Cannot read local content because ${issues.length} file(s) need attention:\n${detail}`
+      `Cannot read local content because ${issues.length} file(s) need attention:\n${detail}${hint}`
     );
     this.name = "LocalContentReadError";
     this.issues = issues;
@@ -1518,7 +1528,7 @@ async function showDryRunOperations(operations: ContentOperations): Promise<void
 /**
  * Main function for push command
  */
-async function pushMain(options: PushOptions = {}): Promise<void> {
+async function pushMain(options: PushOptions = {}): Promise<PushResult> {
   const {
     statusOnly = false,
     targetId,
@@ -1531,9 +1541,11 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
     quiet = false,
     syncAfterPush = false,
     remoteContext: remoteCtx,
+    status,
   } = options;
 
   let force = options.force ?? false;
+  let results: PushResult = { successful: 0, failed: 0 };
 
   try {
     // Configure data service for the target remote (multi-remote support)
@@ -1563,7 +1575,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
         console.log("   • Set LEADCMS_API_KEY in your .env file");
         console.log("   • Or run: leadcms login");
         console.log('\nℹ️  Tip: Use "leadcms status" to check changes without authentication');
-        return;
+        return results;
       }
     }
 
@@ -1572,7 +1584,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
 
     if (localContent.length === 0 && !statusOnly) {
       console.log("📂 No local content found. Nothing to sync.");
-      return;
+      return results;
     }
 
     // Fetch remote content types for content transformation
@@ -1611,7 +1623,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
       if (filteredLocalContent.length === 0 && targetSlug) {
         // For slug-based filtering, we can fail early since slugs are always local
         console.log(`❌ No local content found with slug "${targetSlug}"`);
-        return;
+        return results;
       }
 
       if (filteredLocalContent.length === 0 && targetId) {
@@ -1631,21 +1643,28 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
       await validateContentTypes(localTypes, remoteTypeMap, localContent, { dryRun, statusOnly });
     }
 
-    // Fetch remote content for comparison
-    const remoteContent = await fetchRemoteContent();
+    // Fetch remote content for comparison, unless the status was computed already
+    const remoteContent = status ? undefined : await fetchRemoteContent();
 
     // Match local vs remote content with type mapping for proper content transformation
     // In status mode, enable deletion detection if showDelete is true (for display purposes)
     // In push mode, only detect deletions if allowDelete is true (for execution)
     const shouldDetectDeletions = statusOnly ? showDelete || allowDelete : allowDelete;
-    const operations = await matchContent(
-      filteredLocalContent,
-      remoteContent,
-      remoteTypeMap,
-      shouldDetectDeletions,
-      metadataMap,
-      statusOnly || dryRun
-    );
+    const operations = status
+      ? {
+        ...status.operations,
+        // Remote-only items of the status are not pushed
+        remoteCreated: statusOnly || dryRun ? status.operations.remoteCreated : [],
+        delete: shouldDetectDeletions ? status.operations.delete : [],
+      }
+      : await matchContent(
+        filteredLocalContent,
+        remoteContent!,
+        remoteTypeMap,
+        shouldDetectDeletions,
+        metadataMap,
+        statusOnly || dryRun
+      );
 
     // Filter operations if targeting specific content
     const finalOperations =
@@ -1660,7 +1679,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
       if (totalChanges === 0) {
         // Check if the target content exists but is in sync
         const targetFoundInRemote = targetId
-          ? remoteContent.some((r) => r.id?.toString() === targetId)
+          ? (remoteContent ?? []).some((r) => r.id?.toString() === targetId)
           : false;
         const targetFoundInLocal = targetId
           ? hasLocalContentByTargetId(localContent, targetId, metadataMap)
@@ -1676,7 +1695,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
           console.log(
             `❌ No content found with ${targetId ? `ID ${targetId}` : `slug "${targetSlug}"`} in remote or local`
           );
-          return;
+          return results;
         }
       }
     }
@@ -1696,13 +1715,13 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
 
     // If status only, we're done
     if (statusOnly) {
-      return;
+      return results;
     }
 
     // If dry run mode, show API calls without executing
     if (dryRun) {
       await showDryRunOperations(finalOperations);
-      return;
+      return results;
     }
 
     // Handle conflicts
@@ -1710,7 +1729,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
       console.log(
         "\n❌ Cannot proceed due to conflicts. Use --force to override or resolve conflicts first."
       );
-      return;
+      return results;
     }
 
     const totalChanges = countPushChanges(finalOperations, force, allowDelete);
@@ -1722,7 +1741,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
           console.log("✅ Nothing to sync.");
         }
       }
-      return;
+      return results;
     }
 
     // Confirm changes (skip in quiet mode — push-all handles unified confirmation)
@@ -1733,12 +1752,12 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
 
       if (confirmation.toLowerCase() !== "y" && confirmation.toLowerCase() !== "yes") {
         console.log("🚫 Push cancelled.");
-        return;
+        return results;
       }
     }
 
     // Execute the sync
-    const results = await executePush(finalOperations, {
+    results = await executePush(finalOperations, {
       force,
       remoteCtx,
       syncAfterPush,
@@ -1769,6 +1788,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
       rl = null;
     }
   }
+  return results;
 }
 
 /**
@@ -1777,7 +1797,7 @@ async function pushMain(options: PushOptions = {}): Promise<void> {
 export async function executePush(
   operations: ContentOperations,
   options: ExecutionOptions = {}
-): Promise<{ successful: number; failed: number }> {
+): Promise<PushResult> {
   const {
     force = false,
     remoteCtx,
@@ -1786,15 +1806,19 @@ export async function executePush(
     contentTypeMap = {},
   } = options;
 
-  // Handle force updates for conflicts
+  // Handle force updates for conflicts (without changing the caller's operations)
   if (force && operations.conflict.length > 0) {
     if (!quiet) console.log(`\n🔄 Force updating ${operations.conflict.length} conflicted items...`);
-    for (const conflict of operations.conflict) {
-      operations.update.push({
-        local: conflict.local,
-        remote: conflict.remote,
-      });
-    }
+    operations = {
+      ...operations,
+      update: [
+        ...operations.update,
+        ...operations.conflict.map((conflict) => ({
+          local: conflict.local,
+          remote: conflict.remote,
+        })),
+      ],
+    };
   }
 
   // Use individual operations
@@ -1813,7 +1837,7 @@ export async function executePush(
 async function executeIndividualOperations(
   operations: ContentOperations,
   options: ExecutionOptions = {}
-): Promise<{ successful: number; failed: number }> {
+): Promise<PushResult> {
   const {
     force: _force = false,
     remoteCtx,
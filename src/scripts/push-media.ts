@@ -866,6 +866,21 @@ export interface PushMediaOptions {
   quiet?: boolean;
   /** Remote context for multi-remote support. When provided, API calls target this remote. */
   remoteContext?: RemoteContext;
+  /** Push the operations of this status (see statusMedia()) instead of comparing files again */
+  status?: MediaStatusResult;
+}
+
+/**
+ * Push the operations of a precomputed status. Files deleted on the remote are
+ * uploaded again, as when pushMedia() compares the files itself.
+ */
+function getStatusPushOperations(
+  status: MediaStatusResult,
+  allowDelete: boolean
+): MediaOperation[] {
+  return status.operations
+    .filter((op) => allowDelete || op.type !== "delete")
+    .map((op) => (op.type === "remote-deleted" ? { ...op, type: "create" } : op));
 }
 
 /**
@@ -903,33 +918,38 @@ export async function pushMedia(
     // Use provided mediaDir or resolve from config
     const mediaDir = options.mediaDir || path.resolve(process.cwd(), config.mediaDir || "media");
 
-    logger.verbose(`Scanning local media: ${mediaDir}`);
-    const localFiles = scanLocalMedia(mediaDir, config);
+    let operations: MediaOperation[];
+    if (options.status) {
+      operations = getStatusPushOperations(options.status, options.allowDelete || false);
+    } else {
+      logger.verbose(`Scanning local media: ${mediaDir}`);
+      const localFiles = scanLocalMedia(mediaDir, config);
 
-    if (localFiles.length === 0) {
-      logWarnFn("No media files found locally.");
-      return {
-        operations: [],
-        executed: { successful: 0, failed: 0, skipped: 0 },
-        errors: [],
-      };
-    }
+      if (localFiles.length === 0) {
+        logWarnFn("No media files found locally.");
+        return {
+          operations: [],
+          executed: { successful: 0, failed: 0, skipped: 0 },
+          errors: [],
+        };
+      }
 
-    logger.verbose(`Fetching remote media from LeadCMS...`);
-    const remoteFiles = await fetchRemoteMedia();
+      logger.verbose(`Fetching remote media from LeadCMS...`);
+      const remoteFiles = await fetchRemoteMedia();
 
-    // Filter by scopeUid if specified
-    let filteredLocal = localFiles;
-    let filteredRemote = remoteFiles;
+      // Filter by scopeUid if specified
+      let filteredLocal = localFiles;
+      let filteredRemote = remoteFiles;
 
-    if (options.scopeUid) {
-      filteredLocal = localFiles.filter((f) => f.scopeUid === options.scopeUid);
-      filteredRemote = remoteFiles.filter((f) => f.scopeUid === options.scopeUid);
-      logInfoFn(`Filtering by scope: ${options.scopeUid}`);
-    }
+      if (options.scopeUid) {
+        filteredLocal = localFiles.filter((f) => f.scopeUid === options.scopeUid);
+        filteredRemote = remoteFiles.filter((f) => f.scopeUid === options.scopeUid);
+        logInfoFn(`Filtering by scope: ${options.scopeUid}`);
+      }
 
-    // Match and determine operations
-    const operations = matchMediaFiles(filteredLocal, filteredRemote, options.allowDelete || false);
+      // Match and determine operations
+      operations = matchMediaFiles(filteredLocal, filteredRemote, options.allowDelete || false);
+    }
 
     // Display status (skip in quiet mode — push-all handles unified display)
     if (!options.quiet) {
@@ -0,0 +1,551 @@
+/**
+ * Saved push plans (`leadcms push --plan <file>` and `leadcms apply <file>`).
+ *
+ * A plan records the operations a push would perform, so they can be reviewed
+ * (e.g. in a pull request) and applied later:
+ *   - `fingerprint` is a hash of the remote state the operations were computed
+ *     from: the remote side of every compared item, plus remote totals
+ *   - `operationsDigest` is a hash of the planned operations
+ *
+ * Applying a plan recomputes the status with the plan's options and refuses to
+ * push when the remote state or the operations differ from the plan. Otherwise
+ * the regular push runs for every entity with planned changes, so exactly the
+ * reviewed set of operations is pushed.
+ *
+ * Paths in plans are relative to the working directory, so a plan created on
+ * one machine can be applied on another (e.g. in CI).
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { RemoteContext } from "../lib/remote-context.js";
+import type { PushResult } from "../lib/push-result.js";
+import type { SettingComparisonEntry, SettingsStatusResult } from "../lib/settings-types.js";
+import { colorConsole } from "../lib/console-colors.js";
+import {
+  countActionablePushOperations,
+  countActionableSettingsComparisons,
+  subtractRemoteCreates,
+} from "./push-all-counts.js";
+import {
+  buildCommentStatus,
+  pushComments,
+  type CommentOperation,
+  type CommentStatusResult,
+} from "./push-comments.js";
+import {
+  buildEmailTemplateStatus,
+  pushEmailTemplates,
+  type EmailTemplateOperation,
+  type EmailTemplateStatusResult,
+} from "./push-email-templates.js";
+import {
+  countPushChanges,
+  filterContentOperations,
+  getContentStatusData,
+  pushLeadCMSContent,
+  type ContentOperations,
+  type ContentStatusResult,
+} from "./push-leadcms-content.js";
+import {
+  pushMedia,
+  statusMedia,
+  type MediaOperation,
+  type MediaStatusResult,
+} from "./push-media.js";
+import {
+  buildRedirectStatus,
+  pushRedirects,
+  type RedirectOperation,
+  type RedirectStatusResult,
+} from "./push-redirects.js";
+import {
+  buildSegmentStatus,
+  pushSegments,
+  type SegmentOperation,
+  type SegmentStatusResult,
+} from "./push-segments.js";
+import {
+  buildSequenceStatus,
+  pushSequences,
+  type SequenceOperation,
+  type SequenceStatusResult,
+} from "./push-sequences.js";
+import { getSettingsStatusData, pushSettings } from "./push-settings.js";
+import { leadCMSUrl } from "./leadcms-helpers.js";
+
+/** Version of the plan file format */
+export const PUSH_PLAN_VERSION = 1;
+
+/** Status results a plan is created from */
+export interface PushPlanStatus {
+  content?: ContentStatusResult;
+  comments?: CommentStatusResult;
+  media?: MediaStatusResult;
+  emailTemplates?: EmailTemplateStatusResult;
+  settings?: SettingsStatusResult;
+  segments?: SegmentStatusResult;
+  sequences?: SequenceStatusResult;
+  redirects?: RedirectStatusResult;
+}
+
+export type PushPlanEntity = keyof PushPlanStatus;
+
+/** Push options stored in the plan and used when it is applied */
+export interface PushPlanOptions {
+  force?: boolean;
+  allowDelete?: boolean;
+  /** Content: target specific content by ID */
+  targetId?: string;
+  /** Content: target specific content by slug */
+  targetSlug?: string;
+  /** Content: only include matching statuses */
+  statusFilter?: string[];
+  /** Media: only include this scope */
+  scopeUid?: string;
+}
+
+/** Planned operations per entity */
+export interface PushPlanOperations {
+  content?: ContentOperations;
+  comments?: CommentOperation[];
+  media?: MediaOperation[];
+  emailTemplates?: EmailTemplateOperation[];
+  settings?: SettingComparisonEntry[];
+  segments?: SegmentOperation[];
+  sequences?: SequenceOperation[];
+  redirects?: RedirectOperation[];
+}
+
+export interface PushPlan {
+  planVersion: typeof PUSH_PLAN_VERSION;
+  createdAt: string;
+  /** Command that created the plan, e.g. "push" or "push-content" */
+  command: string;
+  /** Remote name in multi-remote mode, otherwise null */
+  remote: string | null;
+  url: string;
+  options: PushPlanOptions;
+  /** Hash of the remote state the operations were computed from */
+  fingerprint: string;
+  /** Hash of `operations` */
+  operationsDigest: string;
+  /** Number of changes to push per entity */
+  summary: Partial<Record<PushPlanEntity, number>>;
+  operations: PushPlanOperations;
+}
+
+export interface ApplyPushPlanOptions {
+  remoteContext?: RemoteContext;
+}
+
+export interface ApplyPushPlanResult {
+  plan: PushPlan;
+  /** Status the plan was checked against, before pushing */
+  status: PushPlanStatus;
+  /** Items pushed and failed per pushed entity */
+  pushed: Partial<Record<PushPlanEntity, PushResult>>;
+}
+
+/** Entities in the order they are pushed (same as `leadcms push`) */
+const PLAN_ENTITIES: readonly PushPlanEntity[] = [
+  "settings",
+  "content",
+  "emailTemplates",
+  "comments",
+  "media",
+  "segments",
+  "sequences",
+  "redirects",
+];
+
+function planError(name: "InvalidPushPlan" | "StalePushPlan", message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/** Plain JSON copy with paths below the working directory made relative (forward slashes) */
+function toPortable<T>(value: T): T {
+  const cwd = process.cwd() + path.sep;
+  return JSON.parse(
+    JSON.stringify(value, (_key, val: unknown) =>
+      typeof val === "string" && val.startsWith(cwd)
+        ? path.relative(process.cwd(), val).split(path.sep).join("/")
+        : val
+    )
+  ) as T;
+}
+
+/** JSON with sorted object keys, so equal values always serialize the same way */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : val
+  );
+}
+
+/** Lists are compared regardless of their order */
+function sortedCanonical(items: unknown[]): string[] {
+  return items.map(canonicalJson).sort();
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function remoteItems(operations: { remote?: unknown }[]): unknown[] {
+  return operations.map((op) => op.remote).filter((remote) => remote != null);
+}
+
+/**
+ * Hash of the remote state behind a status: the remote side of every compared
+ * item and the remote totals
+ */
+export function getRemoteFingerprint(status: PushPlanStatus): string {
+  const state: Record<string, unknown> = {};
+  for (const entity of PLAN_ENTITIES) {
+    const result = status[entity];
+    if (!result) continue;
+
+    let items: unknown[];
+    let total: number | null = null;
+    if (entity === "content") {
+      const content = result as ContentStatusResult;
+      items = remoteItems(Object.values(content.operations).flat());
+      total = content.totalRemote;
+    } else if (entity === "media") {
+      items = (result as MediaStatusResult).remoteFiles;
+    } else if (entity === "settings") {
+      items = (result as SettingsStatusResult).comparisons.map(
+        ({ key, language, remoteValue }) => ({
+          key,
+          language,
+          remoteValue,
+        })
+      );
+    } else {
+      const list = result as { operations: { remote?: unknown }[]; totalRemote?: number };
+      items = remoteItems(list.operations);
+      total = list.totalRemote ?? null;
+    }
+    state[entity] = { total, items: sortedCanonical(toPortable(items)) };
+  }
+  return sha256(canonicalJson(state));
+}
+
+/** Hash of planned operations */
+export function getOperationsDigest(operations: PushPlanOperations): string {
+  const digest: Record<string, unknown> = {};
+  for (const [entity, ops] of Object.entries(operations)) {
+    digest[entity] = Array.isArray(ops)
+      ? sortedCanonical(ops)
+      : Object.fromEntries(
+          Object.entries(ops as ContentOperations).map(([bucket, list]) => [
+            bucket,
+            sortedCanonical(list),
+          ])
+        );
+  }
+  return sha256(canonicalJson(digest));
+}
+
+function countPlannedChanges(
+  entity: PushPlanEntity,
+  operations: PushPlanOperations,
+  options: PushPlanOptions
+): number {
+  const { force = false, allowDelete = false } = options;
+  switch (entity) {
+    case "content": {
+      const content = operations.content!;
+      return subtractRemoteCreates(
+        countPushChanges(content, force, allowDelete),
+        content.remoteCreated.length
+      );
+    }
+    case "media":
+      return operations.media!.filter(
+        (op) =>
+          op.type === "create" || op.type === "update" || (allowDelete && op.type === "delete")
+      ).length;
+    case "settings":
+      return countActionableSettingsComparisons(operations.settings, allowDelete);
+    default:
+      return countActionablePushOperations(operations[entity], allowDelete);
+  }
+}
+
+/**
+ * Create a plan from status results (entities without a result are not part of the plan).
+ * Content operations are narrowed by the targetId, targetSlug and statusFilter options.
+ */
+export function createPushPlan(
+  command: string,
+  status: PushPlanStatus,
+  options: PushPlanOptions = {},
+  remoteContext?: RemoteContext
+): PushPlan {
+  const planStatus: PushPlanStatus = { ...status };
+  if (status.content) {
+    planStatus.content = {
+      ...status.content,
+      operations: filterContentOperations(
+        status.content.operations,
+        options.targetId,
+        options.targetSlug,
+        options.statusFilter
+      ),
+    };
+  }
+
+  const operations: PushPlanOperations = {};
+  const summary: Partial<Record<PushPlanEntity, number>> = {};
+  for (const entity of PLAN_ENTITIES) {
+    const result = planStatus[entity];
+    if (!result) continue;
+    if (entity === "content") {
+      operations.content = toPortable((result as ContentStatusResult).operations);
+    } else if (entity === "settings") {
+      operations.settings = toPortable(
+        (result as SettingsStatusResult).comparisons.filter((c) => c.status !== "in-sync")
+      );
+    } else {
+      const list = (result as { operations: { type: string }[] }).operations;
+      (operations as Record<string, unknown>)[entity] = toPortable(
+        list.filter((op) => op.type !== "skip")
+      );
+    }
+    summary[entity] = countPlannedChanges(entity, operations, options);
+  }
+
+  return {
+    planVersion: PUSH_PLAN_VERSION,
+    createdAt: new Date().toISOString(),
+    command,
+    remote: remoteContext?.name ?? null,
+    url: remoteContext?.url ?? leadCMSUrl ?? "",
+    options,
+    fingerprint: getRemoteFingerprint(planStatus),
+    operationsDigest: getOperationsDigest(operations),
+    summary,
+    operations,
+  };
+}
+
+export async function writePushPlan(filePath: string, plan: PushPlan): Promise<void> {
+  await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(plan, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Read a plan file
+ * @throws Error named "InvalidPushPlan" if the file is not a plan or its operations were edited
+ */
+export async function readPushPlan(filePath: string): Promise<PushPlan> {
+  let plan: PushPlan;
+  try {
+    plan = JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch (error: unknown) {
+    throw planError(
+      "InvalidPushPlan",
+      `Cannot read push plan ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  if (!plan || typeof plan !== "object" || plan.planVersion !== PUSH_PLAN_VERSION) {
+    throw planError(
+      "InvalidPushPlan",
+      `${filePath} is not a push plan (expected planVersion ${PUSH_PLAN_VERSION})`
+    );
+  }
+  if (!plan.operations || getOperationsDigest(plan.operations) !== plan.operationsDigest) {
+    throw planError(
+      "InvalidPushPlan",
+      `The operations in ${filePath} were modified after the plan was created`
+    );
+  }
+  return plan;
+}
+
+/**
+ * Fetch the status of the given entities for a plan (errors are not caught)
+ */
+export async function getPushPlanStatus(
+  entities: readonly PushPlanEntity[],
+  options: PushPlanOptions = {},
+  remoteContext?: RemoteContext
+): Promise<PushPlanStatus> {
+  const showDelete = options.allowDelete ?? false;
+  const status: PushPlanStatus = {};
+
+  // Sequential, like push: content and media status share the data service configuration
+  for (const entity of entities) {
+    switch (entity) {
+      case "content":
+        status.content = await getContentStatusData({ showDelete, remoteContext });
+        break;
+      case "comments":
+        status.comments = await buildCommentStatus({ showDelete, remoteContext });
+        break;
+      case "media":
+        status.media = await statusMedia({
+          scopeUid: options.scopeUid,
+          showDelete,
+          silent: true,
+          remoteContext,
+        });
+        break;
+      case "emailTemplates":
+        status.emailTemplates = await buildEmailTemplateStatus({ showDelete, remoteContext });
+        break;
+      case "settings": {
+        const settings = await getSettingsStatusData({ showDelete, remoteContext });
+        if (!settings) {
+          throw new Error("Settings require authentication — no API key configured");
+        }
+        status.settings = settings;
+        break;
+      }
+      case "segments":
+        status.segments = await buildSegmentStatus({ showDelete, remoteContext });
+        break;
+      case "sequences":
+        status.sequences = await buildSequenceStatus({ showDelete, remoteContext });
+        break;
+      case "redirects":
+        status.redirects = await buildRedirectStatus({ showDelete, remoteContext });
+        break;
+    }
+  }
+  return status;
+}
+
+/** Print what a plan would push */
+export function printPushPlanSummary(plan: PushPlan, filePath: string): void {
+  const labels: Record<PushPlanEntity, string> = {
+    settings: "⚙️  Settings",
+    content: "📝 Content",
+    emailTemplates: "📧 Email templates",
+    comments: "💬 Comments",
+    media: "📷 Media",
+    segments: "🔖 Segments",
+    sequences: "🔗 Sequences",
+    redirects: "🔀 Redirects",
+  };
+  const total = Object.values(plan.summary).reduce((sum, n) => sum + (n ?? 0), 0);
+
+  colorConsole.important(`\n📋 Push plan written to ${filePath}`);
+  for (const entity of PLAN_ENTITIES) {
+    const changes = plan.summary[entity];
+    if (changes !== undefined) {
+      console.log(`   ${labels[entity].padEnd(20)} ${changes} change(s)`);
+    }
+  }
+  if (total > 0) {
+    colorConsole.important(
+      `\n💡 Run "leadcms apply ${filePath}" to push these ${total} change(s).`
+    );
+  } else {
+    colorConsole.success("\n✅ Nothing to push.");
+  }
+}
+
+/**
+ * Push the operations of a saved plan.
+ *
+ * @throws Error named "InvalidPushPlan" if the file is not a valid plan or was created for another remote
+ * @throws Error named "StalePushPlan" if the remote or the local files changed since the plan was created
+ */
+export async function applyPushPlan(
+  filePath: string,
+  options: ApplyPushPlanOptions = {}
+): Promise<ApplyPushPlanResult> {
+  const { remoteContext } = options;
+  const plan = await readPushPlan(filePath);
+
+  const remote = remoteContext?.name ?? null;
+  const url = remoteContext?.url ?? leadCMSUrl ?? "";
+  if (plan.remote !== remote || plan.url !== url) {
+    throw planError(
+      "InvalidPushPlan",
+      `The plan was created for ${plan.remote ?? plan.url}, not for ${remote ?? url}`
+    );
+  }
+
+  const entities = PLAN_ENTITIES.filter((entity) => plan.operations[entity] !== undefined);
+  const status = await getPushPlanStatus(entities, plan.options, remoteContext);
+  const current = createPushPlan(plan.command, status, plan.options, remoteContext);
+
+  if (current.fingerprint !== plan.fingerprint) {
+    throw planError(
+      "StalePushPlan",
+      "The remote has changed since the plan was created. Create a new plan with --plan."
+    );
+  }
+  if (current.operationsDigest !== plan.operationsDigest) {
+    throw planError(
+      "StalePushPlan",
+      "Local files have changed since the plan was created. Create a new plan with --plan."
+    );
+  }
+
+  const { force, allowDelete, targetId, targetSlug, statusFilter, scopeUid } = plan.options;
+  const pushOptions = { dryRun: false, force, allowDelete, quiet: true, remoteContext };
+  const planned = (entity: PushPlanEntity) => (plan.summary[entity] ?? 0) > 0;
+  // Push the verified status, so the remote is not checked again between the check and the push
+  const pushed: ApplyPushPlanResult["pushed"] = {};
+
+  if (planned("settings")) {
+    colorConsole.important("  ⚙️  Pushing settings…");
+    pushed.settings = await pushSettings({ ...pushOptions, status: status.settings });
+  }
+  if (planned("content")) {
+    colorConsole.important("  📝 Pushing content…");
+    pushed.content = await pushLeadCMSContent({
+      ...pushOptions,
+      statusOnly: false,
+      targetId,
+      targetSlug,
+      statusFilter,
+      syncAfterPush: false,
+      status: status.content,
+    });
+  }
+  if (planned("emailTemplates")) {
+    colorConsole.important("  📧 Pushing email templates…");
+    pushed.emailTemplates = await pushEmailTemplates({
+      ...pushOptions,
+      status: status.emailTemplates,
+    });
+  }
+  if (planned("comments")) {
+    colorConsole.important("  💬 Pushing comments…");
+    pushed.comments = await pushComments({ ...pushOptions, status: status.comments });
+  }
+  if (planned("media")) {
+    colorConsole.important("  📷 Pushing media…");
+    const media = await pushMedia({ ...pushOptions, scopeUid, status: status.media });
+    pushed.media = media.executed;
+  }
+  if (planned("segments")) {
+    colorConsole.important("  🔖 Pushing segments…");
+    pushed.segments = await pushSegments({ ...pushOptions, status: status.segments });
+  }
+  if (planned("sequences")) {
+    colorConsole.important("  🔗 Pushing sequences…");
+    pushed.sequences = await pushSequences({ ...pushOptions, status: status.sequences });
+  }
+  if (planned("redirects")) {
+    colorConsole.important("  🔀 Pushing redirects…");
+    pushed.redirects = await pushRedirects({ ...pushOptions, status: status.redirects });
+  }
+
+  return { plan, status, pushed };
+}
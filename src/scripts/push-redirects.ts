@@ -17,6 +17,7 @@ import { REDIRECTS_DIR, defaultLanguage } from "./leadcms-helpers.js";
 import { leadCMSDataService } from "../lib/data-service.js";
 import { colorConsole, statusColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 import type {
   RedirectDetailsDto,
@@ -44,6 +45,8 @@ export interface PushRedirectsOptions {
   allowDelete?: boolean;
   quiet?: boolean;
   remoteContext?: RemoteContext;
+  /** Push the operations of this status (see buildRedirectStatus()) instead of comparing again */
+  status?: RedirectStatusResult;
 }
 
 export interface RedirectOperation {
@@ -285,9 +288,10 @@ function appendRemoteOnlyCreates(
 
 // ── Main export ────────────────────────────────────────────────────────
 
-export async function pushRedirects(options: PushRedirectsOptions = {}): Promise<void> {
-  const { force: _force, dryRun = false, allowDelete = false, quiet = false, remoteContext } =
+export async function pushRedirects(options: PushRedirectsOptions = {}): Promise<PushResult> {
+  const { force: _force, dryRun = false, allowDelete = false, quiet = false, remoteContext, status } =
     options;
+  const result: PushResult = { successful: 0, failed: 0 };
 
   if (remoteContext) {
     leadCMSDataService.configureForRemote(remoteContext.url, remoteContext.apiKey);
@@ -297,20 +301,28 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
 
   if (locals.length === 0 && !allowDelete) {
     console.log("   ℹ️  No local redirects found — nothing to push.");
-    return;
+    return result;
   }
 
-  let remotes: RedirectDetailsDto[];
-  try {
-    remotes = await leadCMSDataService.getAllRedirects();
-  } catch (_error: unknown) {
-    const error = _error as Error;
-    console.error(`   ❌ Failed to fetch remote redirects: ${error.message}`);
-    throw error;
-  }
+  let ops: RedirectOperation[];
+  if (status) {
+    // Redirects that only exist on the remote are not pushed
+    ops = status.operations.filter(
+      (op) => (op.type !== "create" || op.local) && (allowDelete || op.type !== "delete")
+    );
+  } else {
+    let remotes: RedirectDetailsDto[];
+    try {
+      remotes = await leadCMSDataService.getAllRedirects();
+    } catch (_error: unknown) {
+      const error = _error as Error;
+      console.error(`   ❌ Failed to fetch remote redirects: ${error.message}`);
+      throw error;
+    }
 
-  const idMap = await readRedirectIdMap(remoteContext);
-  const ops = planOperations(locals, remotes, allowDelete, idMap);
+    const idMap = await readRedirectIdMap(remoteContext);
+    ops = planOperations(locals, remotes, allowDelete, idMap);
+  }
 
   const creates = ops.filter((o) => o.type === "create");
   const updates = ops.filter((o) => o.type === "update");
@@ -327,7 +339,7 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
 
   if (dryRun) {
     colorConsole.info(`\n   🔍 Dry run — no changes applied`);
-    return;
+    return result;
   }
 
   // Create
@@ -336,9 +348,11 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
     try {
       const created = await leadCMSDataService.createRedirect(dto);
       colorConsole.success(`    + Created redirect #${created.id} (${created.kind})`);
+      result.successful++;
     } catch (_error: unknown) {
       const error = _error as Error;
       colorConsole.error(`   ❌ Failed to create redirect: ${error.message}`);
+      result.failed++;
     }
   }
 
@@ -348,9 +362,11 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
     try {
       const updated = await leadCMSDataService.updateRedirect(op.remote!.id, dto);
       colorConsole.info(`    ~ Updated redirect #${updated.id} (${updated.kind})`);
+      result.successful++;
     } catch (_error: unknown) {
       const error = _error as Error;
       colorConsole.error(`   ❌ Failed to update redirect #${op.remote!.id}: ${error.message}`);
+      result.failed++;
     }
   }
 
@@ -359,9 +375,11 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
     try {
       await leadCMSDataService.deleteRedirect(op.remote!.id);
       colorConsole.warn(`    - Deleted redirect #${op.remote!.id}`);
+      result.successful++;
     } catch (_error: unknown) {
       const error = _error as Error;
       colorConsole.error(`   ❌ Failed to delete redirect #${op.remote!.id}: ${error.message}`);
+      result.failed++;
     }
   }
 
@@ -370,6 +388,7 @@ export async function pushRedirects(options: PushRedirectsOptions = {}): Promise
 
   const changed = creates.length + updates.length + deletes.length;
   logger.verbose(`[push-redirects] Done: ${changed} change(s) applied`);
+  return result;
 }
 
 // ── Status ────────────────────────────────────────────────────────────
@@ -11,6 +11,7 @@ import { SEGMENTS_DIR } from "./leadcms-helpers.js";
 import { leadCMSDataService } from "../lib/data-service.js";
 import { colorConsole, statusColors, diffColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import type { RemoteContext, MetadataMap } from "../lib/remote-context.js";
 import type {
   SegmentDetailsDto,
@@ -27,6 +28,8 @@ interface PushOptions {
   allowDelete?: boolean;
   quiet?: boolean;
   remoteContext?: RemoteContext;
+  /** Push the operations of this status (see buildSegmentStatus()) instead of building it again */
+  status?: SegmentStatusResult;
 }
 
 interface StatusOptions {
@@ -408,10 +411,11 @@ export async function statusSegments(options: StatusOptions = {}): Promise<void>
 
 // ── Push ────────────────────────────────────────────────────────────────
 
-export async function pushSegments(options: PushOptions = {}): Promise<void> {
+export async function pushSegments(options: PushOptions = {}): Promise<PushResult> {
+  const result: PushResult = { successful: 0, failed: 0 };
   if (!leadCMSDataService.isApiKeyConfigured()) {
     console.log("⏭️  Segments require authentication — no API key configured, skipping");
-    return;
+    return result;
   }
 
   const { force, dryRun, allowDelete, quiet, remoteContext: remoteCtx } = options;
@@ -421,21 +425,13 @@ export async function pushSegments(options: PushOptions = {}): Promise<void> {
     logger.verbose(`[PUSH] Using remote "${remoteCtx.name}" (${remoteCtx.url})`);
   }
 
-  let metadataMap: MetadataMap | undefined;
-  if (remoteCtx) {
-    const rc = await import("../lib/remote-context.js");
-    metadataMap = await rc.readMetadataMap(remoteCtx);
-  }
-
-  const localFiles = await readLocalSegments();
-  const remoteSegments = (await leadCMSDataService.getAllSegments()).filter(
-    (s) => s.type !== "Static"
-  );
+  const status =
+    options.status ??
+    (await buildSegmentStatus({ showDelete: allowDelete, remoteContext: remoteCtx }));
 
-  for (const { filePath, segment } of localFiles) {
-    const match = getRemoteMatch(segment, remoteSegments, metadataMap);
-
-    if (!match) {
+  for (const { type, local: segment, remote, filePath } of status.operations) {
+    // Segments deleted on the remote are created again
+    if ((type === "create" || type === "remote-deleted") && segment && filePath) {
       if (dryRun) {
         if (!quiet) console.log(`🟡 [DRY RUN] Create segment: ${segment.name}`);
         continue;
@@ -443,47 +439,44 @@ export async function pushSegments(options: PushOptions = {}): Promise<void> {
       const created = await leadCMSDataService.createSegment(toCreatePayload(segment));
       console.log(`    ✅ Created segment: ${segment.name}`);
       await updateLocalFileAfterPush(filePath, created, remoteCtx);
+      result.successful++;
       continue;
     }
 
-    const localUpdated = segment.updatedAt ? new Date(segment.updatedAt) : new Date(0);
-    const remoteUpdated = match.updatedAt ? new Date(match.updatedAt) : new Date(0);
-
-    if (!force && remoteUpdated > localUpdated) {
-      console.warn(
-        `⚠️  Remote segment updated after local changes: ${segment.name} — skipping (use --force to override)`
-      );
-      continue;
-    }
+    if ((type === "update" || type === "conflict") && segment && remote && filePath) {
+      if (type === "conflict") {
+        if (!force) {
+          console.warn(
+            `⚠️  Remote segment updated after local changes: ${segment.name} — skipping (use --force to override)`
+          );
+          continue;
+        }
+        if (!hasSegmentChanges(segment, remote)) continue;
+      }
 
-    if (!hasSegmentChanges(segment, match)) continue;
+      if (dryRun) {
+        if (!quiet) console.log(`🟡 [DRY RUN] Update segment: ${segment.name} (ID ${remote.id})`);
+        continue;
+      }
 
-    if (dryRun) {
-      if (!quiet) console.log(`🟡 [DRY RUN] Update segment: ${segment.name} (ID ${match.id})`);
+      const updated = await leadCMSDataService.updateSegment(remote.id!, toUpdatePayload(segment));
+      console.log(`    ✅ Updated segment: ${segment.name}`);
+      await updateLocalFileAfterPush(filePath, updated, remoteCtx);
+      result.successful++;
       continue;
     }
 
-    const updated = await leadCMSDataService.updateSegment(match.id!, toUpdatePayload(segment));
-    console.log(`    ✅ Updated segment: ${segment.name}`);
-    await updateLocalFileAfterPush(filePath, updated, remoteCtx);
-  }
-
-  if (!allowDelete) return;
-
-  const localNames = new Set(localFiles.map((f) => f.segment.name));
-  const localIds = new Set(
-    localFiles.map((f) => f.segment.id).filter((id): id is number => id != null)
-  );
-
-  for (const remote of remoteSegments) {
-    if (localNames.has(remote.name) || (remote.id != null && localIds.has(remote.id))) continue;
+    if (type === "delete" && allowDelete && remote) {
+      if (dryRun) {
+        if (!quiet) console.log(`🟡 [DRY RUN] Delete segment: ${remote.name || remote.id}`);
+        continue;
+      }
 
-    if (dryRun) {
-      if (!quiet) console.log(`🟡 [DRY RUN] Delete segment: ${remote.name || remote.id}`);
-      continue;
+      await leadCMSDataService.deleteSegment(remote.id!);
+      console.log(`    🗑️  Deleted segment: ${remote.name || remote.id}`);
+      result.successful++;
     }
-
-    await leadCMSDataService.deleteSegment(remote.id!);
-    console.log(`    🗑️  Deleted segment: ${remote.name || remote.id}`);
   }
+
+  return result;
 }
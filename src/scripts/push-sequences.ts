@@ -12,6 +12,7 @@ import { SEQUENCES_DIR } from "./leadcms-helpers.js";
 import { leadCMSDataService } from "../lib/data-service.js";
 import { colorConsole, statusColors, diffColors } from "../lib/console-colors.js";
 import { logger } from "../lib/logger.js";
+import type { PushResult } from "../lib/push-result.js";
 import type { RemoteContext, MetadataMap } from "../lib/remote-context.js";
 import type {
   SequenceDetailsDto,
@@ -32,6 +33,8 @@ interface PushOptions {
   allowDelete?: boolean;
   quiet?: boolean;
   remoteContext?: RemoteContext;
+  /** Push the operations of this status (see buildSequenceStatus()) instead of building it again */
+  status?: SequenceStatusResult;
 }
 
 interface StatusOptions {
@@ -480,10 +483,11 @@ export async function statusSequences(options: StatusOptions = {}): Promise<void
 
 // ── Push ────────────────────────────────────────────────────────────────
 
-export async function pushSequences(options: PushOptions = {}): Promise<void> {
+export async function pushSequences(options: PushOptions = {}): Promise<PushResult> {
+  const result: PushResult = { successful: 0, failed: 0 };
   if (!leadCMSDataService.isApiKeyConfigured()) {
     console.log("⏭️  Sequences require authentication — no API key configured, skipping");
-    return;
+    return result;
   }
 
   const { force, dryRun, allowDelete, quiet, remoteContext: remoteCtx } = options;
@@ -493,19 +497,29 @@ export async function pushSequences(options: PushOptions = {}): Promise<void> {
     logger.verbose(`[PUSH] Using remote "${remoteCtx.name}" (${remoteCtx.url})`);
   }
 
-  let metadataMap: MetadataMap | undefined;
-  if (remoteCtx) {
-    const rc = await import("../lib/remote-context.js");
-    metadataMap = await rc.readMetadataMap(remoteCtx);
-  }
-
-  const localFiles = await readLocalSequences();
-  const remoteSequences = await leadCMSDataService.getAllSequences();
+  const status =
+    options.status ??
+    (await buildSequenceStatus({ showDelete: allowDelete, remoteContext: remoteCtx }));
   const { segmentMap: segNameIdMap, templateMap: tplNameIdMap } = await buildNameToIdMaps();
   const { segmentMap: segIdNameMap, templateMap: tplIdNameMap } = await buildIdToNameMaps();
 
-  for (const { filePath, sequence } of localFiles) {
-    const match = getRemoteMatch(sequence, remoteSequences, metadataMap);
+  for (const { type, local: sequence, remote, filePath } of status.operations) {
+    if (type === "delete") {
+      if (!allowDelete || !remote) continue;
+
+      if (dryRun) {
+        if (!quiet) console.log(`🟡 [DRY RUN] Delete sequence: ${remote.name || remote.id}`);
+        continue;
+      }
+
+      await leadCMSDataService.deleteSequence(remote.id!);
+      console.log(`    🗑️  Deleted sequence: ${remote.name || remote.id}`);
+      result.successful++;
+      continue;
+    }
+
+    // Remote-only sequences are pulled, not pushed
+    if (!sequence || !filePath) continue;
 
     let payload: SequenceCreateDto;
     try {
@@ -516,7 +530,8 @@ export async function pushSequences(options: PushOptions = {}): Promise<void> {
       continue;
     }
 
-    if (!match) {
+    // Sequences deleted on the remote are created again
+    if (type === "create" || type === "remote-deleted") {
       if (dryRun) {
         if (!quiet) console.log(`🟡 [DRY RUN] Create sequence: ${sequence.name}`);
         continue;
@@ -533,64 +548,41 @@ export async function pushSequences(options: PushOptions = {}): Promise<void> {
 
       console.log(`    ✅ Created sequence: ${sequence.name}`);
       await updateLocalFileAfterPush(filePath, created, segIdNameMap, tplIdNameMap, remoteCtx);
+      result.successful++;
       continue;
     }
 
-    const localUpdated = sequence.updatedAt ? new Date(sequence.updatedAt) : new Date(0);
-    const remoteUpdated = match.updatedAt ? new Date(match.updatedAt) : new Date(0);
+    if (!remote) continue;
 
-    // Use per-remote metadata timestamps for conflict detection when available
-    let lastKnownRemoteUpdated = localUpdated;
-    if (metadataMap) {
-      const lang = sequence.language || "en";
-      const meta = metadataMap.sequences?.[lang]?.[sequence.name];
-      if (meta?.updatedAt) {
-        lastKnownRemoteUpdated = new Date(meta.updatedAt);
+    if (type === "conflict") {
+      if (!force) {
+        console.warn(
+          `⚠️  Remote sequence updated after local changes: ${sequence.name} — skipping (use --force to override)`
+        );
+        continue;
       }
+      if (!hasSequenceChanges(sequence, remote, segIdNameMap, tplIdNameMap)) continue;
     }
 
-    if (!force && remoteUpdated > lastKnownRemoteUpdated) {
-      console.warn(
-        `⚠️  Remote sequence updated after local changes: ${sequence.name} — skipping (use --force to override)`
-      );
-      continue;
-    }
-
-    if (!hasSequenceChanges(sequence, match, segIdNameMap, tplIdNameMap)) continue;
-
     if (dryRun) {
-      if (!quiet) console.log(`🟡 [DRY RUN] Update sequence: ${sequence.name} (ID ${match.id})`);
+      if (!quiet) console.log(`🟡 [DRY RUN] Update sequence: ${sequence.name} (ID ${remote.id})`);
       continue;
     }
 
     // Sequences use PUT for full replace
     let updated: SequenceDetailsDto;
     try {
-      updated = await leadCMSDataService.updateSequence(match.id!, payload);
+      updated = await leadCMSDataService.updateSequence(remote.id!, payload);
     } catch (_error: unknown) {
       const error = _error as Error;
       const reason = formatSequenceApiError(error);
-      throw new Error(`Failed to update sequence "${sequence.name}" (ID ${match.id}): ${reason}`);
+      throw new Error(`Failed to update sequence "${sequence.name}" (ID ${remote.id}): ${reason}`);
     }
 
     console.log(`    ✅ Updated sequence: ${sequence.name}`);
     await updateLocalFileAfterPush(filePath, updated, segIdNameMap, tplIdNameMap, remoteCtx);
+    result.successful++;
   }
 
-  if (!allowDelete) return;
-
-  const localKeys = new Set(localFiles.map((f) => `${f.sequence.language}:${f.sequence.name}`));
-
-  for (const remote of remoteSequences) {
-    const key = `${remote.language}:${remote.name}`;
-    if (localKeys.has(key)) continue;
-
-    if (dryRun) {
-      if (!quiet) console.log(`🟡 [DRY RUN] Delete sequence: ${remote.name || remote.id}`);
-      continue;
-    }
-
-    await leadCMSDataService.deleteSequence(remote.id!);
-    console.log(`    🗑️  Deleted sequence: ${remote.name || remote.id}`);
-  }
+  return result;
 }
@@ -12,7 +12,13 @@ import {
   buildSettingsStatus,
 } from "./settings-manager.js";
 import { colorConsole, statusColors, diffColors } from "../lib/console-colors.js";
-import type { SettingsStatusResult } from "../lib/settings-types.js";
+import type { PushResult } from "../lib/push-result.js";
+import type { RemoteContext } from "../lib/remote-context.js";
+import type {
+  SettingComparisonEntry,
+  SettingPushOperation,
+  SettingsStatusResult,
+} from "../lib/settings-types.js";
 import { isMarkdownSettingKey } from "../lib/settings-types.js";
 import * as Diff from "diff";
 
@@ -36,6 +42,35 @@ export interface PushSettingsOptions {
   allowDelete?: boolean;
   /** Suppress status display (used by push-all orchestrator). */
   quiet?: boolean;
+  /** Remote to push to (multi-remote support). Default: the default remote */
+  remoteContext?: RemoteContext;
+  /** Push the comparisons of this status (see getSettingsStatusData()) instead of comparing again */
+  status?: SettingsStatusResult;
+}
+
+const PUSH_TYPES: Record<SettingComparisonEntry["status"], SettingPushOperation["type"]> = {
+  "in-sync": "unchanged",
+  "local-only": "create",
+  modified: "update",
+  "remote-only": "delete",
+};
+
+/** Push operations for the comparisons of a settings status */
+export function getStatusPushOperations(status: SettingsStatusResult): SettingPushOperation[] {
+  return status.comparisons.map((comparison) => ({
+    type: PUSH_TYPES[comparison.status],
+    key: comparison.key,
+    language: comparison.language,
+    localValue: comparison.localValue ?? "",
+    remoteValue: comparison.remoteValue,
+  }));
+}
+
+/** URL and API key of the remote settings are read from and pushed to */
+function resolveSettingsRemote(remoteContext?: RemoteContext): { url: string; apiKey?: string } {
+  return remoteContext
+    ? { url: remoteContext.url, apiKey: remoteContext.apiKey }
+    : { url: leadCMSUrl, apiKey: leadCMSApiKey };
 }
 
 export function selectOperationsForPush(
@@ -63,45 +98,52 @@ export function selectOperationsForPush(
 /**
  * Push local settings to LeadCMS.
  */
-export async function pushSettings(options: PushSettingsOptions = {}): Promise<void> {
-  const { targetName, dryRun, force, allowDelete, quiet } = options;
+export async function pushSettings(options: PushSettingsOptions = {}): Promise<PushResult> {
+  const { targetName, dryRun, force, allowDelete, quiet, remoteContext, status } = options;
+  const { url, apiKey } = resolveSettingsRemote(remoteContext);
+  const nothingPushed: PushResult = { successful: 0, failed: 0 };
 
-  if (!leadCMSApiKey) {
+  if (!apiKey) {
     if (!quiet) console.log("⏭️  Skipping settings push (no API key configured)");
-    return;
+    return nothingPushed;
   }
 
   if (!quiet) console.log(`⚙️  Pushing settings to LeadCMS...`);
 
   try {
-    // Read local settings
-    let localSettings = await readLocalSettings(SETTINGS_DIR, defaultLanguage);
+    let operations: SettingPushOperation[];
+    if (status) {
+      operations = getStatusPushOperations(status);
+    } else {
+      // Read local settings
+      let localSettings = await readLocalSettings(SETTINGS_DIR, defaultLanguage);
 
-    if (targetName) {
-      localSettings = localSettings.filter((s) => s.key === targetName);
-    }
+      if (targetName) {
+        localSettings = localSettings.filter((s) => s.key === targetName);
+      }
 
-    // Fetch remote settings for comparison
-    let allRemote = await fetchRemoteSettings(leadCMSUrl, leadCMSApiKey);
+      // Fetch remote settings for comparison
+      let allRemote = await fetchRemoteSettings(url, apiKey);
 
-    if (targetName) {
-      allRemote = allRemote.filter((s) => s.key === targetName);
-    }
+      if (targetName) {
+        allRemote = allRemote.filter((s) => s.key === targetName);
+      }
 
-    // Build operations (includes delete for remote-only settings)
-    const operations = buildSettingsPushOperations(localSettings, allRemote);
+      // Build operations (includes delete for remote-only settings)
+      operations = buildSettingsPushOperations(localSettings, allRemote);
+    }
     const changes = selectOperationsForPush(operations, Boolean(force), Boolean(allowDelete));
 
     if (changes.length === 0) {
       if (!quiet) console.log(`   ✅ All settings are in sync, nothing to push`);
-      return;
+      return nothingPushed;
     }
 
     const toPush = changes;
 
     if (toPush.length === 0) {
       if (!quiet) console.log(`   ✅ All settings are in sync, nothing to push`);
-      return;
+      return nothingPushed;
     }
 
     if (dryRun) {
@@ -114,24 +156,28 @@ export async function pushSettings(options: PushSettingsOptions = {}): Promise<v
           console.log(`     ${op.type}: ${op.key}${lang} = "${op.localValue}"`);
         }
       }
-      return;
+      return nothingPushed;
     }
 
     // Push via import API and delete remote-only settings
-    const result = await pushSettingsToRemote(toPush, leadCMSUrl, leadCMSApiKey, dryRun || false);
-
-    if (result) {
-      const deleted = toPush.filter((op) => op.type === "delete").length;
-      const parts = [`${result.added} added`, `${result.updated} updated`];
-      if (deleted > 0) parts.push(`${deleted} deleted`);
-      parts.push(`${result.failed} failed`, `${result.skipped} skipped`);
-      console.log(`   ✅ Settings push complete: ${parts.join(", ")}`);
-      if (result.errors && result.errors.length > 0) {
-        for (const err of result.errors) {
-          console.error(`   ❌ ${err.key || "unknown"}: ${err.message || "Unknown error"}`);
-        }
+    const result = await pushSettingsToRemote(toPush, url, apiKey, dryRun || false);
+
+    if (!result) {
+      return nothingPushed;
+    }
+
+    const deleted = toPush.filter((op) => op.type === "delete").length;
+    const parts = [`${result.added} added`, `${result.updated} updated`];
+    if (deleted > 0) parts.push(`${deleted} deleted`);
+    parts.push(`${result.failed} failed`, `${result.skipped} skipped`);
+    console.log(`   ✅ Settings push complete: ${parts.join(", ")}`);
+    if (result.errors && result.errors.length > 0) {
+      for (const err of result.errors) {
+        console.error(`   ❌ ${err.key || "unknown"}: ${err.message || "Unknown error"}`);
       }
     }
+    // Deleted settings are counted as updated
+    return { successful: result.added + result.updated, failed: result.failed };
   } catch (_error: unknown) {
     const error = _error as ScriptError;
     if (error.response?.status === 401) {
@@ -147,11 +193,11 @@ export async function pushSettings(options: PushSettingsOptions = {}): Promise<v
  * Show settings status (local vs remote comparison).
  */
 export async function statusSettings(
-  options: { targetName?: string; showDelete?: boolean } = {}
+  options: { targetName?: string; showDelete?: boolean; remoteContext?: RemoteContext } = {}
 ): Promise<void> {
   const { targetName, showDelete } = options;
 
-  if (!leadCMSApiKey) {
+  if (!resolveSettingsRemote(options.remoteContext).apiKey) {
     console.log("⏭️  Skipping settings status (no API key configured)");
     return;
   }
@@ -173,11 +219,12 @@ export async function statusSettings(
  * Get settings status data without rendering (for unified status view).
  */
 export async function getSettingsStatusData(
-  options: { targetName?: string; showDelete?: boolean } = {}
+  options: { targetName?: string; showDelete?: boolean; remoteContext?: RemoteContext } = {}
 ): Promise<SettingsStatusResult | null> {
   const { targetName } = options;
+  const { url, apiKey } = resolveSettingsRemote(options.remoteContext);
 
-  if (!leadCMSApiKey) {
+  if (!apiKey) {
     return null;
   }
 
@@ -185,7 +232,7 @@ export async function getSettingsStatusData(
   let localSettings = await readLocalSettings(SETTINGS_DIR, defaultLanguage);
 
   // Fetch remote settings
-  const allRemote = await fetchRemoteSettings(leadCMSUrl, leadCMSApiKey);
+  const allRemote = await fetchRemoteSettings(url, apiKey);
 
   // Build comparison
   const statusResult = buildSettingsStatus(localSettings, allRemote);
@@ -0,0 +1,383 @@
+/**
+ * Resolve merge conflicts left by pull (`leadcms resolve`).
+ *
+ * Finds content files (.md, .mdx, .json) and email templates (.html) with
+ * conflict markers and resolves them hunk by hunk (ours / theirs / both /
+ * edit) or with an external merge tool (`mergeTool` in leadcms.config.json).
+ * Results are re-validated before they are written: no conflict markers may
+ * be left and JSON files must still parse.
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import readline from "readline";
+import { spawn } from "child_process";
+import { getConfig } from "../lib/config.js";
+import { colorConsole, diffColors } from "../lib/console-colors.js";
+import {
+  applyResolutions,
+  getConflictHunks,
+  parseConflicts,
+  splitConflictVersions,
+  type ConflictHunk,
+  type HunkResolution,
+} from "../lib/conflict-resolution.js";
+import { hasMergeConflictMarkers } from "../lib/merge-conflict-detector.js";
+import { logger } from "../lib/logger.js";
+
+export interface ConflictedFile {
+  /** Absolute path */
+  filePath: string;
+  kind: "content" | "email-template";
+  /** Number of conflict hunks */
+  conflicts: number;
+}
+
+export interface MergeToolResult {
+  resolved: boolean;
+  /** Why the file is still conflicted */
+  error?: string;
+}
+
+export interface ResolveConflictsOptions {
+  /** Only resolve these files (paths relative to the working directory or absolute) */
+  files?: string[];
+  /** Resolve every file with the configured merge tool */
+  useMergeTool?: boolean;
+}
+
+export interface ResolveConflictsResult {
+  resolved: string[];
+  unresolved: string[];
+}
+
+const CONTENT_EXTENSIONS = [".md", ".mdx", ".json"];
+const EMAIL_TEMPLATE_EXTENSIONS = [".html"];
+
+async function findFilesWithMarkers(
+  dir: string,
+  extensions: string[],
+  kind: ConflictedFile["kind"]
+): Promise<ConflictedFile[]> {
+  const found: ConflictedFile[] = [];
+
+  async function walk(currentDir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(currentDir, { withFileTypes: true });
+    } catch (_error: unknown) {
+      logger.verbose(`[RESOLVE] Cannot read directory ${currentDir}: ${(_error as Error).message}`);
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(currentDir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile() && extensions.includes(path.extname(entry.name))) {
+        const content = await fs.readFile(fullPath, "utf8");
+        if (hasMergeConflictMarkers(content)) {
+          found.push({ filePath: fullPath, kind, conflicts: getConflictHunks(content).length });
+        }
+      }
+    }
+  }
+
+  await walk(dir);
+  return found;
+}
+
+/**
+ * Find content files and email templates with unresolved merge conflict markers
+ */
+export async function listConflictedFiles(): Promise<ConflictedFile[]> {
+  const config = getConfig();
+  const files = [
+    ...(await findFilesWithMarkers(path.resolve(config.contentDir), CONTENT_EXTENSIONS, "content")),
+    ...(await findFilesWithMarkers(
+      path.resolve(config.emailTemplatesDir),
+      EMAIL_TEMPLATE_EXTENSIONS,
+      "email-template"
+    )),
+  ];
+  return files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * Check resolved content before it is written.
+ * @returns An error message, or null if the content is fully resolved and valid
+ */
+export function validateResolvedContent(filePath: string, content: string): string | null {
+  if (hasMergeConflictMarkers(content)) {
+    return "conflict markers are left";
+  }
+  if (path.extname(filePath) === ".json") {
+    try {
+      JSON.parse(content);
+    } catch (error: unknown) {
+      return `invalid JSON: ${(error as Error).message}`;
+    }
+  }
+  return null;
+}
+
+function shellQuote(value: string): string {
+  return process.platform === "win32"
+    ? `"${value.replace(/"/g, '""')}"`
+    : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function runShellCommand(command: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) => resolve(code ?? 1));
+  });
+}
+
+/**
+ * Resolve a conflicted file with an external merge tool.
+ *
+ * The base, local and remote versions are written to temporary files and
+ * $BASE, $LOCAL, $REMOTE and $MERGED (the conflicted file itself) are
+ * replaced in the command. The base version only contains the lines both
+ * sides agree on. If the tool fails or its result is not valid, the file
+ * is restored.
+ */
+export async function runMergeTool(filePath: string, command: string): Promise<MergeToolResult> {
+  const original = await fs.readFile(filePath, "utf8");
+  const versions = splitConflictVersions(original);
+  const ext = path.extname(filePath);
+  const name = path.basename(filePath, ext);
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "leadcms-resolve-"));
+
+  try {
+    const paths: Record<string, string> = { MERGED: filePath };
+    for (const [key, content] of [
+      ["BASE", versions.base],
+      ["LOCAL", versions.local],
+      ["REMOTE", versions.remote],
+    ] as const) {
+      paths[key] = path.join(tmpDir, `${name}.${key}${ext}`);
+      await fs.writeFile(paths[key], content, "utf8");
+    }
+
+    const commandLine = command.replace(/\$(BASE|LOCAL|REMOTE|MERGED)\b/g, (_match, key: string) =>
+      shellQuote(paths[key])
+    );
+    logger.verbose(`[RESOLVE] Running merge tool: ${commandLine}`);
+
+    const exitCode = await runShellCommand(commandLine);
+    const merged = await fs.readFile(filePath, "utf8");
+    const error =
+      exitCode !== 0
+        ? `merge tool exited with code ${exitCode}`
+        : validateResolvedContent(filePath, merged);
+
+    if (error) {
+      await fs.writeFile(filePath, original, "utf8");
+      return { resolved: false, error };
+    }
+    return { resolved: true };
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+// ── Interactive resolution ──────────────────────────────────────────────
+
+let rl: readline.Interface | null = null;
+
+function question(prompt: string): Promise<string> {
+  if (!rl) {
+    rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  }
+  return new Promise((resolve) => rl!.question(prompt, (answer) => resolve(answer.trim())));
+}
+
+/** External programs need the terminal: close the prompt first, it is re-created on demand */
+function closeReadline(): void {
+  if (rl) {
+    rl.close();
+    rl = null;
+  }
+}
+
+/** Let the user edit text in $VISUAL / $EDITOR; returns the edited text */
+async function editInEditor(text: string, ext: string): Promise<string> {
+  const editor =
+    process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "leadcms-resolve-"));
+  const file = path.join(tmpDir, `conflict${ext}`);
+  try {
+    await fs.writeFile(file, text, "utf8");
+    closeReadline();
+    const exitCode = await runShellCommand(`${editor} ${shellQuote(file)}`);
+    if (exitCode !== 0) {
+      throw new Error(`Editor exited with code ${exitCode}`);
+    }
+    return await fs.readFile(file, "utf8");
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+function printHunk(hunk: ConflictHunk, index: number, total: number): void {
+  console.log(diffColors.header(`\n  Conflict ${index + 1}/${total} (line ${hunk.line})`));
+  console.log(diffColors.lineNumber(`  ${hunk.markers.start}`));
+  for (const line of hunk.local) console.log(diffColors.removed(`  ${line}`));
+  console.log(diffColors.lineNumber(`  ${hunk.markers.separator}`));
+  for (const line of hunk.remote) console.log(diffColors.added(`  ${line}`));
+  console.log(diffColors.lineNumber(`  ${hunk.markers.end}`));
+}
+
+type FileOutcome = "resolved" | "unresolved" | "quit";
+
+/** Edit a hunk until no conflict markers are left in it */
+async function editHunk(hunk: ConflictHunk, ext: string): Promise<HunkResolution> {
+  let text = [
+    hunk.markers.start,
+    ...hunk.local,
+    hunk.markers.separator,
+    ...hunk.remote,
+    hunk.markers.end,
+  ].join("\n");
+  for (;;) {
+    text = await editInEditor(text, ext);
+    if (!hasMergeConflictMarkers(text)) {
+      return { lines: text.replace(/\n$/, "").split("\n") };
+    }
+    colorConsole.warn("   ⚠️  The edited text still contains conflict markers.");
+    const retry = await question("   Edit again? (Y/n): ");
+    if (retry.toLowerCase() === "n") return null;
+  }
+}
+
+async function resolveFileInteractively(
+  file: ConflictedFile,
+  mergeTool: string | undefined
+): Promise<FileOutcome> {
+  const content = await fs.readFile(file.filePath, "utf8");
+  const segments = parseConflicts(content);
+  const hunks = getConflictHunks(content);
+  const ext = path.extname(file.filePath);
+  const resolutions: HunkResolution[] = [];
+
+  const choices = `[o]urs (local), [t]heirs (remote), [b]oth, [e]dit, [s]kip${
+    mergeTool ? ", [m]erge tool" : ""
+  }, [q]uit`;
+
+  for (let i = 0; i < hunks.length; i++) {
+    printHunk(hunks[i], i, hunks.length);
+    const answer = (await question(`  ${choices}: `)).toLowerCase();
+    switch (answer) {
+      case "o":
+        resolutions.push("ours");
+        break;
+      case "t":
+        resolutions.push("theirs");
+        break;
+      case "b":
+        resolutions.push("both");
+        break;
+      case "e":
+        resolutions.push(await editHunk(hunks[i], ext));
+        break;
+      case "s":
+        resolutions.push(null);
+        break;
+      case "m":
+        if (mergeTool) {
+          closeReadline();
+          return reportMergeTool(file, await runMergeTool(file.filePath, mergeTool));
+        }
+        i--;
+        break;
+      case "q":
+        return "quit";
+      default:
+        colorConsole.warn(`  Unknown choice "${answer}"`);
+        i--;
+    }
+  }
+
+  const resolved = applyResolutions(segments, resolutions);
+  const error = validateResolvedContent(file.filePath, resolved);
+  if (error && !hasMergeConflictMarkers(resolved)) {
+    // Every hunk was resolved, but the result is not valid (e.g. "both" in a JSON file)
+    colorConsole.error(`   ❌ ${relative(file.filePath)}: ${error} — file left unchanged`);
+    return "unresolved";
+  }
+
+  await fs.writeFile(file.filePath, resolved, "utf8");
+  if (error) {
+    colorConsole.warn(`   ⏭️  ${relative(file.filePath)}: skipped conflicts are left in the file`);
+    return "unresolved";
+  }
+  colorConsole.success(`   ✅ ${relative(file.filePath)} resolved`);
+  return "resolved";
+}
+
+function reportMergeTool(file: ConflictedFile, result: MergeToolResult): FileOutcome {
+  if (result.resolved) {
+    colorConsole.success(`   ✅ ${relative(file.filePath)} resolved`);
+    return "resolved";
+  }
+  colorConsole.error(`   ❌ ${relative(file.filePath)}: ${result.error} — file left unchanged`);
+  return "unresolved";
+}
+
+function relative(filePath: string): string {
+  return path.relative(process.cwd(), filePath).split(path.sep).join("/");
+}
+
+/** Print conflicted files */
+export function printConflictedFiles(files: ConflictedFile[]): void {
+  if (files.length === 0) {
+    colorConsole.success("✅ No merge conflicts found.");
+    return;
+  }
+  colorConsole.important(`\n⚠️  ${files.length} file(s) with merge conflicts:`);
+  for (const file of files) {
+    const kind = file.kind === "content" ? "content" : "email template";
+    console.log(`   ${relative(file.filePath)} (${kind}, ${file.conflicts} conflict(s))`);
+  }
+}
+
+/**
+ * Resolve conflicted files interactively, or with the merge tool when
+ * useMergeTool is set.
+ */
+export async function resolveConflicts(
+  options: ResolveConflictsOptions = {}
+): Promise<ResolveConflictsResult> {
+  const mergeTool = getConfig().mergeTool;
+  if (options.useMergeTool && !mergeTool) {
+    throw new Error('No merge tool configured. Set "mergeTool" in leadcms.config.json.');
+  }
+
+  let files = await listConflictedFiles();
+  if (options.files && options.files.length > 0) {
+    const wanted = new Set(options.files.map((file) => path.resolve(file)));
+    files = files.filter((file) => wanted.has(file.filePath));
+  }
+  printConflictedFiles(files);
+
+  const result: ResolveConflictsResult = { resolved: [], unresolved: [] };
+  try {
+    for (const [index, file] of files.entries()) {
+      colorConsole.important(`\n📄 ${relative(file.filePath)} (${index + 1}/${files.length})`);
+      const outcome = options.useMergeTool
+        ? reportMergeTool(file, await runMergeTool(file.filePath, mergeTool!))
+        : await resolveFileInteractively(file, mergeTool);
+      if (outcome === "quit") {
+        result.unresolved.push(...files.slice(index).map((f) => f.filePath));
+        break;
+      }
+      result[outcome].push(file.filePath);
+    }
+  } finally {
+    closeReadline();
+  }
+  return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * List content scheduled for publication (future publishedAt).
+ *
+ * Scheduled items are hidden as drafts until their publishedAt date, so a
+ * static site has to be rebuilt at that moment for them to appear. Output
+ * modes:
+ *   - default: upcoming publications grouped by locale and content type
+ *   - json:    { next, items } for scripts
+ *   - next:    only the next publish timestamp (ISO 8601), or nothing
+ *
+ * No remote connection is required — the schedule is read from local files.
+ */
+
+import "dotenv/config";
+import {
+  getScheduledContent,
+  type ScheduledContentItem,
+  type ScheduledContentOptions,
+} from "../lib/content-schedule.js";
+import { logger } from "../lib/logger.js";
+
+export type ScheduleOutputFormat = "text" | "json" | "next";
+
+export interface ScheduleOptions extends ScheduledContentOptions {
+  /** Output format. Default: "text" */
+  format?: ScheduleOutputFormat;
+}
+
+/**
+ * Parse an --until value: an ISO date or a relative duration ("12h", "7d")
+ * @throws Error for values that are neither
+ */
+export function parseUntil(value: string, now: number = Date.now()): Date {
+  const relative = /^(\d+)\s*([hd])$/i.exec(value.trim());
+  if (relative) {
+    const hours = Number(relative[1]) * (relative[2].toLowerCase() === "d" ? 24 : 1);
+    return new Date(now + hours * 60 * 60 * 1000);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid --until value "${value}". Use an ISO date or a duration like 7d or 12h.`
+    );
+  }
+  return date;
+}
+
+function formatRelative(date: Date): string {
+  const minutes = Math.round((date.getTime() - Date.now()) / 60000);
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `in ${hours} h`;
+  return `in ${Math.round(hours / 24)} days`;
+}
+
+function printSchedule(items: ScheduledContentItem[]): void {
+  if (items.length === 0) {
+    console.log("   ℹ️  No scheduled content.");
+    return;
+  }
+
+  const groups = new Map<string, ScheduledContentItem[]>();
+  for (const item of items) {
+    const key = `${item.locale} / ${item.type ?? "(no type)"}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  console.log(`\n📅 Scheduled content (${items.length}):`);
+  for (const key of [...groups.keys()].sort()) {
+    console.log(`\n   ${key}`);
+    for (const item of groups.get(key)!) {
+      const title = item.title ? ` — "${item.title}"` : "";
+      console.log(`      ${item.publishAt.toISOString()}  ${item.slug}${title}`);
+    }
+  }
+
+  const next = items[0].publishAt;
+  console.log(`\n   ⏭️  Next publication: ${next.toISOString()} (${formatRelative(next)})`);
+}
+
+// ── Main export ────────────────────────────────────────────────────────
+
+export async function listSchedule(options: ScheduleOptions = {}): Promise<ScheduledContentItem[]> {
+  const { format = "text", ...filters } = options;
+  const items = getScheduledContent(filters);
+  logger.verbose(`[schedule] ${items.length} scheduled item(s)`);
+
+  if (format === "next") {
+    if (items.length > 0) {
+      console.log(items[0].publishAt.toISOString());
+    }
+  } else if (format === "json") {
+    console.log(
+      JSON.stringify(
+        {
+          next: items[0]?.publishAt.toISOString() ?? null,
+          items: items.map((item) => ({ ...item, publishAt: item.publishAt.toISOString() })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    printSchedule(items);
+  }
+
+  return items;
+}
@@ -11,7 +11,9 @@ import { saveContentFile } from "../lib/content-transformation.js";
 import type { RemoteContentData } from "../lib/content-transformation.js";
 import { pullLeadCMSContent } from "./pull-leadcms-content.js";
 import { pullLeadCMSMedia } from "./pull-leadcms-media.js";
+import { runSync } from "./sync-history.js";
 import { logger } from "../lib/logger.js";
+import { requestRevalidation } from "../lib/nextjs.js";
 import type { RemoteContext } from "../lib/remote-context.js";
 
 // Type definitions
@@ -53,6 +55,7 @@ let pullQueued = false;
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
 let activeRemoteCtx: RemoteContext | undefined;
 const DEBOUNCE_MS = 300;
+const LOCK_WAIT_MS = 10 * 60_000;
 
 /**
  * Schedule a debounced, serialized content pull.
@@ -87,9 +90,22 @@ async function executePull(): Promise<void> {
   pullInProgress = true;
   try {
     logger.verbose("[SSE] Starting content+media pull (forceOverwrite)...");
-    await pullLeadCMSContent({ forceOverwrite: true, remoteContext: activeRemoteCtx });
-    await pullLeadCMSMedia({ remoteContext: activeRemoteCtx });
+    // Wait for pulls and pushes run from the CLI meanwhile instead of failing
+    await runSync("watch", { remoteContext: activeRemoteCtx, waitMs: LOCK_WAIT_MS }, async () => {
+      await pullLeadCMSContent({ forceOverwrite: true, remoteContext: activeRemoteCtx });
+      await pullLeadCMSMedia({ remoteContext: activeRemoteCtx });
+    });
     logger.verbose("[SSE] Content+media pull completed successfully");
+
+    // Let a running Next.js site pick up the new content (see createRevalidateHandler)
+    const revalidateUrl = process.env.LEADCMS_REVALIDATE_URL;
+    if (revalidateUrl) {
+      logger.verbose(`[SSE] Requesting revalidation: ${revalidateUrl}`);
+      await requestRevalidation({
+        url: revalidateUrl,
+        secret: process.env.LEADCMS_REVALIDATE_SECRET,
+      });
+    }
   } catch (_error: unknown) {
     const error = _error as Error;
     logger.verbose("[SSE] Content pull failed:", error.message);
@@ -0,0 +1,860 @@
+/**
+ * Local history of sync operations (`leadcms history` and `leadcms undo`).
+ *
+ * Pulls and pushes run through runSync(), by the CLI and `leadcms watch`,
+ * record which local files they changed: content, comments, email templates,
+ * settings, segments, sequences, redirects, media (opt-in) and the remote
+ * state (metadata maps and sync tokens). Pushes also record the remote items
+ * they changed, as the data service reports them.
+ *
+ * Storage in .leadcms/history/:
+ *   - objects/<sha256>: file contents, stored once per distinct content
+ *   - entries/<id>.json: one HistoryEntry per operation
+ *   - manifest.json: hash, size and modification time of the tracked files
+ *     after the last operation. Only files whose size or modification time
+ *     differ are read again, and their objects are kept when old entries are
+ *     pruned.
+ *
+ * Undoing an operation restores the local files it changed. For pushes, the
+ * recorded remote items are pushed back as well: updated items get their
+ * previous values, created items are deleted and deleted items are created
+ * again. Recreated items get new IDs, which the restored metadata map and
+ * local files are updated to. Comments, media and settings are only restored
+ * locally.
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { getConfig } from "../lib/config.js";
+import { colorConsole } from "../lib/console-colors.js";
+import {
+  leadCMSDataService,
+  type ObservedRemoteEntity,
+  type ObservedRemoteItems,
+} from "../lib/data-service.js";
+import {
+  toLocalRedirect,
+  toRedirectCreateDto,
+  toRedirectUpdateDto,
+  type SequenceCreateDto,
+  type SequenceDetailsDto,
+} from "../lib/automation-types.js";
+import { logger } from "../lib/logger.js";
+import {
+  readMetadataMap,
+  remotesBaseDir,
+  resolveRemote,
+  writeMetadataMap,
+  type MetadataEntry,
+  type MetadataMap,
+  type RemoteContext,
+} from "../lib/remote-context.js";
+import { withSyncLock, type SyncLockOptions } from "../lib/sync-lock.js";
+
+const HISTORY_DIR = ".leadcms/history";
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/** Remote items of the entities recorded by pushes, as the API returns them */
+export type HistoryRemoteItems = ObservedRemoteItems;
+
+/** Remote entities whose changes are recorded by pushes */
+export type HistoryRemoteEntity = ObservedRemoteEntity;
+
+export interface HistoryFileChange {
+  /** Path relative to the working directory, using forward slashes */
+  path: string;
+  /** Object hash before the operation, null if the file did not exist */
+  before: string | null;
+  /** Object hash after the operation, null if the file was deleted */
+  after: string | null;
+}
+
+export interface HistoryRemoteChange<T> {
+  id: number;
+  /** The remote item before the push, null if the push created it */
+  before: T | null;
+  /** The remote item after the push, null if the push deleted it */
+  after: T | null;
+}
+
+export type HistoryRemoteChanges = {
+  [E in HistoryRemoteEntity]?: HistoryRemoteChange<HistoryRemoteItems[E]>[];
+};
+
+export interface HistoryEntry {
+  id: string;
+  /** CLI command, e.g. "pull", "push-content" */
+  command: string;
+  kind: "pull" | "push";
+  createdAt: string;
+  /** Remote name in multi-remote mode, otherwise null */
+  remote: string | null;
+  /** Set when the operation failed; changes made until then are recorded */
+  error?: string;
+  files: HistoryFileChange[];
+  remoteChanges?: HistoryRemoteChanges;
+  undoneAt?: string;
+}
+
+export interface RecordHistoryOptions {
+  remoteContext?: RemoteContext;
+  /** Push commands: remote entities to record changes of */
+  remoteEntities?: HistoryRemoteEntity[];
+  /** Nothing is changed on a dry run, so nothing is recorded */
+  dryRun?: boolean;
+}
+
+export type SyncRunOptions = SyncLockOptions & RecordHistoryOptions;
+
+export interface UndoOptions {
+  /** Undo even if files or remote items changed since the operation */
+  force?: boolean;
+}
+
+export interface UndoResult {
+  entry: HistoryEntry;
+  restoredFiles: number;
+  /** Remote items pushed back, including the recreated ones */
+  revertedRemoteItems: number;
+  /** Remote items the operation deleted, created again with new IDs */
+  recreatedRemoteItems: number;
+}
+
+/** A tracked file: the hash of its contents, and its size and modification time when hashed */
+interface TrackedFile {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+}
+
+type Manifest = Record<string, TrackedFile>;
+
+/** Remote items recreated by an undo, by their old ID */
+type RecreatedItems = { [E in HistoryRemoteEntity]?: Map<number, HistoryRemoteItems[E]> };
+
+interface RemoteEntityAdapter<T> {
+  list(): Promise<T[]>;
+  /** Fetch one item, null if it does not exist. Without it, the item is looked up in list() */
+  get?(id: number): Promise<T | null>;
+  /** Create a recorded item again, sending the fields the API accepts for creates */
+  create(item: T): Promise<T>;
+  /** Push a recorded item back, sending the fields the API accepts for updates */
+  update(id: number, item: T): Promise<unknown>;
+  remove(id: number): Promise<void>;
+  /** Replace the IDs of recreated items that this item refers to */
+  remapIds?(item: T, recreated: RecreatedItems): T;
+}
+
+const REMOTE_ADAPTERS: {
+  [E in HistoryRemoteEntity]: RemoteEntityAdapter<HistoryRemoteItems[E]>;
+} = {
+  content: {
+    list: () => leadCMSDataService.getAllContent(),
+    get: (id) => leadCMSDataService.getContentById(id),
+    create: (item) => leadCMSDataService.createContent(stripServerFields(item)),
+    update: (id, item) => leadCMSDataService.updateContent(id, stripServerFields(item)),
+    remove: (id) => leadCMSDataService.deleteContent(id),
+  },
+  emailTemplates: {
+    list: () => leadCMSDataService.getAllEmailTemplates(),
+    create: (item) => leadCMSDataService.createEmailTemplate(stripServerFields(item)),
+    update: (id, item) => leadCMSDataService.updateEmailTemplate(id, stripServerFields(item)),
+    remove: (id) => leadCMSDataService.deleteEmailTemplate(id),
+  },
+  segments: {
+    list: () => leadCMSDataService.getAllSegments(),
+    create: ({ name, description, type, definition, contactIds }) =>
+      leadCMSDataService.createSegment({ name, description, type, definition, contactIds }),
+    update: (id, { name, description, definition, contactIds }) =>
+      leadCMSDataService.updateSegment(id, { name, description, definition, contactIds }),
+    remove: (id) => leadCMSDataService.deleteSegment(id),
+  },
+  sequences: {
+    list: () => leadCMSDataService.getAllSequences(),
+    create: (item) => {
+      const sequence = toSequenceUpdate(item);
+      // Steps of a recreated sequence are new as well
+      sequence.steps = sequence.steps?.map(({ id: _id, ...step }) => step);
+      return leadCMSDataService.createSequence(sequence);
+    },
+    update: (id, item) => leadCMSDataService.updateSequence(id, toSequenceUpdate(item)),
+    remove: (id) => leadCMSDataService.deleteSequence(id),
+    remapIds: (item, { emailTemplates, segments }) => ({
+      ...item,
+      enrollment: item.enrollment && {
+        ...item.enrollment,
+        includeSegmentIds: remapIdList(item.enrollment.includeSegmentIds, segments),
+        excludeSegmentIds: remapIdList(item.enrollment.excludeSegmentIds, segments),
+      },
+      steps: item.steps?.map((step) => ({
+        ...step,
+        emailTemplateId: remapId(step.emailTemplateId, emailTemplates),
+      })),
+    }),
+  },
+  redirects: {
+    list: () => leadCMSDataService.getAllRedirects(),
+    get: (id) => leadCMSDataService.getRedirectById(id),
+    create: (item) => leadCMSDataService.createRedirect(toRedirectCreateDto(toLocalRedirect(item))),
+    update: (id, item) =>
+      leadCMSDataService.updateRedirect(id, toRedirectUpdateDto(toLocalRedirect(item))),
+    remove: (id) => leadCMSDataService.deleteRedirect(id),
+    remapIds: (item, { content }) => ({
+      ...item,
+      fromContentId: remapId(item.fromContentId, content),
+      toContentId: remapId(item.toContentId, content),
+    }),
+  },
+};
+
+/** Remote entities recorded by pushes, in push order */
+export const HISTORY_REMOTE_ENTITIES: HistoryRemoteEntity[] = [
+  "content",
+  "emailTemplates",
+  "segments",
+  "sequences",
+  "redirects",
+];
+
+/** Undo in reverse push order, so references are removed before their targets */
+const UNDO_ORDER = [...HISTORY_REMOTE_ENTITIES].reverse();
+
+/** Fields set by the server, left out when items are pushed back */
+const SERVER_FIELDS = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "createdById",
+  "updatedById",
+  "createdByIp",
+  "createdByUserAgent",
+  "updatedByIp",
+  "updatedByUserAgent",
+];
+
+function stripServerFields<T extends object>(item: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(item).filter(([field]) => !SERVER_FIELDS.includes(field))
+  ) as Partial<T>;
+}
+
+/** The writable fields of a sequence, with the writable fields of its steps */
+function toSequenceUpdate(sequence: SequenceDetailsDto): SequenceCreateDto {
+  const { name, description, language, stopOnReply, useContactTimeZone, timeZone } = sequence;
+  return {
+    name,
+    description,
+    language,
+    stopOnReply,
+    useContactTimeZone,
+    timeZone,
+    enrollment: sequence.enrollment,
+    utmParameters: sequence.utmParameters,
+    steps: sequence.steps?.map(({ id, emailTemplateId, name, type, timing }) => ({
+      id,
+      emailTemplateId,
+      name,
+      type,
+      timing,
+    })),
+  };
+}
+
+/** The new ID of an item recreated by an undo, or `id` if it was not recreated */
+function remapId<T extends number | null | undefined>(
+  id: T,
+  recreated?: Map<number, { id?: number }>
+): T | number {
+  return (id != null ? recreated?.get(id)?.id : undefined) ?? id;
+}
+
+function remapIdList(
+  ids: number[] | null | undefined,
+  recreated?: Map<number, { id?: number }>
+): number[] | null | undefined {
+  return ids && ids.map((id) => remapId(id, recreated));
+}
+
+function historyError(name: "HistoryEntryNotFound" | "HistoryConflict", message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function historyDir(): string {
+  return path.resolve(HISTORY_DIR);
+}
+
+function objectPath(hash: string): string {
+  return path.join(historyDir(), "objects", hash);
+}
+
+function manifestPath(): string {
+  return path.join(historyDir(), "manifest.json");
+}
+
+function entryPath(id: string): string {
+  return path.join(historyDir(), "entries", `${id}.json`);
+}
+
+function toRelative(filePath: string): string {
+  return path.relative(process.cwd(), filePath).split(path.sep).join("/");
+}
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/** Directories whose files are tracked */
+function trackedDirectories(): string[] {
+  const config = getConfig();
+  const dirs = [
+    config.contentDir,
+    config.commentsDir,
+    config.emailTemplatesDir,
+    config.settingsDir,
+    config.segmentsDir,
+    config.sequencesDir,
+    config.redirectsDir,
+    ...(config.history?.includeMedia ? [config.mediaDir] : []),
+  ]
+    .filter((dir): dir is string => Boolean(dir))
+    .map((dir) => path.resolve(dir));
+  return [...new Set([...dirs, remotesBaseDir()])];
+}
+
+/**
+ * Scan the tracked files. Files whose size and modification time match their
+ * entry in `known` keep its hash; only the other files are read, hashed and
+ * saved as objects (skipped for objects that already exist).
+ */
+async function scanTrackedFiles(known: Manifest): Promise<Manifest> {
+  const manifest: Manifest = {};
+  const excluded = historyDir();
+
+  async function walk(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (fullPath === excluded) continue;
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        const relPath = toRelative(fullPath);
+        if (manifest[relPath]) continue;
+        const { size, mtimeMs } = await fs.stat(fullPath);
+        const previous = known[relPath];
+        if (previous && previous.size === size && previous.mtimeMs === mtimeMs) {
+          manifest[relPath] = previous;
+          continue;
+        }
+        const data = await fs.readFile(fullPath);
+        const hash = sha256(data);
+        await writeObject(hash, data);
+        manifest[relPath] = { hash, size, mtimeMs };
+      }
+    }
+  }
+
+  for (const dir of trackedDirectories()) {
+    await walk(dir);
+  }
+  return manifest;
+}
+
+async function writeObject(hash: string, data: Buffer): Promise<void> {
+  const file = objectPath(hash);
+  try {
+    await fs.access(file);
+  } catch {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+function diffManifests(before: Manifest, after: Manifest): HistoryFileChange[] {
+  const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...paths]
+    .filter((p) => before[p]?.hash !== after[p]?.hash)
+    .sort()
+    .map((p) => ({ path: p, before: before[p]?.hash ?? null, after: after[p]?.hash ?? null }));
+}
+
+/** Timestamp ID (YYYYMMDDHHmmssSSS), later than all existing IDs so they sort by time */
+async function newEntryId(date: Date): Promise<string> {
+  const [latest] = await listHistory();
+  let time = date.getTime();
+  const idOf = (ms: number) => new Date(ms).toISOString().replace(/[-:.TZ]/g, "");
+  while (latest && idOf(time) <= latest.id) time++;
+  return idOf(time);
+}
+
+function configureDataService(remoteContext?: RemoteContext): void {
+  if (remoteContext) {
+    leadCMSDataService.configureForRemote(remoteContext.url, remoteContext.apiKey);
+  }
+}
+
+/**
+ * Whether a remote item is unchanged since it was recorded. Items are compared
+ * by updatedAt when both have one, as list and update responses of the API
+ * may differ in other fields.
+ */
+function sameItem(current: unknown, recorded: unknown): boolean {
+  if (current == null || recorded == null) return current == null && recorded == null;
+  const currentUpdatedAt = (current as { updatedAt?: string | null }).updatedAt;
+  const recordedUpdatedAt = (recorded as { updatedAt?: string | null }).updatedAt;
+  if (currentUpdatedAt && recordedUpdatedAt) {
+    return Date.parse(currentUpdatedAt) === Date.parse(recordedUpdatedAt);
+  }
+  return JSON.stringify(current) === JSON.stringify(recorded);
+}
+
+async function fetchRemoteItem<E extends HistoryRemoteEntity>(
+  entity: E,
+  id: number,
+  lists: Map<HistoryRemoteEntity, Promise<Array<{ id?: number }>>>
+): Promise<HistoryRemoteItems[E] | null> {
+  const adapter: RemoteEntityAdapter<HistoryRemoteItems[E]> = REMOTE_ADAPTERS[entity];
+  if (adapter.get) {
+    return adapter.get(id);
+  }
+  if (!lists.has(entity)) {
+    lists.set(entity, adapter.list());
+  }
+  const items = (await lists.get(entity)!) as HistoryRemoteItems[E][];
+  return items.find((item) => item.id === id) ?? null;
+}
+
+function addRemoteChange<E extends HistoryRemoteEntity>(
+  changes: { [P in E]?: HistoryRemoteChange<HistoryRemoteItems[P]>[] },
+  entity: E,
+  id: number,
+  before: HistoryRemoteItems[E] | null,
+  after: HistoryRemoteItems[E] | null
+): void {
+  const entityChanges: HistoryRemoteChange<HistoryRemoteItems[E]>[] = (changes[entity] ??= []);
+  const recorded = entityChanges.find((change) => change.id === id);
+  if (recorded) {
+    recorded.after = after;
+  } else {
+    entityChanges.push({ id, before, after });
+  }
+}
+
+/**
+ * Record the remote items of `entities` that are created, updated and deleted
+ * through the data service until stop() is called. Items are fetched only
+ * before they are first updated or deleted, to record their previous state.
+ */
+function recordRemoteChanges(entities: HistoryRemoteEntity[]): {
+  changes: HistoryRemoteChanges;
+  stop: () => void;
+} {
+  const changes: HistoryRemoteChanges = {};
+  const previous = new Map<string, unknown>();
+  const unrecorded = new Set<string>();
+  const lists = new Map<HistoryRemoteEntity, Promise<Array<{ id?: number }>>>();
+
+  const stop = leadCMSDataService.observeRemoteChanges({
+    async beforeChange(entity, id) {
+      const key = `${entity} #${id}`;
+      if (!entities.includes(entity) || previous.has(key) || unrecorded.has(key)) return;
+      try {
+        previous.set(key, await fetchRemoteItem(entity, id, lists));
+      } catch (error: unknown) {
+        unrecorded.add(key);
+        logger.verbose(`[HISTORY] Cannot record remote ${key}: ${(error as Error).message}`);
+      }
+    },
+    changed(entity, id, item) {
+      const key = `${entity} #${id}`;
+      if (!entities.includes(entity) || unrecorded.has(key)) return;
+      const before = (previous.get(key) ?? null) as HistoryRemoteItems[typeof entity] | null;
+      addRemoteChange(changes, entity, id, before, item);
+    },
+  });
+  return { changes, stop };
+}
+
+/** Keep the newest `limit` entries and delete objects no longer referenced */
+async function pruneHistory(limit: number): Promise<void> {
+  const entries = await listHistory();
+  for (const entry of entries.slice(limit)) {
+    await fs.rm(entryPath(entry.id), { force: true });
+  }
+
+  const referenced = new Set<string>(
+    Object.values(await readJson<Manifest>(manifestPath(), {})).map((file) => file.hash)
+  );
+  for (const entry of entries.slice(0, limit)) {
+    for (const change of entry.files) {
+      if (change.before) referenced.add(change.before);
+      if (change.after) referenced.add(change.after);
+    }
+  }
+
+  let objects: string[] = [];
+  try {
+    objects = await fs.readdir(path.join(historyDir(), "objects"));
+  } catch {
+    return;
+  }
+  for (const hash of objects) {
+    if (!referenced.has(hash)) {
+      await fs.rm(objectPath(hash), { force: true });
+    }
+  }
+}
+
+/**
+ * Run a pull or push and record the local files (and, for pushes, the remote
+ * items) it changed. Operations without changes are not recorded. Failing to
+ * record does not fail the operation.
+ */
+export async function recordHistory<T>(
+  command: string,
+  options: RecordHistoryOptions,
+  run: () => Promise<T>
+): Promise<T> {
+  const historyConfig = getConfig().history ?? {};
+  if (options.dryRun || historyConfig.enabled === false) {
+    return run();
+  }
+
+  const { remoteContext, remoteEntities = [] } = options;
+  const createdAt = new Date();
+  let known: Manifest;
+  let before: Manifest;
+  try {
+    known = await readJson<Manifest>(manifestPath(), {});
+    before = await scanTrackedFiles(known);
+  } catch (error: unknown) {
+    colorConsole.warn(
+      `⚠️  Cannot scan local files, history not recorded: ${(error as Error).message}`
+    );
+    return run();
+  }
+
+  const remote = remoteEntities.length > 0 ? recordRemoteChanges(remoteEntities) : undefined;
+  let result: T | undefined;
+  let failure: unknown;
+  try {
+    result = await run();
+  } catch (error: unknown) {
+    failure = error;
+  } finally {
+    remote?.stop();
+  }
+
+  try {
+    const after = await scanTrackedFiles(before);
+    const entry: HistoryEntry = {
+      id: "",
+      command,
+      kind: command.startsWith("push") || command === "apply" ? "push" : "pull",
+      createdAt: createdAt.toISOString(),
+      remote: remoteContext?.name ?? null,
+      ...(failure ? { error: (failure as Error).message ?? String(failure) } : {}),
+      files: diffManifests(before, after),
+      ...(remote ? { remoteChanges: remote.changes } : {}),
+    };
+
+    if (JSON.stringify(after) !== JSON.stringify(known)) {
+      await writeJson(manifestPath(), after);
+    }
+    const remoteChangeCount = Object.values(entry.remoteChanges ?? {}).flat().length;
+    if (entry.files.length > 0 || remoteChangeCount > 0) {
+      entry.id = await newEntryId(createdAt);
+      await writeJson(entryPath(entry.id), entry);
+      await pruneHistory(historyConfig.limit ?? DEFAULT_HISTORY_LIMIT);
+      colorConsole.debug(`↩️  Recorded as ${entry.id}, undo with "leadcms undo ${entry.id}"`);
+    }
+  } catch (error: unknown) {
+    colorConsole.warn(`⚠️  Cannot record history: ${(error as Error).message}`);
+  }
+
+  if (failure) throw failure;
+  return result as T;
+}
+
+/**
+ * Run a pull or push while holding the sync lock, and record it in history.
+ * Every sync goes through here: the CLI commands and `leadcms watch`.
+ *
+ * @throws Error named "SyncLocked" if another run holds the lock
+ */
+export function runSync<T>(
+  command: string,
+  options: SyncRunOptions,
+  run: () => Promise<T>
+): Promise<T> {
+  return withSyncLock(command, options, () => recordHistory(command, options, run));
+}
+
+/** All recorded operations, newest first */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(historyDir(), "entries"));
+  } catch {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  for (const file of files.filter((f) => f.endsWith(".json"))) {
+    const entry = await readJson<HistoryEntry | null>(
+      path.join(historyDir(), "entries", file),
+      null
+    );
+    if (entry) entries.push(entry);
+  }
+  return entries.sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+}
+
+/**
+ * Find a recorded operation by ID or unique ID prefix
+ * @throws Error named "HistoryEntryNotFound"
+ */
+export async function getHistoryEntry(id: string): Promise<HistoryEntry> {
+  const matches = (await listHistory()).filter((entry) => entry.id.startsWith(id));
+  if (matches.length !== 1) {
+    throw historyError(
+      "HistoryEntryNotFound",
+      matches.length === 0
+        ? `No operation "${id}" in history. Run "leadcms history" to list operations.`
+        : `"${id}" matches ${matches.length} operations, use a longer ID`
+    );
+  }
+  return matches[0];
+}
+
+async function currentHash(relPath: string): Promise<string | null> {
+  try {
+    return sha256(await fs.readFile(path.resolve(relPath)));
+  } catch {
+    return null;
+  }
+}
+
+/** Create the items of one entity that the operation deleted again */
+async function recreateRemoteItems<E extends HistoryRemoteEntity>(
+  entity: E,
+  changes: HistoryRemoteChange<HistoryRemoteItems[E]>[],
+  current: Map<number, unknown>,
+  recreated: RecreatedItems
+): Promise<void> {
+  const adapter: RemoteEntityAdapter<HistoryRemoteItems[E]> = REMOTE_ADAPTERS[entity];
+  const items = new Map<number, HistoryRemoteItems[E]>();
+  for (const change of changes) {
+    if (!change.before || current.has(change.id)) continue;
+    const item = adapter.remapIds ? adapter.remapIds(change.before, recreated) : change.before;
+    items.set(change.id, await adapter.create(item));
+  }
+  if (items.size > 0) {
+    (recreated as { [P in E]?: Map<number, HistoryRemoteItems[P]> })[entity] = items;
+  }
+}
+
+/** Push back the previous state of one entity's updated items and delete the created ones */
+async function revertRemoteChanges<E extends HistoryRemoteEntity>(
+  entity: E,
+  changes: HistoryRemoteChange<HistoryRemoteItems[E]>[],
+  current: Map<number, unknown>,
+  recreated: RecreatedItems
+): Promise<number> {
+  const adapter: RemoteEntityAdapter<HistoryRemoteItems[E]> = REMOTE_ADAPTERS[entity];
+  let reverted = 0;
+  for (const change of changes) {
+    if (!current.has(change.id)) continue;
+    if (change.before) {
+      const item = adapter.remapIds ? adapter.remapIds(change.before, recreated) : change.before;
+      await adapter.update(change.id, item);
+    } else {
+      await adapter.remove(change.id);
+    }
+    reverted++;
+  }
+  return reverted;
+}
+
+/** Local directory whose files refer to remote items of an entity by ID */
+function localDirectory(entity: HistoryRemoteEntity): string | undefined {
+  const config = getConfig();
+  const dirs: Record<HistoryRemoteEntity, string | undefined> = {
+    content: config.contentDir,
+    emailTemplates: config.emailTemplatesDir,
+    segments: config.segmentsDir,
+    sequences: config.sequencesDir,
+    // Local redirects are keyed by their source, not by ID
+    redirects: undefined,
+  };
+  const dir = dirs[entity];
+  return dir ? path.resolve(dir) : undefined;
+}
+
+/** Point the metadata entries of recreated items to their new IDs and timestamps */
+function remapMetadataIds(
+  map: MetadataMap,
+  entity: HistoryRemoteEntity,
+  items: Map<number, HistoryRemoteItems[HistoryRemoteEntity]>
+): void {
+  if (entity === "redirects") {
+    for (const [key, id] of Object.entries(map.redirects ?? {})) {
+      const item = items.get(id);
+      if (item?.id != null) map.redirects![key] = item.id;
+    }
+    return;
+  }
+  const entries: MetadataEntry[] =
+    entity === "segments"
+      ? Object.values(map.segments ?? {})
+      : Object.values(map[entity] ?? {}).flatMap((byKey) => Object.values(byKey));
+  for (const entry of entries) {
+    const item = entry.id != null ? items.get(Number(entry.id)) : undefined;
+    if (item?.id == null) continue;
+    entry.id = item.id;
+    entry.createdAt = item.createdAt ?? undefined;
+    entry.updatedAt = item.updatedAt ?? undefined;
+  }
+}
+
+/**
+ * Update the restored metadata map and local files to the new IDs of the
+ * recreated items. Local files carry the IDs of the default remote.
+ */
+async function updateRecreatedIds(entry: HistoryEntry, recreated: RecreatedItems): Promise<void> {
+  const remoteContext = resolveRemote(entry.remote ?? undefined);
+  const map = await readMetadataMap(remoteContext);
+  for (const entity of HISTORY_REMOTE_ENTITIES) {
+    const items: Map<number, HistoryRemoteItems[HistoryRemoteEntity]> | undefined =
+      recreated[entity];
+    if (!items) continue;
+    remapMetadataIds(map, entity, items);
+
+    const dir = remoteContext.isDefault ? localDirectory(entity) : undefined;
+    if (!dir) continue;
+    for (const change of entry.files) {
+      const filePath = path.resolve(change.path);
+      if (!change.before || !filePath.startsWith(dir + path.sep)) continue;
+      const content = await fs.readFile(filePath, "utf8");
+      let updated = content;
+      for (const [oldId, item] of items) {
+        // Top-level `id: 12` in frontmatter, or `"id": 12,` in JSON files
+        const idLine = new RegExp(`^((?:  )?"?id"?: *)${oldId}(?=,?\\r?$)`, "m");
+        updated = updated.replace(idLine, `$1${item.id}`);
+      }
+      if (updated !== content) await fs.writeFile(filePath, updated, "utf8");
+    }
+  }
+  await writeMetadataMap(remoteContext, map);
+}
+
+/**
+ * Undo a recorded operation: restore the local files it changed and, for
+ * pushes, push the previous state of the remote items it changed. Deleted
+ * items are created again, and the metadata map and local files are updated
+ * to their new IDs.
+ *
+ * @throws Error named "HistoryEntryNotFound" if there is no such operation
+ * @throws Error named "HistoryConflict" if it was already undone, or (without
+ *         force) files or remote items changed since
+ */
+export async function undoHistoryEntry(id: string, options: UndoOptions = {}): Promise<UndoResult> {
+  const entry = await getHistoryEntry(id);
+  if (entry.undoneAt) {
+    throw historyError("HistoryConflict", `Operation ${entry.id} was already undone`);
+  }
+
+  const changedFiles: string[] = [];
+  for (const change of entry.files) {
+    if ((await currentHash(change.path)) !== change.after) changedFiles.push(change.path);
+  }
+
+  const remoteChanges = entry.remoteChanges ?? {};
+  const hasRemoteChanges = Object.values(remoteChanges).some((changes) => changes.length > 0);
+  const currentRemote: Partial<Record<HistoryRemoteEntity, Map<number, unknown>>> = {};
+  const changedRemote: string[] = [];
+  if (hasRemoteChanges) {
+    configureDataService(entry.remote ? resolveRemote(entry.remote) : undefined);
+    for (const entity of UNDO_ORDER) {
+      const changes = remoteChanges[entity];
+      if (!changes?.length) continue;
+      const items: Array<{ id?: number }> = await REMOTE_ADAPTERS[entity].list();
+      currentRemote[entity] = new Map(items.map((item) => [item.id!, item]));
+      for (const change of changes) {
+        if (!sameItem(currentRemote[entity]!.get(change.id), change.after)) {
+          changedRemote.push(`${entity} #${change.id}`);
+        }
+      }
+    }
+  }
+
+  if (!options.force && changedFiles.length + changedRemote.length > 0) {
+    const list = [...changedFiles, ...changedRemote].map((item) => `   - ${item}`).join("\n");
+    throw historyError(
+      "HistoryConflict",
+      `Changed since operation ${entry.id}, use --force to undo anyway:\n${list}`
+    );
+  }
+
+  // Recreate deleted items in push order, so items referring to them get their new IDs
+  const recreated: RecreatedItems = {};
+  for (const entity of HISTORY_REMOTE_ENTITIES) {
+    const changes = remoteChanges[entity];
+    if (!changes?.length) continue;
+    await recreateRemoteItems(entity, changes, currentRemote[entity]!, recreated);
+  }
+  let revertedRemoteItems = 0;
+  for (const entity of UNDO_ORDER) {
+    const changes = remoteChanges[entity];
+    if (!changes?.length) continue;
+    revertedRemoteItems += await revertRemoteChanges(
+      entity,
+      changes,
+      currentRemote[entity]!,
+      recreated
+    );
+  }
+  const recreatedRemoteItems = Object.values(recreated).reduce((sum, items) => sum + items.size, 0);
+
+  for (const change of entry.files) {
+    const filePath = path.resolve(change.path);
+    if (change.before) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.copyFile(objectPath(change.before), filePath);
+    } else {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+  if (recreatedRemoteItems > 0) {
+    await updateRecreatedIds(entry, recreated);
+  }
+
+  entry.undoneAt = new Date().toISOString();
+  await writeJson(entryPath(entry.id), entry);
+  return {
+    entry,
+    restoredFiles: entry.files.length,
+    revertedRemoteItems: revertedRemoteItems + recreatedRemoteItems,
+    recreatedRemoteItems,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Validate local content files against the content schemas.
+ *
+ * Every .mdx/.json file in contentDir (all locales, drafts included) whose
+ * content type has a schema is parsed and checked. Schemas come from
+ * `contentSchemas` in the config and, optionally, from a JavaScript module
+ * (--schemas <file>) exporting a `schemas` (or default) object that maps
+ * content types to Standard Schema objects (Zod, Valibot, …) or field
+ * definitions. Modules may also call registerContentSchema() themselves.
+ *
+ * No remote connection is required — run it in CI before building.
+ */
+
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import { getConfig } from "../lib/config.js";
+import { DEFAULT_READ_CONCURRENCY, getContentIndexAsync } from "../lib/content-index.js";
+import { parseContentFile } from "../lib/content-file.js";
+import {
+  defineContentSchema,
+  getContentSchema,
+  isContentValidationError,
+  registerContentSchema,
+  validateContentFileAsync,
+  type ContentSchemaDefinition,
+  type ContentValidationError,
+  type StandardSchemaV1,
+} from "../lib/content-schema.js";
+import { mapWithConcurrency } from "../lib/concurrency.js";
+import { logger } from "../lib/logger.js";
+
+export interface ValidateContentOptions {
+  /** JavaScript module with additional schemas (relative to the working directory). */
+  schemasFile?: string;
+  /** Validate these content types only. */
+  types?: string[];
+}
+
+export interface ValidateContentResult {
+  /** Number of files checked against a schema */
+  checked: number;
+  /** Number of files skipped because their type has no schema */
+  skipped: number;
+  /** Files that do not match their schema */
+  errors: ContentValidationError[];
+  /** Files that could not be read or parsed (paths relative to contentDir) */
+  unreadable: string[];
+}
+
+function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return typeof value === "object" && value !== null && "~standard" in value;
+}
+
+/**
+ * Import a schema module and register the schemas it exports.
+ * @returns Number of schemas registered from the module's exports
+ */
+export async function loadSchemaModule(file: string): Promise<number> {
+  const mod = (await import(pathToFileURL(path.resolve(file)).href)) as {
+    schemas?: unknown;
+    default?: unknown;
+  };
+  const schemas = mod.schemas ?? mod.default;
+  if (!schemas || typeof schemas !== "object") {
+    logger.verbose(`[validate-content] ${file} exports no schemas object`);
+    return 0;
+  }
+
+  let count = 0;
+  for (const [contentType, schema] of Object.entries(schemas)) {
+    registerContentSchema(
+      contentType,
+      isStandardSchema(schema) ? schema : defineContentSchema(schema as ContentSchemaDefinition)
+    );
+    count++;
+  }
+  logger.verbose(`[validate-content] Registered ${count} schema(s) from ${file}`);
+  return count;
+}
+
+// ── Main export ────────────────────────────────────────────────────────
+
+export async function validateContent(
+  options: ValidateContentOptions = {}
+): Promise<ValidateContentResult> {
+  const { schemasFile, types } = options;
+
+  if (schemasFile) {
+    await loadSchemaModule(schemasFile);
+  }
+
+  const config = getConfig();
+  const contentDir = path.resolve(config.contentDir);
+  const index = await getContentIndexAsync(contentDir, config.defaultLanguage);
+
+  const result: ValidateContentResult = { checked: 0, skipped: 0, errors: [], unreadable: [] };
+
+  const entries = index.entries.filter((entry) => {
+    if (types && (!entry.type || !types.includes(entry.type))) {
+      return false;
+    }
+    if (!entry.type || !getContentSchema(entry.type)) {
+      logger.verbose(`[validate-content] No schema for ${entry.file} — skipping`);
+      result.skipped++;
+      return false;
+    }
+    return true;
+  });
+
+  await mapWithConcurrency(entries, DEFAULT_READ_CONCURRENCY, async (entry) => {
+    const filePath = path.join(contentDir, entry.file);
+    let content;
+    try {
+      content = parseContentFile(await fs.readFile(filePath, "utf8"), entry.format, entry.slug);
+    } catch {
+      content = null;
+    }
+    if (!content) {
+      result.unreadable.push(entry.file);
+      return;
+    }
+
+    result.checked++;
+    try {
+      await validateContentFileAsync(content, filePath);
+    } catch (error) {
+      if (!isContentValidationError(error)) throw error;
+      result.errors.push(error);
+    }
+  });
+
+  // Report in a stable order regardless of completion order
+  result.errors.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  result.unreadable.sort();
+
+  for (const file of result.unreadable) {
+    console.log(`   ❌ ${file}: could not be parsed`);
+  }
+  for (const error of result.errors) {
+    console.log(`   ❌ ${path.relative(contentDir, error.filePath)} (type "${error.contentType}")`);
+    for (const issue of error.issues) {
+      console.log(`      - ${issue.path ? `${issue.path}: ` : ""}${issue.message}`);
+    }
+  }
+
+  const failed = result.errors.length + result.unreadable.length;
+  if (result.checked === 0 && failed === 0) {
+    console.log("   ℹ️  No content files with a schema — nothing to validate.");
+  } else if (failed === 0) {
+    console.log(`   ✅ ${result.checked} file(s) valid`);
+  } else {
+    console.log(`\n   ${failed} invalid file(s), ${result.checked - result.errors.length} valid`);
+  }
+  if (result.skipped > 0) {
+    console.log(`   ℹ️  Skipped ${result.skipped} file(s) without a schema`);
+  }
+
+  return result;
+}
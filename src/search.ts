@@ -0,0 +1,23 @@
+// Browser-safe client-side search entry point: @leadcms/sdk/search
+//
+// Load an index generated with `npx leadcms generate-search-index` and query it:
+//
+//   import { loadSearchIndex, searchContent } from "@leadcms/sdk/search";
+//
+//   loadSearchIndex(await fetch("/search/en.json").then((r) => r.json()));
+//   const results = searchContent("getting started", "en", { limit: 5 });
+export {
+  createSearchIndex,
+  loadSearchIndex,
+  searchContent,
+  stripMarkup,
+  tokenizeSearchText,
+  SEARCH_FIELD_WEIGHTS,
+} from "./lib/search.js";
+export type {
+  SearchDocument,
+  SearchIndex,
+  SearchOptions,
+  SearchResult,
+  SearchSourceDocument,
+} from "./lib/search.js";
@@ -0,0 +1,15 @@
+// Vite dev-server entry point: @leadcms/sdk/vite
+//
+// Reload the page when `leadcms watch` or `leadcms pull` changes local content:
+//
+//   // vite.config.ts
+//   import { leadcmsVitePlugin } from "@leadcms/sdk/vite";
+//
+//   export default defineConfig({ plugins: [leadcmsVitePlugin()] });
+export { CONTENT_UPDATE_EVENT, leadcmsVitePlugin } from "./lib/vite-plugin.js";
+export type {
+  ContentUpdateEventData,
+  LeadCMSVitePlugin,
+  LeadCMSVitePluginOptions,
+  ViteDevServerLike,
+} from "./lib/vite-plugin.js";
@@ -0,0 +1,151 @@
+/**
+ * Tests for the Astro content-layer loader (src/lib/astro-loader.ts)
+ *
+ * Covers:
+ *  - Entries per locale with frontmatter data, body and ids
+ *  - Type and locale filters, and removal of deleted entries on re-sync
+ *  - Collection schemas (explicit and registered Zod schemas)
+ *  - Re-sync through the dev server watcher
+ *
+ * Astro is not needed: the loader context is an in-memory fake.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("astro");
+const { tmpRoot, contentDir, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import { leadcmsLoader, type AstroLoaderContext } from "../src/lib/astro-loader";
+import {
+  clearContentSchemas,
+  registerContentSchema,
+  type StandardSchemaV1,
+} from "../src/lib/content-schema";
+
+type Listener = (file: string) => void;
+
+function createContext(withWatcher = false) {
+  const entries = new Map<string, { data: Record<string, unknown>; body?: string }>();
+  const listeners: Record<string, Listener[]> = {};
+  const context: AstroLoaderContext = {
+    collection: "blog",
+    store: {
+      set: (entry) => {
+        entries.set(entry.id, { data: entry.data, body: entry.body });
+        return true;
+      },
+      delete: (id) => {
+        entries.delete(id);
+      },
+      keys: () => [...entries.keys()],
+    },
+    logger: { info: jest.fn(), warn: jest.fn() },
+    parseData: async ({ data }) => data,
+    generateDigest: (data) => JSON.stringify(data),
+    ...(withWatcher
+      ? {
+          watcher: {
+            add: jest.fn(),
+            on: (event: string, listener: Listener) => {
+              (listeners[event] ??= []).push(listener);
+            },
+          },
+        }
+      : {}),
+  };
+  const emit = (event: string, file: string) => listeners[event]?.forEach((l) => l(file));
+  return { context, entries, emit };
+}
+
+beforeEach(() => {
+  fs.rmSync(contentDir, { recursive: true, force: true });
+  writeContent("blog/hello", { type: "blog-article", title: "Hello", tags: ["intro"] }, "# Hi");
+  writeContent("de/blog/hallo", { type: "blog-article", title: "Hallo" });
+  writeContent("about", { type: "page", title: "About" });
+  writeContent("blog/later", {
+    type: "blog-article",
+    title: "Later",
+    publishedAt: "2099-01-01T00:00:00Z",
+  });
+});
+
+afterEach(() => {
+  clearContentSchemas();
+  jest.useRealTimers();
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("leadcmsLoader", () => {
+  it("loads published entries of every locale", async () => {
+    const { context, entries } = createContext();
+    await leadcmsLoader().load(context);
+
+    expect([...entries.keys()].sort()).toEqual(["about", "blog/hello", "de/blog/hallo"]);
+    expect(entries.get("blog/hello")).toEqual({
+      data: expect.objectContaining({
+        slug: "blog/hello",
+        type: "blog-article",
+        title: "Hello",
+        tags: ["intro"],
+        locale: "en",
+      }),
+      body: "# Hi",
+    });
+    expect(entries.get("blog/hello")!.data).not.toHaveProperty("body");
+    expect(context.logger.info).toHaveBeenCalledWith(`Loaded 3 entries from ${contentDir}`);
+  });
+
+  it("filters by type and locale and removes deleted entries", async () => {
+    const { context, entries } = createContext();
+    const loader = leadcmsLoader({ types: ["blog-article"], locales: ["en"] });
+
+    await loader.load(context);
+    expect([...entries.keys()]).toEqual(["blog/hello"]);
+
+    fs.rmSync(path.join(contentDir, "blog/hello.mdx"));
+    await loader.load(context);
+    expect(entries.size).toBe(0);
+  });
+
+  it("uses an explicit schema or a registered Zod schema", () => {
+    const zodLike = {
+      "~standard": { version: 1, vendor: "zod", validate: (value: unknown) => ({ value }) },
+    } as StandardSchemaV1;
+    const valibotLike = {
+      "~standard": { version: 1, vendor: "valibot", validate: (value: unknown) => ({ value }) },
+    } as StandardSchemaV1;
+
+    expect(leadcmsLoader({ schema: valibotLike }).schema).toBe(valibotLike);
+    registerContentSchema("blog-article", zodLike);
+    registerContentSchema("page", valibotLike);
+    expect(leadcmsLoader({ types: ["blog-article"] }).schema).toBe(zodLike);
+    expect(leadcmsLoader({ types: ["page"] }).schema).toBeUndefined();
+    expect(leadcmsLoader().schema).toBeUndefined();
+  });
+
+  it("re-syncs when watched content changes", async () => {
+    jest.useFakeTimers();
+    const { context, entries, emit } = createContext(true);
+    await leadcmsLoader().load(context);
+    expect(context.watcher!.add).toHaveBeenCalledWith(path.resolve(contentDir));
+
+    writeContent("blog/new", { type: "blog-article", title: "New" });
+    emit("add", path.join(contentDir, "blog/new.mdx"));
+    emit("change", path.join(tmpRoot, "unrelated.txt"));
+    expect(entries.has("blog/new")).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(entries.get("blog/new")?.data.title).toBe("New");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for the async read API (src/lib/cms.ts, src/lib/content-index.ts,
+ * src/lib/concurrency.ts)
+ *
+ * Covers:
+ *  - Parity of every async variant with its sync counterpart on the fixtures
+ *  - The same draft and user-override rules in production and preview mode
+ *  - Async index refresh matching the sync walk, with shared in-flight refreshes
+ *  - Bounded parallelism and result ordering of mapWithConcurrency()
+ */
+
+import {
+  getAllContentForLocale,
+  getAllContentForLocaleAsync,
+  getAllContentRoutes,
+  getAllContentRoutesAsync,
+  getAllContentSlugs,
+  getAllContentSlugsAsync,
+  getAllContentSlugsForLocale,
+  getAllContentSlugsForLocaleAsync,
+  getAvailableLanguages,
+  getAvailableLanguagesAsync,
+  getCMSContentBySlug,
+  getCMSContentBySlugAsync,
+  getCMSContentBySlugForLocale,
+  getCMSContentBySlugForLocaleAsync,
+} from "../src/lib/cms";
+import {
+  clearContentIndexCache,
+  getContentIndex,
+  getContentIndexAsync,
+} from "../src/lib/content-index";
+import { mapWithConcurrency } from "../src/lib/concurrency";
+import { configure } from "../src/lib/config";
+import { FIXTURES_CONTENT_DIR, TEST_USER_UID } from "./setup";
+
+const modes: [string, boolean][] = [
+  ["production", false],
+  ["preview", true],
+];
+
+describe.each(modes)("async read API in %s mode", (_mode, preview) => {
+  beforeEach(() => {
+    configure({ preview });
+    clearContentIndexCache();
+  });
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    configure({} as any);
+  });
+
+  it.each([undefined, TEST_USER_UID])(
+    "lists the same slugs and content (userUid: %s)",
+    async (uid) => {
+      for (const locale of ["en", "es"]) {
+        expect(await getAllContentSlugsForLocaleAsync(locale, undefined, uid)).toEqual(
+          getAllContentSlugsForLocale(locale, undefined, uid)
+        );
+        expect(await getAllContentForLocaleAsync(locale, undefined, uid)).toEqual(
+          getAllContentForLocale(locale, undefined, uid)
+        );
+      }
+      expect(await getAllContentForLocaleAsync("en", ["article"], uid)).toEqual(
+        getAllContentForLocale("en", ["article"], uid)
+      );
+      expect(await getAllContentSlugsAsync(undefined, uid)).toEqual(
+        getAllContentSlugs(undefined, uid)
+      );
+      expect(await getAllContentRoutesAsync(undefined, uid)).toEqual(
+        getAllContentRoutes(undefined, uid)
+      );
+    }
+  );
+
+  it.each([
+    ["published-article", undefined],
+    ["home", undefined],
+    ["draft-article", undefined],
+    [`home-${TEST_USER_UID}`, undefined],
+    ["published-article", TEST_USER_UID],
+    ["blog/post-1", undefined],
+    ["json-article", undefined],
+    ["missing", undefined],
+  ])("resolves %s (userUid: %s) like the sync lookup", async (slug, uid) => {
+    expect(await getCMSContentBySlugForLocaleAsync(slug, "en", uid)).toEqual(
+      getCMSContentBySlugForLocale(slug, "en", uid)
+    );
+    expect(await getCMSContentBySlugForLocaleAsync(slug, "es", uid)).toEqual(
+      getCMSContentBySlugForLocale(slug, "es", uid)
+    );
+    expect(await getCMSContentBySlugAsync(slug, uid)).toEqual(getCMSContentBySlug(slug, uid));
+  });
+
+  it("lists the same languages", async () => {
+    expect(await getAvailableLanguagesAsync()).toEqual(getAvailableLanguages());
+  });
+});
+
+describe("getContentIndexAsync", () => {
+  beforeEach(() => {
+    clearContentIndexCache();
+  });
+
+  it("matches the sync index and shares concurrent refreshes", async () => {
+    const [first, second] = await Promise.all([
+      getContentIndexAsync(FIXTURES_CONTENT_DIR, "en", 2),
+      getContentIndexAsync(FIXTURES_CONTENT_DIR, "en", 2),
+    ]);
+    expect(second).toBe(first);
+
+    clearContentIndexCache();
+    expect(getContentIndex(FIXTURES_CONTENT_DIR, "en").entries).toEqual(first.entries);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      active--;
+      return i;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxActive).toBe(2);
+  });
+
+  it("handles empty input", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for paged comment threads (src/lib/comment-pagination.ts)
+ *
+ * Covers:
+ *  - Pages by number and by cursor, for every sort order
+ *  - Cursor stability when comments are added between requests
+ *  - Reply subtrees loaded on demand
+ *  - Cached statistics and cache invalidation
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-comments-page-"));
+const contentDir = path.join(tmpRoot, "content");
+const commentsDir = path.join(tmpRoot, "comments");
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir,
+    commentsDir,
+    mediaDir: path.join(tmpRoot, "media"),
+    enableDrafts: false,
+  }),
+  isPreviewMode: () => false,
+  clearConfigCache: jest.fn(),
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import * as commentUtils from "../src/lib/comment-utils";
+import type { StoredComment } from "../src/lib/comment-types";
+import {
+  getCommentReplies,
+  getCommentsPage,
+  getCommentsPageForContent,
+  getCommentsStatistics,
+} from "../src/lib/comment-pagination";
+import { invalidateContentCache } from "../src/lib/content-watch";
+
+function comment(id: number, createdAt: string, parentId: number | null = null): StoredComment {
+  return {
+    id,
+    parentId,
+    authorName: `Author ${id % 3}`,
+    body: `Comment ${id}`,
+    createdAt,
+    commentableId: 1,
+    commentableType: "Content",
+    language: "en",
+  };
+}
+
+// Threads 1-4 with replies: 1 has 2 (one nested), 3 has 1; 5 shares 4's timestamp
+const COMMENTS: StoredComment[] = [
+  comment(1, "2024-01-01T00:00:00Z"),
+  comment(2, "2024-01-02T00:00:00Z"),
+  comment(3, "2024-01-03T00:00:00Z"),
+  comment(4, "2024-01-04T00:00:00Z"),
+  comment(5, "2024-01-04T00:00:00Z"),
+  comment(10, "2024-01-05T00:00:00Z", 1),
+  comment(11, "2024-01-06T00:00:00Z", 10),
+  comment(12, "2024-01-07T00:00:00Z", 3),
+];
+
+function writeComments(comments: StoredComment[], file = path.join("content", "1.json")) {
+  const filePath = path.join(commentsDir, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(comments));
+  return filePath;
+}
+
+function ids(nodes: { id: number }[]): number[] {
+  return nodes.map((node) => node.id);
+}
+
+beforeEach(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+  writeComments(COMMENTS);
+  invalidateContentCache();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("getCommentsPage", () => {
+  it("returns top-level threads with totals and without replies", () => {
+    const page = getCommentsPage("Content", 1, { pageSize: 2 });
+
+    expect(ids(page.threads)).toEqual([1, 2]);
+    expect(page).toMatchObject({
+      page: 1,
+      pageSize: 2,
+      totalPages: 3,
+      totalThreads: 5,
+      totalComments: 8,
+    });
+    expect(page.threads[0]).toMatchObject({ children: [], isLeaf: false, threadCount: 3 });
+    expect(page.threads[1]).toMatchObject({ children: [], isLeaf: true, threadCount: 1 });
+    expect(ids(getCommentsPage("Content", 1, { pageSize: 2, page: 3 }).threads)).toEqual([5]);
+  });
+
+  it("pages through every sort order with cursors", () => {
+    const expected = {
+      default: [1, 2, 3, 4, 5],
+      oldest: [1, 2, 3, 4, 5],
+      newest: [4, 5, 3, 2, 1],
+      "most-replies": [1, 3, 2, 4, 5],
+      "least-replies": [2, 4, 5, 3, 1],
+    } as const;
+
+    for (const [sort, order] of Object.entries(expected)) {
+      const seen: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = getCommentsPage("Content", 1, {
+          pageSize: 2,
+          sort: sort as keyof typeof expected,
+          cursor,
+        });
+        seen.push(...ids(page.threads));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      expect(seen).toEqual(order);
+    }
+  });
+
+  it("keeps cursors stable when new threads are added", () => {
+    const first = getCommentsPage("Content", 1, { pageSize: 2, sort: "newest" });
+    expect(ids(first.threads)).toEqual([4, 5]);
+
+    writeComments([...COMMENTS, comment(20, "2024-02-01T00:00:00Z")]);
+    const second = getCommentsPage("Content", 1, {
+      pageSize: 2,
+      sort: "newest",
+      cursor: first.nextCursor!,
+    });
+    expect(ids(second.threads)).toEqual([3, 2]);
+    expect(second).toMatchObject({ page: 2, totalThreads: 6 });
+  });
+
+  it("includes the requested reply levels", () => {
+    const [thread] = getCommentsPage("Content", 1, { pageSize: 1, replyDepth: 1 }).threads;
+    expect(ids(thread.children)).toEqual([10]);
+    expect(thread.children[0]).toMatchObject({ children: [], isLeaf: false, threadCount: 2 });
+  });
+
+  it("rejects cursors of another sort order", () => {
+    const { nextCursor } = getCommentsPage("Content", 1, { pageSize: 1 });
+    expect(() => getCommentsPage("Content", 1, { sort: "newest", cursor: nextCursor! })).toThrow(
+      expect.objectContaining({ name: "InvalidCommentsCursor" })
+    );
+    expect(() => getCommentsPage("Content", 1, { cursor: "not-a-cursor" })).toThrow(
+      /Invalid comments cursor/
+    );
+  });
+
+  it("returns an empty page for entities without comments", () => {
+    expect(getCommentsPage("Content", 999)).toEqual({
+      threads: [],
+      page: 1,
+      pageSize: 20,
+      totalPages: 0,
+      totalThreads: 0,
+      totalComments: 0,
+      nextCursor: null,
+    });
+    expect(getCommentsPageForContent("missing-slug").threads).toEqual([]);
+  });
+});
+
+describe("getCommentReplies", () => {
+  it("loads reply subtrees on demand", () => {
+    expect(ids(getCommentReplies("Content", 1, 1))).toEqual([10]);
+    expect(ids(getCommentReplies("Content", 1, 1)[0].children)).toEqual([11]);
+    expect(getCommentReplies("Content", 1, 1, { replyDepth: 0 })[0].children).toEqual([]);
+    expect(getCommentReplies("Content", 1, 2)).toEqual([]);
+    expect(getCommentReplies("Content", 1, 404)).toEqual([]);
+  });
+});
+
+describe("getCommentsStatistics", () => {
+  it("computes statistics once per file version", () => {
+    const spy = jest.spyOn(commentUtils, "getCommentStatistics");
+
+    expect(getCommentsStatistics("Content", 1)).toMatchObject({
+      total: 8,
+      threads: 5,
+      replies: 3,
+      maxDepth: 2,
+    });
+    getCommentsStatistics("Content", 1);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    const filePath = writeComments(COMMENTS.slice(0, 5));
+    invalidateContentCache(filePath);
+    expect(getCommentsStatistics("Content", 1)).toMatchObject({ total: 5, replies: 0 });
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads localized comment files", () => {
+    writeComments(COMMENTS.slice(0, 2), path.join("de", "content", "1.json"));
+    expect(getCommentsStatistics("Content", 1, "de").total).toBe(2);
+    expect(getCommentsStatistics("Content", 2).total).toBe(0);
+  });
+});
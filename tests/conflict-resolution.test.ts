@@ -0,0 +1,110 @@
+/**
+ * Tests for resolving merge conflict markers (src/lib/conflict-resolution.ts)
+ *
+ * Covers:
+ *  - Parsing hunks from threeWayMerge() and threeWayMergeJson() output
+ *  - Resolving hunks to ours / theirs / both / custom lines, or leaving them
+ *  - Reconstructing base / local / remote versions for merge tools
+ */
+
+import { threeWayMerge, threeWayMergeJson } from "../src/lib/content-merge";
+import {
+  applyResolutions,
+  getConflictHunks,
+  parseConflicts,
+  splitConflictVersions,
+} from "../src/lib/conflict-resolution";
+import { hasMergeConflictMarkers } from "../src/lib/merge-conflict-detector";
+
+const base = "---\ntitle: Hello\n---\nFirst line\nSecond line\n";
+const local = "---\ntitle: Hello local\n---\nFirst line\nSecond line\n";
+const remote = "---\ntitle: Hello remote\n---\nFirst line\nSecond line\n";
+
+describe("parseConflicts", () => {
+  it("splits merged content into text and conflict hunks", () => {
+    const { merged } = threeWayMerge(base, local, remote);
+    const hunks = getConflictHunks(merged);
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({
+      local: ["title: Hello local"],
+      remote: ["title: Hello remote"],
+      markers: { start: "<<<<<<< local", separator: "=======", end: ">>>>>>> remote" },
+      line: 2,
+    });
+  });
+
+  it("keeps incomplete markers as text", () => {
+    const content = "Example:\n=======\n<<<<<<< only a start marker\n";
+    const segments = parseConflicts(content);
+
+    expect(segments).toEqual([{ type: "text", lines: content.split("\n") }]);
+    expect(applyResolutions(segments, [])).toBe(content);
+  });
+});
+
+describe("applyResolutions", () => {
+  const merged = [
+    "intro",
+    "<<<<<<< local",
+    "a local",
+    "=======",
+    "a remote",
+    ">>>>>>> remote",
+    "middle",
+    "<<<<<<< local",
+    "b local",
+    "=======",
+    "b remote",
+    ">>>>>>> remote",
+    "",
+  ].join("\n");
+
+  it("resolves each hunk as chosen", () => {
+    const segments = parseConflicts(merged);
+
+    expect(applyResolutions(segments, ["ours", "theirs"])).toBe(
+      "intro\na local\nmiddle\nb remote\n"
+    );
+    expect(applyResolutions(segments, ["both", { lines: ["b edited"] }])).toBe(
+      "intro\na local\na remote\nmiddle\nb edited\n"
+    );
+  });
+
+  it("keeps markers of unresolved hunks", () => {
+    const resolved = applyResolutions(parseConflicts(merged), ["ours", null]);
+
+    expect(hasMergeConflictMarkers(resolved)).toBe(true);
+    expect(getConflictHunks(resolved)).toHaveLength(1);
+    expect(applyResolutions(parseConflicts(merged), [])).toBe(merged);
+  });
+
+  it("resolves structural JSON conflicts to valid JSON", () => {
+    const { merged: json } = threeWayMergeJson(
+      JSON.stringify({ title: "Base", body: "Text" }),
+      JSON.stringify({ title: "Local", body: "Text" }),
+      JSON.stringify({ title: "Remote", body: "Text" })
+    );
+    const segments = parseConflicts(json);
+
+    expect(JSON.parse(applyResolutions(segments, ["ours"]))).toEqual({
+      title: "Local",
+      body: "Text",
+    });
+    expect(JSON.parse(applyResolutions(segments, ["theirs"]))).toEqual({
+      title: "Remote",
+      body: "Text",
+    });
+  });
+});
+
+describe("splitConflictVersions", () => {
+  it("reconstructs the sides and the lines both agree on", () => {
+    const { merged } = threeWayMerge(base, local, remote);
+    const versions = splitConflictVersions(merged);
+
+    expect(versions.local).toBe(local);
+    expect(versions.remote).toBe(remote);
+    expect(versions.base).toBe("---\n---\nFirst line\nSecond line\n");
+  });
+});
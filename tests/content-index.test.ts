@@ -0,0 +1,198 @@
+/**
+ * Tests for the persistent content index (src/lib/content-index.ts)
+ *
+ * Covers:
+ *  - Entry identity (slug, locale, type, frontmatter) for default and locale directories
+ *  - Persisting the index next to contentDir
+ *  - Incremental refresh: unchanged / updated / added / removed files
+ *  - In-memory fallback when the persisted index is stale or missing
+ *  - Reuse of persisted entries when mtime and size are unchanged
+ *  - Listing and lookup helpers used by cms.ts
+ *  - Validation walk at most once per event loop turn, or once while watched
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  buildContentIndex,
+  clearContentIndexCache,
+  findIndexEntry,
+  getContentIndex,
+  getContentIndexPath,
+  invalidateContentIndex,
+  listIndexEntries,
+  watchContentIndex,
+} from "../src/lib/content-index";
+
+describe("content index", () => {
+  let tmpRoot: string;
+  let contentDir: string;
+
+  const nextTurn = () => new Promise((resolve) => setImmediate(resolve));
+
+  const writeFile = (relPath: string, contents: string) => {
+    const filePath = path.join(contentDir, relPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+  };
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-content-index-"));
+    contentDir = path.join(tmpRoot, ".leadcms", "content");
+    clearContentIndexCache();
+
+    writeFile(
+      "about.mdx",
+      `---\ntype: page\ntitle: About\npublishedAt: "2024-01-01T00:00:00Z"\n---\nAbout body`
+    );
+    writeFile("blog/post-1.mdx", `---\ntype: blog-article\ntitle: Post 1\n---\nPost body`);
+    writeFile("header.json", JSON.stringify({ type: "component", title: "Header", body: "x" }));
+    writeFile("es/about.mdx", `---\ntype: page\ntitle: Acerca\n---\nAcerca body`);
+    writeFile("notes.txt", "ignored");
+  });
+
+  afterEach(() => {
+    clearContentIndexCache();
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  it("indexes slug, locale, type and frontmatter for every content file", () => {
+    const index = getContentIndex(contentDir, "en");
+    const byFile = Object.fromEntries(index.entries.map((e) => [e.file, e]));
+
+    expect(Object.keys(byFile).sort()).toEqual([
+      "about.mdx",
+      "blog/post-1.mdx",
+      "es/about.mdx",
+      "header.json",
+    ]);
+    expect(byFile["blog/post-1.mdx"]).toMatchObject({
+      slug: "blog/post-1",
+      locale: "en",
+      type: "blog-article",
+      format: "mdx",
+    });
+    expect(byFile["es/about.mdx"]).toMatchObject({ slug: "about", locale: "es", type: "page" });
+    expect(byFile["about.mdx"].frontmatter?.title).toBe("About");
+    expect(byFile["about.mdx"].hash).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it("omits the body field of JSON content from the frontmatter", () => {
+    const entry = findIndexEntry(getContentIndex(contentDir, "en"), "", "header");
+    expect(entry?.format).toBe("json");
+    expect(entry?.frontmatter).toEqual({ type: "component", title: "Header" });
+  });
+
+  it("persists the index next to contentDir", async () => {
+    const result = await buildContentIndex(contentDir, "en");
+
+    expect(result.filePath).toBe(path.join(tmpRoot, ".leadcms", "content-index.json"));
+    expect(getContentIndexPath(contentDir)).toBe(result.filePath);
+    expect(result.added).toBe(4);
+
+    const persisted = JSON.parse(fs.readFileSync(result.filePath, "utf8"));
+    expect(persisted.contentDir).toBe(path.resolve(contentDir));
+    expect(persisted.entries).toHaveLength(4);
+  });
+
+  it("refreshes incrementally on rebuild", async () => {
+    await buildContentIndex(contentDir, "en");
+
+    writeFile("blog/post-1.mdx", `---\ntype: blog-article\ntitle: Post 1 (edited)\n---\nBody`);
+    writeFile("blog/post-2.mdx", `---\ntype: blog-article\ntitle: Post 2\n---\nBody`);
+    fs.unlinkSync(path.join(contentDir, "header.json"));
+
+    const result = await buildContentIndex(contentDir, "en");
+    expect(result).toMatchObject({ added: 1, updated: 1, removed: 1, unchanged: 2 });
+    expect(findIndexEntry(result.index, "", "blog/post-1")?.frontmatter?.title).toBe(
+      "Post 1 (edited)"
+    );
+  });
+
+  it("falls back to an in-memory refresh when the persisted index is stale", async () => {
+    await buildContentIndex(contentDir, "en");
+    writeFile("new-page.mdx", `---\ntype: page\n---\nNew`);
+
+    const index = getContentIndex(contentDir, "en");
+    expect(findIndexEntry(index, "", "new-page")).toBeDefined();
+
+    // getContentIndex never writes the file
+    const persisted = JSON.parse(fs.readFileSync(getContentIndexPath(contentDir), "utf8"));
+    expect(persisted.entries).toHaveLength(4);
+  });
+
+  it("reuses persisted entries whose mtime and size are unchanged", async () => {
+    const { filePath } = await buildContentIndex(contentDir, "en");
+    clearContentIndexCache();
+
+    // Tamper with the persisted frontmatter; a re-parse would restore "About"
+    const persisted = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const about = persisted.entries.find((e: { file: string }) => e.file === "about.mdx");
+    about.frontmatter.title = "From index";
+    fs.writeFileSync(filePath, JSON.stringify(persisted));
+
+    const index = getContentIndex(contentDir, "en");
+    expect(findIndexEntry(index, "", "about")?.frontmatter?.title).toBe("From index");
+  });
+
+  it("ignores a persisted index built for a different default language", async () => {
+    await buildContentIndex(contentDir, "en");
+    clearContentIndexCache();
+
+    const index = getContentIndex(contentDir, "es");
+    expect(findIndexEntry(index, "", "es/about")?.locale).toBe("es");
+    expect(findIndexEntry(index, "", "about")?.locale).toBe("es");
+  });
+
+  it("lists entries below a prefix and skips excluded language directories", () => {
+    const index = getContentIndex(contentDir, "en");
+
+    const rootSlugs = listIndexEntries(index, "", ["es"]).map((e) => e.slug);
+    expect(rootSlugs.sort()).toEqual(["about", "blog/post-1", "header"]);
+
+    const esSlugs = listIndexEntries(index, "es").map((e) => e.slug);
+    expect(esSlugs).toEqual(["about"]);
+  });
+
+  it("prefers .mdx over .json for the same slug", () => {
+    writeFile("dup.json", JSON.stringify({ type: "page" }));
+    writeFile("dup.mdx", `---\ntype: page\n---\nBody`);
+
+    expect(findIndexEntry(getContentIndex(contentDir, "en"), "", "dup")?.format).toBe("mdx");
+  });
+
+  it("returns an empty index for a missing content directory", () => {
+    const index = getContentIndex(path.join(tmpRoot, "missing"), "en");
+    expect(index.entries).toEqual([]);
+  });
+
+  it("validates the index at most once per event loop turn", async () => {
+    const first = getContentIndex(contentDir, "en");
+    writeFile("new-page.mdx", `---\ntype: page\n---\nNew`);
+
+    expect(getContentIndex(contentDir, "en")).toBe(first);
+
+    await nextTurn();
+    expect(findIndexEntry(getContentIndex(contentDir, "en"), "", "new-page")).toBeDefined();
+  });
+
+  it("trusts the index of a watched directory until it is invalidated", async () => {
+    const stop = watchContentIndex(contentDir);
+    try {
+      const first = getContentIndex(contentDir, "en");
+      writeFile("new-page.mdx", `---\ntype: page\n---\nNew`);
+
+      await nextTurn();
+      expect(getContentIndex(contentDir, "en")).toBe(first);
+
+      invalidateContentIndex(contentDir, ["new-page.mdx"]);
+      expect(findIndexEntry(getContentIndex(contentDir, "en"), "", "new-page")).toBeDefined();
+    } finally {
+      stop();
+    }
+
+    writeFile("other-page.mdx", `---\ntype: page\n---\nOther`);
+    expect(findIndexEntry(getContentIndex(contentDir, "en"), "", "other-page")).toBeDefined();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for navigation helpers (src/lib/content-navigation.ts)
+ *
+ * Covers:
+ *  - Nesting of slugs into a tree, with nodes for segments without content
+ *  - Sibling ordering by frontmatter `order` (empty values ignored), then title
+ *  - Content type filtering, draft exclusion and locale-aware paths
+ *  - Breadcrumb trails, without fallback-locale ancestors
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("navigation", { config: { localeFallbacks: { de: ["en"] } } });
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import {
+  getBreadcrumbs,
+  getContentTree,
+  type ContentTreeNode,
+} from "../src/lib/content-navigation";
+
+beforeAll(() => {
+  writeContent("docs", { type: "doc", title: "Documentation" });
+  writeContent("docs/intro", { type: "doc", title: "Introduction", order: 1 });
+  writeContent("docs/faq", { type: "doc", title: "FAQ", order: 3 });
+  writeContent("docs/getting-started/install", { type: "doc", title: "Install", order: 2 });
+  writeContent("docs/getting-started/configure", { type: "doc", title: "Configure", order: 1 });
+  writeContent("docs/appendix", { type: "doc", title: "Appendix", order: " " });
+  writeContent("docs/draft", { type: "doc", title: "Draft", publishedAt: null });
+  writeContent("about", { type: "page", title: "About" });
+  writeContent("es/docs/intro", { type: "doc", title: "Introducción" });
+  writeContent("de/docs/intro", { type: "doc", title: "Einführung" });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+const titles = (nodes: ContentTreeNode[]) => nodes.map((node) => node.title);
+
+describe("getContentTree", () => {
+  it("nests content by slug and sorts siblings by order, then title", () => {
+    const tree = getContentTree("en", ["doc"]);
+
+    expect(titles(tree)).toEqual(["Documentation"]);
+    const docs = tree[0];
+    expect(docs).toMatchObject({ slug: "docs", path: "/docs", hasContent: true, type: "doc" });
+    expect(titles(docs.children)).toEqual(["Introduction", "FAQ", "Appendix", "Getting started"]);
+  });
+
+  it("creates nodes for intermediate segments without content", () => {
+    const docs = getContentTree("en", ["doc"])[0];
+    const gettingStarted = docs.children.find((node) => node.segment === "getting-started")!;
+
+    expect(gettingStarted).toMatchObject({
+      slug: "docs/getting-started",
+      hasContent: false,
+      path: "/docs/getting-started",
+    });
+    expect(gettingStarted.type).toBeUndefined();
+    expect(titles(gettingStarted.children)).toEqual(["Configure", "Install"]);
+  });
+
+  it("includes all types by default and excludes drafts", () => {
+    const tree = getContentTree();
+    expect(titles(tree)).toEqual(["About", "Documentation"]);
+    expect(JSON.stringify(tree)).not.toContain("docs/draft");
+  });
+
+  it("prefixes paths with the locale for non-default languages", () => {
+    expect(getContentTree("es")).toEqual([
+      expect.objectContaining({
+        slug: "docs",
+        hasContent: false,
+        children: [expect.objectContaining({ title: "Introducción", path: "/es/docs/intro" })],
+      }),
+    ]);
+  });
+});
+
+describe("getBreadcrumbs", () => {
+  it("returns one entry per slug prefix", () => {
+    expect(getBreadcrumbs("docs/getting-started/install")).toEqual([
+      { slug: "docs", title: "Documentation", path: "/docs", hasContent: true },
+      {
+        slug: "docs/getting-started",
+        title: "Getting started",
+        path: "/docs/getting-started",
+        hasContent: false,
+      },
+      {
+        slug: "docs/getting-started/install",
+        title: "Install",
+        path: "/docs/getting-started/install",
+        hasContent: true,
+      },
+    ]);
+  });
+
+  it("uses the requested locale", () => {
+    expect(getBreadcrumbs("docs/intro", "es").map((b) => [b.title, b.path])).toEqual([
+      ["Docs", "/es/docs"],
+      ["Introducción", "/es/docs/intro"],
+    ]);
+  });
+
+  it("does not resolve ancestors through locale fallbacks", () => {
+    expect(getBreadcrumbs("docs/intro", "de")).toEqual([
+      { slug: "docs", title: "Docs", path: "/de/docs", hasContent: false },
+      { slug: "docs/intro", title: "Einführung", path: "/de/docs/intro", hasContent: true },
+    ]);
+  });
+});
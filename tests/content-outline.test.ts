@@ -0,0 +1,89 @@
+/**
+ * Tests for content outlines (src/lib/content-outline.ts)
+ *
+ * Covers:
+ *  - Headings with unique, slugified anchor ids and custom ids
+ *  - Code fences, ESM statements, comments and JSX blocks being skipped
+ *  - Word count, reading time and excerpts
+ */
+
+import { countWords, getContentOutline } from "../src/lib/content-outline";
+
+const body = `import { Callout } from "../components";
+
+Welcome to the **LeadCMS** guide. It explains [setup](/docs/setup) and more.
+
+## Getting Started
+
+Install the SDK first.
+
+\`\`\`bash
+## not a heading
+npm install @leadcms/sdk
+\`\`\`
+
+<Callout type="info" title="Note > tip">
+  ## Hidden heading
+
+  Text inside the callout.
+</Callout>
+
+<Chart data={[1, 2]} options={{ stacked: a > b }} />
+
+### FAQ
+
+{/* ## Commented heading */}
+
+### FAQ
+
+## Configuration \`options\` {#config}
+
+<img src="/diagram.png" alt="Diagram">
+
+#### Deep heading
+
+Done.
+`;
+
+describe("getContentOutline", () => {
+  it("extracts headings with unique anchor ids", () => {
+    expect(getContentOutline(body).headings).toEqual([
+      { depth: 2, text: "Getting Started", id: "getting-started" },
+      { depth: 3, text: "FAQ", id: "faq" },
+      { depth: 3, text: "FAQ", id: "faq-1" },
+      { depth: 2, text: "Configuration options", id: "config" },
+    ]);
+  });
+
+  it("includes headings within the requested depth range", () => {
+    const { headings } = getContentOutline({ body }, { minDepth: 4, maxDepth: 6 });
+    expect(headings).toEqual([{ depth: 4, text: "Deep heading", id: "deep-heading" }]);
+  });
+
+  it("counts prose words only", () => {
+    const outline = getContentOutline(body);
+    // "Welcome … more." (10) + "Install the SDK first." (4) + "Done." (1)
+    expect(outline.wordCount).toBe(15);
+    expect(outline.readingTimeMinutes).toBe(1);
+  });
+
+  it("estimates reading time from the reading speed", () => {
+    const text = Array.from({ length: 1000 }, () => "word").join(" ");
+    expect(getContentOutline(text).readingTimeMinutes).toBe(5);
+    expect(getContentOutline(text, { wordsPerMinute: 250 }).readingTimeMinutes).toBe(4);
+    expect(getContentOutline("").readingTimeMinutes).toBe(0);
+  });
+
+  it("builds a plain-text excerpt cut at a word boundary", () => {
+    expect(getContentOutline(body, { excerptLength: 40 }).excerpt).toBe(
+      "Welcome to the LeadCMS guide. It…"
+    );
+    expect(getContentOutline("Short text.").excerpt).toBe("Short text.");
+  });
+});
+
+describe("countWords", () => {
+  it("counts words with apostrophes, hyphens and non-Latin scripts", () => {
+    expect(countWords("It's a well-known fact — Привет мир, 2024!")).toBe(7);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for queryContent() and its helpers (src/lib/content-query.ts)
+ *
+ * Covers:
+ *  - Type filtering and draft filtering inherited from getAllContentForLocale
+ *  - where: equality, array fields (any/all/none), ranges on dates, nested fields
+ *  - Multi-field sorting with missing values last
+ *  - limit/offset pagination metadata
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-content-query-"));
+const contentDir = path.join(tmpRoot, "content");
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir,
+    commentsDir: path.join(tmpRoot, "comments"),
+    mediaDir: path.join(tmpRoot, "media"),
+    enableDrafts: false,
+  }),
+  isPreviewMode: () => false,
+}));
+
+import {
+  queryContent,
+  matchesContentWhere,
+  sortContent,
+  type ContentQueryResult,
+} from "../src/lib/content-query";
+import type { CMSContent } from "../src/lib/cms";
+
+function writeArticle(slug: string, frontmatter: Record<string, unknown>, dir = contentDir) {
+  const lines = Object.entries(frontmatter).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`
+  );
+  const filePath = path.join(dir, `${slug}.mdx`);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `---\n${lines.join("\n")}\n---\nBody of ${slug}`);
+}
+
+const slugsOf = (result: ContentQueryResult) => result.items.map((item) => item.slug);
+
+beforeAll(() => {
+  writeArticle("alpha", {
+    type: "blog-article",
+    title: "Alpha",
+    category: "News",
+    tags: ["release", "sdk"],
+    author: "Jane",
+    publishedAt: "2024-10-01T10:00:00Z",
+  });
+  writeArticle("beta", {
+    type: "blog-article",
+    title: "Beta",
+    category: "Guides",
+    tags: ["sdk"],
+    author: "John",
+    publishedAt: "2024-10-10T10:00:00Z",
+    seo: { robots: "noindex" },
+  });
+  writeArticle("gamma", {
+    type: "blog-article",
+    title: "Gamma",
+    category: "News",
+    tags: ["release"],
+    author: "Jane",
+    publishedAt: "2024-10-20T10:00:00Z",
+  });
+  writeArticle("draft", {
+    type: "blog-article",
+    title: "Draft",
+    category: "News",
+    tags: ["release"],
+  });
+  writeArticle("about", { type: "page", title: "About", publishedAt: "2024-01-01T00:00:00Z" });
+  writeArticle(
+    "hola",
+    { type: "blog-article", title: "Hola", category: "News", publishedAt: "2024-10-05T00:00:00Z" },
+    path.join(contentDir, "es")
+  );
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("queryContent", () => {
+  it("filters by type and excludes drafts", () => {
+    const result = queryContent({ locale: "en", types: ["blog-article"] });
+    expect(slugsOf(result).sort()).toEqual(["alpha", "beta", "gamma"]);
+    expect(result.total).toBe(3);
+  });
+
+  it("uses the requested locale", () => {
+    expect(slugsOf(queryContent({ locale: "es" }))).toEqual(["hola"]);
+  });
+
+  it("filters by category, author and tags", () => {
+    const result = queryContent({
+      locale: "en",
+      where: { category: "News", author: "Jane", tags: { any: ["release"] } },
+      sort: { field: "title" },
+    });
+    expect(slugsOf(result)).toEqual(["alpha", "gamma"]);
+  });
+
+  it("supports all/none tag conditions and array shorthand", () => {
+    expect(slugsOf(queryContent({ where: { tags: { all: ["release", "sdk"] } } }))).toEqual([
+      "alpha",
+    ]);
+    expect(
+      slugsOf(queryContent({ types: ["blog-article"], where: { tags: { none: ["release"] } } }))
+    ).toEqual(["beta"]);
+    expect(slugsOf(queryContent({ where: { author: ["John", "Nobody"] } }))).toEqual(["beta"]);
+  });
+
+  it("compares dates chronologically in range conditions", () => {
+    const result = queryContent({
+      types: ["blog-article"],
+      where: { publishedAt: { gte: new Date("2024-10-10T00:00:00Z") } },
+      sort: { field: "publishedAt" },
+    });
+    expect(slugsOf(result)).toEqual(["beta", "gamma"]);
+  });
+
+  it("supports nested fields with dot notation", () => {
+    expect(slugsOf(queryContent({ where: { "seo.robots": { exists: true } } }))).toEqual(["beta"]);
+  });
+
+  it("sorts by publishedAt descending", () => {
+    const result = queryContent({
+      types: ["blog-article"],
+      sort: { field: "publishedAt", order: "desc" },
+    });
+    expect(slugsOf(result)).toEqual(["gamma", "beta", "alpha"]);
+  });
+
+  it("paginates with limit and offset", () => {
+    const query = {
+      types: ["blog-article"],
+      sort: { field: "publishedAt", order: "desc" as const },
+      limit: 2,
+    };
+
+    const first = queryContent(query);
+    expect(slugsOf(first)).toEqual(["gamma", "beta"]);
+    expect(first).toMatchObject({
+      total: 3,
+      page: 1,
+      pageCount: 2,
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+
+    const second = queryContent({ ...query, offset: 2 });
+    expect(slugsOf(second)).toEqual(["alpha"]);
+    expect(second).toMatchObject({ page: 2, hasNextPage: false, hasPreviousPage: true });
+  });
+
+  it("returns a single page when no limit is set", () => {
+    const result = queryContent({ types: ["page"] });
+    expect(result).toMatchObject({ total: 1, limit: null, page: 1, pageCount: 1 });
+  });
+});
+
+describe("matchesContentWhere", () => {
+  const content: CMSContent = {
+    id: 1,
+    slug: "x",
+    type: "article",
+    body: "",
+    tags: ["a", "b"],
+    rating: 4,
+  };
+
+  it("treats plain values on array fields as membership", () => {
+    expect(matchesContentWhere(content, { tags: "a" })).toBe(true);
+    expect(matchesContentWhere(content, { tags: { ne: "a" } })).toBe(false);
+  });
+
+  it("compares numbers numerically", () => {
+    expect(matchesContentWhere(content, { rating: { gt: 3, lte: 4 } })).toBe(true);
+    expect(matchesContentWhere(content, { rating: { lt: 4 } })).toBe(false);
+  });
+
+  it("checks field presence", () => {
+    expect(matchesContentWhere(content, { category: { exists: false } })).toBe(true);
+    expect(matchesContentWhere(content, { category: { exists: true } })).toBe(false);
+  });
+});
+
+describe("sortContent", () => {
+  it("places items missing the sort field last and does not mutate the input", () => {
+    const items: CMSContent[] = [
+      { id: 1, slug: "no-order", type: "page", body: "" },
+      { id: 2, slug: "second", type: "page", body: "", order: 2 },
+      { id: 3, slug: "first", type: "page", body: "", order: 1 },
+    ];
+
+    expect(sortContent(items, { field: "order" }).map((i) => i.slug)).toEqual([
+      "first",
+      "second",
+      "no-order",
+    ]);
+    expect(items[0].slug).toBe("no-order");
+  });
+
+  it("uses secondary sort fields for ties", () => {
+    const items: CMSContent[] = [
+      { id: 1, slug: "b", type: "page", body: "", group: "x" },
+      { id: 2, slug: "a", type: "page", body: "", group: "x" },
+      { id: 3, slug: "c", type: "page", body: "", group: "w" },
+    ];
+
+    expect(sortContent(items, [{ field: "group" }, { field: "slug" }]).map((i) => i.slug)).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
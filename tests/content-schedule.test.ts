@@ -0,0 +1,110 @@
+/**
+ * Tests for scheduled publishing (src/lib/content-schedule.ts, src/scripts/schedule.ts)
+ *
+ * Covers:
+ *  - Items with a future publishedAt, soonest first, user drafts excluded
+ *  - Locale, type and date filters, and the next publish date
+ *  - --until parsing and the text / json / next output modes
+ */
+
+import { getNextScheduledPublish, getScheduledContent } from "../src/lib/content-schedule";
+import { listSchedule, parseUntil } from "../src/scripts/schedule";
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+// Date.now() is fixed to 2024-10-29T12:00:00Z in tests/setup.ts
+describe("getScheduledContent", () => {
+  it("lists content with a future publishedAt, soonest first", () => {
+    expect(getScheduledContent()).toEqual([
+      {
+        locale: "en",
+        slug: "local-only-content",
+        type: "page",
+        title: "Local Only Content",
+        publishAt: new Date("2024-11-15T10:00:00Z"),
+        file: "local-only-content.mdx",
+      },
+      {
+        locale: "en",
+        slug: "future-article",
+        type: "article",
+        title: "Future Article",
+        publishAt: new Date("2024-12-01T10:00:00Z"),
+        file: "future-article.mdx",
+      },
+    ]);
+  });
+
+  it("filters by type, locale and date", () => {
+    expect(getScheduledContent({ types: ["article"] }).map((i) => i.slug)).toEqual([
+      "future-article",
+    ]);
+    expect(getScheduledContent({ locales: ["es"] })).toEqual([]);
+    expect(
+      getScheduledContent({ until: new Date("2024-11-30T00:00:00Z") }).map((i) => i.slug)
+    ).toEqual(["local-only-content"]);
+  });
+
+  it("returns the next publish date", () => {
+    expect(getNextScheduledPublish()).toEqual(new Date("2024-11-15T10:00:00Z"));
+    expect(getNextScheduledPublish({ types: ["blog"] })).toBeNull();
+  });
+});
+
+describe("schedule command", () => {
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    jest.spyOn(console, "log").mockImplementation((line: string) => output.push(line));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("parses dates and relative durations for --until", () => {
+    const now = Date.parse("2024-10-29T12:00:00Z");
+    expect(parseUntil("7d", now)).toEqual(new Date("2024-11-05T12:00:00Z"));
+    expect(parseUntil("12h", now)).toEqual(new Date("2024-10-30T00:00:00Z"));
+    expect(parseUntil("2024-12-31")).toEqual(new Date("2024-12-31"));
+    expect(() => parseUntil("soon")).toThrow(/Invalid --until value/);
+  });
+
+  it("prints only the next timestamp with --next", async () => {
+    await listSchedule({ format: "next" });
+    expect(output).toEqual(["2024-11-15T10:00:00.000Z"]);
+
+    output = [];
+    await listSchedule({ format: "next", types: ["blog"] });
+    expect(output).toEqual([]);
+  });
+
+  it("prints the schedule as JSON with --json", async () => {
+    await listSchedule({ format: "json", types: ["article"] });
+    expect(JSON.parse(output.join("\n"))).toEqual({
+      next: "2024-12-01T10:00:00.000Z",
+      items: [
+        {
+          locale: "en",
+          slug: "future-article",
+          type: "article",
+          title: "Future Article",
+          publishAt: "2024-12-01T10:00:00.000Z",
+          file: "future-article.mdx",
+        },
+      ],
+    });
+  });
+
+  it("groups the text output by locale and type", async () => {
+    await listSchedule();
+    const text = output.join("\n");
+    expect(text).toContain("Scheduled content (2)");
+    expect(text).toContain("en / article");
+    expect(text).toContain('2024-12-01T10:00:00.000Z  future-article — "Future Article"');
+    expect(text).toContain("Next publication: 2024-11-15T10:00:00.000Z (in 17 days)");
+  });
+});
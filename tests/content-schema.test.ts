@@ -0,0 +1,175 @@
+/**
+ * Tests for content schemas (src/lib/content-schema.ts, src/scripts/validate-content.ts)
+ *
+ * Covers:
+ *  - Built-in field definitions: types, optional fields, enums and date conversion
+ *  - Validation on read, with errors naming the file and the failing fields
+ *  - Standard Schema objects, including async schemas via the async read API
+ *  - Schemas from `contentSchemas` in the config
+ *  - validateContent(): every file checked, files without a schema skipped
+ */
+
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("schema", {
+  config: { contentSchemas: { page: { title: "string" } } },
+});
+const { contentDir, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  clearContentSchemas,
+  defineContentSchema,
+  isContentValidationError,
+  registerContentSchema,
+  type StandardSchemaV1,
+} from "../src/lib/content-schema";
+import {
+  getAllContentForLocale,
+  getCMSContentBySlugForLocale,
+  getCMSContentBySlugForLocaleAsync,
+} from "../src/lib/cms";
+import { validateContent } from "../src/scripts/validate-content";
+
+const articleSchema = defineContentSchema({
+  title: "string",
+  category: { type: "string", enum: ["news", "guides"] },
+  tags: { type: "string[]", optional: true },
+  updated: { type: "date", optional: true },
+});
+
+beforeAll(() => {
+  writeContent("good", {
+    type: "article",
+    title: "Good",
+    category: "news",
+    updated: "2024-10-02T00:00:00Z",
+  });
+  writeContent("bad", { type: "article", title: 42, category: "other" });
+  writeContent("about", { type: "page", title: "About" });
+  writeContent("broken-page", { type: "page" });
+  writeContent("note", { type: "note" });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+beforeEach(() => {
+  clearContentSchemas();
+});
+
+describe("defineContentSchema", () => {
+  it("accepts valid objects, keeps unknown fields and converts dates", () => {
+    const result = articleSchema["~standard"].validate({
+      title: "T",
+      category: "guides",
+      updated: "2024-01-01",
+      extra: 1,
+    });
+    expect(result).toEqual({
+      value: { title: "T", category: "guides", updated: new Date("2024-01-01"), extra: 1 },
+    });
+  });
+
+  it("reports missing, mistyped and out-of-enum fields", () => {
+    const result = articleSchema["~standard"].validate({ category: "other", tags: ["a", 1] });
+    expect("issues" in result && result.issues).toEqual([
+      { message: "required", path: ["title"] },
+      { message: 'expected one of news, guides, received "other"', path: ["category"] },
+      { message: "expected array of strings, received array", path: ["tags"] },
+    ]);
+  });
+});
+
+describe("validation on read", () => {
+  it("returns validated content for valid files", () => {
+    registerContentSchema("article", articleSchema);
+    const content = getCMSContentBySlugForLocale("good", "en");
+    expect(content?.updated).toEqual(new Date("2024-10-02T00:00:00Z"));
+    expect(content?.body).toBe("Body");
+  });
+
+  it("throws an error naming the file and fields for invalid files", () => {
+    registerContentSchema("article", articleSchema);
+
+    let error: unknown;
+    try {
+      getAllContentForLocale("en", ["article"]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(isContentValidationError(error)).toBe(true);
+    expect(error).toMatchObject({
+      filePath: path.join(contentDir, "bad.mdx"),
+      contentType: "article",
+      issues: [
+        { path: "title", message: "expected string, received number" },
+        { path: "category", message: 'expected one of news, guides, received "other"' },
+      ],
+    });
+    expect((error as Error).message).toContain("bad.mdx");
+  });
+
+  it("does not validate content types without a schema", () => {
+    expect(getCMSContentBySlugForLocale("bad", "en")?.title).toBe(42);
+  });
+
+  it("uses schemas from the config", () => {
+    expect(getCMSContentBySlugForLocale("about", "en")?.title).toBe("About");
+    expect(() => getCMSContentBySlugForLocale("broken-page", "en")).toThrow(/broken-page\.mdx/);
+  });
+
+  it("supports async Standard Schemas through the async read API only", async () => {
+    const asyncSchema: StandardSchemaV1 = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value) => ({ value: { ...(value as object), checked: true } }),
+      },
+    };
+    registerContentSchema("note", asyncSchema);
+
+    expect(await getCMSContentBySlugForLocaleAsync("note", "en")).toMatchObject({
+      slug: "note",
+      checked: true,
+    });
+    expect(() => getCMSContentBySlugForLocale("note", "en")).toThrow(/asynchronous/);
+  });
+});
+
+describe("validateContent", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("checks every file with a schema and reports invalid ones", async () => {
+    registerContentSchema("article", articleSchema);
+    const result = await validateContent();
+
+    expect(result.checked).toBe(4);
+    expect(result.skipped).toBe(1);
+    expect(result.unreadable).toEqual([]);
+    expect(result.errors.map((e) => path.basename(e.filePath))).toEqual([
+      "bad.mdx",
+      "broken-page.mdx",
+    ]);
+  });
+
+  it("limits validation to the requested types", async () => {
+    const result = await validateContent({ types: ["page"] });
+    expect(result.checked).toBe(2);
+    expect(result.errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for taxonomy helpers (src/lib/content-taxonomy.ts)
+ *
+ * Covers:
+ *  - Category, tag and author listing with counts
+ *  - Grouping of spellings that share a slug
+ *  - Content type filtering and draft exclusion
+ *  - getContentByTag / getContentByCategory lookup by name or slug
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("taxonomy", { frontmatterDefaults: {} });
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import {
+  getAuthorsForLocale,
+  getCategoriesForLocale,
+  getContentByCategory,
+  getContentByTag,
+  getTagsForLocale,
+} from "../src/lib/content-taxonomy";
+
+beforeAll(() => {
+  const publishedAt = "2024-10-01T00:00:00Z";
+  writeContent("one", {
+    type: "blog-article",
+    category: "News",
+    tags: ["Open Source", "SDK"],
+    author: "Jane",
+    publishedAt,
+  });
+  writeContent("two", {
+    type: "blog-article",
+    category: "news",
+    tags: ["open source"],
+    author: "John",
+    publishedAt: "2024-10-05T00:00:00Z",
+  });
+  writeContent("three", {
+    type: "blog-article",
+    category: "Guides",
+    tags: ["SDK", "SDK"],
+    author: "Jane",
+    publishedAt: "2024-10-03T00:00:00Z",
+  });
+  writeContent("draft", { type: "blog-article", category: "Drafts", tags: ["hidden"] });
+  writeContent("page", { type: "page", category: "News", author: "Admin", publishedAt });
+  writeContent("es/uno", { type: "blog-article", category: "Noticias", publishedAt });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("taxonomy listings", () => {
+  it("lists categories with counts, most used first", () => {
+    expect(getCategoriesForLocale("en")).toEqual([
+      { name: "News", slug: "news", count: 3 },
+      { name: "Guides", slug: "guides", count: 1 },
+    ]);
+  });
+
+  it("filters by content type", () => {
+    expect(getCategoriesForLocale("en", ["blog-article"])).toEqual([
+      { name: "News", slug: "news", count: 2 },
+      { name: "Guides", slug: "guides", count: 1 },
+    ]);
+  });
+
+  it("counts each tag once per item and groups spellings by slug", () => {
+    expect(getTagsForLocale("en")).toEqual([
+      { name: "Open Source", slug: "open-source", count: 2 },
+      { name: "SDK", slug: "sdk", count: 2 },
+    ]);
+  });
+
+  it("lists authors", () => {
+    expect(getAuthorsForLocale("en").map((a) => [a.name, a.count])).toEqual([
+      ["Jane", 2],
+      ["Admin", 1],
+      ["John", 1],
+    ]);
+  });
+
+  it("uses the requested locale", () => {
+    expect(getCategoriesForLocale("es")).toEqual([
+      { name: "Noticias", slug: "noticias", count: 1 },
+    ]);
+  });
+});
+
+describe("content by term", () => {
+  it("finds content by tag name or slug, newest first", () => {
+    expect(getContentByTag("open-source").map((c) => c.slug)).toEqual(["two", "one"]);
+    expect(getContentByTag("OPEN SOURCE").map((c) => c.slug)).toEqual(["two", "one"]);
+  });
+
+  it("finds content by category with type filtering", () => {
+    expect(getContentByCategory("news", "en", ["blog-article"]).map((c) => c.slug)).toEqual([
+      "two",
+      "one",
+    ]);
+  });
+
+  it("does not return drafts", () => {
+    expect(getContentByTag("hidden")).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for domain-aware URLs and routing (src/lib/content-urls.ts, src/lib/cms.ts)
+ *
+ * Covers:
+ *  - Route paths for path-prefixed and domain-per-language locales, or a path pattern
+ *  - buildContentUrl(): route paths made absolute per language
+ *  - getContentUrl(): relative, absolute and cross-domain links
+ *  - getAlternateUrls(): translations by translationKey, with x-default
+ *  - Locale detection from the request host, and locale-aware links
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("urls", {
+  config: {
+    siteUrl: "https://www.example.com/",
+    languageDomains: { de: "https://de.example.com" },
+  },
+});
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import {
+  getAllContentRoutes,
+  getAllContentRoutesAsync,
+  getAlternateUrls,
+  getCMSContentBySlugForLocale,
+  getContentUrl,
+  getLocaleFromPath,
+  makeLocaleAwareLink,
+} from "../src/lib/cms";
+import { getBreadcrumbs } from "../src/lib/content-navigation";
+import { buildContentUrl, getContentPath, getLanguageForHost } from "../src/lib/content-urls";
+
+beforeAll(() => {
+  writeContent("blog/hello", { type: "article", title: "Hello", translationKey: "hello" });
+  writeContent("de/blog/hallo", { type: "article", title: "Hallo", translationKey: "hello" });
+  writeContent("fr/blog/bonjour", { type: "article", title: "Bonjour", translationKey: "hello" });
+  writeContent("imprint", { type: "page", title: "Imprint" });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("getContentPath / buildContentUrl / getLanguageForHost", () => {
+  it("omits the prefix for the default language and domain locales", () => {
+    const domains = { de: "https://de.example.com" };
+    expect(getContentPath("en", "a", "en", domains)).toBe("/a");
+    expect(getContentPath("de", "a", "en", domains)).toBe("/a");
+    expect(getContentPath("fr", "a", "en", domains)).toBe("/fr/a");
+    expect(getContentPath("en", "a", "en", domains, "/{language}/{slug}/")).toBe("/en/a/");
+  });
+
+  it("builds absolute URLs where a base URL is configured", () => {
+    const layout = {
+      defaultLanguage: "en",
+      languageDomains: { de: "https://de.example.com" },
+      siteUrl: "https://www.example.com/",
+    };
+    expect(buildContentUrl("en", "a", layout)).toBe("https://www.example.com/a");
+    expect(buildContentUrl("de", "a", layout)).toBe("https://de.example.com/a");
+    expect(buildContentUrl("fr", "a", layout)).toBe("https://www.example.com/fr/a");
+    expect(buildContentUrl("fr", "a", { defaultLanguage: "en" })).toBe("/fr/a");
+  });
+
+  it("matches hosts with or without protocol and port", () => {
+    const domains = { de: "https://de.example.com/", en: "www.example.com" };
+    expect(getLanguageForHost("de.example.com", domains)).toBe("de");
+    expect(getLanguageForHost("DE.example.com:3000", domains)).toBe("de");
+    expect(getLanguageForHost("https://www.example.com/page", domains)).toBe("en");
+    expect(getLanguageForHost("fr.example.com", domains)).toBeUndefined();
+    expect(getLanguageForHost("de.example.com")).toBeUndefined();
+  });
+});
+
+describe("routes", () => {
+  it("builds unprefixed routes with the domain for domain locales", async () => {
+    const routes = getAllContentRoutes(["article"]);
+    expect(routes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ locale: "en", path: "/blog/hello" }),
+        expect.objectContaining({
+          locale: "de",
+          path: "/blog/hallo",
+          domain: "https://de.example.com",
+        }),
+        expect.objectContaining({ locale: "fr", path: "/fr/blog/bonjour" }),
+      ])
+    );
+    expect(routes.find((r) => r.locale === "fr")).not.toHaveProperty("domain");
+    expect(await getAllContentRoutesAsync(["article"])).toEqual(routes);
+  });
+
+  it("uses the same paths in breadcrumbs", () => {
+    expect(getBreadcrumbs("blog/hallo", "de").map((b) => b.path)).toEqual(["/blog", "/blog/hallo"]);
+  });
+});
+
+describe("getContentUrl", () => {
+  const hallo = () => getCMSContentBySlugForLocale("blog/hallo", "de")!;
+  const bonjour = () => getCMSContentBySlugForLocale("blog/bonjour", "fr")!;
+
+  it("returns route paths by default", () => {
+    expect(getContentUrl(hallo())).toBe("/blog/hallo");
+    expect(getContentUrl(bonjour())).toBe("/fr/blog/bonjour");
+  });
+
+  it("returns absolute URLs from languageDomains or siteUrl", () => {
+    expect(getContentUrl(hallo(), { absolute: true })).toBe("https://de.example.com/blog/hallo");
+    expect(getContentUrl(bonjour(), { absolute: true })).toBe(
+      "https://www.example.com/fr/blog/bonjour"
+    );
+  });
+
+  it("makes cross-domain links absolute", () => {
+    expect(getContentUrl(hallo(), { fromLocale: "en" })).toBe("https://de.example.com/blog/hallo");
+    expect(getContentUrl(bonjour(), { fromLocale: "de" })).toBe(
+      "https://www.example.com/fr/blog/bonjour"
+    );
+    expect(getContentUrl(bonjour(), { fromLocale: "en" })).toBe("/fr/blog/bonjour");
+  });
+});
+
+describe("getAlternateUrls", () => {
+  it("lists every translation with x-default", () => {
+    expect(getAlternateUrls(getCMSContentBySlugForLocale("blog/bonjour", "fr")!)).toEqual({
+      en: "https://www.example.com/blog/hello",
+      de: "https://de.example.com/blog/hallo",
+      fr: "https://www.example.com/fr/blog/bonjour",
+      "x-default": "https://www.example.com/blog/hello",
+    });
+  });
+
+  it("returns the item itself when it has no translationKey", () => {
+    expect(getAlternateUrls(getCMSContentBySlugForLocale("imprint", "en")!)).toEqual({
+      en: "https://www.example.com/imprint",
+      "x-default": "https://www.example.com/imprint",
+    });
+  });
+});
+
+describe("locale routing helpers", () => {
+  it("detects the locale from the host before the path", () => {
+    expect(getLocaleFromPath("/blog/hallo", "de.example.com")).toBe("de");
+    expect(getLocaleFromPath("/fr/blog/bonjour", "www.example.com")).toBe("fr");
+    expect(getLocaleFromPath("/blog/hello")).toBe("en");
+  });
+
+  it("does not prefix links of domain locales", () => {
+    expect(makeLocaleAwareLink("/blog", "de")).toBe("/blog");
+    expect(makeLocaleAwareLink("/blog", "fr")).toBe("/fr/blog");
+  });
+});
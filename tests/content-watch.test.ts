@@ -0,0 +1,235 @@
+/**
+ * Tests for cache invalidation and file watching (src/lib/content-watch.ts)
+ *
+ * Covers:
+ *  - invalidateContentCache() for cached config files and unchanged-looking content files
+ *  - watchContent() change events with source, type, locale and slug
+ *  - Subscribing, unsubscribing and closing the watcher
+ *  - Per-directory watchers where recursive fs.watch is unavailable
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-watch-"));
+const contentDir = path.join(tmpRoot, "content");
+const commentsDir = path.join(tmpRoot, "comments");
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir,
+    commentsDir,
+    mediaDir: path.join(tmpRoot, "media"),
+    settingsDir: path.join(tmpRoot, "settings"),
+    enableDrafts: false,
+  }),
+  isPreviewMode: () => false,
+  clearConfigCache: jest.fn(),
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import { getHeaderConfig } from "../src/lib/cms";
+import { getContentIndex } from "../src/lib/content-index";
+import {
+  invalidateContentCache,
+  watchContent,
+  type ContentChangeEvent,
+  type ContentWatcher,
+} from "../src/lib/content-watch";
+
+function writeFile(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function getIndexedTitle(slug: string): unknown {
+  const entry = getContentIndex(contentDir, "en").entries.find((e) => e.slug === slug);
+  return entry?.frontmatter?.title;
+}
+
+// Whole seconds, so the mtime survives the round trip through utimes
+const FIXED_MTIME = 1_700_000_000;
+
+function writeIndexedFile(filePath: string, content: string) {
+  writeFile(filePath, content);
+  fs.utimesSync(filePath, FIXED_MTIME, FIXED_MTIME);
+}
+
+/** Rewrite a file with same-size content, keeping its mtime */
+function rewriteUnnoticed(filePath: string, content: string) {
+  fs.writeFileSync(filePath, content);
+  fs.utimesSync(filePath, FIXED_MTIME, FIXED_MTIME);
+}
+
+beforeEach(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+  fs.mkdirSync(path.join(contentDir, "de", "blog"), { recursive: true });
+  fs.mkdirSync(commentsDir, { recursive: true });
+  invalidateContentCache();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("invalidateContentCache", () => {
+  it("refreshes cached config files", () => {
+    const headerPath = path.join(contentDir, "header.json");
+    writeFile(headerPath, JSON.stringify({ logo: "old" }));
+    expect(getHeaderConfig()).toEqual({ logo: "old" });
+
+    writeFile(headerPath, JSON.stringify({ logo: "new" }));
+    expect(getHeaderConfig()).toEqual({ logo: "old" });
+
+    invalidateContentCache(headerPath);
+    expect(getHeaderConfig()).toEqual({ logo: "new" });
+  });
+
+  it("re-reads content files even when mtime and size are unchanged", () => {
+    const filePath = path.join(contentDir, "post.mdx");
+    writeIndexedFile(filePath, '---\ntitle: "AAAA"\n---\nBody');
+    expect(getIndexedTitle("post")).toBe("AAAA");
+
+    rewriteUnnoticed(filePath, '---\ntitle: "BBBB"\n---\nBody');
+    expect(getIndexedTitle("post")).toBe("AAAA");
+
+    invalidateContentCache([path.join(contentDir, "other.mdx")]);
+    expect(getIndexedTitle("post")).toBe("AAAA");
+
+    invalidateContentCache([filePath]);
+    expect(getIndexedTitle("post")).toBe("BBBB");
+  });
+
+  it("drops everything without paths or for a directory", () => {
+    const filePath = path.join(contentDir, "de", "blog", "post.mdx");
+    writeIndexedFile(filePath, '---\ntitle: "AAAA"\n---\nBody');
+    expect(getContentIndex(contentDir, "en").entries[0].frontmatter?.title).toBe("AAAA");
+
+    rewriteUnnoticed(filePath, '---\ntitle: "BBBB"\n---\nBody');
+    invalidateContentCache(path.join(contentDir, "de"));
+    expect(getContentIndex(contentDir, "en").entries[0].frontmatter?.title).toBe("BBBB");
+
+    rewriteUnnoticed(filePath, '---\ntitle: "CCCC"\n---\nBody');
+    invalidateContentCache();
+    expect(getContentIndex(contentDir, "en").entries[0].frontmatter?.title).toBe("CCCC");
+  });
+});
+
+describe("watchContent", () => {
+  let watcher: ContentWatcher | undefined;
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+  });
+
+  function nextBatch(w: ContentWatcher): Promise<ContentChangeEvent[]> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error("No change event")), 3000);
+      const unsubscribe = w.subscribe((events) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(events);
+      });
+    });
+  }
+
+  it("emits typed events for added, changed and deleted files", async () => {
+    watcher = watchContent({ debounceMs: 50 });
+    const filePath = path.join(contentDir, "de", "blog", "neu.mdx");
+
+    let batch = nextBatch(watcher);
+    writeFile(filePath, '---\ntitle: "Neu"\n---\nBody');
+    expect(await batch).toEqual([
+      {
+        source: "content",
+        type: "add",
+        filePath,
+        file: "de/blog/neu.mdx",
+        locale: "de",
+        slug: "blog/neu",
+      },
+    ]);
+
+    batch = nextBatch(watcher);
+    fs.appendFileSync(filePath, "\nMore");
+    expect(await batch).toEqual([expect.objectContaining({ type: "change", slug: "blog/neu" })]);
+
+    batch = nextBatch(watcher);
+    fs.rmSync(filePath);
+    expect(await batch).toEqual([expect.objectContaining({ type: "unlink", slug: "blog/neu" })]);
+  });
+
+  it("watches the comments directory and skips missing directories", async () => {
+    const onChange = jest.fn();
+    watcher = watchContent({ sources: ["comments", "settings"], debounceMs: 50, onChange });
+
+    const batch = nextBatch(watcher);
+    writeFile(path.join(commentsDir, "en", "contents", "1.json"), "[]");
+    const events = await batch;
+
+    expect(events).toEqual([
+      expect.objectContaining({ source: "comments", type: "add", file: "en/contents/1.json" }),
+    ]);
+    expect(events[0]).not.toHaveProperty("slug");
+    expect(onChange).toHaveBeenCalledWith(events);
+  });
+
+  it("watches new directories without recursive fs.watch support", async () => {
+    const originalWatch = fs.watch;
+    const watchSpy = jest.spyOn(fs, "watch").mockImplementation(((
+      dir: string,
+      options: unknown,
+      listener?: unknown
+    ) => {
+      if (typeof options === "object" && (options as { recursive?: boolean }).recursive) {
+        throw Object.assign(new Error("recursive unavailable"), {
+          code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM",
+        });
+      }
+      return originalWatch(dir, options as fs.WatchOptions, listener as fs.WatchListener<string>);
+    }) as typeof fs.watch);
+
+    try {
+      watcher = watchContent({ sources: ["content"], debounceMs: 50 });
+      const existing = path.join(contentDir, "de", "blog", "alt.mdx");
+      const created = path.join(contentDir, "fr", "news", "nouveau.mdx");
+
+      let batch = nextBatch(watcher);
+      writeFile(existing, '---\ntitle: "Alt"\n---\nBody');
+      expect(await batch).toEqual([expect.objectContaining({ type: "add", slug: "blog/alt" })]);
+
+      batch = nextBatch(watcher);
+      writeFile(created, '---\ntitle: "Nouveau"\n---\nBody');
+      expect(await batch).toEqual([
+        expect.objectContaining({ type: "add", file: "fr/news/nouveau.mdx", locale: "fr" }),
+      ]);
+
+      batch = nextBatch(watcher);
+      fs.appendFileSync(created, "\nPlus");
+      expect(await batch).toEqual([expect.objectContaining({ type: "change", locale: "fr" })]);
+      expect(watchSpy).toHaveBeenCalledWith(
+        path.join(contentDir, "fr", "news"),
+        expect.any(Function)
+      );
+    } finally {
+      watchSpy.mockRestore();
+    }
+  });
+
+  it("stops emitting after close", async () => {
+    const onChange = jest.fn();
+    watcher = watchContent({ debounceMs: 20, onChange });
+    watcher.close();
+
+    writeFile(path.join(contentDir, "late.mdx"), "---\ntitle: Late\n---\n");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the static comment export (src/scripts/export-comments.ts)
+ *
+ * Covers:
+ *  - Approved comments only, replies to hidden comments left out
+ *  - Stripping of authorEmail / contactId, unknown fields and optional avatar URLs
+ *  - Sort orders, one file per content item and language, dry run
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-export-comments-"));
+const commentsDir = path.join(tmpRoot, "comments");
+const outputDir = path.join(tmpRoot, "public", "comments");
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir: path.join(tmpRoot, "content"),
+    commentsDir,
+    mediaDir: path.join(tmpRoot, "media"),
+    enableDrafts: false,
+    commentsExport: { outputDir, sortOrder: "newest" },
+  }),
+  isPreviewMode: () => false,
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import type { StoredComment } from "../src/lib/comment-types";
+import { exportComments, toPublicCommentTree } from "../src/scripts/export-comments";
+
+function comment(id: number, createdAt: string, extra: Partial<StoredComment> = {}): StoredComment {
+  return {
+    id,
+    authorName: `Author ${id}`,
+    authorEmail: `author${id}@example.com`,
+    contactId: 100 + id,
+    avatarUrl: `https://example.com/avatars/${id}.png`,
+    body: `Comment ${id}`,
+    status: "Approved",
+    createdAt,
+    commentableId: 91,
+    commentableType: "Content",
+    language: "en",
+    ...extra,
+  };
+}
+
+const COMMENTS: StoredComment[] = [
+  comment(1, "2024-01-01T00:00:00Z"),
+  comment(2, "2024-01-02T00:00:00Z"),
+  comment(3, "2024-01-03T00:00:00Z", { status: "NotApproved" }),
+  comment(4, "2024-01-04T00:00:00Z", { parentId: 1 }),
+  comment(5, "2024-01-05T00:00:00Z", { parentId: 3 }),
+  comment(6, "2024-01-06T00:00:00Z", { status: "Spam" }),
+];
+
+function writeComments(relPath: string, comments: unknown) {
+  const filePath = path.join(commentsDir, relPath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(comments));
+}
+
+function readExport(relPath: string) {
+  return JSON.parse(fs.readFileSync(path.join(outputDir, relPath), "utf8"));
+}
+
+beforeEach(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("toPublicCommentTree", () => {
+  it("keeps approved comments whose parents are exported", () => {
+    const tree = toPublicCommentTree(COMMENTS);
+
+    expect(tree.map((node) => node.id)).toEqual([1, 2]);
+    expect(tree[0].children.map((node) => node.id)).toEqual([4]);
+    expect(tree[0].threadCount).toBe(2);
+  });
+
+  it("strips personal data and optionally avatar URLs", () => {
+    const [node] = toPublicCommentTree(COMMENTS);
+    expect(node).not.toHaveProperty("authorEmail");
+    expect(node).not.toHaveProperty("contactId");
+    expect(node.children[0]).not.toHaveProperty("authorEmail");
+    expect(node.avatarUrl).toBe("https://example.com/avatars/1.png");
+
+    const [withoutAvatar] = toPublicCommentTree(COMMENTS, { avatars: "omit" });
+    expect(withoutAvatar).not.toHaveProperty("avatarUrl");
+    expect(withoutAvatar.children[0]).not.toHaveProperty("avatarUrl");
+  });
+
+  it("exports only known public fields", () => {
+    const withUnknownField = { ...comment(1, "2024-01-01T00:00:00Z"), ipAddress: "203.0.113.7" };
+    const [node] = toPublicCommentTree([withUnknownField]);
+    expect(node).not.toHaveProperty("ipAddress");
+    expect(node).toMatchObject({ id: 1, authorName: "Author 1", body: "Comment 1", depth: 0 });
+  });
+
+  it("sorts threads and replies", () => {
+    const comments = [...COMMENTS, comment(7, "2024-01-07T00:00:00Z", { parentId: 1 })];
+    const [first] = toPublicCommentTree(comments, {
+      sortOrder: "most-replies",
+      replySortOrder: "newest",
+    });
+    expect(first.id).toBe(1);
+    expect(first.children.map((node) => node.id)).toEqual([7, 4]);
+  });
+});
+
+describe("exportComments", () => {
+  it("writes one file per content item and language", async () => {
+    writeComments("content/91.json", COMMENTS);
+    writeComments("de/content/91.json", [comment(8, "2024-01-08T00:00:00Z", { language: "de" })]);
+    writeComments("content/92.json", [comment(9, "2024-01-09T00:00:00Z", { status: "Spam" })]);
+    writeComments("contact/5.json", COMMENTS);
+
+    const result = await exportComments();
+
+    expect(result.map((e) => [e.language, e.contentId, e.total])).toEqual([
+      ["en", 91, 3],
+      ["en", 92, 0],
+      ["de", 91, 1],
+    ]);
+    const en = readExport("en/91.json");
+    expect(en).toMatchObject({ contentId: 91, language: "en", total: 3 });
+    // commentsExport.sortOrder from the config
+    expect(en.comments.map((node: { id: number }) => node.id)).toEqual([2, 1]);
+    expect(JSON.stringify(en)).not.toContain("@example.com");
+    expect(readExport("en/92.json").comments).toEqual([]);
+    expect(readExport("de/91.json").comments[0].id).toBe(8);
+    expect(fs.existsSync(path.join(outputDir, "en", "5.json"))).toBe(false);
+  });
+
+  it("filters by language and does not write in dry run mode", async () => {
+    writeComments("content/91.json", COMMENTS);
+    writeComments("de/content/91.json", [comment(8, "2024-01-08T00:00:00Z", { language: "de" })]);
+
+    const result = await exportComments({ language: "de", dryRun: true });
+
+    expect(result).toEqual([
+      { language: "de", contentId: 91, total: 1, file: path.join(outputDir, "de", "91.json") },
+    ]);
+    expect(fs.existsSync(outputDir)).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for feed generation (src/lib/feed-generator.ts, src/scripts/generate-feeds.ts)
+ *
+ * Covers:
+ *  - Absolute item URLs from siteUrl, languageDomains and the path pattern
+ *  - Draft and future-dated content exclusion, newest-first ordering, limit
+ *  - Items of fallback locales staying out of other locales' feeds
+ *  - coverImageUrl as RSS enclosure / Atom enclosure link / JSON Feed image
+ *  - XML escaping
+ *  - generateFeeds(): one rss.xml / atom.xml / feed.json per language and type, dry run
+ */
+
+import fs from "fs";
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("feeds", {
+  config: {
+    siteUrl: "https://www.example.com/",
+    languageDomains: { es: "https://es.example.com" },
+    localeFallbacks: { es: ["en"] },
+  },
+  frontmatterDefaults: {},
+});
+const { tmpRoot, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  createContentFeed,
+} from "../src/lib/feed-generator";
+import { generateFeeds } from "../src/scripts/generate-feeds";
+
+beforeAll(() => {
+  writeContent("blog/first", {
+    type: "blog-article",
+    title: "First & Foremost",
+    description: "The <first> post",
+    author: "Jane",
+    category: "News",
+    tags: ["sdk"],
+    coverImageUrl: "/media/blog/first.png",
+    publishedAt: "2024-10-01T10:00:00Z",
+  });
+  writeContent("blog/second", {
+    type: "blog-article",
+    title: "Second",
+    publishedAt: "2024-10-10T10:00:00Z",
+    updatedAt: "2024-10-12T08:00:00Z",
+  });
+  writeContent("blog/draft", { type: "blog-article", title: "Draft" });
+  writeContent("blog/scheduled", {
+    type: "blog-article",
+    title: "Scheduled",
+    publishedAt: "2099-01-01T00:00:00Z",
+  });
+  writeContent("about", { type: "page", title: "About", publishedAt: "2024-01-01T00:00:00Z" });
+  writeContent("es/hola", {
+    type: "blog-article",
+    title: "Hola",
+    publishedAt: "2024-10-05T00:00:00Z",
+  });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("createContentFeed", () => {
+  it("includes only published items, newest first, with absolute URLs", () => {
+    const feed = createContentFeed({ type: "blog-article", locale: "en" });
+
+    expect(feed.items.map((item) => item.url)).toEqual([
+      "https://www.example.com/blog/second",
+      "https://www.example.com/blog/first",
+    ]);
+    expect(feed.homePageUrl).toBe("https://www.example.com");
+    expect(feed.feedUrls.rss).toBe("https://www.example.com/feeds/en/blog-article/rss.xml");
+    expect(feed.updatedAt.toISOString()).toBe("2024-10-12T08:00:00.000Z");
+  });
+
+  it("uses the languageDomains entry for the locale", () => {
+    const feed = createContentFeed({ type: "blog-article", locale: "es" });
+    expect(feed.items.map((item) => item.url)).toEqual(["https://es.example.com/hola"]);
+  });
+
+  it("leaves out items only available in a fallback locale", () => {
+    const feed = createContentFeed({ type: "blog-article", locale: "es" });
+    expect(feed.items.map((item) => item.title)).toEqual(["Hola"]);
+  });
+
+  it("applies limit and option overrides", () => {
+    const feed = createContentFeed({
+      type: "blog-article",
+      limit: 1,
+      pathPattern: "/blog/{slug}",
+      title: "Blog ({language})",
+    });
+    expect(feed.title).toBe("Blog (en)");
+    expect(feed.items.map((item) => item.url)).toEqual([
+      "https://www.example.com/blog/blog/second",
+    ]);
+  });
+
+  it("maps cover image, author and categories", () => {
+    const feed = createContentFeed({ type: "blog-article" });
+    const first = feed.items.find((item) => item.title === "First & Foremost")!;
+    expect(first.image).toEqual({
+      url: "https://www.example.com/media/blog/first.png",
+      type: "image/png",
+    });
+    expect(first.author).toBe("Jane");
+    expect(first.categories).toEqual(["News", "sdk"]);
+  });
+});
+
+describe("feed formats", () => {
+  const feed = () => createContentFeed({ type: "blog-article" });
+
+  it("renders RSS 2.0 with escaped text and an enclosure", () => {
+    const rss = buildRssFeed(feed());
+    expect(rss).toContain(`<rss version="2.0"`);
+    expect(rss).toContain("<title>First &amp; Foremost</title>");
+    expect(rss).toContain("<description>The &lt;first&gt; post</description>");
+    expect(rss).toContain("<pubDate>Tue, 01 Oct 2024 10:00:00 GMT</pubDate>");
+    expect(rss).toContain(
+      `<enclosure url="https://www.example.com/media/blog/first.png" length="0" type="image/png"/>`
+    );
+    expect(rss).not.toContain("Draft");
+    expect(rss).not.toContain("Scheduled");
+  });
+
+  it("renders Atom with self link and enclosure link", () => {
+    const atom = buildAtomFeed(feed());
+    expect(atom).toContain(`<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">`);
+    expect(atom).toContain(
+      `<link rel="self" type="application/atom+xml" href="https://www.example.com/feeds/en/blog-article/atom.xml"/>`
+    );
+    expect(atom).toContain(`<updated>2024-10-12T08:00:00.000Z</updated>`);
+    expect(atom).toContain(
+      `<link rel="enclosure" type="image/png" href="https://www.example.com/media/blog/first.png"/>`
+    );
+  });
+
+  it("renders JSON Feed 1.1", () => {
+    const json = JSON.parse(buildJsonFeed(feed()));
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.feed_url).toBe("https://www.example.com/feeds/en/blog-article/feed.json");
+    expect(json.items[1]).toMatchObject({
+      id: "https://www.example.com/blog/first",
+      title: "First & Foremost",
+      image: "https://www.example.com/media/blog/first.png",
+      authors: [{ name: "Jane" }],
+      tags: ["News", "sdk"],
+    });
+  });
+});
+
+describe("generateFeeds", () => {
+  const outputDir = path.join(tmpRoot, "feeds");
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("writes three files per language and content type", async () => {
+    const result = await generateFeeds({ outputDir });
+
+    expect(result.map((f) => [f.language, f.type, f.itemCount])).toEqual([
+      ["en", "blog-article", 2],
+      ["en", "page", 1],
+      ["es", "blog-article", 1],
+    ]);
+    for (const file of ["rss.xml", "atom.xml", "feed.json"]) {
+      expect(fs.existsSync(path.join(outputDir, "es", "blog-article", file))).toBe(true);
+    }
+  });
+
+  it("filters by language and type and writes nothing in dry run mode", async () => {
+    const dryRunDir = path.join(tmpRoot, "dry-run");
+    const result = await generateFeeds({
+      outputDir: dryRunDir,
+      language: "en",
+      types: ["page"],
+      dryRun: true,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].files[0]).toBe(path.join(dryRunDir, "en", "page", "rss.xml"));
+    expect(fs.existsSync(dryRunDir)).toBe(false);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tests for --json reports of the status, push and pull commands (src/cli/bin/json-output.ts)
+ *
+ * Covers:
+ *  - Change and conflict counts per entity
+ *  - Outcomes and exit codes for status, dry runs and pushes, incl. partially failed pushes
+ *  - Pulled changes and the files a pull left with conflicts
+ *  - stdout redirection and the written report
+ *  - Pushes without --yes are refused
+ */
+
+import {
+  EXIT_CODES,
+  buildJsonReport,
+  countStatusChanges,
+  initJsonOutputFromArgs,
+  pullEntityReport,
+  pushEntityReport,
+  pushReportOptions,
+  requireJsonPushConfirmation,
+  statusEntityReport,
+  writeJsonReport,
+  type SyncStatusResults,
+} from "../src/cli/bin/json-output";
+
+function contentResult(
+  counts: Partial<Record<keyof SyncStatusResults["content"]["operations"], number>>
+): SyncStatusResults["content"] {
+  const ops = (n = 0) => Array.from({ length: n }, () => ({}));
+  return {
+    operations: {
+      create: ops(counts.create),
+      update: ops(counts.update),
+      rename: ops(counts.rename),
+      typeChange: ops(counts.typeChange),
+      conflict: ops(counts.conflict),
+      delete: ops(counts.delete),
+      remoteCreated: ops(counts.remoteCreated),
+      remoteDeleted: ops(counts.remoteDeleted),
+    },
+    totalLocal: 10,
+    totalRemote: 10,
+  } as unknown as SyncStatusResults["content"];
+}
+
+function segmentResult(types: string[]): SyncStatusResults["segments"] {
+  return {
+    operations: types.map((type) => ({ type })),
+    totalLocal: types.length,
+    totalRemote: types.length,
+  } as unknown as SyncStatusResults["segments"];
+}
+
+describe("countStatusChanges", () => {
+  it("counts content operations, deletions only with --delete", () => {
+    const result = contentResult({
+      create: 2,
+      update: 1,
+      conflict: 1,
+      delete: 3,
+      remoteCreated: 1,
+    });
+
+    expect(countStatusChanges("content", result)).toEqual({ changes: 5, conflicts: 1 });
+    expect(countStatusChanges("content", result, true)).toEqual({ changes: 8, conflicts: 1 });
+  });
+
+  it("skips unchanged items of operation lists", () => {
+    const result = segmentResult(["create", "skip", "conflict", "delete", "skip"]);
+
+    expect(countStatusChanges("segments", result)).toEqual({ changes: 2, conflicts: 1 });
+    expect(countStatusChanges("segments", result, true)).toEqual({ changes: 3, conflicts: 1 });
+  });
+
+  it("counts media and settings changes", () => {
+    const media = {
+      operations: [],
+      summary: {
+        creates: 1,
+        remoteCreateds: 2,
+        updates: 1,
+        remoteDeleteds: 0,
+        deletes: 4,
+        skips: 9,
+      },
+    } as unknown as SyncStatusResults["media"];
+    const settings = {
+      comparisons: [{ status: "in-sync" }, { status: "modified" }, { status: "local-only" }],
+    } as unknown as SyncStatusResults["settings"];
+
+    expect(countStatusChanges("media", media)).toEqual({ changes: 4, conflicts: 0 });
+    expect(countStatusChanges("media", media, true)).toEqual({ changes: 8, conflicts: 0 });
+    expect(countStatusChanges("settings", settings)).toEqual({ changes: 2, conflicts: 0 });
+  });
+});
+
+describe("buildJsonReport", () => {
+  const changed = statusEntityReport("content", contentResult({ update: 2 }));
+  const conflicted = statusEntityReport("segments", segmentResult(["conflict", "create"]));
+  const inSync = statusEntityReport("segments", segmentResult(["skip"]));
+
+  it("derives the outcome of a status check", () => {
+    expect(buildJsonReport("status", { segments: inSync })).toMatchObject({
+      schemaVersion: 1,
+      command: "status",
+      remote: null,
+      outcome: "clean",
+      exitCode: EXIT_CODES.clean,
+      summary: { changes: 0, conflicts: 0 },
+    });
+    expect(buildJsonReport("status", { content: changed })).toMatchObject({
+      outcome: "changes",
+      exitCode: 2,
+      summary: { changes: 2, conflicts: 0 },
+    });
+    expect(buildJsonReport("status", { content: changed, segments: conflicted })).toMatchObject({
+      outcome: "conflicts",
+      exitCode: 3,
+      summary: { changes: 4, conflicts: 1 },
+    });
+  });
+
+  it("reports entities that could not be checked as errors", () => {
+    const failed = statusEntityReport("comments", null, false, new Error("Request failed"));
+    expect(failed).toEqual({ changes: 0, conflicts: 0, result: null, error: "Request failed" });
+
+    const report = buildJsonReport("status", { content: changed, comments: failed });
+    expect(report).toMatchObject({ outcome: "error", exitCode: EXIT_CODES.error });
+  });
+
+  it("treats pushed changes as clean unless conflicts were left", () => {
+    const remoteContext = { name: "production" } as Parameters<typeof pushReportOptions>[0];
+
+    expect(
+      buildJsonReport("push", { content: changed }, pushReportOptions(remoteContext, true, false))
+    ).toMatchObject({ remote: "production", dryRun: true, outcome: "changes" });
+    expect(
+      buildJsonReport("push", { content: changed }, pushReportOptions(undefined, false, false))
+    ).toMatchObject({ dryRun: false, outcome: "clean", exitCode: 0 });
+    expect(
+      buildJsonReport("push", { segments: conflicted }, pushReportOptions(undefined, false, false))
+    ).toMatchObject({ outcome: "conflicts" });
+    expect(
+      buildJsonReport("push", { segments: conflicted }, pushReportOptions(undefined, false, true))
+    ).toMatchObject({ outcome: "clean" });
+  });
+
+  it("reports pushes with failed items as errors", () => {
+    const result = contentResult({ create: 1, update: 1 });
+    const pushed = pushEntityReport("content", result, false, { successful: 0, failed: 2 });
+    expect(pushed).toMatchObject({ changes: 2, conflicts: 0, failed: 2 });
+    expect(
+      buildJsonReport("push", { content: pushed }, pushReportOptions(undefined, false, true))
+    ).toMatchObject({
+      outcome: "error",
+      exitCode: EXIT_CODES.error,
+      summary: { changes: 2, conflicts: 0, failed: 2 },
+      error: { message: "2 item(s) failed to push, see stderr" },
+    });
+    // Dry runs push nothing, so there is no failed count
+    const previewed = pushEntityReport("content", result, false);
+    expect(previewed).not.toHaveProperty("failed");
+    expect(
+      buildJsonReport("push", { content: previewed }, pushReportOptions(undefined, true, false))
+    ).toMatchObject({ outcome: "changes", summary: { changes: 2, conflicts: 0 } });
+  });
+});
+
+describe("pullEntityReport", () => {
+  it("reports the changes a pull made and the files it left with conflicts", () => {
+    const pulled = pullEntityReport({ changes: 3, conflictedFiles: ["blog/hello.mdx"] });
+    expect(pulled).toEqual({
+      changes: 3,
+      conflicts: 1,
+      result: { changes: 3, conflictedFiles: ["blog/hello.mdx"] },
+    });
+
+    // Pulled changes are applied, so only conflicts change the outcome
+    expect(
+      buildJsonReport(
+        "pull",
+        { media: pullEntityReport({ changes: 2, conflictedFiles: [] }) },
+        { pulled: true }
+      )
+    ).toMatchObject({ outcome: "clean", exitCode: 0, summary: { changes: 2, conflicts: 0 } });
+    expect(buildJsonReport("pull", { content: pulled }, { pulled: true })).toMatchObject({
+      outcome: "conflicts",
+      exitCode: EXIT_CODES.conflicts,
+    });
+  });
+});
+
+describe("JSON mode", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("moves other output to stderr and writes the report to stdout", () => {
+    const stdoutWrite = jest.spyOn(process.stdout, "write").mockImplementation(((
+      _chunk: string,
+      callback?: () => void
+    ) => {
+      callback?.();
+      return true;
+    }) as typeof process.stdout.write);
+    const stderrWrite = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const exit = jest.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+
+    expect(initJsonOutputFromArgs(["--delete"], "status")).toBe(false);
+    expect(initJsonOutputFromArgs(["--json"], "status")).toBe(true);
+
+    process.stdout.write("📊 LeadCMS Status\n");
+    expect(stderrWrite).toHaveBeenCalledWith("📊 LeadCMS Status\n");
+    expect(stdoutWrite).not.toHaveBeenCalled();
+
+    void writeJsonReport(
+      buildJsonReport("status", {
+        content: statusEntityReport("content", contentResult({ create: 1 })),
+      })
+    );
+
+    expect(stdoutWrite).toHaveBeenCalledTimes(1);
+    const report = JSON.parse(String(stdoutWrite.mock.calls[0][0]));
+    expect(report).toMatchObject({ command: "status", outcome: "changes", exitCode: 2 });
+    expect(exit).toHaveBeenCalledWith(2);
+  });
+
+  it("refuses to push without --yes", async () => {
+    const stringify = jest.spyOn(JSON, "stringify");
+    jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const exit = jest.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+
+    await requireJsonPushConfirmation("push", ["--json", "--yes"]);
+    expect(exit).not.toHaveBeenCalled();
+
+    void requireJsonPushConfirmation("push", ["--json"]);
+
+    expect(exit).toHaveBeenCalledWith(EXIT_CODES.error);
+    expect(stringify.mock.calls[0][0]).toMatchObject({
+      command: "push",
+      outcome: "error",
+      error: { message: expect.stringContaining("pass --yes to push") },
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for locale fallback chains (`localeFallbacks` in src/lib/cms.ts)
+ *
+ * Covers:
+ *  - Chain resolution (transitive, nearest first, cycle-safe)
+ *  - Single-item lookups falling back to the next locale, marked with sourceLocale
+ *  - Listings merging fallback items (on request) without duplicating translations
+ *  - Config files falling back, and the async read API
+ */
+
+import fs from "fs";
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("fallbacks", {
+  config: { localeFallbacks: { "de-AT": ["de"], de: ["en"], fr: ["fr", "en"] } },
+});
+const { contentDir, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import {
+  getAllContentForLocale,
+  getAllContentForLocaleAsync,
+  getAllContentSlugsForLocale,
+  getCMSContentBySlugForLocale,
+  getCMSContentBySlugForLocaleAsync,
+  getLocaleFallbackChain,
+  loadContentConfig,
+} from "../src/lib/cms";
+
+beforeAll(() => {
+  writeContent("about", { type: "page", title: "About", translationKey: "about" });
+  writeContent("pricing", { type: "page", title: "Pricing", translationKey: "pricing" });
+  writeContent("contact", { type: "page", title: "Contact" });
+  writeContent("de/ueber-uns", { type: "page", title: "Über uns", translationKey: "about" });
+  writeContent("de/kontakt", { type: "page", title: "Kontakt", publishedAt: null });
+  writeContent("de-AT/pricing", { type: "page", title: "Preise (AT)" });
+
+  fs.writeFileSync(path.join(contentDir, "header.json"), JSON.stringify({ brand: "en" }));
+  fs.writeFileSync(path.join(contentDir, "de", "header.json"), JSON.stringify({ brand: "de" }));
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("getLocaleFallbackChain", () => {
+  it("follows fallbacks transitively and ignores cycles", () => {
+    expect(getLocaleFallbackChain("de-AT")).toEqual(["de-AT", "de", "en"]);
+    expect(getLocaleFallbackChain("fr")).toEqual(["fr", "en"]);
+    expect(getLocaleFallbackChain()).toEqual(["en"]);
+  });
+});
+
+describe("content lookups", () => {
+  it("falls back to the next locale and marks the source locale", () => {
+    expect(getCMSContentBySlugForLocale("ueber-uns", "de-AT")).toMatchObject({
+      title: "Über uns",
+      language: "de",
+      sourceLocale: "de",
+    });
+    expect(getCMSContentBySlugForLocale("about", "de-AT")).toMatchObject({
+      title: "About",
+      language: "en",
+      sourceLocale: "en",
+    });
+    expect(getCMSContentBySlugForLocale("pricing", "de-AT")?.sourceLocale).toBe("de-AT");
+  });
+
+  it("skips unpublished translations", () => {
+    expect(getCMSContentBySlugForLocale("kontakt", "de")).toBeNull();
+    expect(getCMSContentBySlugForLocale("contact", "de")?.sourceLocale).toBe("en");
+  });
+
+  it("lists only the locale's own items by default", () => {
+    expect(getAllContentSlugsForLocale("de-AT")).toEqual(["pricing"]);
+    expect(getAllContentForLocale("de-AT").map((c) => c.sourceLocale)).toEqual(["de-AT"]);
+  });
+
+  it("merges listings without duplicating translated items", () => {
+    const options = { includeFallbacks: true };
+    expect(getAllContentSlugsForLocale("de-AT", undefined, undefined, options).sort()).toEqual([
+      "contact",
+      "pricing",
+      "ueber-uns",
+    ]);
+    expect(
+      getAllContentForLocale("de-AT", undefined, undefined, options)
+        .map((c) => [c.slug, c.sourceLocale])
+        .sort()
+    ).toEqual([
+      ["contact", "en"],
+      ["pricing", "de-AT"],
+      ["ueber-uns", "de"],
+    ]);
+  });
+
+  it("leaves locales without fallbacks unchanged", () => {
+    expect(getAllContentSlugsForLocale("en").sort()).toEqual(["about", "contact", "pricing"]);
+  });
+
+  it("applies the same chain in the async read API", async () => {
+    const options = { includeFallbacks: true };
+    expect(await getAllContentForLocaleAsync("de-AT", undefined, undefined, options)).toEqual(
+      getAllContentForLocale("de-AT", undefined, undefined, options)
+    );
+    expect(await getCMSContentBySlugForLocaleAsync("about", "de-AT")).toEqual(
+      getCMSContentBySlugForLocale("about", "de-AT")
+    );
+  });
+});
+
+describe("config lookups", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("loads config files from the first locale that has them", () => {
+    expect(loadContentConfig("header", "de-AT")).toEqual({ brand: "de" });
+    expect(loadContentConfig("header", "fr")).toEqual({ brand: "en" });
+    expect(loadContentConfig("footer", "de-AT")).toBeNull();
+  });
+});
@@ -67,6 +67,12 @@ describe("Localization - getAllContentSlugsForLocale", () => {
     process.env.LEADCMS_DEFAULT_LANGUAGE = "en";
   });
 
+  beforeEach(() => {
+    // Tests add files synchronously; the index is only re-validated once per event loop turn
+    const { clearContentIndexCache } = require("../src/lib/content-index");
+    clearContentIndexCache();
+  });
+
   afterAll(() => {
     // Cleanup
     try {
@@ -0,0 +1,272 @@
+/**
+ * Tests for the Next.js helpers (src/lib/nextjs.ts)
+ *
+ * Covers:
+ *  - generateStaticParams() results with and without a locale segment
+ *  - Page params to locale, slug and preview user
+ *  - Metadata from SEO frontmatter and draft mode detection
+ *  - The revalidate route handler and its client
+ *
+ * Next.js is not needed: requests, draft mode and revalidate functions are plain objects.
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("nextjs", { config: { siteUrl: "https://www.example.com" } });
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import { getCMSContentBySlugForLocale } from "../src/lib/cms";
+import {
+  createRevalidateHandler,
+  generateContentStaticParams,
+  getContentMetadata,
+  isDraftModeEnabled,
+  requestRevalidation,
+  resolveContentParams,
+  type RevalidateRequest,
+} from "../src/lib/nextjs";
+
+const USER_UID = "0b6c2a4e-1f3d-4c5b-9a8e-7d6f5e4c3b2a";
+
+function createRequest(
+  headers: Record<string, string>,
+  body?: unknown,
+  method = "POST"
+): RevalidateRequest {
+  return {
+    method,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => {
+      if (body === undefined) throw new SyntaxError("Unexpected end of JSON input");
+      return body;
+    },
+  };
+}
+
+beforeAll(() => {
+  writeContent("blog/hello", {
+    type: "blog-post",
+    title: "Hello",
+    description: "First post",
+    coverImageUrl: "/api/media/hello.png",
+    author: "Jane Doe",
+    tags: ["intro", "cms"],
+    translationKey: "hello",
+  });
+  writeContent("de/blog/hallo", { type: "blog-post", title: "Hallo", translationKey: "hello" });
+  writeContent("about", {
+    type: "page",
+    title: "About",
+    seo: { title: "About us | Example", robots: "noindex,follow" },
+  });
+  writeContent(`about-${USER_UID}`, { type: "page", title: "About (draft)" });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+afterEach(() => {
+  fixture.previewMode = false;
+  delete process.env.LEADCMS_REVALIDATE_SECRET;
+  jest.restoreAllMocks();
+});
+
+describe("generateContentStaticParams", () => {
+  it("uses route paths as catch-all segments", () => {
+    expect(generateContentStaticParams()).toEqual(
+      expect.arrayContaining([
+        { slug: ["about"] },
+        { slug: ["blog", "hello"] },
+        { slug: ["de", "blog", "hallo"] },
+      ])
+    );
+    expect(generateContentStaticParams()).toHaveLength(3);
+  });
+
+  it("supports a locale segment and custom param names", () => {
+    expect(
+      generateContentStaticParams({
+        localeParam: "lang",
+        slugParam: "path",
+        contentTypes: ["blog-post"],
+      })
+    ).toEqual([
+      { lang: "de", path: ["blog", "hallo"] },
+      { lang: "en", path: ["blog", "hello"] },
+    ]);
+  });
+});
+
+describe("resolveContentParams", () => {
+  it("detects the locale from the first segment", () => {
+    expect(resolveContentParams({ slug: ["de", "blog", "hallo"] })).toEqual({
+      locale: "de",
+      slug: "blog/hallo",
+      userUid: null,
+      isPreview: false,
+    });
+    expect(resolveContentParams({ slug: ["blog", "hello"] })).toMatchObject({
+      locale: "en",
+      slug: "blog/hello",
+    });
+    expect(resolveContentParams({})).toMatchObject({ locale: "en", slug: "home" });
+  });
+
+  it("uses the locale segment and extracts the preview user", () => {
+    expect(
+      resolveContentParams(
+        { locale: "en", slug: [`about-${USER_UID.toUpperCase()}`] },
+        { localeParam: "locale" }
+      )
+    ).toEqual({
+      locale: "en",
+      slug: `about-${USER_UID.toUpperCase()}`,
+      userUid: USER_UID,
+      isPreview: true,
+    });
+  });
+});
+
+describe("isDraftModeEnabled", () => {
+  it("combines Next.js draft mode with the SDK preview mode", () => {
+    expect(isDraftModeEnabled()).toBe(false);
+    expect(isDraftModeEnabled({ isEnabled: true })).toBe(true);
+    fixture.previewMode = true;
+    expect(isDraftModeEnabled({ isEnabled: false })).toBe(true);
+  });
+});
+
+describe("getContentMetadata", () => {
+  it("maps head metadata to the Next.js Metadata shape", () => {
+    const metadata = getContentMetadata(getCMSContentBySlugForLocale("blog/hello", "en")!, {
+      siteName: "Example",
+      twitterSite: "@example",
+    });
+
+    expect(metadata).toEqual({
+      title: "Hello",
+      description: "First post",
+      keywords: ["intro", "cms"],
+      robots: "index,follow",
+      alternates: {
+        canonical: "https://www.example.com/blog/hello",
+        languages: {
+          en: "https://www.example.com/blog/hello",
+          de: "https://www.example.com/de/blog/hallo",
+          "x-default": "https://www.example.com/blog/hello",
+        },
+      },
+      openGraph: {
+        type: "article",
+        title: "Hello",
+        description: "First post",
+        url: "https://www.example.com/blog/hello",
+        locale: "en",
+        siteName: "Example",
+        images: [{ url: "https://www.example.com/api/media/hello.png" }],
+        publishedTime: "2024-10-01T00:00:00.000Z",
+        modifiedTime: "2024-10-01T00:00:00.000Z",
+        authors: ["Jane Doe"],
+        tags: ["intro", "cms"],
+      },
+      twitter: {
+        card: "summary_large_image",
+        title: "Hello",
+        description: "First post",
+        images: ["https://www.example.com/api/media/hello.png"],
+        site: "@example",
+      },
+    });
+  });
+
+  it("applies seo frontmatter overrides", () => {
+    const metadata = getContentMetadata(getCMSContentBySlugForLocale("about", "en")!);
+    expect(metadata).toMatchObject({
+      title: "About us | Example",
+      robots: "noindex,follow",
+      openGraph: { type: "website", title: "About" },
+      twitter: { card: "summary" },
+    });
+    expect(metadata.keywords).toBeUndefined();
+  });
+});
+
+describe("createRevalidateHandler", () => {
+  const revalidatePath = jest.fn();
+  const revalidateTag = jest.fn();
+  const handler = createRevalidateHandler({ revalidatePath, revalidateTag, secret: "s3cret" });
+
+  beforeEach(() => {
+    revalidatePath.mockClear();
+    revalidateTag.mockClear();
+  });
+
+  it("revalidates the listed paths and tags", async () => {
+    const response = await handler(
+      createRequest({ authorization: "Bearer s3cret" }, { paths: ["/blog/hello"], tags: ["blog"] })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      revalidated: true,
+      paths: ["/blog/hello"],
+      tags: ["blog"],
+    });
+    expect(revalidatePath).toHaveBeenCalledWith("/blog/hello");
+    expect(revalidateTag).toHaveBeenCalledWith("blog");
+  });
+
+  it("revalidates the whole site without paths or tags", async () => {
+    const response = await handler(createRequest({ "x-leadcms-revalidate-secret": "s3cret" }));
+
+    expect(await response.json()).toEqual({ revalidated: true, paths: ["/"], tags: [] });
+    expect(revalidatePath).toHaveBeenCalledWith("/", "layout");
+  });
+
+  it("rejects wrong secrets, other methods and a missing secret", async () => {
+    expect((await handler(createRequest({ authorization: "Bearer nope" }))).status).toBe(401);
+    expect((await handler(createRequest({}))).status).toBe(401);
+    expect((await handler(createRequest({}, undefined, "GET"))).status).toBe(405);
+
+    const unconfigured = createRevalidateHandler({ revalidatePath });
+    expect((await unconfigured(createRequest({ authorization: "Bearer s3cret" }))).status).toBe(
+      500
+    );
+    expect(revalidatePath).not.toHaveBeenCalled();
+  });
+
+  it("reads the secret from LEADCMS_REVALIDATE_SECRET", async () => {
+    process.env.LEADCMS_REVALIDATE_SECRET = "from-env";
+    const fromEnv = createRevalidateHandler({ revalidatePath });
+    expect((await fromEnv(createRequest({ authorization: "Bearer from-env" }))).status).toBe(200);
+  });
+});
+
+describe("requestRevalidation", () => {
+  it("posts paths and tags with the secret as a Bearer token", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue(Response.json({ revalidated: true }));
+
+    await expect(
+      requestRevalidation({ url: "http://localhost:3000/api/revalidate", secret: "s3cret" })
+    ).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:3000/api/revalidate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer s3cret" },
+      body: JSON.stringify({}),
+    });
+
+    fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+    await expect(
+      requestRevalidation({ url: "http://localhost:3000/api/revalidate" })
+    ).resolves.toBe(false);
+  });
+});
@@ -546,7 +546,7 @@ describe("push-comments", () => {
     });
     mockedPullLeadCMSComments.mockRejectedValue(new Error("refresh failed"));
 
-    await expect(pushComments()).resolves.toBeUndefined();
+    await expect(pushComments()).resolves.toEqual({ successful: 1, failed: 0 });
     expect(mockedPullLeadCMSComments).not.toHaveBeenCalled();
 
     const saved = JSON.parse(await fs.readFile(filePath, "utf8"));
@@ -1186,7 +1186,7 @@ describe("push-comments", () => {
     };
 
     try {
-      await expect(pushComments()).resolves.toBeUndefined();
+      await expect(pushComments()).resolves.toEqual({ successful: 1, failed: 1 });
     } finally {
       console.warn = originalWarn;
       console.error = originalError;
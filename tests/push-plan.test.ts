@@ -0,0 +1,250 @@
+/**
+ * Tests for saved push plans (src/scripts/push-plan.ts)
+ *
+ * Covers:
+ *  - Deterministic fingerprints and operation digests
+ *  - Portable (relative) paths and change counts in plans
+ *  - Rejecting modified plans, plans for another remote and stale plans
+ *  - Applying a plan that is still current, to the remote it was created for
+ *  - Pushing the checked status without checking the remote again
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-push-plan-"));
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir: path.join(tmpRoot, "content"),
+    mediaDir: path.join(tmpRoot, "media"),
+    commentsDir: path.join(tmpRoot, "comments"),
+    emailTemplatesDir: path.join(tmpRoot, "email-templates"),
+    settingsDir: path.join(tmpRoot, "settings"),
+    enableDrafts: false,
+  }),
+  isPreviewMode: () => false,
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+  initVerboseFromArgs: jest.fn(),
+}));
+
+jest.mock("../src/scripts/leadcms-helpers.js", () => ({
+  ...jest.requireActual("../src/scripts/leadcms-helpers.js"),
+  leadCMSUrl: "https://test.leadcms.com",
+  leadCMSApiKey: "test-key",
+}));
+
+const mockBuildSegmentStatus = jest.fn();
+const mockPushSegments = jest.fn();
+
+jest.mock("../src/scripts/push-segments.js", () => ({
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  buildSegmentStatus: (...args: any[]) => mockBuildSegmentStatus(...args),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  pushSegments: (...args: any[]) => mockPushSegments(...args),
+}));
+
+const mockGetSettingsStatusData = jest.fn();
+const mockPushSettings = jest.fn();
+
+jest.mock("../src/scripts/push-settings.js", () => ({
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getSettingsStatusData: (...args: any[]) => mockGetSettingsStatusData(...args),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  pushSettings: (...args: any[]) => mockPushSettings(...args),
+}));
+
+import type { RemoteContext } from "../src/lib/remote-context";
+import {
+  applyPushPlan,
+  createPushPlan,
+  readPushPlan,
+  writePushPlan,
+  type PushPlanStatus,
+} from "../src/scripts/push-plan";
+
+type SegmentStatus = NonNullable<PushPlanStatus["segments"]>;
+type MediaStatus = NonNullable<PushPlanStatus["media"]>;
+type SettingsStatus = NonNullable<PushPlanStatus["settings"]>;
+
+function segmentStatus(remoteName = "Customers"): SegmentStatus {
+  return {
+    operations: [
+      {
+        type: "update",
+        local: { id: 1, name: "Customers", filePath: path.join(process.cwd(), "segments/a.json") },
+        remote: { id: 1, name: remoteName, updatedAt: "2024-01-01T00:00:00Z" },
+      },
+      { type: "create", local: { name: "Leads" } },
+      { type: "skip", local: { id: 2, name: "Team" }, remote: { id: 2, name: "Team" } },
+      { type: "delete", remote: { id: 3, name: "Old" } },
+    ],
+    totalLocal: 3,
+    totalRemote: 3,
+  } as unknown as SegmentStatus;
+}
+
+function mediaStatus(): MediaStatus {
+  return {
+    operations: [
+      {
+        type: "create",
+        local: { absolutePath: path.join(process.cwd(), "media", "blog", "a.png") },
+      },
+    ],
+    remoteFiles: [{ location: "/api/media/blog/b.png", updatedAt: "2024-01-01T00:00:00Z" }],
+    summary: { creates: 1, updates: 0, deletes: 0, skips: 0, remoteCreateds: 0, remoteDeleteds: 0 },
+  } as unknown as MediaStatus;
+}
+
+function settingsStatus(): SettingsStatus {
+  return {
+    comparisons: [
+      {
+        key: "Site.Title",
+        language: null,
+        localValue: "New",
+        remoteValue: "Old",
+        status: "modified",
+      },
+    ],
+    totalTracked: 1,
+  };
+}
+
+const planFile = path.join(tmpRoot, "plans", "plan.json");
+
+beforeEach(() => {
+  mockBuildSegmentStatus.mockReset();
+  mockPushSegments.mockReset();
+  mockGetSettingsStatusData.mockReset();
+  mockPushSettings.mockReset();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("createPushPlan", () => {
+  it("fingerprints the remote state regardless of operation order", () => {
+    const status = segmentStatus();
+    const plan = createPushPlan("push", { segments: status });
+    const reordered = createPushPlan("push", {
+      segments: { ...status, operations: [...status.operations].reverse() },
+    });
+
+    expect(reordered.fingerprint).toBe(plan.fingerprint);
+    expect(reordered.operationsDigest).toBe(plan.operationsDigest);
+    expect(createPushPlan("push", { segments: segmentStatus("VIPs") }).fingerprint).not.toBe(
+      plan.fingerprint
+    );
+  });
+
+  it("stores relative paths, drops unchanged items and counts changes", () => {
+    const plan = createPushPlan("push", { segments: segmentStatus(), media: mediaStatus() });
+
+    expect(plan).toMatchObject({ planVersion: 1, remote: null, url: "https://test.leadcms.com" });
+    expect(plan.operations.segments!.map((op) => op.type)).toEqual(["update", "create", "delete"]);
+    expect(plan.operations.segments![0].local!.filePath).toBe("segments/a.json");
+    expect(plan.operations.media![0].local!.absolutePath).toBe("media/blog/a.png");
+    expect(plan.summary).toEqual({ media: 1, segments: 2 });
+    expect(
+      createPushPlan("push", { segments: segmentStatus() }, { allowDelete: true }).summary
+    ).toEqual({ segments: 3 });
+  });
+});
+
+describe("readPushPlan", () => {
+  it("rejects files that are not plans or were edited", async () => {
+    const plan = createPushPlan("push", { segments: segmentStatus() });
+    await writePushPlan(planFile, plan);
+    await expect(readPushPlan(planFile)).resolves.toEqual(plan);
+
+    fs.writeFileSync(planFile, JSON.stringify({ ...plan, planVersion: 99 }));
+    await expect(readPushPlan(planFile)).rejects.toMatchObject({ name: "InvalidPushPlan" });
+
+    const edited = JSON.parse(JSON.stringify(plan));
+    edited.operations.segments.push({ type: "delete", remote: { id: 4, name: "Partners" } });
+    fs.writeFileSync(planFile, JSON.stringify(edited));
+    await expect(readPushPlan(planFile)).rejects.toMatchObject({ name: "InvalidPushPlan" });
+  });
+});
+
+describe("applyPushPlan", () => {
+  it("pushes a plan when nothing changed since", async () => {
+    await writePushPlan(
+      planFile,
+      createPushPlan("push", { segments: segmentStatus() }, { force: true })
+    );
+    mockBuildSegmentStatus.mockResolvedValue(segmentStatus());
+    mockPushSegments.mockResolvedValueOnce({ successful: 1, failed: 0 });
+
+    const { status, pushed } = await applyPushPlan(planFile);
+
+    expect(status.segments).toEqual(segmentStatus());
+    // The checked status is pushed, so the remote is not fetched again
+    expect(mockPushSegments).toHaveBeenCalledWith(
+      expect.objectContaining({ dryRun: false, force: true, quiet: true, status: status.segments })
+    );
+    expect(mockBuildSegmentStatus).toHaveBeenCalledTimes(1);
+    expect(pushed).toEqual({ segments: { successful: 1, failed: 0 } });
+  });
+
+  it("checks and pushes every entity on the remote the plan was created for", async () => {
+    const remoteContext: RemoteContext = {
+      name: "staging",
+      url: "https://staging.leadcms.com",
+      apiKey: "staging-key",
+      isDefault: false,
+      stateDir: path.join(tmpRoot, "remotes", "staging"),
+    };
+    const status = { settings: settingsStatus(), segments: segmentStatus() };
+    await writePushPlan(planFile, createPushPlan("push", status, {}, remoteContext));
+    mockGetSettingsStatusData.mockResolvedValue(settingsStatus());
+    mockBuildSegmentStatus.mockResolvedValue(segmentStatus());
+
+    await applyPushPlan(planFile, { remoteContext });
+
+    expect(mockGetSettingsStatusData).toHaveBeenCalledWith(
+      expect.objectContaining({ remoteContext })
+    );
+    expect(mockPushSettings).toHaveBeenCalledWith(expect.objectContaining({ remoteContext }));
+    expect(mockPushSegments).toHaveBeenCalledWith(expect.objectContaining({ remoteContext }));
+  });
+
+  it("refuses stale plans and plans for another remote", async () => {
+    await writePushPlan(planFile, createPushPlan("push", { segments: segmentStatus() }));
+
+    mockBuildSegmentStatus.mockResolvedValue(segmentStatus("VIPs"));
+    await expect(applyPushPlan(planFile)).rejects.toMatchObject({
+      name: "StalePushPlan",
+      message: expect.stringContaining("remote has changed"),
+    });
+
+    const localChange = segmentStatus();
+    localChange.operations.push({ type: "create", local: { name: "Partners" } } as never);
+    mockBuildSegmentStatus.mockResolvedValue(localChange);
+    await expect(applyPushPlan(planFile)).rejects.toMatchObject({
+      name: "StalePushPlan",
+      message: expect.stringContaining("Local files have changed"),
+    });
+
+    const remoteContext = { name: "staging", url: "https://staging.leadcms.com" };
+    await expect(
+      applyPushPlan(planFile, { remoteContext } as Parameters<typeof applyPushPlan>[1])
+    ).rejects.toMatchObject({ name: "InvalidPushPlan" });
+
+    expect(mockPushSegments).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,7 @@
  *  - Skip unchanged redirects (surrogate-key match, payload identical)
  *  - Delete remote-only redirects when allowDelete=true
  *  - Dry run mode (no API calls, no file writes)
+ *  - Counting rejected items as push failures
  *  - Auto-detected source/target types in create payload
  *  - No id/dates written back to local YAML after push
  */
@@ -354,6 +355,25 @@ describe("pushRedirects", () => {
 
     expect(mockCreateRedirect).toHaveBeenCalledTimes(2);
   });
+
+  it("counts rejected redirects as push failures and pushes the rest", async () => {
+    const locals = [
+      makeLocal({ fromPath: "/a", toUrl: "https://a.com" }),
+      makeLocal({ fromPath: "/b", toUrl: "https://b.com" }),
+    ];
+    await writeLocalRedirects(tmpDir, locals);
+    mockGetAllRedirects.mockResolvedValueOnce([]);
+    mockCreateRedirect
+      .mockRejectedValueOnce(new Error("Validation failed"))
+      .mockResolvedValueOnce(makeRemote({ id: 11, fromPath: "/b", toUrl: "https://b.com" }));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await pushRedirects({ dryRun: false });
+
+    expect(mockCreateRedirect).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ successful: 1, failed: 1 });
+    jest.restoreAllMocks();
+  });
 });
 
 // ── buildRedirectStatus ───────────────────────────────────────────────────────
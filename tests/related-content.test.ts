@@ -0,0 +1,97 @@
+/**
+ * Tests for getRelatedContent() (src/lib/cms.ts)
+ *
+ * Covers:
+ *  - Scoring by shared tags, category and author
+ *  - TF-IDF body text similarity
+ *  - Exclusion of the source item, drafts and unrelated items
+ *  - Type filtering (default: source type) and limit
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("related");
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import { getRelatedContent } from "../src/lib/cms";
+
+beforeAll(() => {
+  writeContent(
+    "source",
+    { type: "blog-article", tags: ["nextjs", "sdk"], category: "Guides", author: "Jane" },
+    "Static site generation with incremental builds and image optimization."
+  );
+  writeContent(
+    "same-tags",
+    { type: "blog-article", tags: ["NextJS", "sdk"], category: "News", author: "John" },
+    "Release notes."
+  );
+  writeContent(
+    "same-category",
+    { type: "blog-article", tags: ["astro"], category: "guides", author: "John" },
+    "Routing basics."
+  );
+  writeContent(
+    "similar-text",
+    { type: "blog-article", tags: ["other"], category: "Misc", author: "Max" },
+    "Incremental static site generation explained: builds, image optimization, caching."
+  );
+  writeContent(
+    "same-author",
+    { type: "blog-article", tags: ["misc"], category: "Misc", author: "jane" },
+    "Company retreat photos."
+  );
+  writeContent(
+    "unrelated",
+    { type: "blog-article", tags: ["hiring"], category: "Jobs", author: "Max" },
+    "We are hiring engineers."
+  );
+  writeContent(
+    "draft",
+    { type: "blog-article", tags: ["nextjs", "sdk"], category: "Guides", publishedAt: null },
+    "Static site generation with incremental builds and image optimization."
+  );
+  writeContent(
+    "docs-page",
+    { type: "doc", tags: ["nextjs", "sdk"], category: "Guides", author: "Jane" },
+    "Static site generation with incremental builds."
+  );
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+const slugs = (items: { slug: string }[]) => items.map((item) => item.slug);
+
+describe("getRelatedContent", () => {
+  it("ranks candidates by tags, text similarity, category and author", () => {
+    expect(slugs(getRelatedContent("source", "en"))).toEqual([
+      "same-tags",
+      "similar-text",
+      "same-category",
+      "same-author",
+    ]);
+  });
+
+  it("skips the item itself, drafts and unrelated items", () => {
+    const result = slugs(getRelatedContent("source"));
+    expect(result).not.toContain("source");
+    expect(result).not.toContain("draft");
+    expect(result).not.toContain("unrelated");
+  });
+
+  it("applies limit and types", () => {
+    expect(slugs(getRelatedContent("source", "en", { limit: 2 }))).toEqual([
+      "same-tags",
+      "similar-text",
+    ]);
+    expect(slugs(getRelatedContent("source", "en", { types: ["doc"] }))).toEqual(["docs-page"]);
+  });
+
+  it("returns an empty list for unknown slugs", () => {
+    expect(getRelatedContent("missing")).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for `leadcms resolve` (src/scripts/resolve-conflicts.ts)
+ *
+ * Covers:
+ *  - Finding conflicted content files and email templates
+ *  - Validating resolved content (markers, JSON)
+ *  - Resolving a file with an external merge tool, restoring it on failure
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-resolve-"));
+const contentDir = path.join(tmpRoot, "content");
+const emailTemplatesDir = path.join(tmpRoot, "email-templates");
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir,
+    emailTemplatesDir,
+    enableDrafts: false,
+  }),
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  listConflictedFiles,
+  runMergeTool,
+  validateResolvedContent,
+} from "../src/scripts/resolve-conflicts";
+
+const CONFLICT = "<<<<<<< local\ntitle: Local\n=======\ntitle: Remote\n>>>>>>> remote";
+
+function write(relPath: string, body: string): string {
+  const filePath = path.join(tmpRoot, relPath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, body);
+  return filePath;
+}
+
+/** Merge tool command running a node script with the placeholders as arguments */
+function nodeTool(script: string, placeholders: string): string {
+  return `"${process.execPath}" -e "${script}" ${placeholders}`;
+}
+
+beforeEach(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("listConflictedFiles", () => {
+  it("finds content files and email templates with conflict markers", async () => {
+    write("content/blog/hello.mdx", `---\n${CONFLICT}\n---\nBody`);
+    write("content/de/about.json", CONFLICT);
+    write("content/blog/clean.mdx", "---\ntitle: Clean\n---\n=======");
+    write("email-templates/welcome.html", `${CONFLICT}\n${CONFLICT}`);
+    write("email-templates/notes.txt", CONFLICT);
+
+    const files = await listConflictedFiles();
+
+    expect(files.map((f) => [path.relative(tmpRoot, f.filePath), f.kind, f.conflicts])).toEqual([
+      [path.join("content", "blog", "hello.mdx"), "content", 1],
+      [path.join("content", "de", "about.json"), "content", 1],
+      [path.join("email-templates", "welcome.html"), "email-template", 2],
+    ]);
+  });
+});
+
+describe("validateResolvedContent", () => {
+  it("rejects leftover markers and invalid JSON", () => {
+    expect(validateResolvedContent("a.mdx", CONFLICT)).toBe("conflict markers are left");
+    expect(validateResolvedContent("a.json", '{ "a": 1, }')).toMatch(/^invalid JSON/);
+    expect(validateResolvedContent("a.json", '{ "a": 1 }')).toBeNull();
+    expect(validateResolvedContent("a.mdx", "title: Local")).toBeNull();
+  });
+});
+
+describe("runMergeTool", () => {
+  it("passes base, local and remote files and keeps a valid result", async () => {
+    const filePath = write("content/blog/hello.mdx", `---\n${CONFLICT}\n---\nBody`);
+
+    const result = await runMergeTool(
+      filePath,
+      nodeTool(
+        "const fs = require('fs'); const [base, , remote, merged] = process.argv.slice(1); " +
+          "fs.writeFileSync(merged, fs.readFileSync(remote, 'utf8') + '<!-- ' + fs.readFileSync(base, 'utf8').length + ' -->')",
+        "$BASE $LOCAL $REMOTE $MERGED"
+      )
+    );
+
+    expect(result).toEqual({ resolved: true });
+    expect(fs.readFileSync(filePath, "utf8")).toBe(
+      `---\ntitle: Remote\n---\nBody<!-- ${"---\n---\nBody".length} -->`
+    );
+  });
+
+  it("restores the file if the tool fails or leaves an invalid result", async () => {
+    const original = `{\n${CONFLICT}\n}`;
+    const filePath = write("content/page.json", original);
+
+    const failed = await runMergeTool(
+      filePath,
+      nodeTool("require('fs').writeFileSync(process.argv[1], 'x'); process.exit(2)", "$MERGED")
+    );
+    expect(failed).toEqual({ resolved: false, error: "merge tool exited with code 2" });
+    expect(fs.readFileSync(filePath, "utf8")).toBe(original);
+
+    const invalid = await runMergeTool(
+      filePath,
+      nodeTool("require('fs').copyFileSync(process.argv[1], process.argv[2])", "$LOCAL $MERGED")
+    );
+    expect(invalid).toMatchObject({
+      resolved: false,
+      error: expect.stringMatching(/^invalid JSON/),
+    });
+    expect(fs.readFileSync(filePath, "utf8")).toBe(original);
+  });
+});
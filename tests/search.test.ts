@@ -0,0 +1,171 @@
+/**
+ * Tests for full-text search (src/lib/search.ts, src/lib/search-index.ts,
+ * src/scripts/generate-search-index.ts)
+ *
+ * Covers:
+ *  - Markup stripping and tokenization
+ *  - Field-weighted ranking, AND semantics and prefix matching
+ *  - Index registration per locale and type filtering
+ *  - Building indexes from local content (drafts excluded, locales kept apart)
+ *  - generateSearchIndex(): one JSON file per language
+ */
+
+import fs from "fs";
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("search", { frontmatterDefaults: {} });
+const { tmpRoot, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  createSearchIndex,
+  loadSearchIndex,
+  searchContent,
+  stripMarkup,
+  tokenizeSearchText,
+} from "../src/lib/search";
+import { buildSearchIndex } from "../src/lib/search-index";
+import { generateSearchIndex } from "../src/scripts/generate-search-index";
+
+beforeAll(() => {
+  const publishedAt = "2024-10-01T00:00:00Z";
+  writeContent(
+    "docs/setup",
+    { type: "doc", title: "Setup Guide", tags: ["install"], publishedAt },
+    `import { Callout } from "./components";\n\n# Installing\n\n<Callout type="info">Run the **installer**.</Callout>\n\nSee [the configuration page](/docs/config).`
+  );
+  writeContent(
+    "docs/config",
+    { type: "doc", title: "Configuration", description: "Configure the SDK", publishedAt },
+    "Set `contentDir` and `defaultLanguage` in leadcms.config.json."
+  );
+  writeContent(
+    "blog/news",
+    { type: "blog-article", title: "Release news", publishedAt },
+    "Setup is faster now."
+  );
+  writeContent("docs/secret", { type: "doc", title: "Secret setup" }, "Draft body");
+  writeContent(
+    "es/docs/instalar",
+    { type: "doc", title: "Guía de instalación", publishedAt },
+    "Configuración"
+  );
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("text processing", () => {
+  it("strips MDX, JSX and Markdown markup but keeps visible text", () => {
+    const text = stripMarkup(
+      `import X from "x";\n# Title\n<Box prop="1">Hello **world**</Box> ![Alt text](/a.png) [link text](/b)\n{/* hidden */}`
+    );
+    expect(text).toBe("Title Hello world Alt text link text");
+  });
+
+  it("tokenizes lowercase without diacritics and drops one-character tokens", () => {
+    expect(tokenizeSearchText("Café au Lait, a B-52!")).toEqual(["cafe", "au", "lait", "52"]);
+  });
+});
+
+describe("searchContent", () => {
+  const index = createSearchIndex(
+    [
+      { slug: "a", type: "doc", title: "Deploy to Vercel", body: "hosting platform" },
+      { slug: "b", type: "doc", title: "Hosting", body: "deploy anywhere, deploy fast" },
+      { slug: "c", type: "blog", title: "Company news", body: "we moved hosting" },
+      { slug: "constructor", type: "doc", title: "constructor", body: "__proto__" },
+    ],
+    "en"
+  );
+
+  it("ranks title matches above body matches", () => {
+    expect(searchContent("deploy", "en", { index }).map((r) => r.slug)).toEqual(["a", "b"]);
+  });
+
+  it("requires every query token to match", () => {
+    expect(searchContent("deploy hosting", "en", { index }).map((r) => r.slug)).toEqual(["b", "a"]);
+    expect(searchContent("deploy news", "en", { index })).toEqual([]);
+  });
+
+  it("matches prefixes and filters by type", () => {
+    expect(searchContent("host", "en", { index, types: ["blog"] }).map((r) => r.slug)).toEqual([
+      "c",
+    ]);
+  });
+
+  it("handles tokens that are Object.prototype keys", () => {
+    const roundTripped = JSON.parse(JSON.stringify(index));
+    expect(searchContent("proto", "en", { index: roundTripped }).map((r) => r.slug)).toEqual([
+      "constructor",
+    ]);
+  });
+
+  it("searches the index registered for the locale", () => {
+    expect(searchContent("deploy", "fr")).toEqual([]);
+    loadSearchIndex({ ...index, locale: "fr" });
+    expect(searchContent("deploy", "fr", { limit: 1 })).toEqual([
+      expect.objectContaining({ slug: "a", title: "Deploy to Vercel" }),
+    ]);
+  });
+});
+
+describe("buildSearchIndex", () => {
+  it("indexes published local content with paths", () => {
+    const index = buildSearchIndex("en", { types: ["doc", "blog-article"] });
+    expect(index.documents.map((d) => d.slug)).toEqual(["blog/news", "docs/config", "docs/setup"]);
+    expect(index.documents[2]).toEqual({
+      slug: "docs/setup",
+      type: "doc",
+      title: "Setup Guide",
+      path: "/docs/setup",
+    });
+  });
+
+  it("finds body text without matching markup", () => {
+    const index = buildSearchIndex("en");
+    expect(searchContent("installer", "en", { index }).map((r) => r.slug)).toEqual(["docs/setup"]);
+    expect(searchContent("callout", "en", { index })).toEqual([]);
+    expect(searchContent("setup", "en", { index }).map((r) => r.slug)).toEqual([
+      "docs/setup",
+      "blog/news",
+    ]);
+  });
+
+  it("keeps locales separate", () => {
+    const index = buildSearchIndex("es");
+    expect(searchContent("configuracion", "es", { index }).map((r) => r.slug)).toEqual([
+      "docs/instalar",
+    ]);
+  });
+});
+
+describe("generateSearchIndex", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("writes one JSON index per language", async () => {
+    const outputDir = path.join(tmpRoot, "public", "search");
+    const result = await generateSearchIndex({ outputDir });
+
+    expect(result.map((r) => [r.language, r.documentCount])).toEqual([
+      ["en", 3],
+      ["es", 1],
+    ]);
+    const en = JSON.parse(fs.readFileSync(path.join(outputDir, "en.json"), "utf8"));
+    expect(en.version).toBe(1);
+    expect(en.locale).toBe("en");
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for head metadata and JSON-LD generation (src/lib/seo-head.ts)
+ *
+ * Covers:
+ *  - Effective values from seo frontmatter overrides and content defaults
+ *  - Meta, OpenGraph, Twitter and hreflang tags
+ *  - JSON-LD type selection and BreadcrumbList for nested slugs
+ *  - HTML rendering with escaping
+ */
+
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("seo-head", {
+  config: { siteUrl: "https://www.example.com", languageDomains: { de: "https://de.example.com" } },
+});
+const { writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import { getCMSContentBySlugForLocale } from "../src/lib/cms";
+import { getSeoHead, getSeoSchemaType, renderSeoHead } from "../src/lib/seo-head";
+
+beforeAll(() => {
+  writeContent("blog/hello", {
+    type: "blog-post",
+    title: "Hello <World>",
+    description: "First post",
+    coverImageUrl: "/api/media/hello.png",
+    coverImageAlt: "Waving hand",
+    author: "Jane Doe",
+    category: "News",
+    tags: ["intro", "cms"],
+    translationKey: "hello",
+    updatedAt: "2024-10-05T00:00:00Z",
+  });
+  writeContent("de/blog/hallo", { type: "blog-post", title: "Hallo", translationKey: "hello" });
+  writeContent("docs", { type: "doc", title: "Documentation" });
+  writeContent("docs/guides/setup", {
+    type: "doc",
+    title: "Setup",
+    description: "How to set up",
+    seo: {
+      title: "Setup guide | Docs",
+      robots: "noindex,follow",
+      canonicalUrl: "/docs/setup",
+      ogTitle: "Set up in 5 minutes",
+      keywords: ["setup", "install"],
+    },
+  });
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+describe("getSeoSchemaType", () => {
+  it("derives the schema type from the content type", () => {
+    expect(getSeoSchemaType("blog-post")).toBe("BlogPosting");
+    expect(getSeoSchemaType("article")).toBe("Article");
+    expect(getSeoSchemaType("news")).toBe("Article");
+    expect(getSeoSchemaType("page")).toBe("WebPage");
+    expect(getSeoSchemaType("page", { page: "Article" })).toBe("Article");
+  });
+});
+
+describe("getSeoHead", () => {
+  it("uses content defaults when there are no seo overrides", () => {
+    const head = getSeoHead(getCMSContentBySlugForLocale("blog/hello", "en")!, {
+      siteName: "Example",
+      twitterSite: "@example",
+    });
+
+    expect(head).toMatchObject({
+      title: "Hello <World>",
+      description: "First post",
+      canonical: "https://www.example.com/blog/hello",
+      robots: "index,follow",
+      alternates: {
+        en: "https://www.example.com/blog/hello",
+        de: "https://de.example.com/blog/hallo",
+        "x-default": "https://www.example.com/blog/hello",
+      },
+    });
+    expect(head.tags).toEqual(
+      expect.arrayContaining([
+        { tag: "link", rel: "canonical", href: "https://www.example.com/blog/hello" },
+        {
+          tag: "link",
+          rel: "alternate",
+          hreflang: "de",
+          href: "https://de.example.com/blog/hallo",
+        },
+        { tag: "meta", name: "keywords", content: "intro, cms" },
+        { tag: "meta", property: "og:type", content: "article" },
+        {
+          tag: "meta",
+          property: "og:image",
+          content: "https://www.example.com/api/media/hello.png",
+        },
+        { tag: "meta", property: "og:image:alt", content: "Waving hand" },
+        { tag: "meta", property: "og:locale", content: "en" },
+        { tag: "meta", property: "og:site_name", content: "Example" },
+        { tag: "meta", property: "article:tag", content: "cms" },
+        { tag: "meta", name: "twitter:card", content: "summary_large_image" },
+        { tag: "meta", name: "twitter:site", content: "@example" },
+      ])
+    );
+    expect(head.jsonLd).toEqual([
+      {
+        "@context": "https://schema.org",
+        "@type": "BlogPosting",
+        headline: "Hello <World>",
+        description: "First post",
+        url: "https://www.example.com/blog/hello",
+        inLanguage: "en",
+        image: "https://www.example.com/api/media/hello.png",
+        datePublished: "2024-10-01T00:00:00.000Z",
+        dateModified: "2024-10-05T00:00:00.000Z",
+        mainEntityOfPage: { "@type": "WebPage", "@id": "https://www.example.com/blog/hello" },
+        author: { "@type": "Person", name: "Jane Doe" },
+        publisher: { "@type": "Organization", name: "Example" },
+        keywords: "intro, cms",
+      },
+      {
+        "@context": "https://schema.org",
+        "@type": "BreadcrumbList",
+        itemListElement: [
+          { "@type": "ListItem", position: 1, name: "Blog" },
+          {
+            "@type": "ListItem",
+            position: 2,
+            name: "Hello <World>",
+            item: "https://www.example.com/blog/hello",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("applies seo frontmatter overrides", () => {
+    const head = getSeoHead(getCMSContentBySlugForLocale("docs/guides/setup", "en")!);
+
+    expect(head).toMatchObject({
+      title: "Setup guide | Docs",
+      description: "How to set up",
+      canonical: "https://www.example.com/docs/setup",
+      robots: "noindex,follow",
+    });
+    expect(head.tags).toEqual(
+      expect.arrayContaining([
+        { tag: "meta", name: "robots", content: "noindex,follow" },
+        { tag: "meta", name: "keywords", content: "setup, install" },
+        { tag: "meta", property: "og:type", content: "website" },
+        { tag: "meta", property: "og:title", content: "Set up in 5 minutes" },
+        { tag: "meta", name: "twitter:card", content: "summary" },
+      ])
+    );
+    expect(head.jsonLd[0]).toMatchObject({ "@type": "WebPage", name: "Setup guide | Docs" });
+    expect(head.jsonLd[1].itemListElement).toEqual([
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: "Documentation",
+        item: "https://www.example.com/docs",
+      },
+      { "@type": "ListItem", position: 2, name: "Guides" },
+      {
+        "@type": "ListItem",
+        position: 3,
+        name: "Setup",
+        item: "https://www.example.com/docs/guides/setup",
+      },
+    ]);
+  });
+
+  it("builds URLs on the locale's own domain", () => {
+    const head = getSeoHead(getCMSContentBySlugForLocale("blog/hallo", "de")!);
+    expect(head.canonical).toBe("https://de.example.com/blog/hallo");
+    expect(head.tags).toContainEqual({ tag: "meta", property: "og:locale", content: "de" });
+  });
+
+  it("uses the siteUrl option for locales without a domain", () => {
+    const head = getSeoHead(getCMSContentBySlugForLocale("docs", "en")!, {
+      siteUrl: "https://staging.example.com/",
+    });
+    expect(head.canonical).toBe("https://staging.example.com/docs");
+    expect(head.jsonLd).toHaveLength(1);
+  });
+});
+
+describe("renderSeoHead", () => {
+  it("renders escaped tags and JSON-LD scripts", () => {
+    const html = renderSeoHead(getSeoHead(getCMSContentBySlugForLocale("blog/hello", "en")!));
+
+    expect(html).toContain("<title>Hello &lt;World&gt;</title>");
+    expect(html).toContain('<meta name="description" content="First post">');
+    expect(html).toContain(
+      '<link rel="alternate" hreflang="de" href="https://de.example.com/blog/hallo">'
+    );
+    expect(html).toContain('<script type="application/ld+json">{"@context"');
+    expect(html).toContain('"headline":"Hello \\u003cWorld>"');
+  });
+});
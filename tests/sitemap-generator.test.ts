@@ -0,0 +1,170 @@
+/**
+ * Tests for sitemap generation (src/lib/sitemap-generator.ts)
+ *
+ * Covers:
+ *  - Absolute URLs from siteUrl / languageDomains and the path pattern
+ *  - Draft, noindex and fallback-locale exclusion
+ *  - hreflang alternates (incl. x-default) for translationKey groups
+ *  - lastmod from per-remote metadata.json, falling back to frontmatter
+ *  - Sitemap index + per-language files, dry run
+ */
+
+import fs from "fs";
+import path from "path";
+import { createContentFixture } from "./test-helpers";
+
+const fixture = createContentFixture("sitemap", {
+  config: {
+    siteUrl: "https://www.example.com",
+    languageDomains: { de: "https://www.example.de" },
+    localeFallbacks: { de: ["en"] },
+  },
+  frontmatterDefaults: {},
+});
+const { tmpRoot, writeContent } = fixture;
+
+jest.mock("../src/lib/config", () => fixture.configModule);
+
+import type { RemoteContext } from "../src/lib/remote-context";
+import {
+  buildSitemapXml,
+  generateSitemap,
+  getSitemapUrls,
+  type SitemapUrl,
+} from "../src/lib/sitemap-generator";
+
+const remoteContext: RemoteContext = {
+  name: "production",
+  url: "https://test.leadcms.com",
+  isDefault: true,
+  stateDir: path.join(tmpRoot, "remotes", "production"),
+};
+
+beforeAll(() => {
+  const publishedAt = "2024-10-01T00:00:00Z";
+  writeContent("about", { type: "page", translationKey: "about", publishedAt });
+  writeContent("de/ueber-uns", { type: "page", translationKey: "about", publishedAt });
+  writeContent("blog/post", {
+    type: "blog-article",
+    publishedAt,
+    updatedAt: "2024-10-15T09:30:00Z",
+  });
+  writeContent("private", { type: "page", publishedAt, seo: { robots: "noindex, follow" } });
+  writeContent("draft", { type: "page" });
+
+  fs.mkdirSync(remoteContext.stateDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(remoteContext.stateDir, "metadata.json"),
+    JSON.stringify({
+      content: {
+        en: { about: { id: 1, updatedAt: "2024-10-20T12:00:00Z" } },
+        de: { "ueber-uns": { id: 2, createdAt: "2024-10-02T08:00:00Z" } },
+      },
+    })
+  );
+});
+
+afterAll(() => {
+  fixture.cleanup();
+});
+
+const byLoc = (urls: SitemapUrl[], loc: string) => urls.find((url) => url.loc === loc)!;
+
+describe("getSitemapUrls", () => {
+  it("lists published, indexable content with absolute URLs", async () => {
+    const urls = await getSitemapUrls({ remoteContext });
+    expect(urls.map((url) => url.loc)).toEqual([
+      "https://www.example.com/about",
+      "https://www.example.com/blog/post",
+      "https://www.example.de/ueber-uns",
+    ]);
+  });
+
+  it("leaves out items only available in a fallback locale", async () => {
+    const urls = await getSitemapUrls({ remoteContext });
+    expect(urls.filter((url) => url.language === "de").map((url) => url.loc)).toEqual([
+      "https://www.example.de/ueber-uns",
+    ]);
+    expect(byLoc(urls, "https://www.example.com/blog/post").alternates).toEqual([]);
+  });
+
+  it("links translations with hreflang and x-default alternates", async () => {
+    const urls = await getSitemapUrls({ remoteContext });
+    const expected = [
+      { hreflang: "en", href: "https://www.example.com/about" },
+      { hreflang: "de", href: "https://www.example.de/ueber-uns" },
+      { hreflang: "x-default", href: "https://www.example.com/about" },
+    ];
+    expect(byLoc(urls, "https://www.example.com/about").alternates).toEqual(expected);
+    expect(byLoc(urls, "https://www.example.de/ueber-uns").alternates).toEqual(expected);
+    expect(byLoc(urls, "https://www.example.com/blog/post").alternates).toEqual([]);
+  });
+
+  it("takes lastmod from remote metadata, then frontmatter", async () => {
+    const urls = await getSitemapUrls({ remoteContext });
+    expect(byLoc(urls, "https://www.example.com/about").lastmod).toBe("2024-10-20T12:00:00.000Z");
+    expect(byLoc(urls, "https://www.example.de/ueber-uns").lastmod).toBe(
+      "2024-10-02T08:00:00.000Z"
+    );
+    expect(byLoc(urls, "https://www.example.com/blog/post").lastmod).toBe(
+      "2024-10-15T09:30:00.000Z"
+    );
+  });
+
+  it("applies pathPattern and type filters", async () => {
+    const urls = await getSitemapUrls({
+      remoteContext,
+      types: ["blog-article"],
+      pathPattern: "/{slug}/",
+    });
+    expect(urls.map((url) => url.loc)).toEqual(["https://www.example.com/blog/post/"]);
+  });
+});
+
+describe("buildSitemapXml", () => {
+  it("renders xhtml:link alternates and escapes URLs", () => {
+    const xml = buildSitemapXml([
+      {
+        language: "en",
+        slug: "a&b",
+        loc: "https://www.example.com/en/a&b",
+        lastmod: "2024-10-01T00:00:00.000Z",
+        alternates: [{ hreflang: "de", href: "https://www.example.de/de/a&b" }],
+      },
+    ]);
+    expect(xml).toContain(`xmlns:xhtml="http://www.w3.org/1999/xhtml"`);
+    expect(xml).toContain("<loc>https://www.example.com/en/a&amp;b</loc>");
+    expect(xml).toContain(
+      `<xhtml:link rel="alternate" hreflang="de" href="https://www.example.de/de/a&amp;b"/>`
+    );
+  });
+});
+
+describe("generateSitemap", () => {
+  it("writes a sitemap index and one sitemap per language", async () => {
+    const outputDir = path.join(tmpRoot, "public");
+    const result = await generateSitemap({ outputDir, remoteContext });
+
+    expect(result.excludedNoindex).toBe(1);
+    expect(result.sitemaps.map((s) => [s.language, s.url, s.urlCount])).toEqual([
+      ["en", "https://www.example.com/sitemap-en.xml", 2],
+      ["de", "https://www.example.de/sitemap-de.xml", 1],
+    ]);
+
+    const index = fs.readFileSync(path.join(outputDir, "sitemap.xml"), "utf8");
+    expect(index).toContain("<loc>https://www.example.com/sitemap-en.xml</loc>");
+    expect(index).toContain("<lastmod>2024-10-20T12:00:00.000Z</lastmod>");
+
+    const en = fs.readFileSync(path.join(outputDir, "sitemap-en.xml"), "utf8");
+    expect(en).not.toContain("/private");
+    expect(en).not.toContain("/draft");
+  });
+
+  it("writes nothing in dry run mode", async () => {
+    const outputDir = path.join(tmpRoot, "dry-run");
+    const result = await generateSitemap({ outputDir, remoteContext, dryRun: true });
+
+    expect(result.indexFile).toBe(path.join(outputDir, "sitemap.xml"));
+    expect(fs.existsSync(outputDir)).toBe(false);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Tests for sync history (src/scripts/sync-history.ts)
+ *
+ * Covers:
+ *  - Recording the local files changed by an operation, also when it fails
+ *  - Recording syncs run through runSync() while holding the sync lock
+ *  - Undoing a pull, refusing when files changed since (unless forced)
+ *  - Pruning old entries and their objects
+ *  - Recording only the remote items a push changed, and reading only the
+ *    local files whose size or modification time changed
+ *  - Undoing a push: pushing back the writable fields of updated items,
+ *    deleting created items and recreating deleted ones with new IDs
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-history-"));
+const mockHistoryConfig: { enabled?: boolean; limit?: number } = {};
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir: ".leadcms/content",
+    mediaDir: "public/media",
+    commentsDir: ".leadcms/comments",
+    emailTemplatesDir: ".leadcms/email-templates",
+    history: mockHistoryConfig,
+  }),
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+type MockEntity = "content" | "segments";
+type MockItem = Record<string, unknown> & { id?: number };
+
+const mockRemote: Record<MockEntity, MockItem[]> = { content: [], segments: [] };
+const mockObservers = new Set<RemoteChangeObserver>();
+let mockNextId = 100;
+
+/** Fake CRUD of the data service, reporting changes to observers like the real one */
+function mockCrud(entity: MockEntity) {
+  const notify = (id: number, item: MockItem | null) =>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockObservers.forEach((observer) => observer.changed(entity, id, item as any));
+  const before = async (id: number) => {
+    for (const observer of mockObservers) await observer.beforeChange(entity, id);
+  };
+  return {
+    list: async () => mockRemote[entity].map((item) => ({ ...item })),
+    get: async (id: number) => mockRemote[entity].find((item) => item.id === id) ?? null,
+    create: jest.fn(async (item: MockItem) => {
+      const created = { ...item, id: mockNextId++ };
+      mockRemote[entity].push(created);
+      notify(created.id, { ...created });
+      return created;
+    }),
+    update: jest.fn(async (id: number, item: MockItem) => {
+      await before(id);
+      mockRemote[entity] = mockRemote[entity].map((existing) =>
+        existing.id === id ? { ...existing, ...item } : existing
+      );
+      const updated = mockRemote[entity].find((existing) => existing.id === id)!;
+      notify(id, { ...updated });
+      return updated;
+    }),
+    remove: jest.fn(async (id: number) => {
+      await before(id);
+      mockRemote[entity] = mockRemote[entity].filter((existing) => existing.id !== id);
+      notify(id, null);
+    }),
+  };
+}
+
+const mockContent = mockCrud("content");
+const mockSegments = mockCrud("segments");
+const mockGetContentById = jest.fn(mockContent.get);
+
+jest.mock("../src/lib/data-service", () => ({
+  leadCMSDataService: {
+    configureForRemote: jest.fn(),
+    observeRemoteChanges: (observer: RemoteChangeObserver) => {
+      mockObservers.add(observer);
+      return () => mockObservers.delete(observer);
+    },
+    getAllContent: mockContent.list,
+    getContentById: mockGetContentById,
+    createContent: mockContent.create,
+    updateContent: mockContent.update,
+    deleteContent: mockContent.remove,
+    getAllSegments: mockSegments.list,
+    createSegment: mockSegments.create,
+    updateSegment: mockSegments.update,
+    deleteSegment: mockSegments.remove,
+  },
+}));
+
+import {
+  getHistoryEntry,
+  listHistory,
+  recordHistory,
+  runSync,
+  undoHistoryEntry,
+} from "../src/scripts/sync-history";
+import { leadCMSDataService, type RemoteChangeObserver } from "../src/lib/data-service";
+import { readSyncLock } from "../src/lib/sync-lock";
+
+const originalCwd = process.cwd();
+
+function write(relPath: string, body: string): void {
+  fs.mkdirSync(path.dirname(relPath), { recursive: true });
+  fs.writeFileSync(relPath, body);
+}
+
+function sha256(body: string): string {
+  return crypto.createHash("sha256").update(body).digest("hex");
+}
+
+function read(relPath: string): string | null {
+  return fs.existsSync(relPath) ? fs.readFileSync(relPath, "utf8") : null;
+}
+
+beforeAll(() => {
+  process.chdir(tmpRoot);
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  fs.rmSync(".leadcms", { recursive: true, force: true });
+  mockHistoryConfig.enabled = undefined;
+  mockHistoryConfig.limit = undefined;
+  mockRemote.content = [];
+  mockRemote.segments = [];
+  mockNextId = 100;
+  jest.clearAllMocks();
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("recordHistory", () => {
+  it("records added, modified and deleted files", async () => {
+    write(".leadcms/content/about.mdx", "About v1");
+    write(".leadcms/content/old.mdx", "Old");
+
+    const result = await recordHistory("pull-content", {}, async () => {
+      write(".leadcms/content/about.mdx", "About v2");
+      write(".leadcms/content/new.mdx", "New");
+      write(".leadcms/remotes/default/content-sync-token", "token-2");
+      fs.rmSync(".leadcms/content/old.mdx");
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    const [entry] = await listHistory();
+    expect(entry).toMatchObject({ command: "pull-content", kind: "pull", remote: null });
+    expect(entry.files.map((f) => [f.path, Boolean(f.before), Boolean(f.after)])).toEqual([
+      [".leadcms/content/about.mdx", true, true],
+      [".leadcms/content/new.mdx", false, true],
+      [".leadcms/content/old.mdx", true, false],
+      [".leadcms/remotes/default/content-sync-token", false, true],
+    ]);
+  });
+
+  it("records failed operations and skips unchanged or disabled ones", async () => {
+    write(".leadcms/content/about.mdx", "About v1");
+
+    await expect(
+      recordHistory("pull", {}, async () => {
+        write(".leadcms/content/about.mdx", "Half written");
+        throw new Error("Network error");
+      })
+    ).rejects.toThrow("Network error");
+    await recordHistory("pull", {}, async () => undefined);
+    await recordHistory("push", { dryRun: true }, async () => {
+      write(".leadcms/content/about.mdx", "Dry run");
+    });
+    mockHistoryConfig.enabled = false;
+    await recordHistory("pull", {}, async () => {
+      write(".leadcms/content/about.mdx", "Disabled");
+    });
+
+    const entries = await listHistory();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ command: "pull", error: "Network error" });
+  });
+
+  it("records syncs run through runSync while holding the sync lock", async () => {
+    const holder = await runSync("watch", {}, async () => {
+      write(".leadcms/content/about.mdx", "About from the server");
+      return readSyncLock();
+    });
+
+    expect(holder).toMatchObject({ pid: process.pid, command: "watch" });
+    const [entry] = await listHistory();
+    expect(entry).toMatchObject({ command: "watch", kind: "pull" });
+    expect(entry.files.map((change) => change.path)).toEqual([".leadcms/content/about.mdx"]);
+  });
+
+  it("keeps the newest entries and deletes unreferenced objects", async () => {
+    mockHistoryConfig.limit = 2;
+    for (let version = 1; version <= 4; version++) {
+      await recordHistory("pull", {}, async () => {
+        write(".leadcms/content/about.mdx", `About v${version}`);
+      });
+    }
+
+    const entries = await listHistory();
+    expect(entries).toHaveLength(2);
+    // Kept entries restore v2 and v3, v4 is the current version; v1 was only
+    // needed by the pruned entries
+    expect(fs.readdirSync(".leadcms/history/objects").sort()).toEqual(
+      ["About v2", "About v3", "About v4"].map((body) => sha256(body)).sort()
+    );
+  });
+
+  it("records only the items a push changed, fetching each once", async () => {
+    mockRemote.content = [
+      { id: 1, slug: "about", title: "About" },
+      { id: 2, slug: "contact", title: "Contact" },
+    ];
+
+    await recordHistory("push-content", { remoteEntities: ["content"] }, async () => {
+      await leadCMSDataService.updateContent(1, { title: "About v2" });
+      await leadCMSDataService.updateContent(1, { title: "About v3" });
+    });
+
+    const [entry] = await listHistory();
+    expect(entry.remoteChanges?.content).toEqual([
+      {
+        id: 1,
+        before: { id: 1, slug: "about", title: "About" },
+        after: { id: 1, slug: "about", title: "About v3" },
+      },
+    ]);
+    expect(mockGetContentById).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads only the local files whose size or modification time changed", async () => {
+    write(".leadcms/content/about.mdx", "About v1");
+    write(".leadcms/content/contact.mdx", "Contact");
+    await recordHistory("pull", {}, async () => {
+      write(".leadcms/content/about.mdx", "About v2");
+    });
+    const readFile = jest.spyOn(fs.promises, "readFile");
+
+    await recordHistory("pull", {}, async () => {
+      write(".leadcms/content/about.mdx", "About v3");
+    });
+
+    const readPaths = readFile.mock.calls
+      .map(([file]) => path.relative(tmpRoot, fs.realpathSync(String(file))))
+      .filter((file) => !file.startsWith(path.join(".leadcms", "history")));
+    readFile.mockRestore();
+    expect(readPaths).toEqual([path.join(".leadcms", "content", "about.mdx")]);
+  });
+});
+
+describe("undoHistoryEntry", () => {
+  it("restores the files changed by a pull", async () => {
+    write(".leadcms/content/about.mdx", "About v1");
+    await recordHistory("pull", {}, async () => {
+      write(".leadcms/content/about.mdx", "About v2");
+      write(".leadcms/content/new.mdx", "New");
+    });
+    const [entry] = await listHistory();
+
+    const result = await undoHistoryEntry(entry.id.slice(0, 10));
+
+    expect(result).toMatchObject({ restoredFiles: 2, revertedRemoteItems: 0 });
+    expect(read(".leadcms/content/about.mdx")).toBe("About v1");
+    expect(read(".leadcms/content/new.mdx")).toBeNull();
+    expect((await getHistoryEntry(entry.id)).undoneAt).toBeDefined();
+    await expect(undoHistoryEntry(entry.id)).rejects.toMatchObject({ name: "HistoryConflict" });
+  });
+
+  it("refuses to overwrite files changed since, unless forced", async () => {
+    write(".leadcms/content/about.mdx", "About v1");
+    await recordHistory("pull", {}, async () => {
+      write(".leadcms/content/about.mdx", "About v2");
+    });
+    const [entry] = await listHistory();
+    write(".leadcms/content/about.mdx", "Edited after pull");
+
+    await expect(undoHistoryEntry(entry.id)).rejects.toMatchObject({
+      name: "HistoryConflict",
+      message: expect.stringContaining(".leadcms/content/about.mdx"),
+    });
+    expect(read(".leadcms/content/about.mdx")).toBe("Edited after pull");
+
+    await undoHistoryEntry(entry.id, { force: true });
+    expect(read(".leadcms/content/about.mdx")).toBe("About v1");
+  });
+
+  it("throws HistoryEntryNotFound for unknown IDs", async () => {
+    await expect(getHistoryEntry("nope")).rejects.toMatchObject({
+      name: "HistoryEntryNotFound",
+    });
+  });
+
+  it("pushes back the previous remote state of a push", async () => {
+    const about = { id: 1, slug: "about", title: "About", updatedAt: "2026-01-01T00:00:00Z" };
+    mockRemote.content = [about];
+
+    await recordHistory("push-content", { remoteEntities: ["content"] }, async () => {
+      await leadCMSDataService.updateContent(1, {
+        title: "About pushed",
+        updatedAt: "2026-02-01T00:00:00Z",
+      });
+      await leadCMSDataService.createContent({ slug: "new", title: "New" });
+    });
+    const [entry] = await listHistory();
+    expect(entry.kind).toBe("push");
+    expect(entry.remoteChanges?.content?.map((c) => c.id)).toEqual([1, 100]);
+    jest.clearAllMocks();
+
+    const result = await undoHistoryEntry(entry.id);
+
+    expect(result).toMatchObject({ revertedRemoteItems: 2, recreatedRemoteItems: 0 });
+    expect(mockContent.update).toHaveBeenCalledWith(1, { slug: "about", title: "About" });
+    expect(mockContent.remove).toHaveBeenCalledWith(100);
+  });
+
+  it("pushes back only the fields the API accepts for updates", async () => {
+    const segment = {
+      id: 7,
+      name: "Customers",
+      type: "Static",
+      contactIds: [1, 2],
+      contactCount: 2,
+      createdAt: "2026-01-01T00:00:00Z",
+    };
+    mockRemote.segments = [segment];
+    await recordHistory("push-segments", { remoteEntities: ["segments"] }, async () => {
+      await leadCMSDataService.updateSegment(7, { contactIds: [1, 2, 3] });
+    });
+    const [entry] = await listHistory();
+    jest.clearAllMocks();
+
+    await undoHistoryEntry(entry.id);
+
+    expect(mockSegments.update).toHaveBeenCalledWith(7, {
+      name: "Customers",
+      description: undefined,
+      definition: undefined,
+      contactIds: [1, 2],
+    });
+  });
+
+  it("recreates deleted items and updates local files and metadata to their new IDs", async () => {
+    const legacy = {
+      id: 2,
+      slug: "legacy",
+      title: "Legacy",
+      createdAt: "2026-01-01T00:00:00Z",
+      updatedAt: "2026-01-01T00:00:00Z",
+    };
+    mockRemote.content = [legacy];
+    write(".leadcms/content/legacy.mdx", "---\nid: 2\ntitle: Legacy\n---\n");
+    const metadata = { content: { en: { legacy: { id: 2, updatedAt: legacy.updatedAt } } } };
+    write(".leadcms/remotes/default/metadata.json", JSON.stringify(metadata));
+
+    await recordHistory("push-content", { remoteEntities: ["content"] }, async () => {
+      fs.rmSync(".leadcms/content/legacy.mdx");
+      await leadCMSDataService.deleteContent(2);
+      write(".leadcms/remotes/default/metadata.json", JSON.stringify({ content: {} }));
+    });
+    const [entry] = await listHistory();
+
+    const result = await undoHistoryEntry(entry.id);
+
+    expect(result).toMatchObject({ revertedRemoteItems: 1, recreatedRemoteItems: 1 });
+    expect(mockContent.create).toHaveBeenCalledWith({ slug: "legacy", title: "Legacy" });
+    expect(mockRemote.content).toEqual([{ slug: "legacy", title: "Legacy", id: 100 }]);
+    expect(read(".leadcms/content/legacy.mdx")).toBe("---\nid: 100\ntitle: Legacy\n---\n");
+    expect(JSON.parse(read(".leadcms/remotes/default/metadata.json")!).content).toEqual({
+      en: { legacy: { id: 100 } },
+    });
+  });
+
+  it("refuses to undo a push when remote items changed since", async () => {
+    mockRemote.content = [{ id: 1, slug: "about", title: "About" }];
+    await recordHistory("push-content", { remoteEntities: ["content"] }, async () => {
+      await leadCMSDataService.updateContent(1, { title: "About pushed" });
+    });
+    const [entry] = await listHistory();
+    mockRemote.content = [{ id: 1, slug: "about", title: "Edited in the CMS" }];
+    jest.clearAllMocks();
+
+    await expect(undoHistoryEntry(entry.id)).rejects.toMatchObject({
+      name: "HistoryConflict",
+      message: expect.stringContaining("content #1"),
+    });
+    expect(mockContent.update).not.toHaveBeenCalled();
+  });
+});
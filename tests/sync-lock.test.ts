@@ -0,0 +1,231 @@
+/**
+ * Tests for locking of sync commands (src/lib/sync-lock.ts)
+ *
+ * Covers:
+ *  - Holding .leadcms/sync.lock while an operation runs, also when it fails
+ *  - Refusing or waiting while another run holds the lock
+ *  - Taking over stale locks, by one of several concurrent runs only
+ *  - The optional server-side push lock
+ */
+
+import { spawnSync } from "child_process";
+import fs from "fs";
+import fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "leadcms-lock-"));
+const mockLockConfig: { enabled?: boolean; remote?: boolean; staleAfter?: number } = {};
+
+jest.mock("../src/lib/config", () => ({
+  getConfig: () => ({
+    url: "https://test.leadcms.com",
+    defaultLanguage: "en",
+    contentDir: ".leadcms/content",
+    lock: mockLockConfig,
+  }),
+}));
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+const mockAcquireLock = jest.fn();
+const mockReleaseLock = jest.fn();
+
+jest.mock("../src/lib/data-service", () => ({
+  leadCMSDataService: {
+    configureForRemote: jest.fn(),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    acquireLock: (...args: any[]) => mockAcquireLock(...args),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    releaseLock: (...args: any[]) => mockReleaseLock(...args),
+  },
+}));
+
+import {
+  isStaleSyncLock,
+  readSyncLock,
+  withSyncLock,
+  type SyncLockInfo,
+} from "../src/lib/sync-lock";
+
+const LOCK_FILE = ".leadcms/sync.lock";
+const originalCwd = process.cwd();
+
+function writeLock(info: Partial<SyncLockInfo>): void {
+  fs.mkdirSync(".leadcms", { recursive: true });
+  fs.writeFileSync(
+    LOCK_FILE,
+    JSON.stringify({
+      pid: process.ppid,
+      hostname: os.hostname(),
+      command: "pull",
+      acquiredAt: new Date().toISOString(),
+      ...info,
+    })
+  );
+}
+
+beforeAll(() => {
+  process.chdir(tmpRoot);
+});
+
+beforeEach(() => {
+  fs.rmSync(".leadcms", { recursive: true, force: true });
+  mockLockConfig.enabled = undefined;
+  mockLockConfig.remote = undefined;
+  mockLockConfig.staleAfter = undefined;
+  mockAcquireLock.mockResolvedValue("acquired");
+  mockReleaseLock.mockResolvedValue(undefined);
+  jest.clearAllMocks();
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe("withSyncLock", () => {
+  it("holds the lockfile while the operation runs", async () => {
+    const held = await withSyncLock("pull-content", {}, () => readSyncLock());
+
+    expect(held).toMatchObject({
+      pid: process.pid,
+      hostname: os.hostname(),
+      command: "pull-content",
+    });
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+
+    await expect(
+      withSyncLock("pull", {}, async () => {
+        throw new Error("Network error");
+      })
+    ).rejects.toThrow("Network error");
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+  });
+
+  it("refuses to run while another process holds the lock", async () => {
+    writeLock({ command: "push" });
+    const run = jest.fn();
+
+    await expect(withSyncLock("pull", {}, run)).rejects.toMatchObject({
+      name: "SyncLocked",
+      message: expect.stringContaining(`leadcms push (pid ${process.ppid}`),
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(await readSyncLock()).toMatchObject({ command: "push" });
+  });
+
+  it("waits for the lock to be released", async () => {
+    writeLock({ command: "push" });
+    setTimeout(() => fs.rmSync(LOCK_FILE), 100);
+
+    await expect(withSyncLock("pull", { waitMs: 5000 }, async () => "done")).resolves.toBe("done");
+  });
+
+  it("takes over locks of processes that are no longer running", async () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeLock({ pid: deadPid });
+
+    await expect(withSyncLock("pull", {}, async () => "done")).resolves.toBe("done");
+  });
+
+  it("lets only one of two concurrent runs take over a stale lock", async () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeLock({ pid: deadPid });
+    // The second run reads the stale lock, but acts on it only once the first
+    // run took it over and is running
+    let firstRunStarted!: () => void;
+    const started = new Promise<void>((resolve) => (firstRunStarted = resolve));
+    const originalReadFile = fsPromises.readFile;
+    let reads = 0;
+    const readSpy = jest.spyOn(fsPromises, "readFile").mockImplementation((async (
+      ...readArgs: Parameters<typeof fsPromises.readFile>
+    ) => {
+      const data = await originalReadFile(...readArgs);
+      if (++reads === 2) {
+        await Promise.race([started, new Promise((resolve) => setTimeout(resolve, 1000))]);
+      }
+      return data;
+    }) as typeof fsPromises.readFile);
+    let running = 0;
+    let maxRunning = 0;
+    const run = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      firstRunStarted();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      running--;
+    };
+
+    const results = await Promise.allSettled([
+      withSyncLock("pull", {}, run),
+      withSyncLock("push", {}, run),
+    ]);
+    readSpy.mockRestore();
+
+    expect(maxRunning).toBe(1);
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({
+      reason: { name: "SyncLocked" },
+    });
+    expect(fs.existsSync(`${LOCK_FILE}.takeover`)).toBe(false);
+  });
+
+  it("reuses the lock in nested calls and takes none on dry runs or when disabled", async () => {
+    await withSyncLock("push", {}, () => withSyncLock("pull", {}, async () => undefined));
+
+    writeLock({ command: "push" });
+    await expect(withSyncLock("push", { dryRun: true }, async () => "dry")).resolves.toBe("dry");
+    mockLockConfig.enabled = false;
+    await expect(withSyncLock("pull", {}, async () => "off")).resolves.toBe("off");
+  });
+});
+
+describe("isStaleSyncLock", () => {
+  it("uses the age for locks of other hosts", () => {
+    mockLockConfig.staleAfter = 30;
+    const now = new Date("2026-10-19T12:00:00Z");
+    const lock = { pid: 1, hostname: "ci-runner", command: "push" };
+
+    expect(isStaleSyncLock({ ...lock, acquiredAt: "2026-10-19T11:45:00Z" }, now)).toBe(false);
+    expect(isStaleSyncLock({ ...lock, acquiredAt: "2026-10-19T11:15:00Z" }, now)).toBe(true);
+  });
+});
+
+describe("server-side push lock", () => {
+  it("is taken and released around pushes when enabled", async () => {
+    mockLockConfig.remote = true;
+
+    await withSyncLock("pull", { remote: false }, async () => undefined);
+    expect(mockAcquireLock).not.toHaveBeenCalled();
+
+    await withSyncLock("push", { remote: true }, async () => undefined);
+    expect(mockAcquireLock).toHaveBeenCalledWith("leadcms-push");
+    expect(mockReleaseLock).toHaveBeenCalledWith("leadcms-push");
+  });
+
+  it("refuses to push while another client holds it", async () => {
+    mockLockConfig.remote = true;
+    mockAcquireLock.mockResolvedValue("held");
+    const run = jest.fn();
+
+    await expect(withSyncLock("push", { remote: true }, run)).rejects.toMatchObject({
+      name: "SyncLocked",
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(mockReleaseLock).not.toHaveBeenCalled();
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+  });
+
+  it("pushes without it on servers without the endpoint", async () => {
+    mockLockConfig.remote = true;
+    mockAcquireLock.mockResolvedValue("unsupported");
+
+    await expect(withSyncLock("push", { remote: true }, async () => "pushed")).resolves.toBe(
+      "pushed"
+    );
+    expect(mockReleaseLock).not.toHaveBeenCalled();
+  });
+});
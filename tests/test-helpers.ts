@@ -4,6 +4,7 @@
  * Provides:
  *  - createTestConfig / createDataServiceMock / createAxiosMock — low-level mocks
  *  - createSyncTestHarness — high-level harness for pull integration tests
+ *  - createContentFixture — temporary content directory for read API tests
  *  - listContentFiles / listAllFiles — filesystem assertions
  *
  * Usage (pull integration test):
@@ -20,7 +21,9 @@
  */
 
 import path from "path";
+import os from "os";
 import fs from "fs/promises";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
 
 // ── Low-level mock factories ───────────────────────────────────────────
 
@@ -479,3 +482,76 @@ export function createSyncTestHarness(options: SyncTestHarnessOptions) {
     },
   };
 }
+
+// ── Content read API fixture ───────────────────────────────────────────
+
+interface ContentFixtureOptions {
+  /** Extra getConfig() fields, e.g. siteUrl, languageDomains, localeFallbacks */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  config?: Record<string, any>;
+  /** Frontmatter of every written file unless overridden. Defaults to a publishedAt date. */
+  frontmatterDefaults?: Record<string, unknown>;
+}
+
+/**
+ * Temporary content directory and config module mock for tests of the read
+ * API (cms.ts and the helpers built on it).
+ *
+ * Usage:
+ *   const fixture = createContentFixture("search", { config: { siteUrl } });
+ *   const { contentDir, writeContent } = fixture;
+ *
+ *   // At module level (the factory runs when the tested modules are imported):
+ *   jest.mock("../src/lib/config", () => fixture.configModule);
+ *
+ *   // In beforeAll:
+ *   writeContent("blog/hello", { type: "blog-article", title: "Hello" });
+ *
+ *   // In afterAll:
+ *   fixture.cleanup();
+ */
+export function createContentFixture(name: string, options: ContentFixtureOptions = {}) {
+  const tmpRoot = mkdtempSync(path.join(os.tmpdir(), `leadcms-${name}-`));
+  const contentDir = path.join(tmpRoot, "content");
+  const frontmatterDefaults = options.frontmatterDefaults ?? {
+    publishedAt: "2024-10-01T00:00:00Z",
+  };
+
+  const fixture = {
+    tmpRoot,
+    contentDir,
+    config: {
+      url: "https://test.leadcms.com",
+      defaultLanguage: "en",
+      contentDir,
+      commentsDir: path.join(tmpRoot, "comments"),
+      mediaDir: path.join(tmpRoot, "media"),
+      enableDrafts: false,
+      ...options.config,
+    },
+    /** Returned by the mocked isPreviewMode() */
+    previewMode: false,
+    /** Replacement for src/lib/config, reading the fixture on every call */
+    configModule: {
+      getConfig: () => fixture.config,
+      isPreviewMode: () => fixture.previewMode,
+    },
+
+    /** Write `<relPath>.mdx` below contentDir and return its path */
+    writeContent(relPath: string, frontmatter: Record<string, unknown>, body = "Body"): string {
+      const lines = Object.entries({ ...frontmatterDefaults, ...frontmatter }).map(
+        ([key, value]) => `${key}: ${JSON.stringify(value)}`
+      );
+      const filePath = path.join(contentDir, `${relPath}.mdx`);
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(filePath, `---\n${lines.join("\n")}\n---\n${body}`);
+      return filePath;
+    },
+
+    cleanup(): void {
+      rmSync(tmpRoot, { recursive: true, force: true });
+    },
+  };
+
+  return fixture;
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for the Vite dev-server plugin (src/lib/vite-plugin.ts)
+ *
+ * Covers:
+ *  - Watching contentDir and commentsDir
+ *  - Cache invalidation, the content-update event and the debounced reload
+ *
+ * Vite is not needed: the dev server is an in-memory fake.
+ */
+
+jest.mock("../src/lib/logger", () => ({
+  logger: { verbose: jest.fn(), debug: jest.fn() },
+}));
+
+import path from "path";
+import * as contentWatch from "../src/lib/content-watch";
+import {
+  CONTENT_UPDATE_EVENT,
+  leadcmsVitePlugin,
+  type ViteDevServerLike,
+} from "../src/lib/vite-plugin";
+import { FIXTURES_CONTENT_DIR } from "./setup";
+
+type Listener = (file: string) => void;
+
+function createServer(root: string) {
+  const listeners: Record<string, Listener[]> = {};
+  const server = {
+    config: { root },
+    watcher: {
+      add: jest.fn(),
+      on: (event: string, listener: Listener) => {
+        (listeners[event] ??= []).push(listener);
+      },
+    },
+    ws: { send: jest.fn() },
+    moduleGraph: { invalidateAll: jest.fn() },
+  } satisfies ViteDevServerLike;
+  const emit = (event: string, file: string) => listeners[event]?.forEach((l) => l(file));
+  return { server, emit };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("leadcmsVitePlugin", () => {
+  it("only applies to the dev server and watches the LeadCMS directories", () => {
+    const plugin = leadcmsVitePlugin();
+    expect(plugin).toMatchObject({ name: "leadcms", apply: "serve" });
+
+    const { server } = createServer(process.cwd());
+    plugin.configureServer(server);
+    expect(server.watcher.add).toHaveBeenCalledWith(
+      expect.arrayContaining([path.resolve(FIXTURES_CONTENT_DIR)])
+    );
+  });
+
+  it("clears caches and reloads once after a burst of changes", () => {
+    const invalidateSpy = jest.spyOn(contentWatch, "invalidateContentCache");
+    const root = path.resolve(FIXTURES_CONTENT_DIR, "..");
+    const { server, emit } = createServer(root);
+    leadcmsVitePlugin({ dirs: [FIXTURES_CONTENT_DIR], debounceMs: 50 }).configureServer(server);
+
+    emit("change", path.join(FIXTURES_CONTENT_DIR, "about.mdx"));
+    emit("add", path.join(FIXTURES_CONTENT_DIR, "blog", "new.mdx"));
+    emit("change", path.join(root, "vite.config.ts"));
+
+    expect(invalidateSpy.mock.calls).toEqual([
+      [path.join(FIXTURES_CONTENT_DIR, "about.mdx")],
+      [path.join(FIXTURES_CONTENT_DIR, "blog", "new.mdx")],
+    ]);
+    expect(server.ws.send).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(50);
+    const dir = path.basename(FIXTURES_CONTENT_DIR);
+    expect(server.moduleGraph.invalidateAll).toHaveBeenCalledTimes(1);
+    expect(server.ws.send.mock.calls).toEqual([
+      [
+        {
+          type: "custom",
+          event: CONTENT_UPDATE_EVENT,
+          data: { files: [`${dir}/about.mdx`, `${dir}/blog/new.mdx`] },
+        },
+      ],
+      [{ type: "full-reload" }],
+    ]);
+  });
+
+  it("can leave reloading to the client", () => {
+    const { server, emit } = createServer(process.cwd());
+    leadcmsVitePlugin({ dirs: [FIXTURES_CONTENT_DIR], fullReload: false }).configureServer(server);
+
+    emit("unlink", path.join(FIXTURES_CONTENT_DIR, "about.mdx"));
+    jest.advanceTimersByTime(100);
+    expect(server.ws.send).toHaveBeenCalledTimes(1);
+    expect(server.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "custom", event: CONTENT_UPDATE_EVENT })
+    );
+  });
+});
@@ -149,7 +149,10 @@ describe("Watch mode: forceOverwrite prevents merge conflicts", () => {
     // Pull 2: V2 arrives with base=V1 — should trigger three-way merge
     // V2 changes title+description+body, local only changed body → conflict on body
     harness.addContentSync([v2], [], "token-2", { "100": v1 });
-    await pullLeadCMSContent(); // no forceOverwrite
+    const pulled = await pullLeadCMSContent(); // no forceOverwrite
+
+    // Only the file this pull merged with conflicts is reported
+    expect(pulled).toEqual({ changes: 1, conflictedFiles: ["watch-test.mdx"] });
 
     const result = await fsPromises.readFile(localFile, "utf8");
     // The merge should have run — result should contain the updated title from remote
@@ -334,7 +337,8 @@ describe("Watch mode: default (no forceOverwrite) preserves merge behavior", ()
 
     // Pull 2: V2 changes title + description but keeps the same body
     harness.addContentSync([v2], [], "token-2", { "400": v1 });
-    await pullLeadCMSContent(); // no forceOverwrite — should merge
+    const pulled = await pullLeadCMSContent(); // no forceOverwrite — should merge
+    expect(pulled).toEqual({ changes: 1, conflictedFiles: [] });
 
     const result = await fsPromises.readFile(localFile, "utf8");
     // Should have remote title and local body (auto-merged)